@@ -0,0 +1,325 @@
+import type { LowCompetitionBid, ReportData, WinRecord } from '../supabase/functions/_shared/reportSchema.ts';
+
+// Fixture datasets served by the mock tender-analytics backend. Each one targets a
+// shape the PDF generator has to cope with. Large datasets are generated from a
+// seeded PRNG so every run (and every PDF built from them) is identical.
+
+export interface MockReportParams {
+  sellerName: string;
+  department?: string;
+  departments?: string[];
+  ministries?: string[];
+  organisations?: string[];
+  offeredItem: string;
+  offeredItems?: string[];
+  days: number;
+  limit: number;
+  email: string;
+  competitorName?: string;
+}
+
+export interface MockFixture {
+  id: string;
+  sellerName: string;
+  description: string;
+  build: (params: MockReportParams) => ReportData;
+}
+
+// Fixed so fixture output never depends on when it was generated
+const GENERATED_AT = '2025-01-15T10:30:00.000Z';
+
+const DEPARTMENTS = [
+  'Ministry of Defence',
+  'Ministry of Railways',
+  'Ministry of Health and Family Welfare',
+  'Department of Telecommunications',
+  'Ministry of Power',
+  'Ministry of Road Transport and Highways',
+  'Department of Space',
+  'Ministry of Home Affairs',
+];
+
+const ORGS = [
+  'Indian Army',
+  'Northern Railway',
+  'AIIMS New Delhi',
+  'Bharat Sanchar Nigam Limited',
+  'NTPC Limited',
+  'National Highways Authority of India',
+  'ISRO Satellite Centre',
+  'Central Reserve Police Force',
+  'Western Coalfields Limited',
+  'Kendriya Vidyalaya Sangathan',
+];
+
+const STATES = [
+  'Maharashtra', 'Uttar Pradesh', 'Karnataka', 'Tamil Nadu', 'Gujarat',
+  'Delhi', 'West Bengal', 'Rajasthan', 'Telangana', 'Madhya Pradesh',
+  'Kerala', 'Odisha', 'Punjab', 'Bihar', 'Assam',
+];
+
+const SELLERS = [
+  'Apex Industrial Supplies',
+  'Bharat Engineering Works',
+  'Sunrise Traders',
+  'Metro Office Solutions',
+  'Krishna Enterprises',
+];
+
+// mulberry32: small, fast and good enough for fixture data
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const pick = <T,>(random: Random, items: T[]) => items[Math.floor(random() * items.length)];
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+const daysBefore = (days: number) =>
+  new Date(Date.parse(GENERATED_AT) - days * 24 * 60 * 60 * 1000).toISOString();
+
+const buildWins = (random: Random, count: number, prefix: string, withinDays = 90): WinRecord[] =>
+  Array.from({ length: count }, (_, index) => {
+    const quantity = randomInt(random, 1, 500);
+    return {
+      bid_number: `GEM/2024/B/${prefix}${String(4_500_000 + index * 37).padStart(7, '0')}`,
+      org: pick(random, ORGS),
+      dept: pick(random, DEPARTMENTS),
+      ministry: pick(random, DEPARTMENTS),
+      quantity,
+      total_price: quantity * randomInt(random, 800, 45_000),
+      ended_at: daysBefore(randomInt(random, 1, withinDays)),
+    };
+  });
+
+const buildLowCompetitionBids = (random: Random, count: number): LowCompetitionBid[] =>
+  buildWins(random, count, 'L').map((bid) => ({ ...bid, bidders_count: randomInt(random, 1, 2) }));
+
+const summarize = (wins: WinRecord[]) => {
+  const prices = wins.map((win) => win.total_price || 0);
+  return prices.length > 0
+    ? {
+        highest: Math.max(...prices),
+        lowest: Math.min(...prices),
+        average: Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length),
+      }
+    : { highest: 0, lowest: 0, average: 0 };
+};
+
+const buildStates = (random: Random, count: number) =>
+  STATES.slice(0, count)
+    .map((state) => ({ state, value: randomInt(random, 5, 900) * 100_000, count: randomInt(random, 1, 120) }))
+    .sort((a, b) => b.value - a.value);
+
+const buildAffinity = (random: Random, count: number) => ({
+  org_affinity: ORGS.slice(0, count).map((org) => ({ org, signal: `${randomInt(random, 2, 30)} wins in the period` })),
+  dept_affinity: DEPARTMENTS.slice(0, count).map((dept) => ({ dept, signal: `${randomInt(random, 2, 30)} wins in the period` })),
+  ministry_affinity: DEPARTMENTS.slice(0, count).map((ministry) => ({ ministry, signal: 'Repeat buyer' })),
+  quantity_ranges: count > 0 ? ['1-50 units', '51-200 units', '200+ units'].slice(0, count) : [],
+  price_ranges: count > 0 ? ['₹10,000 - ₹1,00,000', '₹1,00,000 - ₹10,00,000'].slice(0, count) : [],
+});
+
+interface DatasetShape {
+  seed: number;
+  recentWins: number;
+  marketWins: number;
+  lowCompetition: number;
+  states: number;
+  affinity: number;
+}
+
+// Tenders both sellers bid on, with each side's price and the winner. Drawn from a
+// generator of its own so comparison mode leaves the rest of the dataset unchanged.
+const buildHeadToHead = (
+  params: MockReportParams,
+  shape: DatasetShape,
+  competitor: string,
+  offeredItems: string[],
+): ReportData['data']['headToHead'] => {
+  const random = createRandom(shape.seed + 1_000);
+  const competitorWins = buildWins(random, Math.ceil(shape.marketWins / 2), 'C', params.days);
+  const items = offeredItems.length > 0 ? offeredItems : ['Unspecified item'];
+
+  return {
+    competitor,
+    competitorWins,
+    competitorStates: buildStates(random, shape.states),
+    competitorCategories: items.map((category) => ({
+      category,
+      count: randomInt(random, 1, 40),
+      value: randomInt(random, 1, 200) * 100_000,
+    })),
+    sharedBids: Array.from({ length: Math.min(shape.recentWins + shape.marketWins, 25) }, (_, index) => {
+      const ourPrice = randomInt(random, 800, 45_000);
+      return {
+        ...buildWins(random, 1, 'H', params.days)[0],
+        bid_number: `GEM/2024/B/H${String(4_600_000 + index * 41).padStart(7, '0')}`,
+        state: pick(random, STATES),
+        item: pick(random, items),
+        our_price: ourPrice,
+        competitor_price: Math.round(ourPrice * (0.8 + random() * 0.4)),
+        winner: index % 5 === 4 ? null : pick(random, [params.sellerName, competitor, competitor, pick(random, SELLERS)]),
+      };
+    }),
+  };
+};
+
+// Move every tender into the requested departments, in turn, as a backend filtering
+// by department would. Leaves the generated values alone so totals don't change.
+const scopeToDepartments = (report: ReportData, departments: string[]) => {
+  const { missedButWinnable, lowCompetitionBids, topSellersByDept } = report.data;
+  [missedButWinnable.recentWins, missedButWinnable.marketWins, lowCompetitionBids?.results ?? [], topSellersByDept ?? []]
+    .forEach((records: { dept?: string | null }[]) => records.forEach((record, index) => {
+      record.dept = departments[index % departments.length];
+    }));
+  return report;
+};
+
+const buildDataset = (params: MockReportParams, shape: DatasetShape): ReportData => {
+  const random = createRandom(shape.seed);
+  const recentWins = buildWins(random, shape.recentWins, 'R', params.days);
+  // Sellers are assigned in turn rather than drawn, so the other fixture data stays as it was
+  const marketWins = buildWins(random, shape.marketWins, 'M', params.days)
+    .map((win, index) => ({ ...win, seller: SELLERS[index % SELLERS.length] }));
+  const lowCompetitionResults = buildLowCompetitionBids(random, shape.lowCompetition);
+  const offeredItems = params.offeredItems ?? params.offeredItem.split(',').map((item) => item.trim()).filter(Boolean);
+
+  const report: ReportData = {
+    meta: {
+      report_generated_at: GENERATED_AT,
+      params_used: { ...params },
+    },
+    data: {
+      sellerBids: recentWins,
+      estimatedMissedValue: marketWins.reduce((sum, win) => sum + (win.total_price || 0), 0),
+      priceBand: summarize([...recentWins, ...marketWins]),
+      topPerformingStates: buildStates(random, shape.states),
+      topSellersByDept: SELLERS.slice(0, shape.affinity).map((seller) => ({
+        seller,
+        dept: pick(random, DEPARTMENTS),
+        value: randomInt(random, 10, 500) * 100_000,
+      })),
+      categoryListing: offeredItems.map((category) => ({
+        category,
+        count: randomInt(random, 1, 60),
+        value: randomInt(random, 1, 300) * 100_000,
+      })),
+      allDepartments: DEPARTMENTS.map((department) => ({
+        department,
+        total_tenders: randomInt(random, 50, 5_000),
+      })),
+      lowCompetitionBids: {
+        results: lowCompetitionResults,
+        count: lowCompetitionResults.length,
+        generated_at: GENERATED_AT,
+      },
+      missedButWinnable: {
+        seller: params.sellerName,
+        recentWins,
+        marketWins,
+        ai: {
+          strategy_summary: recentWins.length > 0
+            ? `${params.sellerName} wins most often with repeat buyers in ${recentWins[0].dept}. Similar tenders from neighbouring departments are being won by competitors at comparable prices.`
+            : `${params.sellerName} has no recorded wins in the last ${params.days} days. Start with low-competition tenders to build a track record.`,
+          likely_wins: offeredItems.slice(0, 3).map((offered_item) => ({
+            offered_item,
+            reason: 'Comparable quantities were recently awarded at prices within your range.',
+            matching_market_wins: marketWins.slice(0, 3).map((win) => ({
+              bid_number: win.bid_number,
+              org: win.org,
+              dept: win.dept,
+              quantity: win.quantity,
+              price_hint: win.total_price,
+              confidence: pick(random, ['high', 'medium', 'low']),
+            })),
+          })),
+          signals: buildAffinity(random, shape.affinity),
+          guidance: {
+            note: 'Generated by the mock backend for local development.',
+            next_steps: ['Register with the top buyers listed above', 'Track tenders closing in the next 14 days'],
+            expansion_areas: DEPARTMENTS.slice(0, Math.min(shape.affinity, 3)),
+          },
+        },
+      },
+      ...(params.competitorName?.trim()
+        ? { headToHead: buildHeadToHead(params, shape, params.competitorName.trim(), offeredItems) }
+        : {}),
+    },
+  };
+
+  return params.departments?.length ? scopeToDepartments(report, params.departments) : report;
+};
+
+// The first fixture is the fallback for unknown seller names
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    id: 'typical',
+    sellerName: 'Mock Typical Seller',
+    description: 'A moderately active seller with some wins in every section',
+    build: (params) => buildDataset(params, { seed: 1, recentWins: 12, marketWins: 18, lowCompetition: 8, states: 8, affinity: 4 }),
+  },
+  {
+    id: 'sparse',
+    sellerName: 'Mock Sparse Seller',
+    description: 'Two wins and almost no supporting signals',
+    build: (params) => buildDataset(params, { seed: 2, recentWins: 2, marketWins: 1, lowCompetition: 1, states: 1, affinity: 1 }),
+  },
+  {
+    id: 'heavy',
+    sellerName: 'Mock Heavy Seller',
+    description: 'Hundreds of wins across every department and state',
+    build: (params) => buildDataset(params, { seed: 3, recentWins: 400, marketWins: 600, lowCompetition: 60, states: 15, affinity: 10 }),
+  },
+  {
+    id: 'no-wins',
+    sellerName: 'Mock No Wins Seller',
+    description: 'No wins at all: empty tables, zero totals and no signals',
+    build: (params) => buildDataset(params, { seed: 4, recentWins: 0, marketWins: 0, lowCompetition: 0, states: 0, affinity: 0 }),
+  },
+  {
+    id: 'low-competition',
+    sellerName: 'Mock Low Competition Seller',
+    description: 'A very long list of single-bidder and low-competition tenders',
+    build: (params) => buildDataset(params, { seed: 5, recentWins: 10, marketWins: 15, lowCompetition: 2_500, states: 6, affinity: 3 }),
+  },
+  {
+    id: 'unicode',
+    sellerName: 'मॉक यूनिकोड विक्रेता',
+    description: 'Hindi, Tamil and accented organisation and department names',
+    build: (params) => {
+      const report = buildDataset(params, { seed: 6, recentWins: 8, marketWins: 10, lowCompetition: 5, states: 5, affinity: 4 });
+      const orgs = ['भारतीय रेल', 'சென்னை மாநகராட்சி', 'Société Générale de Défense', 'ಬೆಂಗಳೂರು ಜಲಮಂಡಳಿ'];
+      const depts = ['रक्षा मंत्रालय', 'தொலைத்தொடர்புத் துறை', 'Ministère de la Santé'];
+      const relabel = (win: WinRecord, index: number) => {
+        win.org = orgs[index % orgs.length];
+        win.dept = depts[index % depts.length];
+      };
+
+      const { missedButWinnable, lowCompetitionBids } = report.data;
+      missedButWinnable.recentWins.forEach(relabel);
+      missedButWinnable.marketWins.forEach(relabel);
+      lowCompetitionBids?.results.forEach(relabel);
+      missedButWinnable.ai.signals.org_affinity.forEach((entry, index) => { entry.org = orgs[index % orgs.length]; });
+      missedButWinnable.ai.signals.dept_affinity.forEach((entry, index) => { entry.dept = depts[index % depts.length]; });
+      return report;
+    },
+  },
+];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Pick the fixture for a seller name. Matches a fixture's seller name or id
+ * ("heavy", "no-wins", ...); anything else gets the typical dataset.
+ */
+export const findFixture = (sellerName: string) =>
+  MOCK_FIXTURES.find((fixture) => normalize(fixture.sellerName) === normalize(sellerName) || fixture.id === normalize(sellerName))
+    ?? MOCK_FIXTURES[0];
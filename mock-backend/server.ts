@@ -0,0 +1,110 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { summarizeIssues, validateReportData } from '../supabase/functions/_shared/reportSchema.ts';
+import { findFixture, MOCK_FIXTURES, type MockReportParams } from './fixtures.ts';
+
+// Local stand-in for the tender-analytics backend. Implements the POST /api/pdf
+// contract proxy-pdf forwards to, answering with fixture data picked by seller name.
+//
+//   npm run mock-backend
+//
+// Point proxy-pdf at it with REPORT_BACKEND_LOCAL_URL and VITE_REPORT_BACKEND=local.
+// Requests naming a competitorName also get a generated headToHead comparison.
+// A few seller names simulate backend failures instead of returning a fixture:
+//
+//   mock:error      500 with a JSON error body
+//   mock:html-error 502 with an HTML page, like a broken reverse proxy
+//   mock:malformed  200 with data that fails report validation
+//   mock:slow       answers after MOCK_BACKEND_SLOW_MS (default 150s, past the proxy timeout)
+
+const PORT = Number(process.env.MOCK_BACKEND_PORT) || 8787;
+const SLOW_MS = Number(process.env.MOCK_BACKEND_SLOW_MS) || 150_000;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+const toParams = (body: Record<string, unknown>): MockReportParams => ({
+  sellerName: String(body.sellerName ?? ''),
+  offeredItem: String(body.offeredItem ?? ''),
+  days: Number(body.days) || 30,
+  limit: Number(body.limit) || 100,
+  email: String(body.email ?? ''),
+  // Scope is filtered by departments, ministries and organisations; department only names a single pick
+  ...(body.department ? { department: String(body.department) } : {}),
+  ...(Array.isArray(body.departments) ? { departments: body.departments.map(String) } : {}),
+  ...(Array.isArray(body.ministries) ? { ministries: body.ministries.map(String) } : {}),
+  ...(Array.isArray(body.organisations) ? { organisations: body.organisations.map(String) } : {}),
+  ...(Array.isArray(body.offeredItems) ? { offeredItems: body.offeredItems.map(String) } : {}),
+  ...(body.competitorName ? { competitorName: String(body.competitorName) } : {}),
+});
+
+const handleReport = async (req: IncomingMessage, res: ServerResponse) => {
+  let body: Record<string, unknown>;
+  try {
+    body = await readJson(req);
+  } catch {
+    return sendJson(res, 400, { error: 'Bad Request', message: 'Request body must be JSON.' });
+  }
+
+  const params = toParams(body);
+  if (!params.sellerName.trim()) {
+    return sendJson(res, 400, { error: 'Bad Request', message: 'sellerName is required.' });
+  }
+
+  switch (params.sellerName.trim().toLowerCase()) {
+    case 'mock:error':
+      return sendJson(res, 500, { error: 'Internal Server Error', message: 'Simulated backend failure.' });
+    case 'mock:html-error':
+      res.writeHead(502, { 'Content-Type': 'text/html' });
+      return res.end('<html><body><h1>502 Bad Gateway</h1></body></html>');
+    case 'mock:malformed':
+      return sendJson(res, 200, { meta: { report_generated_at: 'not a date' }, data: { missedButWinnable: null } });
+    case 'mock:slow':
+      await new Promise((resolve) => setTimeout(resolve, SLOW_MS));
+      break;
+  }
+
+  const fixture = findFixture(params.sellerName);
+  console.log(`POST /api/pdf: "${params.sellerName}" -> ${fixture.id} fixture`);
+  sendJson(res, 200, fixture.build(params));
+};
+
+// Catch fixtures that drift from the report contract before anyone renders them
+for (const fixture of MOCK_FIXTURES) {
+  const validation = validateReportData(fixture.build(toParams({ sellerName: fixture.sellerName, offeredItem: 'Fixture check' })));
+  if (validation.success === false) {
+    console.error(`Fixture "${fixture.id}" does not match the report schema: ${summarizeIssues(validation.issues)}`);
+    process.exit(1);
+  }
+}
+
+const server = createServer((req, res) => {
+  const path = new URL(req.url ?? '/', `http://localhost:${PORT}`).pathname;
+
+  if (req.method === 'POST' && path === '/api/pdf') {
+    handleReport(req, res).catch((error) => {
+      console.error('Mock backend error:', error);
+      sendJson(res, 500, { error: 'Internal Server Error', message: String(error) });
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/api/fixtures') {
+    return sendJson(res, 200, MOCK_FIXTURES.map(({ id, sellerName, description }) => ({ id, sellerName, description })));
+  }
+
+  sendJson(res, 404, { error: 'Not Found', message: `${req.method} ${path} is not part of the mock backend.` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock tender-analytics backend listening on http://localhost:${PORT}/api/pdf`);
+  console.log('Fixtures (select by seller name or id):');
+  MOCK_FIXTURES.forEach((fixture) => console.log(`  ${fixture.id.padEnd(16)} "${fixture.sellerName}" - ${fixture.description}`));
+});
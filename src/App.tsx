@@ -4,12 +4,17 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { LanguageProvider } from "@/contexts/LanguageContext";
+import { ReportJobsWatcher } from "@/components/ReportJobsWatcher";
+import { OrganizationThemeStyles } from "@/components/OrganizationThemeStyles";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
 import GenerateReport from "./pages/GenerateReport";
 import ReportHistory from "./pages/ReportHistory";
+import ReportViewer from "./pages/ReportViewer";
+import CompetitorProfile from "./pages/CompetitorProfile";
 import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 
@@ -28,25 +33,31 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
-            <Route path="/generate" element={<ProtectedRoute><GenerateReport /></ProtectedRoute>} />
-            <Route path="/history" element={<ProtectedRoute><ReportHistory /></ProtectedRoute>} />
-            <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </AuthProvider>
+    <LanguageProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <ReportJobsWatcher />
+          <OrganizationThemeStyles />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+              <Route path="/generate" element={<ProtectedRoute><GenerateReport /></ProtectedRoute>} />
+              <Route path="/history" element={<ProtectedRoute><ReportHistory /></ProtectedRoute>} />
+              <Route path="/reports/:id" element={<ProtectedRoute><ReportViewer /></ProtectedRoute>} />
+              <Route path="/competitors/:name" element={<ProtectedRoute><CompetitorProfile /></ProtectedRoute>} />
+              <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </AuthProvider>
+    </LanguageProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,289 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ImageIcon, Loader2, Palette, Trash2, Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useOrganizationTheme } from '@/hooks/use-organization-theme';
+import { useToast } from '@/hooks/use-toast';
+import {
+  LOGO_TYPES,
+  MAX_LOGO_BYTES,
+  pdfColorToHex,
+  removeOrganizationLogo,
+  saveOrganizationTheme,
+  uploadOrganizationLogo,
+  type OrganizationTheme,
+  type OrganizationThemeInput,
+} from '@/utils/branding';
+import { REPORT_COLORS } from '@/utils/pdf/layout';
+
+const EMPTY_FORM: OrganizationThemeInput = {
+  primaryColor: null,
+  accentColor: null,
+  coverTitle: null,
+  footerDisclaimer: null,
+  contactLine: null,
+};
+
+const toForm = (theme: OrganizationTheme | null): OrganizationThemeInput =>
+  theme
+    ? {
+        primaryColor: theme.primary_color,
+        accentColor: theme.accent_color,
+        coverTitle: theme.cover_title,
+        footerDisclaimer: theme.footer_disclaimer,
+        contactLine: theme.contact_line,
+      }
+    : EMPTY_FORM;
+
+interface ColorFieldProps {
+  id: string;
+  label: string;
+  value: string | null;
+  defaultValue: string;
+  onChange: (value: string | null) => void;
+}
+
+const ColorField = ({ id, label, value, defaultValue, onChange }: ColorFieldProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          id={id}
+          type="color"
+          className="h-9 w-14 p-1 cursor-pointer"
+          value={value ?? defaultValue}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        {value ? (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+            {t.branding.useDefault}
+          </Button>
+        ) : (
+          <span className="text-sm text-muted-foreground">{t.branding.defaultColor}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * The organisation's white-label theme. Every member sees it; only admins can
+ * edit it, which the database enforces as well.
+ */
+export const BrandingSettings = () => {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { theme, logoUrl, isLoading, canEdit } = useOrganizationTheme();
+  const [form, setForm] = useState<OrganizationThemeInput>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUpdatingLogo, setIsUpdatingLogo] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setForm(toForm(theme));
+  }, [theme]);
+
+  const updateField = <K extends keyof OrganizationThemeInput>(field: K, value: OrganizationThemeInput[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const storeTheme = (saved: OrganizationTheme) => {
+    queryClient.setQueryData(['organization-theme', user?.organization?.id], saved);
+  };
+
+  const handleSave = async () => {
+    if (!user?.organization) return;
+
+    setIsSaving(true);
+    try {
+      storeTheme(await saveOrganizationTheme(user.organization.id, user.id, form));
+      toast({ title: t.branding.saved, description: t.branding.savedDescription });
+    } catch (error) {
+      console.error('Failed to save organisation branding:', error);
+      toast({
+        title: t.branding.saveFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogoSelected = async (file: File | undefined) => {
+    if (!file || !user?.organization) return;
+    if (!LOGO_TYPES.includes(file.type) || file.size > MAX_LOGO_BYTES) {
+      toast({ title: t.branding.logoFailed, description: t.branding.invalidLogo, variant: 'destructive' });
+      return;
+    }
+
+    setIsUpdatingLogo(true);
+    try {
+      // The logo is stored under the theme's id, so the theme has to exist first
+      const saved = theme ?? (await saveOrganizationTheme(user.organization.id, user.id, form));
+      storeTheme(await uploadOrganizationLogo(saved, file));
+    } catch (error) {
+      console.error('Failed to upload organisation logo:', error);
+      toast({
+        title: t.branding.logoFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingLogo(false);
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    if (!theme) return;
+
+    setIsUpdatingLogo(true);
+    try {
+      storeTheme(await removeOrganizationLogo(theme));
+    } catch (error) {
+      console.error('Failed to remove organisation logo:', error);
+      toast({
+        title: t.branding.logoFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingLogo(false);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Palette className="h-5 w-5" />
+          {t.branding.title}
+        </CardTitle>
+        <CardDescription>{t.branding.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!user?.organization ? (
+          <p className="text-sm text-muted-foreground">{t.branding.noOrganization}</p>
+        ) : isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <fieldset disabled={!canEdit || isSaving} className="space-y-6">
+            {!canEdit && <p className="text-sm text-muted-foreground">{t.branding.adminOnly}</p>}
+
+            <div className="space-y-2">
+              <Label>{t.branding.logo}</Label>
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex h-16 w-40 items-center justify-center rounded-md border bg-muted/40">
+                  {logoUrl ? (
+                    <img src={logoUrl} alt={t.branding.logo} className="max-h-14 max-w-[150px] object-contain" />
+                  ) : (
+                    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <ImageIcon className="h-4 w-4" />
+                      {t.branding.noLogo}
+                    </span>
+                  )}
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={LOGO_TYPES.join(',')}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleLogoSelected(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isUpdatingLogo}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  {isUpdatingLogo ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  {t.branding.uploadLogo}
+                </Button>
+                {theme?.logo_path && (
+                  <Button type="button" variant="ghost" size="sm" disabled={isUpdatingLogo} onClick={handleRemoveLogo}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    {t.branding.removeLogo}
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">{t.branding.logoHint}</p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <ColorField
+                id="branding-primary"
+                label={t.branding.primaryColor}
+                value={form.primaryColor}
+                defaultValue={pdfColorToHex(REPORT_COLORS.primary)}
+                onChange={(value) => updateField('primaryColor', value)}
+              />
+              <ColorField
+                id="branding-accent"
+                label={t.branding.accentColor}
+                value={form.accentColor}
+                defaultValue={pdfColorToHex(REPORT_COLORS.accent)}
+                onChange={(value) => updateField('accentColor', value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="branding-cover-title">{t.branding.coverTitle}</Label>
+              <Input
+                id="branding-cover-title"
+                maxLength={80}
+                value={form.coverTitle ?? ''}
+                onChange={(e) => updateField('coverTitle', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">{t.branding.coverTitleHint}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="branding-disclaimer">{t.branding.footerDisclaimer}</Label>
+              <Textarea
+                id="branding-disclaimer"
+                rows={2}
+                maxLength={300}
+                value={form.footerDisclaimer ?? ''}
+                onChange={(e) => updateField('footerDisclaimer', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">{t.branding.footerDisclaimerHint}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="branding-contact">{t.branding.contactLine}</Label>
+              <Input
+                id="branding-contact"
+                maxLength={120}
+                placeholder={t.branding.contactLinePlaceholder}
+                value={form.contactLine ?? ''}
+                onChange={(e) => updateField('contactLine', e.target.value)}
+              />
+            </div>
+
+            {canEdit && (
+              <Button type="button" onClick={handleSave}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isSaving ? t.branding.saving : t.branding.save}
+              </Button>
+            )}
+          </fieldset>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,8 +1,12 @@
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useCredits } from '@/hooks/use-credits';
 import { Coins } from 'lucide-react';
 
 export const CreditBadge = () => {
   const { user } = useAuth();
+  const { credits } = useCredits();
+  const { t } = useTranslation();
 
   if (!user) return null;
 
@@ -13,11 +17,11 @@ export const CreditBadge = () => {
   };
 
   return (
-    <div className={`flex items-center gap-2 px-4 py-2 rounded-lg border ${getCreditColor(user.credits)}`}>
+    <div className={`flex items-center gap-2 px-4 py-2 rounded-lg border ${getCreditColor(credits)}`}>
       <Coins className="h-5 w-5" />
       <div className="flex flex-col">
-        <span className="text-xs font-medium opacity-80">Credits</span>
-        <span className="text-lg font-bold leading-none">{user.credits}</span>
+        <span className="text-xs font-medium opacity-80">{t.common.credits}</span>
+        <span className="text-lg font-bold leading-none">{credits}</span>
       </div>
     </div>
   );
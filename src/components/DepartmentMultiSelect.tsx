@@ -0,0 +1,120 @@
+import { Check, ChevronsUpDown, Loader2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { formatIndianNumber } from '@/i18n/numbers';
+import { cn } from '@/lib/utils';
+import type { CatalogueEntry, CatalogueKind, ScopePick } from '@/utils/departmentCatalogue';
+
+interface DepartmentMultiSelectProps {
+  id?: string;
+  options: CatalogueEntry[];
+  /** Still fetching the full catalogue; options may only hold the defaults. */
+  loading?: boolean;
+  selected: ScopePick[];
+  /** Every department, rather than the ones in `selected`. */
+  allSelected: boolean;
+  onChange: (selected: ScopePick[], allSelected: boolean) => void;
+}
+
+const KINDS: CatalogueKind[] = ['department', 'ministry', 'organisation'];
+
+const samePick = (a: ScopePick, b: ScopePick) => a.name === b.name && a.kind === b.kind;
+
+/** Search and pick any number of departments, ministries or organisations, or all of them, for a report. */
+export const DepartmentMultiSelect = ({ id, options, loading, selected, allSelected, onChange }: DepartmentMultiSelectProps) => {
+  const { t } = useTranslation();
+
+  const isSelected = (pick: ScopePick) => selected.some((other) => samePick(other, pick));
+  const toggle = (pick: ScopePick) =>
+    onChange(
+      isSelected(pick) ? selected.filter((other) => !samePick(other, pick)) : [...selected, { name: pick.name, kind: pick.kind }],
+      false
+    );
+
+  const summary = allSelected
+    ? t.generate.allDepartments
+    : selected.length === 0
+      ? t.generate.departmentPlaceholder
+      : selected.length === 1
+        ? selected[0].name
+        : t.generate.departmentsSelected(selected.length);
+
+  return (
+    <div className="space-y-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button id={id} type="button" variant="outline" role="combobox" className="h-11 w-full justify-between font-normal">
+            <span className={cn('truncate', selected.length === 0 && !allSelected && 'text-muted-foreground')}>{summary}</span>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder={t.generate.departmentSearch} />
+            <CommandList>
+              <CommandEmpty>{t.generate.noDepartmentMatches}</CommandEmpty>
+              <CommandGroup>
+                <CommandItem value={t.generate.allDepartments} onSelect={() => onChange([], !allSelected)}>
+                  <Check className={cn('mr-2 h-4 w-4', allSelected ? 'opacity-100' : 'opacity-0')} />
+                  <span className="font-semibold">{t.generate.allDepartments}</span>
+                </CommandItem>
+              </CommandGroup>
+              <CommandSeparator />
+              {KINDS.map((kind) => {
+                const entries = options.filter((entry) => entry.kind === kind);
+                if (entries.length === 0) return null;
+                return (
+                  <CommandGroup key={kind} heading={t.generate.catalogueGroups[kind]}>
+                    {entries.map((entry) => (
+                      <CommandItem
+                        key={entry.name}
+                        value={entry.name}
+                        disabled={allSelected}
+                        onSelect={() => toggle(entry)}
+                      >
+                        <Check className={cn('mr-2 h-4 w-4 shrink-0', allSelected || isSelected(entry) ? 'opacity-100' : 'opacity-0')} />
+                        <span className="flex-1 leading-snug">{entry.name}</span>
+                        {entry.tenders !== null && (
+                          <span className="ml-3 shrink-0 text-xs text-muted-foreground">
+                            {t.generate.tenderCount(formatIndianNumber(entry.tenders))}
+                          </span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+              {loading && (
+                <div className="flex items-center gap-2 px-3 py-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {t.generate.loadingDepartments}
+                </div>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {!allSelected && selected.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((pick) => (
+            <Badge key={`${pick.kind}:${pick.name}`} variant="secondary" className="gap-1 pr-1">
+              {pick.name}
+              <button
+                type="button"
+                onClick={() => toggle(pick)}
+                className="rounded-full p-0.5 hover:bg-muted"
+                aria-label={t.generate.removeDepartment(pick.name)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { LANGUAGE_NAMES, LANGUAGES, type Language } from '@/i18n/languages';
+
+export const LanguageSwitcher = () => {
+  const { language, setLanguage, t } = useTranslation();
+
+  return (
+    <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+      <SelectTrigger className="w-[130px]" aria-label={t.common.language}>
+        <Languages className="h-4 w-4 mr-2 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map((option) => (
+          <SelectItem key={option} value={option}>
+            {LANGUAGE_NAMES[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { formatIndianNumber } from '@/i18n/numbers';
+import {
+  cleanItem,
+  itemKey,
+  MAX_OFFERED_ITEMS,
+  matchItemSuggestions,
+  splitItems,
+  validateItem,
+  type ItemSuggestion,
+} from '@/utils/offeredItems';
+
+interface OfferedItemsInputProps {
+  id?: string;
+  items: string[];
+  suggestions: ItemSuggestion[];
+  onChange: (items: string[]) => void;
+}
+
+/** Offered items as chips, typed or picked from categories seen in earlier reports. */
+export const OfferedItemsInput = ({ id, items, suggestions, onChange }: OfferedItemsInputProps) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Add every item in the text that passes validation and report the rest
+  const addItems = (text: string) => {
+    const added = [...items];
+    const rejected: string[] = [];
+    splitItems(text).forEach((item) => {
+      const error = validateItem(item, added);
+      if (error) {
+        rejected.push(t.generate.itemErrors[error](item.trim()));
+      } else {
+        added.push(cleanItem(item));
+      }
+    });
+    setErrors(rejected);
+    setQuery('');
+    if (added.length !== items.length) onChange(added);
+  };
+
+  const removeItem = (item: string) => {
+    setErrors([]);
+    onChange(items.filter((other) => other !== item));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === ',' || e.key === ';') && query.trim()) {
+      e.preventDefault();
+      addItems(query);
+    } else if (e.key === 'Backspace' && !query && items.length > 0) {
+      removeItem(items[items.length - 1]);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  const matches = query.trim() ? matchItemSuggestions(suggestions, query, items) : [];
+  const typed = cleanItem(query);
+  const offerTyped = typed.length > 0 && !matches.some((match) => itemKey(match.item) === itemKey(typed));
+
+  return (
+    <div className="space-y-2">
+      <Command shouldFilter={false} className="h-auto overflow-visible rounded-md border">
+        {items.length > 0 && (
+          <div className="flex flex-wrap gap-2 border-b p-2">
+            {items.map((item) => (
+              <Badge key={item} variant="secondary" className="gap-1 pr-1">
+                {item}
+                <button
+                  type="button"
+                  onClick={() => removeItem(item)}
+                  className="rounded-full p-0.5 hover:bg-muted"
+                  aria-label={t.generate.removeItem(item)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <CommandInput
+          id={id}
+          value={query}
+          onValueChange={setQuery}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onPaste={(e) => {
+            const text = e.clipboardData.getData('text');
+            if (splitItems(text).length > 1) {
+              e.preventDefault();
+              addItems(text);
+            }
+          }}
+          placeholder={items.length < MAX_OFFERED_ITEMS ? t.generate.offeredItemPlaceholder : t.generate.itemLimitReached}
+          disabled={items.length >= MAX_OFFERED_ITEMS}
+        />
+        {focused && (offerTyped || matches.length > 0) && (
+          <CommandList>
+            {offerTyped && (
+              <CommandGroup>
+                <CommandItem value={`add:${typed}`} onMouseDown={(e) => e.preventDefault()} onSelect={() => addItems(query)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t.generate.addItem(typed)}
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {matches.length > 0 && (
+              <CommandGroup heading={t.generate.itemSuggestions}>
+                {matches.map((match) => (
+                  <CommandItem
+                    key={match.item}
+                    value={match.item}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onSelect={() => addItems(match.item)}
+                  >
+                    <span className="flex-1">{match.item}</span>
+                    <span className="ml-3 shrink-0 text-xs text-muted-foreground">
+                      {t.generate.tenderCount(formatIndianNumber(match.tenders))}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        )}
+      </Command>
+      {errors.map((error, index) => (
+        <p key={index} className="text-sm text-destructive">{error}</p>
+      ))}
+    </div>
+  );
+};
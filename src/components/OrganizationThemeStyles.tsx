@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useOrganizationTheme } from '@/hooks/use-organization-theme';
+import { hexToHslComponents, isHexColor, prefersLightText } from '@/utils/branding';
+
+const THEMED_VARIABLES = ['--primary', '--primary-foreground', '--ring'];
+
+/**
+ * Renders no UI. Applies the organisation's primary colour to the app's theme
+ * variables, and restores the stylesheet defaults when there is none.
+ */
+export const OrganizationThemeStyles = () => {
+  const { theme } = useOrganizationTheme();
+  const primaryColor = theme?.primary_color;
+
+  useEffect(() => {
+    if (!isHexColor(primaryColor)) return;
+
+    const style = document.documentElement.style;
+    const hsl = hexToHslComponents(primaryColor);
+    style.setProperty('--primary', hsl);
+    style.setProperty('--ring', hsl);
+    style.setProperty('--primary-foreground', prefersLightText(primaryColor) ? '0 0% 100%' : '222.2 47.4% 11.2%');
+
+    return () => THEMED_VARIABLES.forEach((variable) => style.removeProperty(variable));
+  }, [primaryColor]);
+
+  return null;
+};
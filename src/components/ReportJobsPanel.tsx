@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Download, Loader2, X, XCircle } from 'lucide-react';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { useReportJobs } from '@/hooks/use-report-jobs';
+import {
+  dismissJob,
+  getJobParams,
+  isActiveJob,
+  JOB_STATUS_PROGRESS,
+  type ReportJob,
+} from '@/utils/reportJobs';
+import { departmentLabel } from '@/utils/reportScope';
+import { downloadReportPdfById } from '@/utils/reportStorage';
+import { cn } from '@/lib/utils';
+
+const JobStatusIcon = ({ job }: { job: ReportJob }) => {
+  if (job.status === 'done') return <CheckCircle2 className="h-5 w-5 text-green-600" />;
+  if (job.status === 'failed') return <XCircle className="h-5 w-5 text-destructive" />;
+  return <Loader2 className="h-5 w-5 text-primary animate-spin" />;
+};
+
+/** Progress of queued and recent report jobs. Renders nothing when there are none. */
+export const ReportJobsPanel = ({ className }: { className?: string }) => {
+  const { data: jobs } = useReportJobs();
+  const { toast } = useToast();
+  const { t, locale } = useTranslation();
+  const queryClient = useQueryClient();
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  if (!jobs || jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isActiveJob).length;
+
+  const handleDismiss = async (job: ReportJob) => {
+    try {
+      await dismissJob(job.id);
+      queryClient.invalidateQueries({ queryKey: ['report-jobs'] });
+    } catch (error) {
+      console.error('Failed to dismiss report job:', error);
+    }
+  };
+
+  const handleDownload = async (job: ReportJob) => {
+    if (!job.report_id) return;
+
+    setDownloadingId(job.id);
+    try {
+      await downloadReportPdfById(job.report_id);
+    } catch (error) {
+      console.error('Failed to download report:', error);
+      toast({
+        title: t.common.downloadFailed,
+        description: error instanceof Error ? error.message : t.common.downloadFailedDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Card className={cn('border-2', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-xl">{t.jobs.title}</CardTitle>
+        <CardDescription>
+          {activeCount > 0 ? t.jobs.inProgress(activeCount) : t.jobs.recent}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {jobs.map((job) => {
+          const params = getJobParams(job);
+          return (
+            <div key={job.id} className="flex items-start gap-3 p-3 rounded-lg border bg-card">
+              <JobStatusIcon job={job} />
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{params.sellerName}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {departmentLabel(params)} • {t.jobs.queuedAt(new Date(job.created_at).toLocaleString(locale))}
+                    </p>
+                  </div>
+                  <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'done' ? 'secondary' : 'default'}>
+                    {t.jobs.status[job.status]}
+                  </Badge>
+                </div>
+                {isActiveJob(job) && <Progress value={JOB_STATUS_PROGRESS[job.status]} className="h-2" />}
+                {job.status === 'failed' && job.error && (
+                  <p className="text-sm text-destructive">{job.error}</p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                {job.status === 'done' && job.report_id && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDownload(job)}
+                    disabled={downloadingId === job.id}
+                    title={t.common.downloadPdf}
+                  >
+                    {downloadingId === job.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  </Button>
+                )}
+                {!isActiveJob(job) && (
+                  <Button variant="ghost" size="icon" onClick={() => handleDismiss(job)} title={t.jobs.dismiss}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { useReportJobs } from '@/hooks/use-report-jobs';
+import { downloadReportData } from '@/utils/reportExport';
+import { getJobDownloads, getJobParams, isJobRenderable, renderJobReport, type ReportJobStatus } from '@/utils/reportJobs';
+
+// Also raise a system notification when the tab is in the background
+const notifyInBackground = (title: string, body: string) => {
+  if (document.hidden && 'Notification' in window && Notification.permission === 'granted') {
+    new Notification(title, { body });
+  }
+};
+
+/**
+ * Renders no UI. Watches the user's report jobs from anywhere in the app, builds
+ * the PDF for jobs whose data has arrived, and announces completion or failure.
+ * Because jobs live in the database this also resumes work after a page reload.
+ */
+export const ReportJobsWatcher = () => {
+  const { user } = useAuth();
+  const { data: jobs } = useReportJobs();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const renderingIds = useRef(new Set<string>());
+  const lastStatuses = useRef(new Map<string, ReportJobStatus>());
+
+  useEffect(() => {
+    if (!jobs || !user) return;
+
+    let statusChanged = false;
+
+    jobs.forEach((job) => {
+      const previousStatus = lastStatuses.current.get(job.id);
+      if (previousStatus !== job.status) statusChanged = true;
+
+      // Every open tab sees the job; renderJobReport lets only the first to claim it render
+      if (isJobRenderable(job) && !renderingIds.current.has(job.id)) {
+        renderingIds.current.add(job.id);
+
+        renderJobReport(job, user.id)
+          .then(async (rendered) => {
+            if (!rendered) return;
+            const { pdfDoc, reportData, fileName } = rendered;
+            pdfDoc.save(fileName);
+
+            // The report is already saved, so a failed data file shouldn't fail the job
+            const { sellerName } = getJobParams(job);
+            for (const format of getJobDownloads(job)) {
+              await downloadReportData(reportData, format, { sellerName, sections: job.sections }).catch((error) => {
+                console.error(`Failed to build ${format} download for report job ${job.id}:`, error);
+              });
+            }
+
+            toast({
+              title: t.jobs.ready,
+              description: t.jobs.readyDescription(fileName),
+            });
+            notifyInBackground(t.jobs.readyNotification, t.jobs.readyNotificationBody(fileName));
+          })
+          .catch((error) => {
+            console.error(`Failed to render report job ${job.id}:`, error);
+          })
+          .finally(() => {
+            queryClient.invalidateQueries({ queryKey: ['report-jobs'] });
+            queryClient.invalidateQueries({ queryKey: ['reports'] });
+          });
+      }
+
+      // Only announce failures we watched happen, not old ones loaded on startup
+      const wasActive = previousStatus && previousStatus !== 'failed' && previousStatus !== 'done';
+      if (job.status === 'failed' && wasActive) {
+        const sellerName = getJobParams(job).sellerName;
+        toast({
+          title: t.jobs.failed,
+          description: job.error || t.jobs.failedDescription(sellerName),
+          variant: "destructive",
+        });
+        notifyInBackground(t.jobs.failedNotification, t.jobs.failedDescription(sellerName));
+      }
+    });
+
+    lastStatuses.current = new Map(jobs.map((job) => [job.id, job.status]));
+
+    // Credits are committed or refunded server-side as the backend data arrives
+    if (statusChanged) {
+      queryClient.invalidateQueries({ queryKey: ['credits'] });
+    }
+  }, [jobs, user, toast, queryClient, t]);
+
+  return null;
+};
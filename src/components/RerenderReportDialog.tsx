@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { REPORT_LANGUAGES, type ReportLanguage } from '@/i18n/languages';
+import { loadReportBranding } from '@/utils/branding';
+import { generatePDF } from '@/utils/pdfGenerator';
+import { FILTER_SECTIONS } from '@/utils/reportSections';
+import { buildReportFileName, fetchReportData, type ReportSummary } from '@/utils/reportStorage';
+
+interface RerenderReportDialogProps {
+  report: ReportSummary | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Re-render a stored report from its saved backend JSON. No backend call is made,
+ * so this is free: only the section selection, language (and current PDF template and branding) change.
+ */
+export const RerenderReportDialog = ({ report, onOpenChange }: RerenderReportDialogProps) => {
+  const { toast } = useToast();
+  const { language, t } = useTranslation();
+  const [selectedSections, setSelectedSections] = useState<string[]>([]);
+  const [reportLanguage, setReportLanguage] = useState<ReportLanguage>(language);
+  const [isRendering, setIsRendering] = useState(false);
+
+  useEffect(() => {
+    if (report) setSelectedSections(report.sections);
+  }, [report]);
+
+  const handleToggle = (sectionId: string) => {
+    setSelectedSections(prev =>
+      prev.includes(sectionId)
+        ? prev.filter(id => id !== sectionId)
+        : [...prev, sectionId]
+    );
+  };
+
+  const handleRerender = async () => {
+    if (!report) return;
+
+    setIsRendering(true);
+    try {
+      const reportData = await fetchReportData(report.id);
+      // Re-rendered reports pick up the organisation's current branding
+      const pdfDoc = await generatePDF(
+        reportData,
+        { includeSections: selectedSections, language: reportLanguage },
+        await loadReportBranding()
+      );
+      const fileName = buildReportFileName(report.seller_name);
+      pdfDoc.save(fileName);
+
+      toast({
+        title: t.rerender.done,
+        description: t.rerender.doneDescription(fileName),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to re-render stored report:', error);
+      toast({
+        title: t.rerender.failed,
+        description: error instanceof Error ? error.message : t.rerender.failedDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!report} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t.rerender.title(report?.seller_name ?? '')}</DialogTitle>
+          <DialogDescription>
+            {t.rerender.description}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="rerender-language">{t.generate.reportLanguage}</Label>
+          <Select value={reportLanguage} onValueChange={(value) => setReportLanguage(value as ReportLanguage)}>
+            <SelectTrigger id="rerender-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_LANGUAGES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t.reportLanguages[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {FILTER_SECTIONS.map((section) => (
+            <div key={section.id} className="flex items-start space-x-3 p-3 rounded-lg border bg-card">
+              <Checkbox
+                id={`rerender-${section.id}`}
+                checked={selectedSections.includes(section.id)}
+                onCheckedChange={() => handleToggle(section.id)}
+                className="mt-0.5"
+              />
+              <Label htmlFor={`rerender-${section.id}`} className="text-sm font-medium cursor-pointer leading-relaxed">
+                {t.sections[section.id] ?? section.label}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRendering}>
+            {t.common.cancel}
+          </Button>
+          <Button onClick={handleRerender} disabled={isRendering}>
+            {isRendering ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            {t.rerender.submit}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
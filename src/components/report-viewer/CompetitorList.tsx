@@ -0,0 +1,65 @@
+import { Link } from 'react-router-dom';
+import { Swords } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { competitorPath } from '@/utils/competitors';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { CompetitorThreat, ThreatLevel } from '@/utils/reportMetrics';
+
+const LEVEL_COLORS: Record<ThreatLevel, string> = {
+  high: 'text-red-600',
+  medium: 'text-orange-600',
+  low: 'text-emerald-600',
+};
+
+/** The report's top sellers by threat score; each links to that seller's profile. */
+export const CompetitorList = ({ competitors }: { competitors: CompetitorThreat[] }) => {
+  const { t } = useTranslation();
+  const labels = t.viewer.competitors;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Swords className="h-5 w-5 text-red-500" />
+          {labels.title}
+        </CardTitle>
+        <CardDescription>{labels.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {competitors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{labels.empty}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{labels.seller}</TableHead>
+                <TableHead>{t.viewer.table.department}</TableHead>
+                <TableHead className="text-right">{t.viewer.table.value}</TableHead>
+                <TableHead className="text-right">{labels.threatScore}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {competitors.map((competitor, index) => (
+                <TableRow key={`${competitor.seller}-${competitor.dept}-${index}`}>
+                  <TableCell>
+                    <Link to={competitorPath(competitor.seller)} className="font-medium text-primary hover:underline">
+                      {competitor.seller}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{competitor.dept}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(competitor.value)}</TableCell>
+                  <TableCell className={cn('text-right font-medium', LEVEL_COLORS[competitor.level])}>
+                    {labels.threat(labels.levels[competitor.level], competitor.score)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportData } from '@/utils/reportSchema';
+
+type LikelyWin = NonNullable<ReportData['data']['missedButWinnable']['ai']['likely_wins']>[number];
+
+const LikelyWinCard = ({ opportunity, index }: { opportunity: LikelyWin; index: number }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(index === 0);
+  const matches = opportunity.matching_market_wins || [];
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border bg-card">
+      <CollapsibleTrigger className="flex w-full items-start justify-between gap-4 p-4 text-left">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-orange-600">{t.viewer.likelyWins.opportunity(index + 1)}</p>
+          <p className="font-semibold mt-1">{opportunity.offered_item}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Badge variant="secondary">{t.viewer.likelyWins.matchingWins(matches.length)}</Badge>
+          {open ? <ChevronUp className="h-4 w-4 text-muted-foreground" /> : <ChevronDown className="h-4 w-4 text-muted-foreground" />}
+        </div>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <p className="text-sm text-muted-foreground">{opportunity.reason}</p>
+        {matches.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.viewer.table.bidNumber}</TableHead>
+                <TableHead>{t.viewer.table.organizationOrDept}</TableHead>
+                <TableHead className="text-right">{t.viewer.table.quantity}</TableHead>
+                <TableHead className="text-right">{t.viewer.table.value}</TableHead>
+                <TableHead>{t.viewer.table.match}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matches.map((win, winIndex) => (
+                <TableRow key={`${win.bid_number}-${winIndex}`}>
+                  <TableCell>{win.bid_number || '-'}</TableCell>
+                  <TableCell>{win.org || win.dept || '-'}</TableCell>
+                  <TableCell className="text-right tabular-nums">{win.quantity ?? '-'}</TableCell>
+                  <TableCell className="text-right tabular-nums">{win.price_hint ? formatCurrency(win.price_hint) : '-'}</TableCell>
+                  <TableCell>{win.confidence || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export const LikelyWinsList = ({ ai }: { ai: ReportData['data']['missedButWinnable']['ai'] }) => {
+  const { t } = useTranslation();
+  const likelyWins = ai.likely_wins || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-purple-500" />
+          {t.viewer.likelyWins.title}
+        </CardTitle>
+        <CardDescription>{ai.strategy_summary}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {likelyWins.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.viewer.likelyWins.empty}</p>
+        ) : (
+          likelyWins.map((opportunity, index) => (
+            <LikelyWinCard key={index} opportunity={opportunity} index={index} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,137 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { TrendingDown } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { NUMBER_UNITS } from '@/i18n/languages';
+import { formatCompactRupees } from '@/i18n/numbers';
+import { REPORT_COLORS } from '@/utils/pdf/layout';
+import { formatSigned, formatTrendPeriod, type PerformanceTrend } from '@/utils/reportTrend';
+import { toCssColor } from '@/utils/reportView';
+import { cn } from '@/lib/utils';
+
+interface StatProps {
+  label: string;
+  value: string;
+  change: string;
+  /** Positive when the change is good news, negative when it's bad, zero otherwise. */
+  direction: number;
+}
+
+const Stat = ({ label, value, change, direction }: StatProps) => (
+  <div className="rounded-lg border p-3">
+    <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">{label}</p>
+    <p className="text-xl font-bold mt-1">{value}</p>
+    <p className={cn('text-xs mt-1', direction > 0 ? 'text-emerald-600' : direction < 0 ? 'text-red-600' : 'text-muted-foreground')}>
+      {change}
+    </p>
+  </div>
+);
+
+/** Wins and losses per week or month, the latest period against the one before, and departments losing ground. */
+export const PerformanceTrendCard = ({ trend }: { trend: PerformanceTrend }) => {
+  const { t, language, locale } = useTranslation();
+  const labels = t.viewer.trend;
+  const trendConfig = {
+    wins: { label: t.viewer.charts.won, color: toCssColor(REPORT_COLORS.secondary) },
+    losses: { label: t.viewer.charts.wonByOthers, color: toCssColor(REPORT_COLORS.danger) },
+  } satisfies ChartConfig;
+
+  const data = trend.periods.map((period) => ({
+    period: formatTrendPeriod(period.start, trend.granularity, locale),
+    wins: period.wins,
+    losses: period.losses,
+  }));
+  const compact = (value: number) => formatCompactRupees(value, NUMBER_UNITS[language]);
+  const latest = trend.periods[trend.periods.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{labels.title}</CardTitle>
+        <CardDescription>
+          {trend.granularity === 'week' ? labels.weeklyDescription : labels.monthlyDescription}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {data.length === 0 ? (
+          <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">{labels.empty}</div>
+        ) : (
+          <>
+            <ChartContainer config={trendConfig} className="aspect-auto h-[280px] w-full">
+              <LineChart data={data} margin={{ left: 8, right: 16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="wins" type="monotone" stroke="var(--color-wins)" strokeWidth={2} dot={false} />
+                <Line dataKey="losses" type="monotone" stroke="var(--color-losses)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+
+            {latest.change && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {labels.latest(formatTrendPeriod(latest.start, trend.granularity, locale))}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <Stat
+                    label={labels.wins}
+                    value={latest.wins.toString()}
+                    change={formatSigned(latest.change.wins, String)}
+                    direction={latest.change.wins}
+                  />
+                  <Stat
+                    label={labels.winRate}
+                    value={latest.winRate === null ? '-' : `${latest.winRate.toFixed(1)}%`}
+                    change={
+                      latest.change.winRate === null
+                        ? '-'
+                        : labels.points(formatSigned(latest.change.winRate, (points) => points.toFixed(1)))
+                    }
+                    direction={latest.change.winRate ?? 0}
+                  />
+                  <Stat
+                    label={labels.valueWon}
+                    value={compact(latest.value)}
+                    change={formatSigned(latest.change.value, compact)}
+                    direction={latest.change.value}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="flex items-center gap-2 text-sm font-semibold mb-2">
+                <TrendingDown className="h-4 w-4 text-red-600" />
+                {labels.declining}
+              </h4>
+              {trend.declining.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{labels.noDeclining}</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {trend.declining.map((category) => (
+                    <li key={category.name} className="flex justify-between gap-4">
+                      <span className="truncate">{category.name}</span>
+                      <span className="shrink-0 tabular-nums text-red-600">
+                        {labels.decliningItem(category.earlier.winRate.toFixed(1), category.later.winRate.toFixed(1))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,133 @@
+import { Bar, BarChart, CartesianGrid, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { NUMBER_UNITS } from '@/i18n/languages';
+import { formatCompactRupees } from '@/i18n/numbers';
+import { REPORT_COLORS } from '@/utils/pdf/layout';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportMetrics } from '@/utils/reportMetrics';
+import type { ReportData } from '@/utils/reportSchema';
+import { toCssColor, type WinGroup } from '@/utils/reportView';
+
+const truncate = (label: string, max = 28) => (label.length > max ? `${label.slice(0, max - 1)}…` : label);
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">{message}</div>
+);
+
+export const WinLossChart = ({ metrics }: { metrics: ReportMetrics }) => {
+  const { charts } = useTranslation().t.viewer;
+  const winLossConfig = {
+    wins: { label: charts.won, color: toCssColor(REPORT_COLORS.secondary) },
+    losses: { label: charts.wonByOthers, color: toCssColor(REPORT_COLORS.danger) },
+  } satisfies ChartConfig;
+  const data = [
+    { outcome: 'wins', count: metrics.successCount, fill: 'var(--color-wins)' },
+    { outcome: 'losses', count: metrics.losses, fill: 'var(--color-losses)' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{charts.winLoss}</CardTitle>
+        <CardDescription>{charts.winLossDescription(metrics.winRate, metrics.totalBids)}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {metrics.totalBids === 0 ? (
+          <EmptyChart message={charts.noTenders} />
+        ) : (
+          <ChartContainer config={winLossConfig} className="mx-auto aspect-square max-h-[250px]">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent nameKey="outcome" hideLabel />} />
+              <Pie data={data} dataKey="count" nameKey="outcome" innerRadius={60} strokeWidth={4} />
+              <ChartLegend content={<ChartLegendContent nameKey="outcome" />} />
+            </PieChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface ValueBarChartProps {
+  title: string;
+  description: string;
+  data: { name: string; value: number }[];
+  emptyMessage: string;
+}
+
+// Horizontal bars suit the long department and state names
+const ValueBarChart = ({ title, description, data, emptyMessage }: ValueBarChartProps) => {
+  const { language, t } = useTranslation();
+  const valueConfig = {
+    // Follows the organisation's primary colour, as the PDF's headings do
+    value: { label: t.viewer.charts.value, color: 'hsl(var(--primary))' },
+  } satisfies ChartConfig;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <EmptyChart message={emptyMessage} />
+        ) : (
+          <ChartContainer config={valueConfig} className="aspect-auto h-[300px] w-full">
+            <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis
+                type="number"
+                dataKey="value"
+                tickFormatter={(value: number) => formatCompactRupees(value, NUMBER_UNITS[language])}
+              />
+              <YAxis
+                type="category"
+                dataKey="name"
+                width={160}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(label: string) => truncate(label)}
+              />
+              <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />} />
+              <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export const DepartmentChart = ({ groups }: { groups: WinGroup[] }) => {
+  const { charts } = useTranslation().t.viewer;
+  return (
+    <ValueBarChart
+      title={charts.departments}
+      description={charts.departmentsDescription}
+      data={groups}
+      emptyMessage={charts.noDepartments}
+    />
+  );
+};
+
+export const StateChart = ({ states }: { states: ReportData['data']['topPerformingStates'] }) => {
+  const { charts } = useTranslation().t.viewer;
+  return (
+    <ValueBarChart
+      title={charts.states}
+      description={charts.statesDescription}
+      data={states.slice(0, 10).map((state) => ({ name: state.state, value: state.value }))}
+      emptyMessage={charts.noStates}
+    />
+  );
+};
@@ -0,0 +1,41 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { formatIndianNumber } from '@/i18n/numbers';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportMetrics } from '@/utils/reportMetrics';
+
+interface ReportKpiCardsProps {
+  metrics: ReportMetrics;
+  estimatedMissedValue?: number;
+}
+
+export const ReportKpiCards = ({ metrics, estimatedMissedValue }: ReportKpiCardsProps) => {
+  const { kpis: labels } = useTranslation().t.viewer;
+  const kpis = [
+    { label: labels.tendersAnalysed, value: formatIndianNumber(metrics.totalBids), hint: labels.perDay(metrics.avgBidsPerDay) },
+    { label: labels.wins, value: formatIndianNumber(metrics.successCount), hint: labels.wonByOthers(formatIndianNumber(metrics.losses)) },
+    { label: labels.winRate, value: `${metrics.winRate}%`, hint: labels.inScope },
+    { label: labels.totalWonValue, value: formatCurrency(metrics.totalValue), hint: labels.average(formatCurrency(metrics.avgValue)) },
+  ];
+  if (estimatedMissedValue !== undefined) {
+    kpis.push({ label: labels.estimatedMissedValue, value: formatCurrency(estimatedMissedValue), hint: labels.winnableLost });
+  }
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+      {kpis.map((kpi) => (
+        <Card key={kpi.label}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+              {kpi.label}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{kpi.value}</div>
+            <p className="text-xs text-muted-foreground mt-1">{kpi.hint}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
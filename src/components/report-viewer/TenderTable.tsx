@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { formatIndianNumber } from '@/i18n/numbers';
+import { formatCurrency, formatDate } from '@/utils/pdf/format';
+import type { LowCompetitionBid } from '@/utils/reportSchema';
+import { filterTenders, sortTenders, type TenderSort, type TenderSortKey } from '@/utils/reportView';
+
+type ColumnLabel = 'bidNumber' | 'organization' | 'department' | 'quantity' | 'value' | 'endDate' | 'bidders';
+
+interface TenderColumn {
+  key: TenderSortKey;
+  label: ColumnLabel;
+  numeric?: boolean;
+  render: (row: LowCompetitionBid, locale: string) => string;
+}
+
+const COLUMNS: TenderColumn[] = [
+  { key: 'bid_number', label: 'bidNumber', render: (row) => row.bid_number || '-' },
+  { key: 'org', label: 'organization', render: (row) => row.org || '-' },
+  { key: 'dept', label: 'department', render: (row) => row.dept || '-' },
+  { key: 'quantity', label: 'quantity', numeric: true, render: (row) => (row.quantity != null ? formatIndianNumber(row.quantity) : '-') },
+  { key: 'total_price', label: 'value', numeric: true, render: (row) => (row.total_price ? formatCurrency(row.total_price) : '-') },
+  { key: 'ended_at', label: 'endDate', render: (row, locale) => (row.ended_at ? formatDate(row.ended_at, locale) : '-') },
+];
+
+const BIDDERS_COLUMN: TenderColumn = {
+  key: 'bidders_count',
+  label: 'bidders',
+  numeric: true,
+  render: (row) => row.bidders_count?.toString() ?? '-',
+};
+
+// Long tables render in pages of this size
+const PAGE_SIZE = 25;
+
+interface TenderTableProps {
+  title: string;
+  description: string;
+  rows: LowCompetitionBid[];
+  showBidders?: boolean;
+  defaultSort?: TenderSort;
+}
+
+/** A searchable tender list; click a column header to sort by it. */
+export const TenderTable = ({
+  title,
+  description,
+  rows,
+  showBidders = false,
+  defaultSort = { key: 'ended_at', direction: 'desc' },
+}: TenderTableProps) => {
+  const { t, locale } = useTranslation();
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<TenderSort>(defaultSort);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const columns = showBidders ? [...COLUMNS, BIDDERS_COLUMN] : COLUMNS;
+  const visibleRows = useMemo(() => sortTenders(filterTenders(rows, search), sort), [rows, search, sort]);
+
+  const handleSort = (key: TenderSortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: 'asc' }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <div className="relative w-full md:w-72">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={t.viewer.table.filterPlaceholder}
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              className="pl-9"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map((column) => {
+                const SortIcon = sort.key !== column.key ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+                return (
+                  <TableHead key={column.key} className={cn(column.numeric && 'text-right')}>
+                    <button
+                      type="button"
+                      onClick={() => handleSort(column.key)}
+                      className={cn(
+                        'inline-flex items-center gap-1 hover:text-foreground',
+                        sort.key === column.key && 'text-foreground'
+                      )}
+                    >
+                      {t.viewer.table[column.label]}
+                      <SortIcon className="h-3.5 w-3.5" />
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="py-8 text-center text-muted-foreground">
+                  {rows.length === 0 ? t.viewer.table.empty : t.viewer.table.noMatches(search)}
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleRows.slice(0, visibleCount).map((row, index) => (
+                <TableRow key={`${row.bid_number}-${index}`}>
+                  {columns.map((column) => (
+                    <TableCell key={column.key} className={cn(column.numeric && 'text-right tabular-nums')}>
+                      {column.render(row, locale)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {visibleRows.length > visibleCount && (
+          <div className="mt-4 flex items-center justify-between text-sm text-muted-foreground">
+            <span>{t.viewer.table.showing(visibleCount, visibleRows.length)}</span>
+            <button
+              type="button"
+              onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+              className="font-medium text-primary hover:underline"
+            >
+              {t.viewer.table.showMore}
+            </button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,22 +1,32 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import type { User as AuthUser } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { setRememberSession } from '@/integrations/supabase/authStorage';
+
+interface Organization {
+  id: string;
+  name: string;
+  role: 'member' | 'admin';
+}
 
 interface User {
   id: string;
   email: string;
   fullName: string;
+  /** The organisation name given at sign-up, for display only. */
   organizationName?: string;
   phoneNumber?: string;
-  credits: number;
   role: 'user' | 'admin';
+  /** The organisation the user is a member of; it decides which theme applies. */
+  organization?: Organization;
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   login: (email: string, password: string, rememberMe?: boolean) => Promise<void>;
-  register: (data: RegisterData) => Promise<void>;
-  logout: () => void;
-  updateCredits: (newBalance: number) => void;
+  register: (data: RegisterData) => Promise<RegisterResult>;
+  logout: () => Promise<void>;
 }
 
 interface RegisterData {
@@ -27,81 +37,117 @@ interface RegisterData {
   phoneNumber?: string;
 }
 
+interface RegisterResult {
+  // True when the project requires email confirmation, so no session exists yet
+  requiresEmailConfirmation: boolean;
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Load the app-level user (name, organisation, role) from the profiles table and
+// the user's organisation membership. Credits are not part of the profile; they
+// are read from the ledger via useCredits.
+const loadProfile = async (authUser: AuthUser): Promise<User> => {
+  const [{ data, error }, { data: membership, error: membershipError }] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', authUser.id).single(),
+    supabase
+      .from('organization_members')
+      .select('role, organization:organizations(id, name)')
+      .eq('user_id', authUser.id)
+      .maybeSingle(),
+  ]);
+
+  if (error) throw error;
+  if (membershipError) throw membershipError;
+
+  return {
+    id: data.id,
+    email: data.email || authUser.email || '',
+    fullName: data.full_name,
+    organizationName: data.organization_name ?? undefined,
+    phoneNumber: data.phone_number ?? undefined,
+    role: data.role === 'admin' ? 'admin' : 'user',
+    organization: membership?.organization
+      ? { ...membership.organization, role: membership.role === 'admin' ? 'admin' : 'member' }
+      : undefined,
+  };
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Check for stored user session
-    const storedUser = localStorage.getItem('user');
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
-    }
-    setIsLoading(false);
-  }, []);
+    const syncUser = async (authUser: AuthUser | null) => {
+      if (!authUser) {
+        setUser(null);
+        setIsLoading(false);
+        return;
+      }
 
-  const login = async (email: string, password: string, rememberMe?: boolean) => {
-    // Mock login - replace with actual API call
-    setIsLoading(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock user data
-    const mockUser: User = {
-      id: '1',
-      email,
-      fullName: 'John Doe',
-      credits: 10,
-      role: 'user',
+      try {
+        setUser(await loadProfile(authUser));
+      } catch (error) {
+        console.error('Failed to load user profile:', error);
+        setUser(null);
+      } finally {
+        setIsLoading(false);
+      }
     };
-    
-    setUser(mockUser);
-    if (rememberMe) {
-      localStorage.setItem('user', JSON.stringify(mockUser));
-    }
-    setIsLoading(false);
+
+    // Fires INITIAL_SESSION on subscribe, which restores a persisted session on reload.
+    // Profile loading is deferred so no Supabase call is awaited inside the callback.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setTimeout(() => syncUser(session?.user ?? null), 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const login = async (email: string, password: string, rememberMe = false) => {
+    // Without rememberMe the session is kept for this tab only
+    setRememberSession(rememberMe);
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+
+    setUser(await loadProfile(data.user));
   };
 
-  const register = async (data: RegisterData) => {
-    setIsLoading(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock user creation with initial 10 credits
-    const newUser: User = {
-      id: Date.now().toString(),
+  const register = async (data: RegisterData): Promise<RegisterResult> => {
+    // The profile row and the initial 10-credit grant are created by the on_auth_user_created trigger
+    setRememberSession(true);
+    const { data: signUpData, error } = await supabase.auth.signUp({
       email: data.email,
-      fullName: data.fullName,
-      organizationName: data.organizationName,
-      phoneNumber: data.phoneNumber,
-      credits: 10, // Initial credit allocation
-      role: 'user',
-    };
-    
-    setUser(newUser);
-    localStorage.setItem('user', JSON.stringify(newUser));
-    setIsLoading(false);
-  };
+      password: data.password,
+      options: {
+        emailRedirectTo: `${window.location.origin}/dashboard`,
+        data: {
+          full_name: data.fullName,
+          organization_name: data.organizationName,
+          phone_number: data.phoneNumber,
+        },
+      },
+    });
+    if (error) throw error;
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('user');
+    if (!signUpData.session || !signUpData.user) {
+      return { requiresEmailConfirmation: true };
+    }
+
+    setUser(await loadProfile(signUpData.user));
+    return { requiresEmailConfirmation: false };
   };
 
-  const updateCredits = (newBalance: number) => {
-    if (user) {
-      const updatedUser = { ...user, credits: newBalance };
-      setUser(updatedUser);
-      localStorage.setItem('user', JSON.stringify(updatedUser));
+  const logout = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Sign out failed:', error);
     }
+    setUser(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout, updateCredits }}>
+    <AuthContext.Provider value={{ user, isLoading, login, register, logout }}>
       {children}
     </AuthContext.Provider>
   );
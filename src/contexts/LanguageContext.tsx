@@ -0,0 +1,46 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { APP_MESSAGES, type AppMessages } from '@/i18n/app';
+import { DATE_LOCALES, isLanguage, type Language } from '@/i18n/languages';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: AppMessages;
+  /** Locale for dates shown in the app. */
+  locale: string;
+}
+
+const STORAGE_KEY = 'app-language';
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+// The choice is per browser, so it also applies before sign-in
+const loadLanguage = (): Language => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isLanguage(stored) ? stored : 'en';
+};
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  return (
+    <LanguageContext.Provider
+      value={{ language, setLanguage, t: APP_MESSAGES[language], locale: DATE_LOCALES[language] }}
+    >
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+export const useTranslation = () => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LanguageProvider');
+  }
+  return context;
+};
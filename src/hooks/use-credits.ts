@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * Current credit balance, summed server-side from the credit_transactions ledger.
+ * Refetched on window focus so the badge stays consistent across devices.
+ */
+export function useCredits() {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['credits', user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_credit_balance');
+      if (error) throw error;
+      return data ?? 0;
+    },
+  });
+
+  return {
+    credits: query.data ?? 0,
+    isLoading: query.isLoading,
+    refreshCredits: () => query.refetch(),
+  };
+}
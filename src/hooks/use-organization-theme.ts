@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchOrganizationLogoUrl, fetchOrganizationTheme } from '@/utils/branding';
+
+// Signed logo URLs last an hour; refresh them well before they expire
+const LOGO_URL_STALE_MS = 45 * 60 * 1000;
+
+/** The signed-in user's organisation theme and a displayable logo URL, if any. */
+export function useOrganizationTheme() {
+  const { user } = useAuth();
+  const organizationId = user?.organization?.id;
+
+  const themeQuery = useQuery({
+    queryKey: ['organization-theme', organizationId],
+    enabled: !!organizationId,
+    queryFn: fetchOrganizationTheme,
+  });
+
+  const theme = organizationId ? themeQuery.data ?? null : null;
+
+  const logoQuery = useQuery({
+    // updated_at changes whenever the logo is replaced
+    queryKey: ['organization-theme', organizationId, 'logo', theme?.logo_path, theme?.updated_at],
+    enabled: !!theme?.logo_path,
+    queryFn: () => fetchOrganizationLogoUrl(theme.logo_path),
+    staleTime: LOGO_URL_STALE_MS,
+  });
+
+  return {
+    theme,
+    logoUrl: theme?.logo_path ? logoQuery.data ?? null : null,
+    isLoading: themeQuery.isLoading,
+    canEdit: user?.organization?.role === 'admin',
+  };
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchRecentJobs, isActiveJob } from '@/utils/reportJobs';
+
+const JOB_POLL_INTERVAL_MS = 3000;
+
+/** Recent report jobs, polled while any of them is still in progress. */
+export function useReportJobs() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['report-jobs', user?.id],
+    enabled: !!user,
+    queryFn: fetchRecentJobs,
+    refetchInterval: (query) =>
+      query.state.data?.some(isActiveJob) ? JOB_POLL_INTERVAL_MS : false,
+  });
+}
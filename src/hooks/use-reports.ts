@@ -0,0 +1,87 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { buildDepartmentCatalogue } from '@/utils/departmentCatalogue';
+import { buildItemSuggestions } from '@/utils/offeredItems';
+import {
+  countReports,
+  fetchCatalogueReports,
+  fetchCompetitorReports,
+  fetchItemReports,
+  fetchReports,
+  fetchStoredReport,
+} from '@/utils/reportStorage';
+
+export const REPORTS_PAGE_SIZE = 10;
+
+/** One page of the signed-in user's stored reports, newest first. */
+export function useReports(page: number, search: string) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reports', user?.id, page, search],
+    enabled: !!user,
+    queryFn: () => fetchReports({ page, pageSize: REPORTS_PAGE_SIZE, search }),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useReportCount() {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['reports', user?.id, 'count'],
+    enabled: !!user,
+    queryFn: countReports,
+  });
+
+  return { count: query.data ?? 0, isLoading: query.isLoading };
+}
+
+/** A single stored report with its data, for the in-app viewer. */
+export function useStoredReport(reportId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reports', user?.id, 'report', reportId],
+    enabled: !!user && !!reportId,
+    queryFn: () => fetchStoredReport(reportId),
+    // Stored report data never changes
+    staleTime: Infinity,
+  });
+}
+
+/** The top sellers and tenders of every stored report, for competitor profiles. */
+export function useCompetitorReports() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reports', user?.id, 'competitors'],
+    enabled: !!user,
+    queryFn: fetchCompetitorReports,
+  });
+}
+
+/** Departments, ministries and organisations to scope a report to, with tender counts. */
+export function useDepartmentCatalogue() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reports', user?.id, 'departments'],
+    enabled: !!user,
+    queryFn: async () => buildDepartmentCatalogue(await fetchCatalogueReports()),
+    // Only changes when a report is stored, which invalidates 'reports'
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/** Offered-item categories seen in stored reports, for autocomplete. */
+export function useItemSuggestions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reports', user?.id, 'items'],
+    enabled: !!user,
+    queryFn: async () => buildItemSuggestions(await fetchItemReports()),
+    staleTime: 10 * 60 * 1000,
+  });
+}
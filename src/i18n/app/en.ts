@@ -0,0 +1,429 @@
+// Fixed strings of the web app, grouped by page. Names, departments and other
+// values from the database are shown as stored.
+
+const plural = (count: number, one: string, many: string) => (count === 1 ? one : many);
+
+export const en = {
+  common: {
+    back: 'Back',
+    backToDashboard: 'Back to Dashboard',
+    cancel: 'Cancel',
+    credits: 'Credits',
+    appName: 'Government Tender Analysis Platform',
+    appTagline: 'Government Tender Performance Analysis',
+    language: 'Language',
+    unexpectedError: 'Unexpected Error',
+    downloadFailed: 'Download Failed',
+    downloadFailedDescription: 'The stored PDF could not be retrieved. Please try again.',
+    downloadPdf: 'Download PDF',
+    pageNotFound: 'Oops! Page not found',
+    returnHome: 'Return to Home',
+  },
+  // Report section toggles, keyed by section id. Missing ids fall back to the registry label.
+  sections: {} as Record<string, string>,
+  reportLanguages: {
+    en: 'English',
+    hi: 'Hindi',
+    bilingual: 'Bilingual (English + Hindi)',
+  },
+  dataFormats: {
+    xlsx: 'One worksheet per report section',
+    csv: 'Flat tables of the raw data, zipped',
+    json: 'The complete normalized report data',
+  },
+  index: {
+    intro:
+      'Generate comprehensive, professional PDF reports analyzing government tender data with advanced filtering capabilities and AI-powered strategic insights',
+    getStarted: 'Get Started - Receive 10 Free Credits',
+    signIn: 'Sign In to Your Account',
+    features: 'Platform Features & Capabilities',
+    analysisTitle: 'Comprehensive Analysis',
+    analysisText:
+      'Detailed insights into bidding history, market overview, department performance metrics, and competitive landscape analysis',
+    insightsTitle: 'AI-Powered Strategic Insights',
+    insightsText:
+      'Intelligent recommendations, winnable opportunity identification, and data-driven strategic guidance for procurement success',
+    secureTitle: 'Secure & Professional',
+    secureText:
+      'Enterprise-grade security with professional PDF reports delivered securely to your designated email address',
+  },
+  login: {
+    title: 'Welcome Back',
+    description: 'Sign in to your Government Tender Analysis account',
+    email: 'Email',
+    password: 'Password',
+    passwordPlaceholder: 'Enter your password',
+    rememberMe: 'Remember me',
+    forgotPassword: 'Forgot password?',
+    signIn: 'Sign In',
+    signingIn: 'Signing in...',
+    noAccount: "Don't have an account?",
+    signUp: 'Sign up',
+    success: 'Login successful',
+    successDescription: 'Welcome back!',
+    failed: 'Login failed',
+    failedDescription: 'Invalid email or password',
+  },
+  register: {
+    title: 'Create Account',
+    description: 'Get started with 10 free credits',
+    fullName: 'Full Name *',
+    email: 'Email Address *',
+    organization: 'Organization Name',
+    phone: 'Phone Number',
+    password: 'Password *',
+    passwordPlaceholder: 'Create a strong password',
+    passwordHint: 'Min 8 characters, 1 uppercase, 1 number, 1 special character',
+    confirmPassword: 'Confirm Password *',
+    confirmPasswordPlaceholder: 'Re-enter your password',
+    acceptTerms: 'I agree to the Terms and Conditions and Privacy Policy',
+    submit: 'Create Account',
+    submitting: 'Creating account...',
+    haveAccount: 'Already have an account?',
+    signIn: 'Sign in',
+    termsRequired: 'Terms required',
+    termsRequiredDescription: 'Please accept the terms and conditions',
+    invalidPassword: 'Invalid password',
+    invalidPasswordDescription: 'Password must be at least 8 characters with 1 uppercase, 1 number, and 1 special character',
+    passwordMismatch: 'Passwords do not match',
+    passwordMismatchDescription: 'Please ensure both passwords are identical',
+    confirmEmail: 'Confirm your email',
+    confirmEmailDescription: (email: string) =>
+      `We sent a confirmation link to ${email}. Sign in once your address is verified.`,
+    success: 'Registration successful',
+    successDescription: 'You have been granted 10 credits to get started!',
+    failed: 'Registration failed',
+    failedDescription: 'Please try again',
+  },
+  dashboard: {
+    tagline: 'Professional Procurement Intelligence & Reporting',
+    signOut: 'Sign Out',
+    welcome: (name: string) => `Welcome back, ${name}`,
+    intro:
+      'Generate comprehensive tender analysis reports and gain actionable insights into government procurement data',
+    availableCredits: 'Available Credits',
+    noCredits: 'No credits remaining - Contact administrator',
+    creditsAvailable: (count: number) => `${count} analysis ${plural(count, 'report', 'reports')} available`,
+    generatedReports: 'Generated Reports',
+    noReports: 'No reports generated yet',
+    reportsInHistory: (count: number) => `${count} ${plural(count, 'report', 'reports')} in your history`,
+    accountInformation: 'Account Information',
+    individualAccount: 'Individual Account',
+    quickActions: 'Quick Actions',
+    generateTitle: 'Generate New Report',
+    generateText: 'Create a comprehensive tender performance analysis report',
+    historyTitle: 'View Report History',
+    historyText: 'Access and download your previously generated reports',
+    settingsTitle: 'Account Settings',
+    settingsText: 'Manage your profile and account preferences',
+  },
+  profile: {
+    title: 'My Profile',
+    description: 'Manage your account settings',
+    accountInformation: 'Account Information',
+    personalDetails: 'Your personal details',
+    fullName: 'Full Name',
+    email: 'Email',
+    organization: 'Organization',
+    creditBalance: 'Credit Balance',
+    availableCreditsDescription: 'Your available credits',
+    availableCredits: 'Available Credits',
+    noCredits: 'You have no credits remaining. Contact admin to add more credits.',
+    canGenerate: (count: number) => `You can generate ${count} more ${plural(count, 'report', 'reports')}.`,
+    accountType: 'Account Type',
+    accountRole: 'Your account role',
+    help: 'Need Help?',
+    contactSupport: 'Contact support',
+    supportText: 'For credit top-ups or technical support, please contact your administrator.',
+    contactSupportButton: 'Contact Support',
+  },
+  branding: {
+    title: 'Organization Branding',
+    description: "Logo, colors and texts used on your organization's reports and in the app",
+    noOrganization: 'Your account is not part of an organization yet. Ask your administrator to add you to set up branding.',
+    adminOnly: 'Only organization admins can change the branding.',
+    logo: 'Logo',
+    logoHint: 'PNG or JPEG, up to 512 KB',
+    noLogo: 'No logo uploaded',
+    uploadLogo: 'Upload Logo',
+    removeLogo: 'Remove Logo',
+    invalidLogo: 'The logo must be a PNG or JPEG image of 512 KB or less.',
+    logoFailed: 'Could not update the logo',
+    primaryColor: 'Primary Color',
+    accentColor: 'Accent Color',
+    useDefault: 'Use default',
+    defaultColor: 'Default',
+    coverTitle: 'Cover Title',
+    coverTitleHint: 'Shown on the cover and at the top of every page',
+    footerDisclaimer: 'Footer Disclaimer',
+    footerDisclaimerHint: 'Printed at the foot of every page; keep it to about two lines',
+    contactLine: 'Contact Line',
+    contactLinePlaceholder: 'e.g. Acme Consulting | +91 98765 43210 | reports@acme.in',
+    save: 'Save Branding',
+    saving: 'Saving...',
+    saved: 'Branding saved',
+    savedDescription: "New and re-rendered reports will use your organization's branding.",
+    saveFailed: 'Could not save branding',
+  },
+  generate: {
+    title: 'Generate Analysis Report',
+    configuration: 'Report Configuration',
+    configurationDescription:
+      'Enter the required information to generate your comprehensive tender analysis report (1 Credit per report)',
+    sellerName: 'Seller/Company Name *',
+    sellerNamePlaceholder: 'Enter company name (e.g., RAJHANS IMPEX)',
+    department: 'Target Departments *',
+    departmentPlaceholder: 'Select government departments',
+    allDepartments: 'All departments',
+    departmentHint: 'Pick one or more buyers, or all departments for a market-wide report. Tender counts show where the market is.',
+    departmentsSelected: (count: number) => `${count} departments selected`,
+    removeDepartment: (name: string) => `Remove ${name}`,
+    departmentSearch: 'Search departments, ministries and organisations',
+    noDepartmentMatches: 'No matching department, ministry or organisation',
+    loadingDepartments: 'Loading departments from your reports…',
+    catalogueGroups: {
+      department: 'Departments',
+      ministry: 'Ministries',
+      organisation: 'Organisations',
+    },
+    tenderCount: (count: string) => `${count} tenders`,
+    offeredItem: 'Offered Item Categories *',
+    offeredItemPlaceholder: 'Type an item and press Enter, or paste a comma-separated list',
+    offeredItemHint: 'Items are sent as you enter them; the same item in another case, plural or common synonym (lamp/bulb) is added once',
+    itemsUsed: (count: number, max: number) => `${count}/${max} items`,
+    itemSuggestions: 'Seen in your reports',
+    itemLimitReached: 'Item limit reached; remove one to add another',
+    addItem: (item: string) => `Add "${item}"`,
+    removeItem: (item: string) => `Remove ${item}`,
+    itemErrors: {
+      tooShort: (item: string) => `"${item}" is too short; use at least 3 characters`,
+      tooLong: (item: string) => `"${item}" is too long; keep each item under 100 characters`,
+      noLetters: (item: string) => `"${item}" needs a name, not only numbers or symbols`,
+      duplicate: (item: string) => `"${item}" is already in the list`,
+      tooMany: (item: string) => `"${item}" was not added; a report covers at most 20 items`,
+    },
+    days: 'Analysis Time Period (Days) *',
+    daysHint: 'Number of days to analyze (1-365)',
+    limit: 'Maximum Results *',
+    limitHint: 'Number of results to include (1-100)',
+    email: 'Report Delivery Email *',
+    emailHint: 'The generated report will be sent to this email address',
+    reportLanguage: 'Report Language',
+    reportLanguageHint: 'Section titles, labels and recommendations are printed in this language',
+    compare: 'Compare With a Competitor',
+    compareHint: 'Adds a head-to-head comparison to the Rivalry Scorecard section',
+    competitorName: 'Competitor Name *',
+    competitorNamePlaceholder: 'Enter the competing seller, as listed on tenders',
+    competitorSameAsSeller: 'Enter a different seller from the one the report is for',
+    sections: 'Report Sections Configuration',
+    sectionsDescription: (selected: number, total: number) =>
+      `Customize which sections to include in your analysis report (${selected} of ${total} sections selected)`,
+    selectAll: 'Select All Sections',
+    deselectAll: 'Deselect All Sections',
+    downloads: 'Data Downloads',
+    downloadsDescription: "Also download the report's underlying data for use in spreadsheets or BI tools",
+    cost: 'Report Generation Cost: 1 Credit',
+    balance: 'Your current credit balance:',
+    balanceCredits: (count: number) => `${count} ${plural(count, 'credit', 'credits')}`,
+    insufficientCredits:
+      'Insufficient credits available. Please contact your administrator to purchase additional credits.',
+    submit: 'Generate Analysis Report',
+    submitting: 'Queuing Report...',
+    insufficientCreditsTitle: 'Insufficient Credits',
+    insufficientCreditsDescription: (count: number) =>
+      `You need 1 credit to generate a report. Current balance: ${count}`,
+    queued: 'Report Queued',
+    queuedDescription:
+      "We're preparing your report. It will download automatically when ready, even if you leave this page.",
+    unexpectedErrorDescription: 'An unexpected error occurred. Please try again or contact support.',
+  },
+  history: {
+    title: 'Report History',
+    description: 'View and download your reports',
+    searchPlaceholder: 'Search by seller, department or item',
+    loading: 'Loading reports...',
+    loadFailed: 'Unable to Load Reports',
+    loadFailedDescription: 'Please refresh the page or try again later.',
+    noMatches: 'No Matching Reports',
+    noMatchesDescription: (search: string) =>
+      `No reports match "${search}". Try a different seller, department or item.`,
+    empty: 'No Reports Yet',
+    emptyDescription: "You haven't generated any reports yet. Create your first report to get started.",
+    generateFirst: 'Generate Your First Report',
+    showing: (from: number, to: number, total: number) =>
+      `Showing ${from}-${to} of ${total} ${plural(total, 'report', 'reports')}`,
+    generatedOn: (date: string) => `Generated on ${date}`,
+    sectionCount: (count: number) => `${count} ${plural(count, 'section', 'sections')}`,
+    view: 'View',
+    download: 'Download',
+    resendEmail: 'Resend Email',
+    resendEmailSubject: (sellerName: string) => `Tender analysis report: ${sellerName}`,
+    resendEmailBody: (sellerName: string, link: string, days: number) =>
+      `Your tender analysis report for ${sellerName} can be downloaded here for the next ${days} days:\n\n${link}`,
+    resendFailed: 'Email Not Prepared',
+    resendFailedDescription: 'A link to this report could not be created. Please try again.',
+    data: 'Data',
+    rerender: 'Re-render',
+    refreshData: 'Refresh Data',
+    exportFailed: 'Export Failed',
+    exportFailedDescription: 'The data file could not be created. Please try again.',
+    refreshQueued: 'Refresh Queued',
+    refreshQueuedDescription: (sellerName: string) =>
+      `Fresh data for ${sellerName} is being fetched. The new report will download automatically and appear in your history.`,
+    refreshFailed: 'Refresh Failed',
+    refreshFailedDescription: 'Unable to refresh this report. Please try again.',
+    refreshConfirmTitle: 'Refresh report data?',
+    refreshConfirmDescription: (sellerName: string, credits: number) =>
+      `This re-queries the backend for ${sellerName} with the original parameters and costs 1 credit. Your current balance is ${credits} ${plural(credits, 'credit', 'credits')}.`,
+    refreshConfirm: 'Refresh for 1 Credit',
+  },
+  rerender: {
+    title: (sellerName: string) => `Re-render ${sellerName}`,
+    description:
+      'Build a new PDF from the data saved with this report. Choose the sections to include. This is free and does not query the backend again.',
+    submit: 'Re-render PDF',
+    done: 'Report Re-rendered',
+    doneDescription: (fileName: string) => `${fileName} was created from the saved data. No credit was used.`,
+    failed: 'Re-render Failed',
+    failedDescription: 'Unable to re-render this report. Please try again.',
+  },
+  jobs: {
+    title: 'Report Jobs',
+    inProgress: (count: number) =>
+      `${count} ${plural(count, 'report', 'reports')} in progress. You can leave this page; progress is saved.`,
+    recent: 'Recently generated reports',
+    queuedAt: (date: string) => `Queued ${date}`,
+    dismiss: 'Dismiss',
+    status: {
+      queued: 'Queued',
+      fetching_data: 'Fetching data',
+      rendering: 'Data received',
+      claimed: 'Building PDF',
+      done: 'Done',
+      failed: 'Failed',
+    },
+    ready: 'Report Ready',
+    readyDescription: (fileName: string) =>
+      `Your report has been downloaded as ${fileName} and saved to Report History.`,
+    readyNotification: 'Report ready',
+    readyNotificationBody: (fileName: string) => `${fileName} has been downloaded.`,
+    failed: 'Report Generation Failed',
+    failedNotification: 'Report failed',
+    failedDescription: (sellerName: string) => `The report for ${sellerName} could not be generated.`,
+  },
+  viewer: {
+    fallbackTitle: 'Report',
+    subtitle: (department: string, days: number, date: string) =>
+      `${department} • Last ${days} days • Generated ${date}`,
+    interactive: 'Interactive report',
+    loading: 'Loading report...',
+    loadFailed: 'Unable to Load Report',
+    loadFailedDescription: "This report doesn't exist, or its data could not be read.",
+    backToHistory: 'Back to Report History',
+    downloadFailedDescription: 'The PDF could not be downloaded. Please try again.',
+    recentWins: 'Recent Wins',
+    recentWinsDescription: (count: number, sellerName: string) =>
+      `${count} ${plural(count, 'tender', 'tenders')} won by ${sellerName}`,
+    lowCompetition: 'Low Competition Bids',
+    lowCompetitionDescription: 'Open tenders with few bidders',
+    kpis: {
+      tendersAnalysed: 'Tenders Analysed',
+      perDay: (value: string) => `${value} per day`,
+      wins: 'Wins',
+      wonByOthers: (value: string) => `${value} won by others`,
+      winRate: 'Win Rate',
+      inScope: 'Of tenders in scope',
+      totalWonValue: 'Total Won Value',
+      average: (value: string) => `${value} average`,
+      estimatedMissedValue: 'Estimated Missed Value',
+      winnableLost: 'Winnable tenders lost',
+    },
+    charts: {
+      won: 'Won',
+      wonByOthers: 'Won by others',
+      value: 'Value',
+      winLoss: 'Win / Loss',
+      winLossDescription: (winRate: string, total: number) => `${winRate}% win rate across ${total} tenders`,
+      noTenders: 'No tenders in this period',
+      departments: 'Department Affinity',
+      departmentsDescription: 'Value won per department',
+      noDepartments: 'No wins to group by department',
+      states: 'State Distribution',
+      statesDescription: 'Tender value by state',
+      noStates: 'No state data for this report',
+    },
+    table: {
+      bidNumber: 'Bid Number',
+      organization: 'Organization',
+      organizationOrDept: 'Organization / Dept',
+      department: 'Department',
+      quantity: 'Qty',
+      value: 'Value',
+      endDate: 'End Date',
+      bidders: 'Bidders',
+      match: 'Match',
+      filterPlaceholder: 'Filter by bid, organization or department',
+      empty: 'No tenders in this report',
+      noMatches: (search: string) => `No tenders match "${search}"`,
+      showing: (visible: number, total: number) => `Showing ${visible} of ${total}`,
+      showMore: 'Show more',
+    },
+    likelyWins: {
+      title: 'AI Likely Wins',
+      opportunity: (index: number) => `Opportunity #${index}`,
+      matchingWins: (count: number) => `${count} matching ${plural(count, 'win', 'wins')}`,
+      empty: 'No likely-win opportunities were identified for this report.',
+    },
+    trend: {
+      title: 'Performance Trend',
+      weeklyDescription: 'Tenders won and lost each week, by end date',
+      monthlyDescription: 'Tenders won and lost each month, by end date',
+      latest: (period: string) => `${period} compared with the period before`,
+      wins: 'Wins',
+      winRate: 'Win rate',
+      valueWon: 'Value won',
+      points: (value: string) => `${value} pts`,
+      declining: 'Declining departments',
+      decliningItem: (before: string, after: string) => `${before}% → ${after}% win rate`,
+      noDeclining: 'No department lost 10 or more points of win rate between the first and second half of the period.',
+      empty: 'No tenders with an end date in this report',
+    },
+    competitors: {
+      title: 'Competitors',
+      description: 'Top sellers in this report, most threatening first',
+      empty: 'No top sellers were listed for this report.',
+      seller: 'Seller',
+      threatScore: 'Threat Score',
+      threat: (level: string, score: number) => `${level} (${score})`,
+      levels: { high: 'High', medium: 'Medium', low: 'Low' },
+    },
+  },
+  competitors: {
+    subtitle: (reports: number) => `Seen in ${reports} of your ${plural(reports, 'report', 'reports')}`,
+    loading: 'Loading competitor...',
+    notFound: 'Competitor Not Found',
+    notFoundDescription: "This seller doesn't appear in any of your stored reports.",
+    reportsSeen: 'Reports',
+    latestValue: 'Latest Value',
+    sharedDepartments: 'Shared Departments',
+    tendersLost: 'Tenders Lost to Them',
+    valueTrend: 'Value Over Time',
+    valueTrendDescription: 'Their value across top-seller departments in each report',
+    value: 'Value',
+    departments: 'Departments',
+    departmentsDescription: 'Where they were listed as a top seller',
+    shared: 'Shared',
+    sharedTooltip: 'You had tenders in this department too',
+    reportCount: 'Reports',
+    headToHead: 'Head to Head',
+    headToHeadDescription: (count: number, value: string) =>
+      `${count} ${plural(count, 'tender', 'tenders')} in scope of your reports won by them, worth ${value}`,
+    noHeadToHead: 'None of the tenders they won were in scope of your reports.',
+    appearances: 'Reports They Appear In',
+    report: 'Report',
+    generated: 'Generated',
+    viewReport: 'View report',
+  },
+};
+
+export type AppMessages = typeof en;
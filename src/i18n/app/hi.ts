@@ -0,0 +1,432 @@
+import type { AppMessages } from '@/i18n/app/en';
+
+export const hi: AppMessages = {
+  common: {
+    back: 'वापस',
+    backToDashboard: 'डैशबोर्ड पर वापस',
+    cancel: 'रद्द करें',
+    credits: 'क्रेडिट',
+    appName: 'सरकारी निविदा विश्लेषण प्लेटफ़ॉर्म',
+    appTagline: 'सरकारी निविदा प्रदर्शन विश्लेषण',
+    language: 'भाषा',
+    unexpectedError: 'अप्रत्याशित त्रुटि',
+    downloadFailed: 'डाउनलोड विफल',
+    downloadFailedDescription: 'सहेजी गई PDF प्राप्त नहीं हो सकी। कृपया पुनः प्रयास करें।',
+    downloadPdf: 'PDF डाउनलोड करें',
+    pageNotFound: 'क्षमा करें! पृष्ठ नहीं मिला',
+    returnHome: 'मुखपृष्ठ पर लौटें',
+  },
+  sections: {
+    bidsSummary: 'भाग ली गई बोलियों का सारांश (विभागवार)',
+    marketOverview: 'समग्र बाज़ार अवलोकन',
+    performanceTrend: 'प्रदर्शन रुझान',
+    departmentBreakdown: 'विभागवार विवरण',
+    topPerformer: 'शीर्ष प्रदर्शन करने वाला विभाग',
+    missedTenders: 'छूटी हुई जीतने योग्य निविदाएँ',
+    aiInsights: 'एआई विश्लेषण और सुझाव',
+    buyerInsights: 'क्रेता/विभाग अंतर्दृष्टि',
+    rivalryScore: 'प्रतिस्पर्धा स्कोरकार्ड',
+    lowCompetition: 'एकल-बोलीदाता/कम प्रतिस्पर्धा वाले अवसर',
+    topStates: 'शीर्ष प्रदर्शन करने वाले राज्य/क्षेत्र',
+    recentBids: 'हाल की सफल बोलियाँ',
+    metricDefinitions: 'परिशिष्ट: मापदंडों की परिभाषाएँ',
+  },
+  reportLanguages: {
+    en: 'अंग्रेज़ी',
+    hi: 'हिंदी',
+    bilingual: 'द्विभाषी (अंग्रेज़ी + हिंदी)',
+  },
+  dataFormats: {
+    xlsx: 'हर रिपोर्ट खंड के लिए एक वर्कशीट',
+    csv: 'कच्चे डेटा की सरल तालिकाएँ, ज़िप में',
+    json: 'पूरा सामान्यीकृत रिपोर्ट डेटा',
+  },
+  index: {
+    intro:
+      'उन्नत फ़िल्टर और एआई आधारित रणनीतिक अंतर्दृष्टि के साथ सरकारी निविदा डेटा का विश्लेषण करने वाली व्यापक, पेशेवर PDF रिपोर्ट बनाएँ',
+    getStarted: 'शुरू करें - 10 मुफ़्त क्रेडिट पाएँ',
+    signIn: 'अपने खाते में साइन इन करें',
+    features: 'प्लेटफ़ॉर्म की विशेषताएँ और क्षमताएँ',
+    analysisTitle: 'व्यापक विश्लेषण',
+    analysisText:
+      'बोली इतिहास, बाज़ार अवलोकन, विभागीय प्रदर्शन मापदंड और प्रतिस्पर्धी परिदृश्य की विस्तृत जानकारी',
+    insightsTitle: 'एआई आधारित रणनीतिक अंतर्दृष्टि',
+    insightsText:
+      'खरीद में सफलता के लिए समझदार सुझाव, जीतने योग्य अवसरों की पहचान और डेटा आधारित रणनीतिक मार्गदर्शन',
+    secureTitle: 'सुरक्षित और पेशेवर',
+    secureText: 'उच्च स्तरीय सुरक्षा के साथ पेशेवर PDF रिपोर्ट, आपके चुने हुए ईमेल पते पर सुरक्षित रूप से भेजी जाती है',
+  },
+  login: {
+    title: 'फिर से स्वागत है',
+    description: 'अपने सरकारी निविदा विश्लेषण खाते में साइन इन करें',
+    email: 'ईमेल',
+    password: 'पासवर्ड',
+    passwordPlaceholder: 'अपना पासवर्ड दर्ज करें',
+    rememberMe: 'मुझे याद रखें',
+    forgotPassword: 'पासवर्ड भूल गए?',
+    signIn: 'साइन इन करें',
+    signingIn: 'साइन इन हो रहा है...',
+    noAccount: 'खाता नहीं है?',
+    signUp: 'साइन अप करें',
+    success: 'लॉगिन सफल',
+    successDescription: 'फिर से स्वागत है!',
+    failed: 'लॉगिन विफल',
+    failedDescription: 'अमान्य ईमेल या पासवर्ड',
+  },
+  register: {
+    title: 'खाता बनाएँ',
+    description: '10 मुफ़्त क्रेडिट के साथ शुरू करें',
+    fullName: 'पूरा नाम *',
+    email: 'ईमेल पता *',
+    organization: 'संगठन का नाम',
+    phone: 'फ़ोन नंबर',
+    password: 'पासवर्ड *',
+    passwordPlaceholder: 'एक मज़बूत पासवर्ड बनाएँ',
+    passwordHint: 'कम से कम 8 अक्षर, 1 बड़ा अक्षर, 1 अंक, 1 विशेष चिह्न',
+    confirmPassword: 'पासवर्ड की पुष्टि करें *',
+    confirmPasswordPlaceholder: 'पासवर्ड फिर से दर्ज करें',
+    acceptTerms: 'मैं नियम और शर्तों तथा गोपनीयता नीति से सहमत हूँ',
+    submit: 'खाता बनाएँ',
+    submitting: 'खाता बनाया जा रहा है...',
+    haveAccount: 'पहले से खाता है?',
+    signIn: 'साइन इन करें',
+    termsRequired: 'शर्तें स्वीकार करना आवश्यक',
+    termsRequiredDescription: 'कृपया नियम और शर्तें स्वीकार करें',
+    invalidPassword: 'अमान्य पासवर्ड',
+    invalidPasswordDescription: 'पासवर्ड में कम से कम 8 अक्षर, 1 बड़ा अक्षर, 1 अंक और 1 विशेष चिह्न होना चाहिए',
+    passwordMismatch: 'पासवर्ड मेल नहीं खाते',
+    passwordMismatchDescription: 'कृपया सुनिश्चित करें कि दोनों पासवर्ड एक जैसे हैं',
+    confirmEmail: 'अपने ईमेल की पुष्टि करें',
+    confirmEmailDescription: (email: string) =>
+      `हमने ${email} पर पुष्टि लिंक भेजा है। पता सत्यापित होने के बाद साइन इन करें।`,
+    success: 'पंजीकरण सफल',
+    successDescription: 'शुरुआत के लिए आपको 10 क्रेडिट दिए गए हैं!',
+    failed: 'पंजीकरण विफल',
+    failedDescription: 'कृपया पुनः प्रयास करें',
+  },
+  dashboard: {
+    tagline: 'पेशेवर खरीद जानकारी और रिपोर्टिंग',
+    signOut: 'साइन आउट',
+    welcome: (name: string) => `फिर से स्वागत है, ${name}`,
+    intro: 'व्यापक निविदा विश्लेषण रिपोर्ट बनाएँ और सरकारी खरीद डेटा से उपयोगी जानकारी पाएँ',
+    availableCredits: 'उपलब्ध क्रेडिट',
+    noCredits: 'कोई क्रेडिट शेष नहीं - व्यवस्थापक से संपर्क करें',
+    creditsAvailable: (count: number) => `${count} विश्लेषण रिपोर्ट उपलब्ध`,
+    generatedReports: 'बनाई गई रिपोर्ट',
+    noReports: 'अभी तक कोई रिपोर्ट नहीं बनाई गई',
+    reportsInHistory: (count: number) => `आपके इतिहास में ${count} रिपोर्ट`,
+    accountInformation: 'खाते की जानकारी',
+    individualAccount: 'व्यक्तिगत खाता',
+    quickActions: 'त्वरित कार्य',
+    generateTitle: 'नई रिपोर्ट बनाएँ',
+    generateText: 'व्यापक निविदा प्रदर्शन विश्लेषण रिपोर्ट बनाएँ',
+    historyTitle: 'रिपोर्ट इतिहास देखें',
+    historyText: 'पहले बनाई गई रिपोर्ट देखें और डाउनलोड करें',
+    settingsTitle: 'खाता सेटिंग',
+    settingsText: 'अपनी प्रोफ़ाइल और खाता प्राथमिकताएँ प्रबंधित करें',
+  },
+  profile: {
+    title: 'मेरी प्रोफ़ाइल',
+    description: 'अपनी खाता सेटिंग प्रबंधित करें',
+    accountInformation: 'खाते की जानकारी',
+    personalDetails: 'आपका व्यक्तिगत विवरण',
+    fullName: 'पूरा नाम',
+    email: 'ईमेल',
+    organization: 'संगठन',
+    creditBalance: 'क्रेडिट शेष',
+    availableCreditsDescription: 'आपके उपलब्ध क्रेडिट',
+    availableCredits: 'उपलब्ध क्रेडिट',
+    noCredits: 'आपके पास कोई क्रेडिट शेष नहीं है। और क्रेडिट के लिए व्यवस्थापक से संपर्क करें।',
+    canGenerate: (count: number) => `आप ${count} और रिपोर्ट बना सकते हैं।`,
+    accountType: 'खाते का प्रकार',
+    accountRole: 'आपके खाते की भूमिका',
+    help: 'सहायता चाहिए?',
+    contactSupport: 'सहायता से संपर्क करें',
+    supportText: 'क्रेडिट टॉप-अप या तकनीकी सहायता के लिए कृपया अपने व्यवस्थापक से संपर्क करें।',
+    contactSupportButton: 'सहायता से संपर्क करें',
+  },
+  branding: {
+    title: 'संगठन ब्रांडिंग',
+    description: 'आपके संगठन की रिपोर्ट और ऐप में उपयोग होने वाला लोगो, रंग और पाठ',
+    noOrganization: 'आपका खाता अभी किसी संगठन से नहीं जुड़ा है। ब्रांडिंग सेट करने के लिए अपने व्यवस्थापक से आपको जोड़ने के लिए कहें।',
+    adminOnly: 'केवल संगठन व्यवस्थापक ही ब्रांडिंग बदल सकते हैं।',
+    logo: 'लोगो',
+    logoHint: 'PNG या JPEG, अधिकतम 512 KB',
+    noLogo: 'कोई लोगो अपलोड नहीं किया गया',
+    uploadLogo: 'लोगो अपलोड करें',
+    removeLogo: 'लोगो हटाएँ',
+    invalidLogo: 'लोगो 512 KB या उससे छोटी PNG या JPEG छवि होनी चाहिए।',
+    logoFailed: 'लोगो अपडेट नहीं हो सका',
+    primaryColor: 'मुख्य रंग',
+    accentColor: 'सहायक रंग',
+    useDefault: 'डिफ़ॉल्ट उपयोग करें',
+    defaultColor: 'डिफ़ॉल्ट',
+    coverTitle: 'कवर शीर्षक',
+    coverTitleHint: 'कवर पर और हर पृष्ठ के ऊपर दिखाया जाता है',
+    footerDisclaimer: 'फ़ुटर अस्वीकरण',
+    footerDisclaimerHint: 'हर पृष्ठ के नीचे छपता है; इसे लगभग दो पंक्तियों तक रखें',
+    contactLine: 'संपर्क पंक्ति',
+    contactLinePlaceholder: 'उदा. Acme Consulting | +91 98765 43210 | reports@acme.in',
+    save: 'ब्रांडिंग सहेजें',
+    saving: 'सहेजा जा रहा है...',
+    saved: 'ब्रांडिंग सहेजी गई',
+    savedDescription: 'नई और दोबारा बनाई गई रिपोर्ट आपके संगठन की ब्रांडिंग का उपयोग करेंगी।',
+    saveFailed: 'ब्रांडिंग सहेजी नहीं जा सकी',
+  },
+  generate: {
+    title: 'विश्लेषण रिपोर्ट बनाएँ',
+    configuration: 'रिपोर्ट विन्यास',
+    configurationDescription:
+      'अपनी व्यापक निविदा विश्लेषण रिपोर्ट बनाने के लिए आवश्यक जानकारी दर्ज करें (प्रति रिपोर्ट 1 क्रेडिट)',
+    sellerName: 'विक्रेता/कंपनी का नाम *',
+    sellerNamePlaceholder: 'कंपनी का नाम दर्ज करें (जैसे, RAJHANS IMPEX)',
+    department: 'लक्षित विभाग *',
+    departmentPlaceholder: 'सरकारी विभाग चुनें',
+    allDepartments: 'सभी विभाग',
+    departmentHint: 'एक या अधिक खरीदार चुनें, या पूरे बाज़ार की रिपोर्ट के लिए सभी विभाग। निविदा संख्या बताती है कि बाज़ार कहाँ है।',
+    departmentsSelected: (count: number) => `${count} विभाग चुने गए`,
+    removeDepartment: (name: string) => `${name} हटाएँ`,
+    departmentSearch: 'विभाग, मंत्रालय और संगठन खोजें',
+    noDepartmentMatches: 'कोई मिलता-जुलता विभाग, मंत्रालय या संगठन नहीं',
+    loadingDepartments: 'आपकी रिपोर्टों से विभाग लोड हो रहे हैं…',
+    catalogueGroups: {
+      department: 'विभाग',
+      ministry: 'मंत्रालय',
+      organisation: 'संगठन',
+    },
+    tenderCount: (count: string) => `${count} निविदाएँ`,
+    offeredItem: 'प्रस्तावित वस्तु श्रेणियाँ *',
+    offeredItemPlaceholder: 'वस्तु लिखकर Enter दबाएँ, या अल्पविराम से अलग सूची चिपकाएँ',
+    offeredItemHint: 'वस्तुएँ वैसे ही भेजी जाती हैं जैसे आप लिखते हैं; एक ही वस्तु अलग केस, बहुवचन या सामान्य पर्याय (lamp/bulb) में एक बार जुड़ती है',
+    itemsUsed: (count: number, max: number) => `${max} में से ${count} वस्तुएँ`,
+    itemSuggestions: 'आपकी रिपोर्टों में देखी गई',
+    itemLimitReached: 'वस्तुओं की सीमा पूरी हो गई; नई जोड़ने के लिए कोई एक हटाएँ',
+    addItem: (item: string) => `"${item}" जोड़ें`,
+    removeItem: (item: string) => `${item} हटाएँ`,
+    itemErrors: {
+      tooShort: (item: string) => `"${item}" बहुत छोटा है; कम से कम 3 अक्षर लिखें`,
+      tooLong: (item: string) => `"${item}" बहुत लंबा है; हर वस्तु 100 अक्षरों से कम रखें`,
+      noLetters: (item: string) => `"${item}" में नाम होना चाहिए, केवल अंक या चिह्न नहीं`,
+      duplicate: (item: string) => `"${item}" पहले से सूची में है`,
+      tooMany: (item: string) => `"${item}" नहीं जोड़ा गया; एक रिपोर्ट में अधिकतम 20 वस्तुएँ होती हैं`,
+    },
+    days: 'विश्लेषण अवधि (दिन) *',
+    daysHint: 'विश्लेषण के दिनों की संख्या (1-365)',
+    limit: 'अधिकतम परिणाम *',
+    limitHint: 'शामिल किए जाने वाले परिणामों की संख्या (1-100)',
+    email: 'रिपोर्ट भेजने का ईमेल *',
+    emailHint: 'बनाई गई रिपोर्ट इस ईमेल पते पर भेजी जाएगी',
+    reportLanguage: 'रिपोर्ट की भाषा',
+    reportLanguageHint: 'खंड शीर्षक, लेबल और सुझाव इसी भाषा में छापे जाते हैं',
+    compare: 'किसी प्रतिस्पर्धी से तुलना करें',
+    compareHint: 'प्रतिस्पर्धा स्कोरकार्ड खंड में आमने-सामने की तुलना जोड़ता है',
+    competitorName: 'प्रतिस्पर्धी का नाम *',
+    competitorNamePlaceholder: 'प्रतिस्पर्धी विक्रेता का नाम दर्ज करें, जैसा निविदाओं में दर्ज है',
+    competitorSameAsSeller: 'रिपोर्ट वाले विक्रेता से अलग विक्रेता दर्ज करें',
+    sections: 'रिपोर्ट खंड विन्यास',
+    sectionsDescription: (selected: number, total: number) =>
+      `चुनें कि विश्लेषण रिपोर्ट में कौन से खंड शामिल हों (${total} में से ${selected} खंड चुने गए)`,
+    selectAll: 'सभी खंड चुनें',
+    deselectAll: 'सभी खंड हटाएँ',
+    downloads: 'डेटा डाउनलोड',
+    downloadsDescription: 'स्प्रेडशीट या बीआई टूल में उपयोग के लिए रिपोर्ट का मूल डेटा भी डाउनलोड करें',
+    cost: 'रिपोर्ट बनाने का शुल्क: 1 क्रेडिट',
+    balance: 'आपका वर्तमान क्रेडिट शेष:',
+    balanceCredits: (count: number) => `${count} क्रेडिट`,
+    insufficientCredits: 'पर्याप्त क्रेडिट उपलब्ध नहीं हैं। अतिरिक्त क्रेडिट खरीदने के लिए कृपया अपने व्यवस्थापक से संपर्क करें।',
+    submit: 'विश्लेषण रिपोर्ट बनाएँ',
+    submitting: 'रिपोर्ट कतार में जोड़ी जा रही है...',
+    insufficientCreditsTitle: 'अपर्याप्त क्रेडिट',
+    insufficientCreditsDescription: (count: number) =>
+      `रिपोर्ट बनाने के लिए 1 क्रेडिट चाहिए। वर्तमान शेष: ${count}`,
+    queued: 'रिपोर्ट कतार में है',
+    queuedDescription:
+      'हम आपकी रिपोर्ट तैयार कर रहे हैं। तैयार होते ही यह अपने आप डाउनलोड हो जाएगी, भले ही आप यह पृष्ठ छोड़ दें।',
+    unexpectedErrorDescription: 'एक अप्रत्याशित त्रुटि हुई। कृपया पुनः प्रयास करें या सहायता से संपर्क करें।',
+  },
+  history: {
+    title: 'रिपोर्ट इतिहास',
+    description: 'अपनी रिपोर्ट देखें और डाउनलोड करें',
+    searchPlaceholder: 'विक्रेता, विभाग या वस्तु से खोजें',
+    loading: 'रिपोर्ट लोड हो रही हैं...',
+    loadFailed: 'रिपोर्ट लोड नहीं हो सकीं',
+    loadFailedDescription: 'कृपया पृष्ठ रीफ़्रेश करें या बाद में पुनः प्रयास करें।',
+    noMatches: 'कोई मेल खाती रिपोर्ट नहीं',
+    noMatchesDescription: (search: string) =>
+      `"${search}" से कोई रिपोर्ट मेल नहीं खाती। कोई दूसरा विक्रेता, विभाग या वस्तु आज़माएँ।`,
+    empty: 'अभी कोई रिपोर्ट नहीं',
+    emptyDescription: 'आपने अभी तक कोई रिपोर्ट नहीं बनाई है। शुरू करने के लिए अपनी पहली रिपोर्ट बनाएँ।',
+    generateFirst: 'अपनी पहली रिपोर्ट बनाएँ',
+    showing: (from: number, to: number, total: number) => `${total} में से ${from}-${to} रिपोर्ट दिखाई जा रही हैं`,
+    generatedOn: (date: string) => `${date} को बनाई गई`,
+    sectionCount: (count: number) => `${count} खंड`,
+    view: 'देखें',
+    download: 'डाउनलोड',
+    resendEmail: 'ईमेल फिर से भेजें',
+    resendEmailSubject: (sellerName: string) => `निविदा विश्लेषण रिपोर्ट: ${sellerName}`,
+    resendEmailBody: (sellerName: string, link: string, days: number) =>
+      `${sellerName} की निविदा विश्लेषण रिपोर्ट अगले ${days} दिनों तक यहाँ से डाउनलोड की जा सकती है:\n\n${link}`,
+    resendFailed: 'ईमेल तैयार नहीं हो सका',
+    resendFailedDescription: 'इस रिपोर्ट का लिंक नहीं बन सका। कृपया पुनः प्रयास करें।',
+    data: 'डेटा',
+    rerender: 'फिर से बनाएँ',
+    refreshData: 'डेटा ताज़ा करें',
+    exportFailed: 'निर्यात विफल',
+    exportFailedDescription: 'डेटा फ़ाइल नहीं बन सकी। कृपया पुनः प्रयास करें।',
+    refreshQueued: 'ताज़ा डेटा कतार में है',
+    refreshQueuedDescription: (sellerName: string) =>
+      `${sellerName} का ताज़ा डेटा लाया जा रहा है। नई रिपोर्ट अपने आप डाउनलोड होगी और आपके इतिहास में दिखेगी।`,
+    refreshFailed: 'ताज़ा करना विफल',
+    refreshFailedDescription: 'यह रिपोर्ट ताज़ा नहीं हो सकी। कृपया पुनः प्रयास करें।',
+    refreshConfirmTitle: 'रिपोर्ट डेटा ताज़ा करें?',
+    refreshConfirmDescription: (sellerName: string, credits: number) =>
+      `यह ${sellerName} के लिए मूल मापदंडों के साथ बैकएंड से फिर से डेटा लेता है और इसमें 1 क्रेडिट लगता है। आपका वर्तमान शेष ${credits} क्रेडिट है।`,
+    refreshConfirm: '1 क्रेडिट में ताज़ा करें',
+  },
+  rerender: {
+    title: (sellerName: string) => `${sellerName} फिर से बनाएँ`,
+    description:
+      'इस रिपोर्ट के साथ सहेजे गए डेटा से नई PDF बनाएँ। शामिल किए जाने वाले खंड चुनें। यह मुफ़्त है और बैकएंड से दोबारा डेटा नहीं लेता।',
+    submit: 'PDF फिर से बनाएँ',
+    done: 'रिपोर्ट फिर से बनाई गई',
+    doneDescription: (fileName: string) => `${fileName} सहेजे गए डेटा से बनाई गई। कोई क्रेडिट नहीं लगा।`,
+    failed: 'फिर से बनाना विफल',
+    failedDescription: 'यह रिपोर्ट फिर से नहीं बन सकी। कृपया पुनः प्रयास करें।',
+  },
+  jobs: {
+    title: 'रिपोर्ट कार्य',
+    inProgress: (count: number) =>
+      `${count} रिपोर्ट प्रगति पर। आप यह पृष्ठ छोड़ सकते हैं; प्रगति सहेजी जाती है।`,
+    recent: 'हाल में बनाई गई रिपोर्ट',
+    queuedAt: (date: string) => `${date} को कतार में जोड़ी गई`,
+    dismiss: 'हटाएँ',
+    status: {
+      queued: 'कतार में',
+      fetching_data: 'डेटा लाया जा रहा है',
+      rendering: 'डेटा प्राप्त',
+      claimed: 'पीडीएफ़ बन रही है',
+      done: 'पूर्ण',
+      failed: 'विफल',
+    },
+    ready: 'रिपोर्ट तैयार',
+    readyDescription: (fileName: string) =>
+      `आपकी रिपोर्ट ${fileName} के रूप में डाउनलोड हो गई है और रिपोर्ट इतिहास में सहेजी गई है।`,
+    readyNotification: 'रिपोर्ट तैयार',
+    readyNotificationBody: (fileName: string) => `${fileName} डाउनलोड हो गई है।`,
+    failed: 'रिपोर्ट बनाना विफल',
+    failedNotification: 'रिपोर्ट विफल',
+    failedDescription: (sellerName: string) => `${sellerName} की रिपोर्ट नहीं बन सकी।`,
+  },
+  viewer: {
+    fallbackTitle: 'रिपोर्ट',
+    subtitle: (department: string, days: number, date: string) =>
+      `${department} • पिछले ${days} दिन • ${date} को बनाई गई`,
+    interactive: 'इंटरैक्टिव रिपोर्ट',
+    loading: 'रिपोर्ट लोड हो रही है...',
+    loadFailed: 'रिपोर्ट लोड नहीं हो सकी',
+    loadFailedDescription: 'यह रिपोर्ट मौजूद नहीं है, या इसका डेटा पढ़ा नहीं जा सका।',
+    backToHistory: 'रिपोर्ट इतिहास पर वापस',
+    downloadFailedDescription: 'PDF डाउनलोड नहीं हो सकी। कृपया पुनः प्रयास करें।',
+    recentWins: 'हाल की जीत',
+    recentWinsDescription: (count: number, sellerName: string) => `${sellerName} द्वारा जीती गई ${count} निविदाएँ`,
+    lowCompetition: 'कम प्रतिस्पर्धा वाली बोलियाँ',
+    lowCompetitionDescription: 'कम बोलीदाताओं वाली खुली निविदाएँ',
+    kpis: {
+      tendersAnalysed: 'विश्लेषित निविदाएँ',
+      perDay: (value: string) => `${value} प्रति दिन`,
+      wins: 'जीत',
+      wonByOthers: (value: string) => `${value} दूसरों ने जीतीं`,
+      winRate: 'जीत दर',
+      inScope: 'दायरे की निविदाओं में से',
+      totalWonValue: 'कुल जीता गया मूल्य',
+      average: (value: string) => `${value} औसत`,
+      estimatedMissedValue: 'अनुमानित छूटा मूल्य',
+      winnableLost: 'हाथ से निकली जीतने योग्य निविदाएँ',
+    },
+    charts: {
+      won: 'जीती',
+      wonByOthers: 'दूसरों ने जीतीं',
+      value: 'मूल्य',
+      winLoss: 'जीत / हार',
+      winLossDescription: (winRate: string, total: number) => `${total} निविदाओं में ${winRate}% जीत दर`,
+      noTenders: 'इस अवधि में कोई निविदा नहीं',
+      departments: 'विभागीय झुकाव',
+      departmentsDescription: 'प्रति विभाग जीता गया मूल्य',
+      noDepartments: 'विभागवार समूह के लिए कोई जीत नहीं',
+      states: 'राज्यवार वितरण',
+      statesDescription: 'राज्यवार निविदा मूल्य',
+      noStates: 'इस रिपोर्ट में राज्य डेटा नहीं है',
+    },
+    table: {
+      bidNumber: 'बोली संख्या',
+      organization: 'संगठन',
+      organizationOrDept: 'संगठन / विभाग',
+      department: 'विभाग',
+      quantity: 'मात्रा',
+      value: 'मूल्य',
+      endDate: 'समाप्ति तिथि',
+      bidders: 'बोलीदाता',
+      match: 'मिलान',
+      filterPlaceholder: 'बोली, संगठन या विभाग से फ़िल्टर करें',
+      empty: 'इस रिपोर्ट में कोई निविदा नहीं',
+      noMatches: (search: string) => `"${search}" से कोई निविदा मेल नहीं खाती`,
+      showing: (visible: number, total: number) => `${total} में से ${visible} दिखाई जा रही हैं`,
+      showMore: 'और दिखाएँ',
+    },
+    likelyWins: {
+      title: 'एआई संभावित जीत',
+      opportunity: (index: number) => `अवसर #${index}`,
+      matchingWins: (count: number) => `${count} मिलती-जुलती जीत`,
+      empty: 'इस रिपोर्ट के लिए संभावित जीत का कोई अवसर नहीं मिला।',
+    },
+    trend: {
+      title: 'प्रदर्शन रुझान',
+      weeklyDescription: 'समाप्ति तिथि के अनुसार हर सप्ताह जीती और हारी गई निविदाएँ',
+      monthlyDescription: 'समाप्ति तिथि के अनुसार हर महीने जीती और हारी गई निविदाएँ',
+      latest: (period: string) => `${period} की तुलना पिछली अवधि से`,
+      wins: 'जीत',
+      winRate: 'जीत दर',
+      valueWon: 'जीता गया मूल्य',
+      points: (value: string) => `${value} अंक`,
+      declining: 'गिरावट वाले विभाग',
+      decliningItem: (before: string, after: string) => `जीत दर ${before}% → ${after}%`,
+      noDeclining: 'अवधि के पहले और दूसरे भाग के बीच किसी भी विभाग की जीत दर 10 या अधिक अंक नहीं गिरी।',
+      empty: 'इस रिपोर्ट में समाप्ति तिथि वाली कोई निविदा नहीं है',
+    },
+    competitors: {
+      title: 'प्रतिस्पर्धी',
+      description: 'इस रिपोर्ट के शीर्ष विक्रेता, सबसे बड़ा ख़तरा पहले',
+      empty: 'इस रिपोर्ट में कोई शीर्ष विक्रेता नहीं दिया गया।',
+      seller: 'विक्रेता',
+      threatScore: 'ख़तरा स्कोर',
+      threat: (level: string, score: number) => `${level} (${score})`,
+      levels: { high: 'उच्च', medium: 'मध्यम', low: 'निम्न' },
+    },
+  },
+  competitors: {
+    subtitle: (reports: number) => `आपकी ${reports} रिपोर्टों में दिखे`,
+    loading: 'प्रतिस्पर्धी लोड हो रहा है...',
+    notFound: 'प्रतिस्पर्धी नहीं मिला',
+    notFoundDescription: 'यह विक्रेता आपकी किसी भी सहेजी गई रिपोर्ट में नहीं है।',
+    reportsSeen: 'रिपोर्टें',
+    latestValue: 'नवीनतम मूल्य',
+    sharedDepartments: 'साझा विभाग',
+    tendersLost: 'उनसे हारी गई निविदाएँ',
+    valueTrend: 'समय के साथ मूल्य',
+    valueTrendDescription: 'हर रिपोर्ट में शीर्ष-विक्रेता विभागों में उनका मूल्य',
+    value: 'मूल्य',
+    departments: 'विभाग',
+    departmentsDescription: 'जहाँ वे शीर्ष विक्रेता के रूप में दर्ज थे',
+    shared: 'साझा',
+    sharedTooltip: 'इस विभाग में आपकी भी निविदाएँ थीं',
+    reportCount: 'रिपोर्टें',
+    headToHead: 'आमने-सामने',
+    headToHeadDescription: (count: number, value: string) =>
+      `आपकी रिपोर्टों के दायरे की ${count} निविदाएँ उन्होंने जीतीं, मूल्य ${value}`,
+    noHeadToHead: 'उनकी जीती कोई भी निविदा आपकी रिपोर्टों के दायरे में नहीं थी।',
+    appearances: 'जिन रिपोर्टों में वे हैं',
+    report: 'रिपोर्ट',
+    generated: 'तैयार की गई',
+    viewReport: 'रिपोर्ट देखें',
+  },
+};
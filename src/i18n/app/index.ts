@@ -0,0 +1,7 @@
+import type { Language } from '@/i18n/languages';
+import { en, type AppMessages } from '@/i18n/app/en';
+import { hi } from '@/i18n/app/hi';
+
+export type { AppMessages };
+
+export const APP_MESSAGES: Record<Language, AppMessages> = { en, hi };
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { combineMessages, isReportLanguage } from '@/i18n/languages';
+import { PDF_MESSAGES } from '@/i18n/pdf';
+
+const english = {
+  title: 'Summary',
+  code: '#',
+  count: (count: number) => `${count} wins`,
+  nested: { bullets: ['Act fast', 'Price well'] },
+};
+
+const hindi: typeof english = {
+  title: 'सारांश',
+  code: '#',
+  count: (count: number) => `${count} जीत`,
+  nested: { bullets: ['तेज़ी से काम करें', 'सही मूल्य रखें'] },
+};
+
+describe('combineMessages', () => {
+  const bilingual = combineMessages(english, hindi);
+
+  it('joins each string with its translation', () => {
+    expect(bilingual.title).toBe('Summary / सारांश');
+    expect(bilingual.nested.bullets).toEqual(['Act fast / तेज़ी से काम करें', 'Price well / सही मूल्य रखें']);
+  });
+
+  it('does not repeat strings that are the same in both', () => {
+    expect(bilingual.code).toBe('#');
+  });
+
+  it('passes arguments to both translations of a message', () => {
+    expect(bilingual.count(3)).toBe('3 wins / 3 जीत');
+  });
+
+  it('accepts a custom join', () => {
+    expect(combineMessages(english, hindi, (en, hi) => `${en}\n${hi}`).title).toBe('Summary\nसारांश');
+  });
+});
+
+describe('PDF_MESSAGES', () => {
+  it('builds the bilingual catalogue from English and Hindi', () => {
+    expect(PDF_MESSAGES.bilingual.bidsSummary.title).toBe(`${PDF_MESSAGES.en.bidsSummary.title} / ${PDF_MESSAGES.hi.bidsSummary.title}`);
+  });
+});
+
+describe('isReportLanguage', () => {
+  it('accepts only supported languages', () => {
+    expect(isReportLanguage('bilingual')).toBe(true);
+    expect(isReportLanguage('fr')).toBe(false);
+    expect(isReportLanguage(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { ENGLISH_UNITS, type IndianUnits } from '@/i18n/numbers';
+
+export type Language = 'en' | 'hi';
+
+/** Reports can also be bilingual: every string in English followed by Hindi. */
+export type ReportLanguage = Language | 'bilingual';
+
+export const LANGUAGES: Language[] = ['en', 'hi'];
+
+export const REPORT_LANGUAGES: ReportLanguage[] = ['en', 'hi', 'bilingual'];
+
+/** Each language named in itself, for the language switcher. */
+export const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', hi: 'हिंदी' };
+
+export const HINDI_UNITS: IndianUnits = { lakh: 'लाख', crore: 'करोड़' };
+
+/** Locale for dates; bilingual output keeps English dates next to both texts. */
+export const DATE_LOCALES: Record<ReportLanguage, string> = {
+  en: 'en-GB',
+  hi: 'hi-IN',
+  bilingual: 'en-GB',
+};
+
+export const NUMBER_UNITS: Record<ReportLanguage, IndianUnits> = {
+  en: ENGLISH_UNITS,
+  hi: HINDI_UNITS,
+  bilingual: ENGLISH_UNITS,
+};
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+export const isReportLanguage = (value: unknown): value is ReportLanguage =>
+  REPORT_LANGUAGES.includes(value as ReportLanguage);
+
+type Message = string | ((...args: never[]) => string);
+type MessageTree = { [key: string]: Message | Message[] | MessageTree };
+
+const combine = (english: unknown, hindi: unknown, join: (en: string, hi: string) => string): unknown => {
+  if (typeof english === 'string') return join(english, hindi as string);
+  if (typeof english === 'function') {
+    return (...args: unknown[]) =>
+      join(english(...args), (hindi as (...args: unknown[]) => string)(...args));
+  }
+  if (Array.isArray(english)) return english.map((item, index) => combine(item, (hindi as unknown[])[index], join));
+  return Object.fromEntries(
+    Object.entries(english as MessageTree).map(([key, value]) => [key, combine(value, (hindi as MessageTree)[key], join)])
+  );
+};
+
+/**
+ * Merge two translations of the same message tree string by string, so callers
+ * use a bilingual catalogue exactly like a single-language one.
+ */
+export const combineMessages = <T extends MessageTree>(
+  english: T,
+  hindi: T,
+  join: (en: string, hi: string) => string = (en, hi) => (en === hi ? en : `${en} / ${hi}`)
+): T => combine(english, hindi, join) as T;
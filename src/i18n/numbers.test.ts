@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { HINDI_UNITS } from '@/i18n/languages';
+import { formatCompactIndian, formatCompactRupees, formatIndianNumber, formatRupees } from '@/i18n/numbers';
+
+describe('formatIndianNumber', () => {
+  it('groups digits in lakhs and crores', () => {
+    expect(formatIndianNumber(1234567)).toBe('12,34,567');
+    expect(formatIndianNumber(123456789)).toBe('12,34,56,789');
+    expect(formatIndianNumber(999)).toBe('999');
+  });
+
+  it('shows decimals only when asked', () => {
+    expect(formatIndianNumber(1234.5)).toBe('1,235');
+    expect(formatIndianNumber(1234.5, 2)).toBe('1,234.50');
+  });
+});
+
+describe('formatRupees', () => {
+  it('rounds to whole rupees', () => {
+    expect(formatRupees(1234567.89)).toBe('₹ 12,34,568');
+    expect(formatRupees(0)).toBe('₹ 0');
+  });
+});
+
+describe('formatCompactIndian', () => {
+  it('uses crore from one crore up', () => {
+    expect(formatCompactIndian(1e7)).toBe('1.0 Cr');
+    expect(formatCompactIndian(45_600_000)).toBe('4.6 Cr');
+    expect(formatCompactIndian(1_234_500_000)).toBe('123.5 Cr');
+  });
+
+  it('uses lakh between one lakh and one crore', () => {
+    expect(formatCompactIndian(1e5)).toBe('1.0 L');
+    expect(formatCompactIndian(9_950_000)).toBe('99.5 L');
+  });
+
+  it('prints smaller amounts in full', () => {
+    expect(formatCompactIndian(99_999)).toBe('99,999');
+  });
+
+  it('handles negative amounts by magnitude', () => {
+    expect(formatCompactIndian(-2_500_000)).toBe('-25.0 L');
+  });
+
+  it('uses the given unit names', () => {
+    expect(formatCompactIndian(2e7, HINDI_UNITS)).toBe('2.0 करोड़');
+    expect(formatCompactRupees(3e5, HINDI_UNITS)).toBe('₹3.0 लाख');
+  });
+});
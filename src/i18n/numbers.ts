@@ -0,0 +1,32 @@
+// Indian number formatting, shared by the PDF, the exports and the web pages.
+// Figures are grouped the Indian way (12,34,567) and large amounts are shortened
+// to lakh (1,00,000) and crore (1,00,00,000) rather than thousands and millions.
+
+export interface IndianUnits {
+  lakh: string;
+  crore: string;
+}
+
+export const ENGLISH_UNITS: IndianUnits = { lakh: 'L', crore: 'Cr' };
+
+const LAKH = 1e5;
+const CRORE = 1e7;
+
+/** 1234567 -> "12,34,567"; decimals are only shown when asked for. */
+export const formatIndianNumber = (value: number, decimals = 0): string =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+/** Full rupee amount: "₹ 12,34,567". */
+export const formatRupees = (amount: number): string => `₹ ${formatIndianNumber(Math.round(amount))}`;
+
+/** Shortened amount for KPIs and chart axes: "12.3 L", "4.5 Cr"; below a lakh the full figure. */
+export const formatCompactIndian = (value: number, units: IndianUnits = ENGLISH_UNITS): string => {
+  const magnitude = Math.abs(value);
+  if (magnitude >= CRORE) return `${formatIndianNumber(value / CRORE, 1)} ${units.crore}`;
+  if (magnitude >= LAKH) return `${formatIndianNumber(value / LAKH, 1)} ${units.lakh}`;
+  return formatIndianNumber(Math.round(value));
+};
+
+/** Shortened rupee amount: "₹12.3 L". */
+export const formatCompactRupees = (amount: number, units: IndianUnits = ENGLISH_UNITS): string =>
+  `₹${formatCompactIndian(amount, units)}`;
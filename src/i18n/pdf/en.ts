@@ -0,0 +1,291 @@
+// Every fixed string the PDF draws. Data from the backend (organisation names,
+// AI signals and summaries) is printed as received and never translated.
+
+export const en = {
+  layout: {
+    header: 'Government Tender Performance Analysis',
+    generated: (date: string) => `Generated: ${date}`,
+    page: (page: number) => `Page ${page}`,
+  },
+  common: {
+    notAvailable: 'N/A',
+    unknown: 'Unknown',
+    active: 'Active',
+    best: '⭐ Best',
+    top: '⭐ Top',
+    bidders: (count: number) => `${count} bidders`,
+  },
+  columns: {
+    number: '#',
+    rank: 'Rank',
+    bidNumber: 'Bid Number',
+    organization: 'Organization',
+    organizationOrDept: 'Organization/Dept',
+    department: 'Department',
+    ministry: 'Ministry',
+    quantity: 'Qty',
+    value: 'Value',
+    endDate: 'End Date',
+    date: 'Date',
+    metric: 'Metric',
+    percentage: 'Percentage',
+    category: 'Category',
+    status: 'Status',
+    share: 'Share %',
+    estValue: 'Est. Value',
+    estValueRupees: 'Est. Value (₹)',
+    marketShare: 'Market Share',
+    competitor: 'Competitor',
+    threatLevel: 'Threat Level',
+    competition: 'Competition',
+    state: 'State / UT',
+    tenderCount: 'Tender Count',
+    totalValue: 'Total Value',
+    insight: 'Insight',
+    match: 'Match',
+  },
+  metrics: {
+    winRate: 'Win Rate',
+    totalBids: 'Total Bids',
+    successCount: 'Success Count',
+    totalValue: 'Total Value',
+    totalBidsParticipated: 'Total Bids Participated',
+    successfulWins: 'Successful Wins',
+    unsuccessfulBids: 'Unsuccessful Bids',
+    lostOpportunities: 'Lost Opportunities',
+    totalBidValue: 'Total Bid Value',
+    averageOrderValue: 'Average Order Value',
+    qualifiedBidValue: 'Qualified Bid Value',
+    disqualifiedBidValue: 'Disqualified Bid Value',
+    averageBidPerDay: 'Average Bid per Day',
+    averageBidsPerDay: 'Average Bids/Day',
+    valueShare: 'Share of Value in Scope',
+    marketSize: 'Market Size',
+    fromCategoryListing: 'Category listing',
+    fromTendersInScope: 'Tenders in scope',
+    fairShareWinRate: 'Fair-Share Win Rate',
+    threatScore: 'Threat Score',
+    participation: 'Participation',
+    performance: 'Performance',
+    financial: 'Financial',
+    activity: 'Activity',
+  },
+  cover: {
+    government: 'GOVERNMENT',
+    tenderAnalysis: 'TENDER ANALYSIS',
+    title: 'Comprehensive Performance Report',
+    reportGenerated: 'Report Generated:',
+    analysisPeriod: 'Analysis Period:',
+    days: (days: number) => `${days} days`,
+    department: 'Department:',
+    offeredItems: 'Offered Items:',
+    variousItems: 'Various items',
+  },
+  contents: {
+    title: 'Contents',
+  },
+  bidsSummary: {
+    title: 'Executive Summary',
+    highlights: 'Performance Highlights',
+    winLoss: 'Win/Loss Distribution',
+    wins: 'Wins',
+    losses: 'Losses',
+    winsLegend: (count: number, percent: string) => `Wins: ${count} (${percent}%)`,
+    lossesLegend: (count: number, percent: string) => `Losses: ${count} (${percent}%)`,
+    detailedMetrics: 'Detailed Performance Metrics',
+    strategicInsights: 'AI-Powered Strategic Insights',
+    strategicInsightsIntro: 'Comprehensive analysis of bidding activity across government departments',
+    topDepartmentsChart: 'Top 5 Departments by Value Won',
+  },
+  marketOverview: {
+    title: 'Overall Market Overview',
+    metrics: 'Market Performance Metrics',
+    priceBand: 'Price Band Analysis',
+    highestBid: 'Highest Bid Value',
+    averageBid: 'Average Bid Value',
+    lowestBid: 'Lowest Bid Value',
+    priceRange: 'Price Range',
+    departmentChart: 'Wins by Department - You vs Other Sellers',
+    yourWins: 'Your wins',
+    otherWins: 'Won by other sellers',
+    tenders: 'Tenders',
+  },
+  performanceTrend: {
+    title: 'Performance Trend',
+    introWeekly: 'Tenders won and lost each week, by tender end date',
+    introMonthly: 'Tenders won and lost each month, by tender end date',
+    outcomesChart: 'Tenders Won and Lost',
+    valueChart: 'Value Won',
+    wins: 'Wins',
+    losses: 'Won by others',
+    changes: 'Period-over-Period Change',
+    period: 'Period',
+    winRate: 'Win Rate',
+    winRateChange: 'Change',
+    valueWon: 'Value Won',
+    valueChange: 'Value Change',
+    points: (points: string) => `${points} pts`,
+    declining: 'Declining Departments',
+    decliningLine: (dept: string, before: string, after: string) => `${dept}: win rate down from ${before}% to ${after}%`,
+    noDeclining: 'No department lost 10 or more points of win rate between the first and second half of the period.',
+    none: 'No tenders with an end date in the analysis period.',
+  },
+  departmentBreakdown: {
+    title: 'Department Breakdown',
+    intro: 'Results in each department, side by side',
+    scopeAll: 'Scope: all departments',
+    scopeSelected: (departments: string) => `Scope: ${departments}`,
+    chart: 'Tenders Won and Lost by Department',
+    won: 'Won',
+    lost: 'Won by others',
+    comparison: 'Cross-Department Comparison',
+    winRate: 'Win Rate',
+    valueWon: 'Value Won',
+    valueLost: 'Value Lost',
+    share: 'Share of Value Won',
+    detail: 'Department Detail',
+    topBuyer: 'Top Buyer',
+    leadingCompetitor: 'Leading Competitor',
+    noTenders: 'No Tenders Found',
+    noTendersIn: (departments: string) => `No tenders in scope were found for: ${departments}`,
+    none: 'No tenders in scope to break down by department.',
+  },
+  topPerformer: {
+    title: 'Top Performer Department',
+    intro: 'Analysis of highest-performing departments based on engagement and success metrics',
+    breakdown: 'Top 5 Departments - Performance Breakdown',
+  },
+  missedTenders: {
+    title: 'Missed-but-Winnable Tenders',
+    intro: "Opportunities where you had strong positioning but didn't participate",
+    total: (count: number) => `Total Missed Opportunities: ${count}`,
+    missedValue: (value: string) => `Estimated Missed Value: ${value}`,
+    none: 'No missed opportunities identified in the analysis period.',
+    recoveryStrategy: 'AI-Powered Recovery Strategy',
+    noStrategy: 'No strategy available',
+  },
+  aiInsights: {
+    title: 'Comprehensive AI Intelligence & Recommendations',
+    strategicOverview: 'Strategic Overview',
+    likelyWins: 'High-Probability Win Opportunities',
+    likelyWinsIntro: 'AI-identified opportunities with highest success probability based on market analysis',
+    opportunity: (index: number) => `Opportunity #${index}`,
+    targetProduct: 'Target Product/Service:',
+    whyOpportunity: 'Why This Opportunity:',
+    supportingEvidence: (count: number) => `Supporting Market Evidence (${count} similar wins):`,
+    actionPlan: 'Strategic Action Plan & Next Steps',
+    immediateActions: 'Immediate Action Items',
+    expansion: 'Future Growth & Expansion Opportunities',
+  },
+  buyerInsights: {
+    title: 'Buyer / Department Insights',
+    intro: 'Deep insights into buyer behavior patterns and department preferences',
+    topOrganizations: 'Top Organizations with Engagement History',
+    ministryPatterns: 'Ministry-Level Engagement Patterns',
+    winningPatterns: 'Winning Patterns Analysis',
+    quantityRanges: 'Optimal Quantity Ranges:',
+    priceRanges: 'Successful Price Ranges:',
+  },
+  rivalryScore: {
+    title: 'Rivalry Scorecard',
+    intro: 'Competitive analysis of key players in your market segment',
+    topCompetitors: 'Top Competitors by Department',
+    threatHigh: 'High',
+    threatMedium: 'Medium',
+    threatLow: 'Low',
+    position: 'Your Competitive Position',
+    marketShare: (share: string) => `Share of Tender Value in Scope: ${share}`,
+    winRateVsMarket: (winRate: string, fairShare: string) => `Win Rate vs Fair Share: ${winRate}% (fair share across your departments: ${fairShare}%)`,
+    noBenchmark: (winRate: string) => `Win Rate: ${winRate}% (no competitor data to compare it with)`,
+    advantage: (status: string) => `Competitive Advantage: ${status}`,
+    aboveAverage: 'Above Fair Share',
+    belowAverage: 'Below Fair Share - Needs Improvement',
+    headToHead: (seller: string, competitor: string) => `Head to Head: ${seller} vs ${competitor}`,
+    headToHeadIntro: 'Tenders you both bid on, and where your businesses overlap',
+    record: 'Matchup Record',
+    recordLine: (won: number, lost: number, other: number, open: number) =>
+      `Won: ${won}, Lost to them: ${lost}, Won by another seller: ${other}, Still open: ${open}`,
+    sharedDepartments: (shared: string) => `Departments you both win in: ${shared}`,
+    sharedCategories: (shared: string) => `Categories they also sell in: ${shared}`,
+    sharedStates: (shared: string) => `States in both your top states: ${shared}`,
+    none: 'None',
+    matchups: 'Tenders You Both Bid On',
+    noMatchups: 'No tenders were found that you both bid on.',
+    ourPrice: 'Our Price',
+    theirPrice: 'Their Price',
+    outcome: 'Outcome',
+    outcomeWon: 'Won',
+    outcomeLost: 'Lost to them',
+    outcomeOther: 'Other seller',
+    outcomeOpen: 'Open',
+    priceGaps: 'Price Gaps on Comparable Items',
+    noPriceGaps: 'No shared tenders had both prices for the same item.',
+    item: 'Item',
+    bids: 'Bids',
+    ourAverage: 'Our Avg. Price',
+    theirAverage: 'Their Avg. Price',
+    gap: 'Gap',
+    overlap: 'Where You Overlap',
+    area: 'Area',
+    overlapName: 'Department / State',
+    ourValue: 'Our Value',
+    theirValue: 'Their Value',
+  },
+  lowCompetition: {
+    title: 'Single-Bidder / Low-Competition Opportunities',
+    intro: 'High-value opportunities with minimal competition - prime targets for success',
+    total: (count: number) => `Total Low-Competition Opportunities: ${count}`,
+    totalValue: (value: string) => `Total Opportunity Value: ${value}`,
+    none: 'No low-competition opportunities identified in the current analysis.',
+    valueVsBidders: 'Tender Value vs Number of Bidders',
+    bidders: 'Bidders',
+    recommendations: 'Strategic Recommendations',
+    recommendationBullets: [
+      'Focus on low-competition tenders to maximize win rate',
+      'Quick response times are critical for single-bidder opportunities',
+      'Leverage competitive pricing to secure these high-probability wins',
+    ],
+  },
+  topStates: {
+    title: 'Top Performing States / Geographies',
+    intro: 'Geographic distribution of successful bids and market opportunities',
+    insights: 'Geographic Market Insights',
+    topMarket: (state: string, share: string) => `Top Market: ${state} (${share}% of total opportunities)`,
+    spread: (count: number) => `Geographic Spread: Active in ${count} states/regions`,
+    expansion: 'Expansion Opportunity: Consider increasing presence in underserved regions',
+    focus: 'Focus Strategy: Concentrate resources on top 5 states for maximum ROI',
+    chart: 'Top 10 States by Tender Value',
+    none: 'Geographic data not available in the current analysis.',
+  },
+  recentBids: {
+    title: 'Recent Successful Bids - Detailed List',
+    intro: 'Complete list of your winning bids in the analysis period',
+  },
+  metricDefinitions: {
+    title: 'Appendix: Metric Definitions',
+    intro: 'How each figure in this report is calculated from the data it was built from',
+    metric: 'Metric',
+    thisReport: 'This Report',
+    calculation: 'How It Is Calculated',
+    winRate: 'Tenders you won ÷ all tenders in scope: your wins plus tenders for your items won by other sellers.',
+    totalValue: 'Sum of the values of the tenders you won.',
+    averageOrderValue: 'Total value won ÷ number of wins.',
+    averageBidsPerDay: 'Tenders in scope ÷ days in the analysis period.',
+    valueShare: 'Value you won ÷ value of all tenders in scope.',
+    marketSize: 'Sum of the category listing values for your offered items; without a category listing, the value of all tenders in scope.',
+    fairShare:
+      'In each department, 100% ÷ (listed competitors + 1), averaged over your departments weighted by your tenders in each. Only top sellers are listed, so the true fair share may be lower.',
+    threatScore: (valueWeight: number, overlapWeight: number, high: number, medium: number) =>
+      `${valueWeight}% from the competitor's value relative to the largest competitor and ${overlapWeight}% from the share of your tenders in their department relative to the highest share. High from ${high}, Medium from ${medium}.`,
+    declining: (points: number, minimum: number) =>
+      `A department whose win rate in the second half of the period is ${points} or more points below the first half, with at least ${minimum} tenders in each half.`,
+    scoreRange: '0-100',
+    departmentRates: 'Win Rate by Department',
+    won: 'Won',
+    lost: 'Lost',
+    competitors: 'Competitors',
+    fairShareColumn: 'Fair Share',
+  },
+};
+
+export type PdfMessages = typeof en;
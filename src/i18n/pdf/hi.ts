@@ -0,0 +1,288 @@
+import type { PdfMessages } from '@/i18n/pdf/en';
+
+export const hi: PdfMessages = {
+  layout: {
+    header: 'सरकारी निविदा प्रदर्शन विश्लेषण',
+    generated: (date: string) => `तैयार किया गया: ${date}`,
+    page: (page: number) => `पृष्ठ ${page}`,
+  },
+  common: {
+    notAvailable: 'उपलब्ध नहीं',
+    unknown: 'अज्ञात',
+    active: 'सक्रिय',
+    best: '⭐ सर्वश्रेष्ठ',
+    top: '⭐ शीर्ष',
+    bidders: (count: number) => `${count} बोलीदाता`,
+  },
+  columns: {
+    number: '#',
+    rank: 'क्रम',
+    bidNumber: 'बोली संख्या',
+    organization: 'संगठन',
+    organizationOrDept: 'संगठन/विभाग',
+    department: 'विभाग',
+    ministry: 'मंत्रालय',
+    quantity: 'मात्रा',
+    value: 'मूल्य',
+    endDate: 'समाप्ति तिथि',
+    date: 'तिथि',
+    metric: 'मापदंड',
+    percentage: 'प्रतिशत',
+    category: 'श्रेणी',
+    status: 'स्थिति',
+    share: 'हिस्सा %',
+    estValue: 'अनुमानित मूल्य',
+    estValueRupees: 'अनुमानित मूल्य (₹)',
+    marketShare: 'बाज़ार हिस्सा',
+    competitor: 'प्रतिस्पर्धी',
+    threatLevel: 'ख़तरे का स्तर',
+    competition: 'प्रतिस्पर्धा',
+    state: 'राज्य / केंद्र शासित प्रदेश',
+    tenderCount: 'निविदा संख्या',
+    totalValue: 'कुल मूल्य',
+    insight: 'अंतर्दृष्टि',
+    match: 'मिलान',
+  },
+  metrics: {
+    winRate: 'जीत दर',
+    totalBids: 'कुल बोलियाँ',
+    successCount: 'सफल बोलियाँ',
+    totalValue: 'कुल मूल्य',
+    totalBidsParticipated: 'भाग ली गई कुल बोलियाँ',
+    successfulWins: 'सफल जीत',
+    unsuccessfulBids: 'असफल बोलियाँ',
+    lostOpportunities: 'खोए हुए अवसर',
+    totalBidValue: 'कुल बोली मूल्य',
+    averageOrderValue: 'औसत ऑर्डर मूल्य',
+    qualifiedBidValue: 'योग्य बोली मूल्य',
+    disqualifiedBidValue: 'अयोग्य बोली मूल्य',
+    averageBidPerDay: 'प्रति दिन औसत बोली',
+    averageBidsPerDay: 'औसत बोलियाँ/दिन',
+    valueShare: 'दायरे के मूल्य में हिस्सा',
+    marketSize: 'बाज़ार आकार',
+    fromCategoryListing: 'श्रेणी सूची',
+    fromTendersInScope: 'दायरे की निविदाएँ',
+    fairShareWinRate: 'उचित-हिस्सा जीत दर',
+    threatScore: 'खतरा स्कोर',
+    participation: 'भागीदारी',
+    performance: 'प्रदर्शन',
+    financial: 'वित्तीय',
+    activity: 'गतिविधि',
+  },
+  cover: {
+    government: 'सरकारी',
+    tenderAnalysis: 'निविदा विश्लेषण',
+    title: 'व्यापक प्रदर्शन रिपोर्ट',
+    reportGenerated: 'रिपोर्ट तिथि:',
+    analysisPeriod: 'विश्लेषण अवधि:',
+    days: (days: number) => `${days} दिन`,
+    department: 'विभाग:',
+    offeredItems: 'प्रस्तावित वस्तुएँ:',
+    variousItems: 'विभिन्न वस्तुएँ',
+  },
+  contents: {
+    title: 'विषय सूची',
+  },
+  bidsSummary: {
+    title: 'कार्यकारी सारांश',
+    highlights: 'प्रदर्शन की मुख्य बातें',
+    winLoss: 'जीत/हार वितरण',
+    wins: 'जीत',
+    losses: 'हार',
+    winsLegend: (count: number, percent: string) => `जीत: ${count} (${percent}%)`,
+    lossesLegend: (count: number, percent: string) => `हार: ${count} (${percent}%)`,
+    detailedMetrics: 'विस्तृत प्रदर्शन मापदंड',
+    strategicInsights: 'एआई आधारित रणनीतिक अंतर्दृष्टि',
+    strategicInsightsIntro: 'सरकारी विभागों में बोली गतिविधि का व्यापक विश्लेषण',
+    topDepartmentsChart: 'जीते गए मूल्य के अनुसार शीर्ष 5 विभाग',
+  },
+  marketOverview: {
+    title: 'समग्र बाज़ार अवलोकन',
+    metrics: 'बाज़ार प्रदर्शन मापदंड',
+    priceBand: 'मूल्य सीमा विश्लेषण',
+    highestBid: 'उच्चतम बोली मूल्य',
+    averageBid: 'औसत बोली मूल्य',
+    lowestBid: 'न्यूनतम बोली मूल्य',
+    priceRange: 'मूल्य अंतर',
+    departmentChart: 'विभागवार जीत - आप बनाम अन्य विक्रेता',
+    yourWins: 'आपकी जीत',
+    otherWins: 'अन्य विक्रेताओं की जीत',
+    tenders: 'निविदाएँ',
+  },
+  performanceTrend: {
+    title: 'प्रदर्शन रुझान',
+    introWeekly: 'निविदा समाप्ति तिथि के अनुसार हर सप्ताह जीती और हारी गई निविदाएँ',
+    introMonthly: 'निविदा समाप्ति तिथि के अनुसार हर महीने जीती और हारी गई निविदाएँ',
+    outcomesChart: 'जीती और हारी गई निविदाएँ',
+    valueChart: 'जीता गया मूल्य',
+    wins: 'जीत',
+    losses: 'अन्य विक्रेताओं की जीत',
+    changes: 'अवधि-दर-अवधि बदलाव',
+    period: 'अवधि',
+    winRate: 'जीत दर',
+    winRateChange: 'बदलाव',
+    valueWon: 'जीता गया मूल्य',
+    valueChange: 'मूल्य में बदलाव',
+    points: (points: string) => `${points} अंक`,
+    declining: 'गिरावट वाले विभाग',
+    decliningLine: (dept: string, before: string, after: string) => `${dept}: जीत दर ${before}% से घटकर ${after}%`,
+    noDeclining: 'अवधि के पहले और दूसरे भाग के बीच किसी भी विभाग की जीत दर 10 या अधिक अंक नहीं गिरी।',
+    none: 'विश्लेषण अवधि में समाप्ति तिथि वाली कोई निविदा नहीं है।',
+  },
+  departmentBreakdown: {
+    title: 'विभागवार विवरण',
+    intro: 'हर विभाग के परिणाम, साथ-साथ',
+    scopeAll: 'दायरा: सभी विभाग',
+    scopeSelected: (departments: string) => `दायरा: ${departments}`,
+    chart: 'विभागवार जीती और हारी गई निविदाएँ',
+    won: 'जीती',
+    lost: 'अन्य ने जीतीं',
+    comparison: 'विभागों की तुलना',
+    winRate: 'जीत दर',
+    valueWon: 'जीता गया मूल्य',
+    valueLost: 'हारा गया मूल्य',
+    share: 'जीते गए मूल्य में हिस्सा',
+    detail: 'विभाग विवरण',
+    topBuyer: 'शीर्ष खरीदार',
+    leadingCompetitor: 'प्रमुख प्रतिस्पर्धी',
+    noTenders: 'कोई निविदा नहीं मिली',
+    noTendersIn: (departments: string) => `इन विभागों के लिए दायरे में कोई निविदा नहीं मिली: ${departments}`,
+    none: 'विभागवार विवरण के लिए दायरे में कोई निविदा नहीं है।',
+  },
+  topPerformer: {
+    title: 'शीर्ष प्रदर्शन करने वाला विभाग',
+    intro: 'जुड़ाव और सफलता के आधार पर सर्वश्रेष्ठ प्रदर्शन करने वाले विभागों का विश्लेषण',
+    breakdown: 'शीर्ष 5 विभाग - प्रदर्शन विवरण',
+  },
+  missedTenders: {
+    title: 'छूटी हुई जीतने योग्य निविदाएँ',
+    intro: 'ऐसे अवसर जहाँ आपकी स्थिति मज़बूत थी लेकिन आपने भाग नहीं लिया',
+    total: (count: number) => `कुल छूटे अवसर: ${count}`,
+    missedValue: (value: string) => `अनुमानित छूटा मूल्य: ${value}`,
+    none: 'विश्लेषण अवधि में कोई छूटा अवसर नहीं मिला।',
+    recoveryStrategy: 'एआई आधारित सुधार रणनीति',
+    noStrategy: 'कोई रणनीति उपलब्ध नहीं',
+  },
+  aiInsights: {
+    title: 'व्यापक एआई विश्लेषण और सुझाव',
+    strategicOverview: 'रणनीतिक अवलोकन',
+    likelyWins: 'उच्च संभावना वाले जीत के अवसर',
+    likelyWinsIntro: 'बाज़ार विश्लेषण के आधार पर एआई द्वारा पहचाने गए सबसे अधिक सफलता वाले अवसर',
+    opportunity: (index: number) => `अवसर #${index}`,
+    targetProduct: 'लक्षित उत्पाद/सेवा:',
+    whyOpportunity: 'यह अवसर क्यों:',
+    supportingEvidence: (count: number) => `बाज़ार से समर्थन (${count} समान जीत):`,
+    actionPlan: 'रणनीतिक कार्य योजना और अगले कदम',
+    immediateActions: 'तत्काल करने योग्य कार्य',
+    expansion: 'भविष्य में विकास और विस्तार के अवसर',
+  },
+  buyerInsights: {
+    title: 'क्रेता / विभाग अंतर्दृष्टि',
+    intro: 'क्रेता व्यवहार और विभागीय प्राथमिकताओं की गहन जानकारी',
+    topOrganizations: 'जुड़ाव इतिहास वाले शीर्ष संगठन',
+    ministryPatterns: 'मंत्रालय स्तर पर जुड़ाव के पैटर्न',
+    winningPatterns: 'जीत के पैटर्न का विश्लेषण',
+    quantityRanges: 'उपयुक्त मात्रा सीमाएँ:',
+    priceRanges: 'सफल मूल्य सीमाएँ:',
+  },
+  rivalryScore: {
+    title: 'प्रतिस्पर्धा स्कोरकार्ड',
+    intro: 'आपके बाज़ार खंड के प्रमुख प्रतिस्पर्धियों का विश्लेषण',
+    topCompetitors: 'विभागवार शीर्ष प्रतिस्पर्धी',
+    threatHigh: 'उच्च',
+    threatMedium: 'मध्यम',
+    threatLow: 'निम्न',
+    position: 'आपकी प्रतिस्पर्धी स्थिति',
+    marketShare: (share: string) => `दायरे की निविदाओं के मूल्य में हिस्सा: ${share}`,
+    winRateVsMarket: (winRate: string, fairShare: string) => `उचित हिस्से की तुलना में जीत दर: ${winRate}% (आपके विभागों में उचित हिस्सा: ${fairShare}%)`,
+    noBenchmark: (winRate: string) => `जीत दर: ${winRate}% (तुलना के लिए प्रतिस्पर्धी डेटा उपलब्ध नहीं)`,
+    advantage: (status: string) => `प्रतिस्पर्धी बढ़त: ${status}`,
+    aboveAverage: 'उचित हिस्से से ऊपर',
+    belowAverage: 'उचित हिस्से से नीचे - सुधार आवश्यक',
+    headToHead: (seller: string, competitor: string) => `आमने-सामने: ${seller} बनाम ${competitor}`,
+    headToHeadIntro: 'वे निविदाएँ जिन पर आप दोनों ने बोली लगाई, और जहाँ आपके कारोबार मिलते हैं',
+    record: 'मुकाबलों का रिकॉर्ड',
+    recordLine: (won: number, lost: number, other: number, open: number) =>
+      `जीती: ${won}, उनसे हारी: ${lost}, किसी अन्य विक्रेता ने जीती: ${other}, अभी खुली: ${open}`,
+    sharedDepartments: (shared: string) => `विभाग जहाँ आप दोनों जीतते हैं: ${shared}`,
+    sharedCategories: (shared: string) => `श्रेणियाँ जिनमें वे भी बेचते हैं: ${shared}`,
+    sharedStates: (shared: string) => `आप दोनों के शीर्ष राज्यों में शामिल राज्य: ${shared}`,
+    none: 'कोई नहीं',
+    matchups: 'निविदाएँ जिन पर आप दोनों ने बोली लगाई',
+    noMatchups: 'ऐसी कोई निविदा नहीं मिली जिस पर आप दोनों ने बोली लगाई हो।',
+    ourPrice: 'हमारा मूल्य',
+    theirPrice: 'उनका मूल्य',
+    outcome: 'परिणाम',
+    outcomeWon: 'जीती',
+    outcomeLost: 'उनसे हारी',
+    outcomeOther: 'अन्य विक्रेता',
+    outcomeOpen: 'खुली',
+    priceGaps: 'तुलनीय वस्तुओं पर मूल्य अंतर',
+    noPriceGaps: 'किसी साझा निविदा में एक ही वस्तु के दोनों मूल्य उपलब्ध नहीं थे।',
+    item: 'वस्तु',
+    bids: 'बोलियाँ',
+    ourAverage: 'हमारा औसत मूल्य',
+    theirAverage: 'उनका औसत मूल्य',
+    gap: 'अंतर',
+    overlap: 'जहाँ आप मिलते हैं',
+    area: 'क्षेत्र',
+    overlapName: 'विभाग / राज्य',
+    ourValue: 'हमारा मूल्य',
+    theirValue: 'उनका मूल्य',
+  },
+  lowCompetition: {
+    title: 'एकल-बोलीदाता / कम प्रतिस्पर्धा वाले अवसर',
+    intro: 'न्यूनतम प्रतिस्पर्धा वाले उच्च मूल्य के अवसर - सफलता के प्रमुख लक्ष्य',
+    total: (count: number) => `कम प्रतिस्पर्धा वाले कुल अवसर: ${count}`,
+    totalValue: (value: string) => `अवसरों का कुल मूल्य: ${value}`,
+    none: 'वर्तमान विश्लेषण में कम प्रतिस्पर्धा वाला कोई अवसर नहीं मिला।',
+    valueVsBidders: 'निविदा मूल्य बनाम बोलीदाताओं की संख्या',
+    bidders: 'बोलीदाता',
+    recommendations: 'रणनीतिक सुझाव',
+    recommendationBullets: [
+      'जीत दर बढ़ाने के लिए कम प्रतिस्पर्धा वाली निविदाओं पर ध्यान दें',
+      'एकल-बोलीदाता अवसरों में तेज़ प्रतिक्रिया बहुत ज़रूरी है',
+      'इन उच्च संभावना वाली जीतों के लिए प्रतिस्पर्धी मूल्य निर्धारण का लाभ उठाएँ',
+    ],
+  },
+  topStates: {
+    title: 'शीर्ष प्रदर्शन करने वाले राज्य / क्षेत्र',
+    intro: 'सफल बोलियों और बाज़ार अवसरों का भौगोलिक वितरण',
+    insights: 'भौगोलिक बाज़ार अंतर्दृष्टि',
+    topMarket: (state: string, share: string) => `शीर्ष बाज़ार: ${state} (कुल अवसरों का ${share}%)`,
+    spread: (count: number) => `भौगोलिक विस्तार: ${count} राज्यों/क्षेत्रों में सक्रिय`,
+    expansion: 'विस्तार का अवसर: कम सेवा वाले क्षेत्रों में उपस्थिति बढ़ाने पर विचार करें',
+    focus: 'केंद्रित रणनीति: अधिकतम लाभ के लिए शीर्ष 5 राज्यों पर संसाधन लगाएँ',
+    chart: 'निविदा मूल्य के अनुसार शीर्ष 10 राज्य',
+    none: 'वर्तमान विश्लेषण में भौगोलिक डेटा उपलब्ध नहीं है।',
+  },
+  recentBids: {
+    title: 'हाल की सफल बोलियाँ - विस्तृत सूची',
+    intro: 'विश्लेषण अवधि में आपकी सभी जीती गई बोलियों की सूची',
+  },
+  metricDefinitions: {
+    title: 'परिशिष्ट: मापदंडों की परिभाषाएँ',
+    intro: 'इस रिपोर्ट का हर आँकड़ा उसके डेटा से कैसे निकाला गया है',
+    metric: 'मापदंड',
+    thisReport: 'इस रिपोर्ट में',
+    calculation: 'गणना का तरीका',
+    winRate: 'आपकी जीती निविदाएँ ÷ दायरे की सभी निविदाएँ: आपकी जीत और आपकी वस्तुओं की वे निविदाएँ जो अन्य विक्रेताओं ने जीतीं।',
+    totalValue: 'आपकी जीती गई निविदाओं के मूल्यों का योग।',
+    averageOrderValue: 'कुल जीता गया मूल्य ÷ जीत की संख्या।',
+    averageBidsPerDay: 'दायरे की निविदाएँ ÷ विश्लेषण अवधि के दिन।',
+    valueShare: 'आपका जीता गया मूल्य ÷ दायरे की सभी निविदाओं का मूल्य।',
+    marketSize: 'आपकी प्रस्तावित वस्तुओं के श्रेणी सूची मूल्यों का योग; श्रेणी सूची न होने पर दायरे की सभी निविदाओं का मूल्य।',
+    fairShare:
+      'हर विभाग में 100% ÷ (सूचीबद्ध प्रतिस्पर्धी + 1), आपके विभागों में आपकी निविदाओं के भार से औसत। केवल शीर्ष विक्रेता सूचीबद्ध होते हैं, इसलिए वास्तविक उचित हिस्सा कम हो सकता है।',
+    threatScore: (valueWeight: number, overlapWeight: number, high: number, medium: number) =>
+      `${valueWeight}% सबसे बड़े प्रतिस्पर्धी की तुलना में प्रतिस्पर्धी के मूल्य से और ${overlapWeight}% उनके विभाग में आपकी निविदाओं के हिस्से से, सबसे बड़े हिस्से की तुलना में। ${high} से उच्च, ${medium} से मध्यम।`,
+    declining: (points: number, minimum: number) =>
+      `वह विभाग जिसकी जीत दर अवधि के दूसरे भाग में पहले भाग से ${points} या अधिक अंक कम है, और हर भाग में कम से कम ${minimum} निविदाएँ हैं।`,
+    scoreRange: '0-100',
+    departmentRates: 'विभागवार जीत दर',
+    won: 'जीती',
+    lost: 'हारी',
+    competitors: 'प्रतिस्पर्धी',
+    fairShareColumn: 'उचित हिस्सा',
+  },
+};
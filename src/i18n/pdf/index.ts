@@ -0,0 +1,9 @@
+import { combineMessages, type ReportLanguage } from '@/i18n/languages';
+import { en, type PdfMessages } from '@/i18n/pdf/en';
+import { hi } from '@/i18n/pdf/hi';
+
+export type { PdfMessages };
+
+const bilingual = combineMessages(en, hi);
+
+export const PDF_MESSAGES: Record<ReportLanguage, PdfMessages> = { en, hi, bilingual };
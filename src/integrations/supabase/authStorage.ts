@@ -0,0 +1,23 @@
+// Where the Supabase client keeps the signed-in session. With "Remember me" it goes
+// to localStorage and survives closing the browser; without, it goes to
+// sessionStorage and ends with the tab. The choice itself is kept in localStorage
+// so a reload reads the session back from the right place.
+
+const REMEMBER_KEY = 'auth-remember-session';
+
+// Sessions from before the choice existed were remembered
+const sessionStore = () => (localStorage.getItem(REMEMBER_KEY) === 'false' ? sessionStorage : localStorage);
+
+/** Choose where the next session is stored; call before signing in. */
+export const setRememberSession = (remember: boolean) => {
+  localStorage.setItem(REMEMBER_KEY, String(remember));
+};
+
+export const authStorage = {
+  getItem: (key: string) => sessionStore().getItem(key),
+  setItem: (key: string, value: string) => sessionStore().setItem(key, value),
+  removeItem: (key: string) => {
+    localStorage.removeItem(key);
+    sessionStorage.removeItem(key);
+  },
+};
@@ -14,13 +14,333 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      credit_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          id: string
+          kind: string
+          reference_id: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind: string
+          reference_id?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind?: string
+          reference_id?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_transactions_reference_id_fkey"
+            columns: ["reference_id"]
+            isOneToOne: false
+            referencedRelation: "credit_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_themes: {
+        Row: {
+          accent_color: string | null
+          contact_line: string | null
+          cover_title: string | null
+          created_at: string
+          footer_disclaimer: string | null
+          id: string
+          logo_path: string | null
+          organization_id: string
+          primary_color: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          accent_color?: string | null
+          contact_line?: string | null
+          cover_title?: string | null
+          created_at?: string
+          footer_disclaimer?: string | null
+          id?: string
+          logo_path?: string | null
+          organization_id: string
+          primary_color?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          accent_color?: string | null
+          contact_line?: string | null
+          cover_title?: string | null
+          created_at?: string
+          footer_disclaimer?: string | null
+          id?: string
+          logo_path?: string | null
+          organization_id?: string
+          primary_color?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_themes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          organization_name: string | null
+          phone_number: string | null
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name?: string
+          id: string
+          organization_name?: string | null
+          phone_number?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          organization_name?: string | null
+          phone_number?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      report_jobs: {
+        Row: {
+          created_at: string
+          credit_transaction_id: string | null
+          dismissed: boolean
+          error: string | null
+          id: string
+          params: Json
+          report_id: string | null
+          sections: string[]
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          credit_transaction_id?: string | null
+          dismissed?: boolean
+          error?: string | null
+          id?: string
+          params: Json
+          report_id?: string | null
+          sections?: string[]
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          credit_transaction_id?: string | null
+          dismissed?: boolean
+          error?: string | null
+          id?: string
+          params?: Json
+          report_id?: string | null
+          sections?: string[]
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_jobs_credit_transaction_id_fkey"
+            columns: ["credit_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "credit_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_jobs_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          created_at: string
+          department: string
+          id: string
+          offered_item: string
+          params: Json
+          pdf_path: string | null
+          report_data: Json
+          report_generated_at: string | null
+          sections: string[]
+          seller_name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          department: string
+          id?: string
+          offered_item?: string
+          params: Json
+          pdf_path?: string | null
+          report_data: Json
+          report_generated_at?: string | null
+          sections?: string[]
+          seller_name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          department?: string
+          id?: string
+          offered_item?: string
+          params?: Json
+          pdf_path?: string | null
+          report_data?: Json
+          report_generated_at?: string | null
+          sections?: string[]
+          seller_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_report_job: {
+        Args: { p_job_id: string }
+        Returns: string
+      }
+      commit_credit: {
+        Args: { p_transaction_id: string }
+        Returns: undefined
+      }
+      credit_balance: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      complete_report_job: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      current_organization_id: {
+        Args: never
+        Returns: string
+      }
+      expire_stale_report_jobs: {
+        Args: never
+        Returns: number
+      }
+      fail_report_job: {
+        Args: { p_error: string; p_job_id: string }
+        Returns: undefined
+      }
+      get_credit_balance: {
+        Args: never
+        Returns: number
+      }
+      is_organization_admin: {
+        Args: never
+        Returns: boolean
+      }
+      refund_credit: {
+        Args: { p_transaction_id: string }
+        Returns: undefined
+      }
+      refund_report_job_credit: {
+        Args: { p_credit_transaction_id: string }
+        Returns: undefined
+      }
+      reserve_credit: {
+        Args: { p_description?: string; p_user_id: string }
+        Returns: string
+      }
+      store_report_job_result: {
+        Args: { p_job_id: string; p_result: Json }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,247 @@
+import { useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CreditBadge } from '@/components/CreditBadge';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { ArrowLeft, Eye, Loader2, Swords } from 'lucide-react';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useCompetitorReports } from '@/hooks/use-reports';
+import { NUMBER_UNITS } from '@/i18n/languages';
+import { formatCompactRupees } from '@/i18n/numbers';
+import { buildCompetitorProfile } from '@/utils/competitors';
+import { REPORT_COLORS } from '@/utils/pdf/layout';
+import { formatCurrency, formatDate } from '@/utils/pdf/format';
+import { toCssColor } from '@/utils/reportView';
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <Card>
+    <CardContent className="p-4">
+      <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">{label}</p>
+      <p className="text-2xl font-bold mt-1">{value}</p>
+    </CardContent>
+  </Card>
+);
+
+/** One competitor across every stored report: where they sell, what they won from us and how they've grown. */
+const CompetitorProfile = () => {
+  const { name = '' } = useParams<{ name: string }>();
+  const navigate = useNavigate();
+  const { t, language, locale } = useTranslation();
+  const labels = t.competitors;
+  const { data: reports, isLoading } = useCompetitorReports();
+
+  const profile = useMemo(() => (reports ? buildCompetitorProfile(name, reports) : null), [name, reports]);
+
+  const valueConfig = {
+    value: { label: labels.value, color: toCssColor(REPORT_COLORS.danger) },
+  } satisfies ChartConfig;
+  const compact = (value: number) => formatCompactRupees(value, NUMBER_UNITS[language]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="bg-card border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="sm" onClick={() => navigate(-1)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t.common.back}
+              </Button>
+              <div className="p-2 bg-primary rounded-lg">
+                <Swords className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">{profile?.name ?? name}</h1>
+                {profile && (
+                  <p className="text-sm text-muted-foreground">{labels.subtitle(profile.appearances.length)}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+              <CreditBadge />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground">
+            <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+            {labels.loading}
+          </div>
+        ) : !profile ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <h3 className="text-xl font-semibold mb-2">{labels.notFound}</h3>
+              <p className="text-muted-foreground mb-6">{labels.notFoundDescription}</p>
+              <Button onClick={() => navigate('/history')}>{t.viewer.backToHistory}</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <Stat label={labels.reportsSeen} value={profile.appearances.length.toString()} />
+              <Stat label={labels.latestValue} value={compact(profile.appearances[profile.appearances.length - 1].value)} />
+              <Stat
+                label={labels.sharedDepartments}
+                value={`${profile.departments.filter((department) => department.shared).length} / ${profile.departments.length}`}
+              />
+              <Stat label={labels.tendersLost} value={profile.headToHead.length.toString()} />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{labels.valueTrend}</CardTitle>
+                <CardDescription>{labels.valueTrendDescription}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={valueConfig} className="aspect-auto h-[260px] w-full">
+                  <LineChart
+                    data={profile.appearances.map((appearance) => ({
+                      date: formatDate(appearance.date, locale),
+                      value: appearance.value,
+                    }))}
+                    margin={{ left: 8, right: 16 }}
+                  >
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickFormatter={compact} width={64} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />} />
+                    <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>{labels.departments}</CardTitle>
+                  <CardDescription>{labels.departmentsDescription}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t.viewer.table.department}</TableHead>
+                        <TableHead className="text-right">{labels.reportCount}</TableHead>
+                        <TableHead className="text-right">{labels.latestValue}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {profile.departments.map((department) => (
+                        <TableRow key={department.dept}>
+                          <TableCell>
+                            <span className="mr-2">{department.dept}</span>
+                            {department.shared && (
+                              <Badge variant="secondary" title={labels.sharedTooltip}>{labels.shared}</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{department.reports}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(department.latestValue)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>{labels.appearances}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{labels.report}</TableHead>
+                        <TableHead>{labels.generated}</TableHead>
+                        <TableHead className="text-right">{labels.value}</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...profile.appearances].reverse().map((appearance) => (
+                        <TableRow key={appearance.reportId}>
+                          <TableCell>
+                            <p className="font-medium">{appearance.sellerName}</p>
+                            <p className="text-xs text-muted-foreground">{appearance.offeredItem}</p>
+                          </TableCell>
+                          <TableCell>{formatDate(appearance.date, locale)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(appearance.value)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link to={`/reports/${appearance.reportId}`} title={labels.viewReport}>
+                                <Eye className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{labels.headToHead}</CardTitle>
+                <CardDescription>
+                  {labels.headToHeadDescription(profile.headToHead.length, formatCurrency(profile.headToHeadValue))}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {profile.headToHead.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{labels.noHeadToHead}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t.viewer.table.bidNumber}</TableHead>
+                        <TableHead>{t.viewer.table.organizationOrDept}</TableHead>
+                        <TableHead className="text-right">{t.viewer.table.value}</TableHead>
+                        <TableHead>{t.viewer.table.endDate}</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {profile.headToHead.map((tender, index) => (
+                        <TableRow key={`${tender.bid_number}-${index}`}>
+                          <TableCell>{tender.bid_number || '-'}</TableCell>
+                          <TableCell>{tender.org || tender.dept || '-'}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {tender.total_price ? formatCurrency(tender.total_price) : '-'}
+                          </TableCell>
+                          <TableCell>{tender.ended_at ? formatDate(tender.ended_at, locale) : '-'}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link to={`/reports/${tender.reportId}`} title={labels.viewReport}>
+                                <Eye className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CompetitorProfile;
@@ -1,16 +1,26 @@
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CreditBadge } from '@/components/CreditBadge';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { ReportJobsPanel } from '@/components/ReportJobsPanel';
+import { useCredits } from '@/hooks/use-credits';
+import { useOrganizationTheme } from '@/hooks/use-organization-theme';
+import { useReportCount } from '@/hooks/use-reports';
 import { FileText, LogOut, Plus, History, User } from 'lucide-react';
 
 const Dashboard = () => {
   const { user, logout } = useAuth();
+  const { t } = useTranslation();
+  const { credits } = useCredits();
+  const { count: reportCount } = useReportCount();
+  const { logoUrl } = useOrganizationTheme();
   const navigate = useNavigate();
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/login');
   };
 
@@ -23,19 +33,24 @@ const Dashboard = () => {
         <div className="container mx-auto px-6 py-5">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <div className="p-2.5 bg-primary rounded-lg">
-                <FileText className="h-7 w-7 text-primary-foreground" />
-              </div>
+              {logoUrl ? (
+                <img src={logoUrl} alt={user.organizationName} className="h-12 max-w-[160px] object-contain" />
+              ) : (
+                <div className="p-2.5 bg-primary rounded-lg">
+                  <FileText className="h-7 w-7 text-primary-foreground" />
+                </div>
+              )}
               <div>
-                <h1 className="text-2xl font-bold text-foreground">Government Tender Analysis Platform</h1>
-                <p className="text-sm text-muted-foreground">Professional Procurement Intelligence & Reporting</p>
+                <h1 className="text-2xl font-bold text-foreground">{t.common.appName}</h1>
+                <p className="text-sm text-muted-foreground">{t.dashboard.tagline}</p>
               </div>
             </div>
             <div className="flex items-center gap-4">
+              <LanguageSwitcher />
               <CreditBadge />
               <Button variant="outline" size="sm" onClick={handleLogout} className="hover:bg-destructive hover:text-destructive-foreground transition-colors">
                 <LogOut className="h-4 w-4 mr-2" />
-                Sign Out
+                {t.dashboard.signOut}
               </Button>
             </div>
           </div>
@@ -46,9 +61,9 @@ const Dashboard = () => {
       <main className="container mx-auto px-6 py-10">
         {/* Welcome Section */}
         <div className="mb-10">
-          <h2 className="text-4xl font-bold mb-3 text-foreground">Welcome back, {user.fullName}</h2>
+          <h2 className="text-4xl font-bold mb-3 text-foreground">{t.dashboard.welcome(user.fullName)}</h2>
           <p className="text-base text-muted-foreground">
-            Generate comprehensive tender analysis reports and gain actionable insights into government procurement data
+            {t.dashboard.intro}
           </p>
         </div>
 
@@ -57,13 +72,13 @@ const Dashboard = () => {
           <Card className="border-2">
             <CardHeader className="pb-3">
               <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-                Available Credits
+                {t.dashboard.availableCredits}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-4xl font-bold text-foreground">{user.credits}</div>
+              <div className="text-4xl font-bold text-foreground">{credits}</div>
               <p className="text-sm text-muted-foreground mt-2">
-                {user.credits === 0 ? 'No credits remaining - Contact administrator' : `${user.credits} analysis report${user.credits !== 1 ? 's' : ''} available`}
+                {credits === 0 ? t.dashboard.noCredits : t.dashboard.creditsAvailable(credits)}
               </p>
             </CardContent>
           </Card>
@@ -71,13 +86,13 @@ const Dashboard = () => {
           <Card className="border-2">
             <CardHeader className="pb-3">
               <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-                Generated Reports
+                {t.dashboard.generatedReports}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-4xl font-bold text-foreground">0</div>
+              <div className="text-4xl font-bold text-foreground">{reportCount}</div>
               <p className="text-sm text-muted-foreground mt-2">
-                No reports generated yet
+                {reportCount === 0 ? t.dashboard.noReports : t.dashboard.reportsInHistory(reportCount)}
               </p>
             </CardContent>
           </Card>
@@ -85,30 +100,32 @@ const Dashboard = () => {
           <Card className="border-2">
             <CardHeader className="pb-3">
               <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-                Account Information
+                {t.dashboard.accountInformation}
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="text-4xl font-bold capitalize text-foreground">{user.role}</div>
               <p className="text-sm text-muted-foreground mt-2">
-                {user.organizationName || 'Individual Account'}
+                {user.organizationName || t.dashboard.individualAccount}
               </p>
             </CardContent>
           </Card>
         </div>
 
+        <ReportJobsPanel className="mb-10" />
+
         {/* Quick Actions */}
         <div>
-          <h3 className="text-2xl font-bold mb-6 text-foreground">Quick Actions</h3>
+          <h3 className="text-2xl font-bold mb-6 text-foreground">{t.dashboard.quickActions}</h3>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <Card className="hover:shadow-lg hover:border-primary transition-all cursor-pointer border-2" onClick={() => navigate('/generate')}>
               <CardHeader className="pb-4">
                 <div className="p-3 bg-primary/10 rounded-lg w-fit mb-3">
                   <Plus className="h-8 w-8 text-primary" />
                 </div>
-                <CardTitle className="text-xl">Generate New Report</CardTitle>
+                <CardTitle className="text-xl">{t.dashboard.generateTitle}</CardTitle>
                 <CardDescription className="text-base">
-                  Create a comprehensive tender performance analysis report
+                  {t.dashboard.generateText}
                 </CardDescription>
               </CardHeader>
             </Card>
@@ -118,9 +135,9 @@ const Dashboard = () => {
                 <div className="p-3 bg-primary/10 rounded-lg w-fit mb-3">
                   <History className="h-8 w-8 text-primary" />
                 </div>
-                <CardTitle className="text-xl">View Report History</CardTitle>
+                <CardTitle className="text-xl">{t.dashboard.historyTitle}</CardTitle>
                 <CardDescription className="text-base">
-                  Access and download your previously generated reports
+                  {t.dashboard.historyText}
                 </CardDescription>
               </CardHeader>
             </Card>
@@ -130,9 +147,9 @@ const Dashboard = () => {
                 <div className="p-3 bg-primary/10 rounded-lg w-fit mb-3">
                   <User className="h-8 w-8 text-primary" />
                 </div>
-                <CardTitle className="text-xl">Account Settings</CardTitle>
+                <CardTitle className="text-xl">{t.dashboard.settingsTitle}</CardTitle>
                 <CardDescription className="text-base">
-                  Manage your profile and account preferences
+                  {t.dashboard.settingsText}
                 </CardDescription>
               </CardHeader>
             </Card>
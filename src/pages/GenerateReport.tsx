@@ -1,61 +1,64 @@
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { CreditBadge } from '@/components/CreditBadge';
+import { DepartmentMultiSelect } from '@/components/DepartmentMultiSelect';
+import { OfferedItemsInput } from '@/components/OfferedItemsInput';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { ReportJobsPanel } from '@/components/ReportJobsPanel';
 import { ArrowLeft, FileText, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { generatePDF } from '@/utils/pdfGenerator';
-
-const DEPARTMENTS = [
-  "Department Of Defence",
-  "Department Of Military Affairs",
-  "Department Of Defence Production",
-  "Department Of Defence Research & Development",
-  "Central Armed Police Forces",
-  "Indian Railways",
-  "Department Of Atomic Energy",
-  "Department Of Heavy Industry",
-  "Coal India Limited",
-  "Steel Authority Of India Limited",
-];
-
-const FILTER_SECTIONS = [
-  { id: 'bidsSummary', label: 'Summary of Bids Participated (Department-wise)', default: true },
-  { id: 'marketOverview', label: 'Overall Market Overview', default: true },
-  { id: 'topPerformer', label: 'Top Performer Department', default: true },
-  { id: 'missedTenders', label: 'Missed-but-Winnable Tenders', default: true },
-  { id: 'buyerInsights', label: 'Buyer/Department Insights', default: true },
-  { id: 'rivalryScore', label: 'Rivalry Scorecard', default: true },
-  { id: 'lowCompetition', label: 'Single-Bidder/Low-Competition Opportunities', default: true },
-  { id: 'topStates', label: 'Top Performing States/Geographies', default: true },
-];
+import { useCredits } from '@/hooks/use-credits';
+import { useDepartmentCatalogue, useItemSuggestions } from '@/hooks/use-reports';
+import { REPORT_LANGUAGES, type ReportLanguage } from '@/i18n/languages';
+import { buildDepartmentCatalogue, type ScopePick } from '@/utils/departmentCatalogue';
+import { describeOfferedItems, MAX_OFFERED_ITEMS } from '@/utils/offeredItems';
+import { ReportApiError, submitReportJob } from '@/utils/reportApi';
+import { reportConfig } from '@/utils/reportConfig';
+import { DATA_FORMATS, type ReportDataFormat } from '@/utils/reportExport';
+import { scopeFields, singleDepartment } from '@/utils/reportScope';
+import { DEFAULT_SECTIONS, FILTER_SECTIONS } from '@/utils/reportSections';
+
+// Offered while the catalogue loads, or if it can't be fetched
+const DEFAULT_CATALOGUE = buildDepartmentCatalogue([]);
 
 const GenerateReport = () => {
-  const { user, updateCredits } = useAuth();
+  const { user } = useAuth();
+  const { language, t } = useTranslation();
+  const { credits, refreshCredits } = useCredits();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const catalogue = useDepartmentCatalogue();
+  const itemSuggestions = useItemSuggestions();
   const [isGenerating, setIsGenerating] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   
   const [formData, setFormData] = useState({
     sellerName: '',
-    department: '',
-    offeredItem: '',
+    buyers: [] as ScopePick[],
+    allDepartments: false,
+    offeredItems: [] as string[],
     days: 60,
     limit: 10,
     email: user?.email || '',
+    competitorName: '',
   });
+  const [compareMode, setCompareMode] = useState(false);
 
-  const [selectedFilters, setSelectedFilters] = useState<string[]>(
-    FILTER_SECTIONS.filter(f => f.default).map(f => f.id)
-  );
+  const [selectedFilters, setSelectedFilters] = useState<string[]>(DEFAULT_SECTIONS);
+  const [downloads, setDownloads] = useState<ReportDataFormat[]>([]);
+  // Defaults to the app language; bilingual is only available here
+  const [reportLanguage, setReportLanguage] = useState<ReportLanguage>(language);
 
   const handleFilterToggle = (filterId: string) => {
     setSelectedFilters(prev =>
@@ -65,6 +68,14 @@ const GenerateReport = () => {
     );
   };
 
+  const handleDownloadToggle = (format: ReportDataFormat) => {
+    setDownloads(prev =>
+      prev.includes(format)
+        ? prev.filter(id => id !== format)
+        : [...prev, format]
+    );
+  };
+
   const handleSelectAll = () => {
     setSelectedFilters(FILTER_SECTIONS.map(f => f.id));
   };
@@ -78,10 +89,10 @@ const GenerateReport = () => {
 
     if (!user) return;
 
-    if (user.credits < 1) {
+    if (credits < 1) {
       toast({
-        title: "Insufficient Credits",
-        description: `You need 1 credit to generate a report. Current balance: ${user.credits}`,
+        title: t.generate.insufficientCreditsTitle,
+        description: t.generate.insufficientCreditsDescription(credits),
         variant: "destructive",
       });
       return;
@@ -89,168 +100,53 @@ const GenerateReport = () => {
 
     setIsGenerating(true);
 
+    // Ask once so a finished report can be announced while this tab is in the background
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+
     try {
-      const requestPayload = {
-        ...formData,
+      const { competitorName, buyers, allDepartments, offeredItems, ...params } = formData;
+      const scope = scopeFields(allDepartments ? [] : buyers);
+      await submitReportJob({
+        ...params,
+        ...scope,
+        ...singleDepartment(scope.departments),
+        offeredItem: describeOfferedItems(offeredItems),
+        offeredItems,
+        ...(compareMode ? { competitorName: competitorName.trim() } : {}),
         filters: {
           includeSections: selectedFilters,
+          language: reportLanguage,
         },
         userId: user.email,
-      };
-
-      console.log('Sending report generation request:', requestPayload);
-
-      let response;
-      try {
-        // Use direct connection in localhost, proxy in production
-        const isLocalhost = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
-        
-        let apiUrl;
-        if (isLocalhost) {
-          // Direct connection for local development
-          apiUrl = 'http://161.118.181.8/api/pdf';
-          console.log('Using direct API connection (localhost)');
-        } else {
-          // Use proxy for production (HTTPS)
-          const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-          apiUrl = `${supabaseUrl}/functions/v1/proxy-pdf`;
-          console.log('Using proxy API connection (production)');
-        }
-        
-        response = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestPayload),
-        });
-      } catch (fetchError: any) {
-        console.error('Network connection error:', fetchError);
-        
-        // Detect mixed content or CORS issues
-        if (fetchError.message?.includes('Failed to fetch') || fetchError.name === 'TypeError') {
-          toast({
-            title: "Connection Failed",
-            description: "Unable to connect to the API server. This error occurs because:\n\n• The app runs on HTTPS but the API uses HTTP (Mixed Content)\n• Browser security blocks this connection\n\nSolution: The backend API must use HTTPS, or deploy a proxy server.",
-            variant: "destructive",
-          });
-        } else {
-          toast({
-            title: "Network Error",
-            description: `Cannot reach server: ${fetchError.message}. Please check your internet connection.`,
-            variant: "destructive",
-          });
-        }
-        return;
-      }
-
-      // Handle HTTP error responses
-      if (!response.ok) {
-        let errorMessage = `Server error (Status ${response.status})`;
-        
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorData.detail || errorMessage;
-          console.error('API error response:', errorData);
-        } catch {
-          // If JSON parsing fails, try text
-          try {
-            const errorText = await response.text();
-            if (errorText) errorMessage = errorText;
-          } catch {
-            // Use default error message
-          }
-        }
-
-        toast({
-          title: `API Error (${response.status})`,
-          description: errorMessage,
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Parse JSON response
-      let reportData;
-      try {
-        reportData = await response.json();
-        console.log('Report data received successfully:', reportData);
-      } catch (parseError: any) {
-        console.error('Failed to parse server response:', parseError);
-        toast({
-          title: "Invalid Response Format",
-          description: "The server returned data in an unexpected format. Please contact support.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Validate report data
-      if (!reportData || typeof reportData !== 'object') {
-        console.error('Invalid report data structure:', reportData);
-        toast({
-          title: "Invalid Data",
-          description: "The server returned incomplete data. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Generate PDF
-      let pdfDoc;
-      try {
-        pdfDoc = await generatePDF(reportData, {
-          includeSections: selectedFilters,
-        });
-      } catch (pdfError: any) {
-        console.error('PDF generation failed:', pdfError);
-        toast({
-          title: "PDF Generation Failed",
-          description: `Unable to create PDF document: ${pdfError.message}`,
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Download PDF
-      try {
-        const fileName = `${formData.sellerName.replace(/\s+/g, '_')}_Report_${new Date().toISOString().split('T')[0]}.pdf`;
-        pdfDoc.save(fileName);
-
-        // Deduct credit only after successful PDF generation
-        updateCredits(user.credits - 1);
-
-        toast({
-          title: "Report Generated Successfully!",
-          description: `Your report has been downloaded as ${fileName}`,
-        });
-
-        // Navigate to dashboard after brief delay
-        setTimeout(() => {
-          navigate('/dashboard');
-        }, 2000);
-      } catch (downloadError: any) {
-        console.error('Failed to download PDF:', downloadError);
-        toast({
-          title: "Download Failed",
-          description: "PDF was generated but download failed. Please try again.",
-          variant: "destructive",
-        });
-      }
+        downloads,
+      });
+      queryClient.invalidateQueries({ queryKey: ['report-jobs'] });
 
-    } catch (error: any) {
-      console.error('Unexpected error during report generation:', error);
       toast({
-        title: "Unexpected Error",
-        description: error.message || "An unexpected error occurred. Please try again or contact support.",
+        title: t.generate.queued,
+        description: t.generate.queuedDescription,
+      });
+    } catch (error) {
+      console.error('Failed to queue report generation:', error);
+      toast({
+        title: error instanceof ReportApiError ? error.title : t.common.unexpectedError,
+        description: error instanceof Error ? error.message : t.generate.unexpectedErrorDescription,
         variant: "destructive",
       });
     } finally {
+      // The credit is reserved as soon as the job is queued
+      refreshCredits();
       setIsGenerating(false);
     }
   };
 
-  const isFormValid = formData.sellerName && formData.department && formData.offeredItem && formData.email;
+  const competitorIsSeller =
+    compareMode && formData.competitorName.trim().toLowerCase() === formData.sellerName.trim().toLowerCase();
+  const isCompareValid = !compareMode || (formData.competitorName.trim() && !competitorIsSeller);
+  const hasDepartments = formData.allDepartments || formData.buyers.length > 0;
+  const isFormValid = formData.sellerName && hasDepartments && formData.offeredItems.length > 0 && formData.email && isCompareValid;
 
   return (
     <div className="min-h-screen bg-background">
@@ -261,7 +157,7 @@ const GenerateReport = () => {
             <div className="flex items-center gap-4">
               <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')} className="hover:bg-muted">
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Back to Dashboard
+                {t.common.backToDashboard}
               </Button>
               <div className="h-8 w-px bg-border" />
               <div className="flex items-center gap-3">
@@ -269,33 +165,38 @@ const GenerateReport = () => {
                   <FileText className="h-6 w-6 text-primary-foreground" />
                 </div>
                 <div>
-                  <h1 className="text-xl font-bold text-foreground">Generate Analysis Report</h1>
-                  <p className="text-sm text-muted-foreground">Government Tender Performance Analysis</p>
+                  <h1 className="text-xl font-bold text-foreground">{t.generate.title}</h1>
+                  <p className="text-sm text-muted-foreground">{t.common.appTagline}</p>
                 </div>
               </div>
             </div>
-            <CreditBadge />
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+              <CreditBadge />
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8 max-w-5xl">
+        <ReportJobsPanel className="mb-6" />
+
         <form onSubmit={handleSubmit}>
           <Card className="mb-6 border-2">
             <CardHeader className="bg-muted/30 border-b">
-              <CardTitle className="text-2xl">Report Configuration</CardTitle>
+              <CardTitle className="text-2xl">{t.generate.configuration}</CardTitle>
               <CardDescription className="text-base">
-                Enter the required information to generate your comprehensive tender analysis report (1 Credit per report)
+                {t.generate.configurationDescription}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6 p-6">
               {/* Seller Name */}
               <div className="space-y-2">
-                <Label htmlFor="sellerName" className="text-base font-semibold">Seller/Company Name *</Label>
+                <Label htmlFor="sellerName" className="text-base font-semibold">{t.generate.sellerName}</Label>
                 <Input
                   id="sellerName"
-                  placeholder="Enter company name (e.g., RAJHANS IMPEX)"
+                  placeholder={t.generate.sellerNamePlaceholder}
                   value={formData.sellerName}
                   onChange={(e) => setFormData({ ...formData, sellerName: e.target.value })}
                   className="h-11"
@@ -303,48 +204,67 @@ const GenerateReport = () => {
                 />
               </div>
 
+              {/* Head-to-head comparison, while only some backends support it */}
+              {reportConfig.headToHead && (
+                <div className="space-y-3 rounded-lg border p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="compareMode" className="text-base font-semibold">{t.generate.compare}</Label>
+                      <p className="text-sm text-muted-foreground">{t.generate.compareHint}</p>
+                    </div>
+                    <Switch id="compareMode" checked={compareMode} onCheckedChange={setCompareMode} />
+                  </div>
+                  {compareMode && (
+                    <div className="space-y-2">
+                      <Label htmlFor="competitorName" className="font-semibold">{t.generate.competitorName}</Label>
+                      <Input
+                        id="competitorName"
+                        placeholder={t.generate.competitorNamePlaceholder}
+                        value={formData.competitorName}
+                        onChange={(e) => setFormData({ ...formData, competitorName: e.target.value })}
+                        className="h-11"
+                        required
+                      />
+                      {competitorIsSeller && formData.competitorName.trim() && (
+                        <p className="text-sm text-destructive">{t.generate.competitorSameAsSeller}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Department */}
               <div className="space-y-2">
-                <Label htmlFor="department" className="text-base font-semibold">Target Department *</Label>
-                <Select
-                  value={formData.department}
-                  onValueChange={(value) => setFormData({ ...formData, department: value })}
-                >
-                  <SelectTrigger className="h-11">
-                    <SelectValue placeholder="Select government department" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {DEPARTMENTS.map((dept) => (
-                      <SelectItem key={dept} value={dept}>
-                        {dept}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="department" className="text-base font-semibold">{t.generate.department}</Label>
+                <DepartmentMultiSelect
+                  id="department"
+                  options={catalogue.data ?? DEFAULT_CATALOGUE}
+                  loading={catalogue.isLoading}
+                  selected={formData.buyers}
+                  allSelected={formData.allDepartments}
+                  onChange={(buyers, allDepartments) => setFormData({ ...formData, buyers, allDepartments })}
+                />
+                <p className="text-sm text-muted-foreground">{t.generate.departmentHint}</p>
               </div>
 
               {/* Offered Item */}
               <div className="space-y-2">
-                <Label htmlFor="offeredItem" className="text-base font-semibold">Offered Item Categories *</Label>
-                <Textarea
+                <Label htmlFor="offeredItem" className="text-base font-semibold">{t.generate.offeredItem}</Label>
+                <OfferedItemsInput
                   id="offeredItem"
-                  placeholder="Enter item categories separated by commas (e.g., FUSE 6 23X32 MM 6 3A SLOW BLOW, HALOGEN BULB, VENT COVER)"
-                  value={formData.offeredItem}
-                  onChange={(e) => setFormData({ ...formData, offeredItem: e.target.value })}
-                  rows={4}
-                  maxLength={500}
-                  className="resize-none"
-                  required
+                  items={formData.offeredItems}
+                  suggestions={itemSuggestions.data ?? []}
+                  onChange={(offeredItems) => setFormData({ ...formData, offeredItems })}
                 />
                 <p className="text-sm text-muted-foreground">
-                  {formData.offeredItem.length}/500 characters used
+                  {t.generate.offeredItemHint} • {t.generate.itemsUsed(formData.offeredItems.length, MAX_OFFERED_ITEMS)}
                 </p>
               </div>
 
               {/* Days and Limit */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="days" className="text-base font-semibold">Analysis Time Period (Days) *</Label>
+                  <Label htmlFor="days" className="text-base font-semibold">{t.generate.days}</Label>
                   <Input
                     id="days"
                     type="number"
@@ -355,10 +275,10 @@ const GenerateReport = () => {
                     className="h-11"
                     required
                   />
-                  <p className="text-sm text-muted-foreground">Number of days to analyze (1-365)</p>
+                  <p className="text-sm text-muted-foreground">{t.generate.daysHint}</p>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="limit" className="text-base font-semibold">Maximum Results *</Label>
+                  <Label htmlFor="limit" className="text-base font-semibold">{t.generate.limit}</Label>
                   <Input
                     id="limit"
                     type="number"
@@ -369,13 +289,13 @@ const GenerateReport = () => {
                     className="h-11"
                     required
                   />
-                  <p className="text-sm text-muted-foreground">Number of results to include (1-100)</p>
+                  <p className="text-sm text-muted-foreground">{t.generate.limitHint}</p>
                 </div>
               </div>
 
               {/* Email */}
               <div className="space-y-2">
-                <Label htmlFor="email" className="text-base font-semibold">Report Delivery Email *</Label>
+                <Label htmlFor="email" className="text-base font-semibold">{t.generate.email}</Label>
                 <Input
                   id="email"
                   type="email"
@@ -385,7 +305,25 @@ const GenerateReport = () => {
                   className="h-11"
                   required
                 />
-                <p className="text-sm text-muted-foreground">The generated report will be sent to this email address</p>
+                <p className="text-sm text-muted-foreground">{t.generate.emailHint}</p>
+              </div>
+
+              {/* Report Language */}
+              <div className="space-y-2">
+                <Label htmlFor="reportLanguage" className="text-base font-semibold">{t.generate.reportLanguage}</Label>
+                <Select value={reportLanguage} onValueChange={(value) => setReportLanguage(value as ReportLanguage)}>
+                  <SelectTrigger id="reportLanguage" className="h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_LANGUAGES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {t.reportLanguages[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">{t.generate.reportLanguageHint}</p>
               </div>
             </CardContent>
           </Card>
@@ -395,9 +333,9 @@ const GenerateReport = () => {
             <CardHeader className="bg-muted/30 border-b">
               <div className="flex items-center justify-between cursor-pointer" onClick={() => setShowFilters(!showFilters)}>
                 <div>
-                  <CardTitle className="text-2xl">Report Sections Configuration</CardTitle>
+                  <CardTitle className="text-2xl">{t.generate.sections}</CardTitle>
                   <CardDescription className="text-base">
-                    Customize which sections to include in your analysis report ({selectedFilters.length} of {FILTER_SECTIONS.length} sections selected)
+                    {t.generate.sectionsDescription(selectedFilters.length, FILTER_SECTIONS.length)}
                   </CardDescription>
                 </div>
                 {showFilters ? <ChevronUp className="h-5 w-5 text-muted-foreground" /> : <ChevronDown className="h-5 w-5 text-muted-foreground" />}
@@ -407,10 +345,10 @@ const GenerateReport = () => {
               <CardContent className="space-y-4 p-6">
                 <div className="flex gap-3 mb-4">
                   <Button type="button" variant="outline" size="sm" onClick={handleSelectAll} className="font-medium">
-                    Select All Sections
+                    {t.generate.selectAll}
                   </Button>
                   <Button type="button" variant="outline" size="sm" onClick={handleDeselectAll} className="font-medium">
-                    Deselect All Sections
+                    {t.generate.deselectAll}
                   </Button>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -426,7 +364,7 @@ const GenerateReport = () => {
                         htmlFor={filter.id}
                         className="text-sm font-medium cursor-pointer leading-relaxed"
                       >
-                        {filter.label}
+                        {t.sections[filter.id] ?? filter.label}
                       </Label>
                     </div>
                   ))}
@@ -435,38 +373,69 @@ const GenerateReport = () => {
             )}
           </Card>
 
+          {/* Data Downloads */}
+          <Card className="mb-6 border-2">
+            <CardHeader className="bg-muted/30 border-b">
+              <CardTitle className="text-2xl">{t.generate.downloads}</CardTitle>
+              <CardDescription className="text-base">
+                {t.generate.downloadsDescription}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {DATA_FORMATS.map((format) => (
+                  <div key={format.id} className="flex items-start space-x-3 p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors">
+                    <Checkbox
+                      id={`download-${format.id}`}
+                      checked={downloads.includes(format.id)}
+                      onCheckedChange={() => handleDownloadToggle(format.id)}
+                      className="mt-0.5"
+                    />
+                    <Label
+                      htmlFor={`download-${format.id}`}
+                      className="text-sm cursor-pointer leading-relaxed"
+                    >
+                      <span className="font-medium">{format.label}</span>
+                      <span className="block text-muted-foreground font-normal">{t.dataFormats[format.id]}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Submit Button */}
           <Card className="border-2 bg-muted/30">
             <CardContent className="p-6">
               <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
                 <div className="space-y-1">
                   <p className="text-base font-semibold">
-                    Report Generation Cost: 1 Credit
+                    {t.generate.cost}
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    Your current credit balance: <span className="font-semibold text-foreground">{user?.credits || 0} credits</span>
+                    {t.generate.balance} <span className="font-semibold text-foreground">{t.generate.balanceCredits(credits)}</span>
                   </p>
-                  {user && user.credits < 1 && (
+                  {user && credits < 1 && (
                     <p className="text-sm text-destructive font-medium mt-2">
-                      Insufficient credits available. Please contact your administrator to purchase additional credits.
+                      {t.generate.insufficientCredits}
                     </p>
                   )}
                 </div>
                 <Button
                   type="submit"
                   size="lg"
-                  disabled={!isFormValid || isGenerating || !user || user.credits < 1}
+                  disabled={!isFormValid || isGenerating || !user || credits < 1}
                   className="min-w-[200px] h-12 text-base font-semibold"
                 >
                   {isGenerating ? (
                     <>
                       <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-                      Generating Report...
+                      {t.generate.submitting}
                     </>
                   ) : (
                     <>
                       <FileText className="h-5 w-5 mr-2" />
-                      Generate Analysis Report
+                      {t.generate.submit}
                     </>
                   )}
                 </Button>
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,6 +15,7 @@ const Login = () => {
   const navigate = useNavigate();
   const { login } = useAuth();
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [formData, setFormData] = useState({
@@ -28,14 +31,14 @@ const Login = () => {
     try {
       await login(formData.email, formData.password, formData.rememberMe);
       toast({
-        title: 'Login successful',
-        description: 'Welcome back!',
+        title: t.login.success,
+        description: t.login.successDescription,
       });
       navigate('/dashboard');
     } catch (error) {
       toast({
-        title: 'Login failed',
-        description: 'Invalid email or password',
+        title: t.login.failed,
+        description: error instanceof Error ? error.message : t.login.failedDescription,
         variant: 'destructive',
       });
     } finally {
@@ -44,7 +47,10 @@ const Login = () => {
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4 relative">
+      <div className="absolute top-4 right-4">
+        <LanguageSwitcher />
+      </div>
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1 text-center">
           <div className="flex justify-center mb-4">
@@ -52,15 +58,15 @@ const Login = () => {
               <FileText className="h-8 w-8 text-primary-foreground" />
             </div>
           </div>
-          <CardTitle className="text-2xl font-bold">Welcome Back</CardTitle>
+          <CardTitle className="text-2xl font-bold">{t.login.title}</CardTitle>
           <CardDescription>
-            Sign in to your Government Tender Analysis account
+            {t.login.description}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
+              <Label htmlFor="email">{t.login.email}</Label>
               <Input
                 id="email"
                 type="email"
@@ -71,12 +77,12 @@ const Login = () => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <Label htmlFor="password">{t.login.password}</Label>
               <div className="relative">
                 <Input
                   id="password"
                   type={showPassword ? 'text' : 'password'}
-                  placeholder="Enter your password"
+                  placeholder={t.login.passwordPlaceholder}
                   value={formData.password}
                   onChange={(e) => setFormData({ ...formData, password: e.target.value })}
                   required
@@ -100,21 +106,21 @@ const Login = () => {
                   }
                 />
                 <Label htmlFor="remember" className="text-sm font-normal cursor-pointer">
-                  Remember me
+                  {t.login.rememberMe}
                 </Label>
               </div>
               <Link to="/forgot-password" className="text-sm text-primary hover:underline">
-                Forgot password?
+                {t.login.forgotPassword}
               </Link>
             </div>
             <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? 'Signing in...' : 'Sign In'}
+              {isLoading ? t.login.signingIn : t.login.signIn}
             </Button>
           </form>
           <div className="mt-6 text-center text-sm">
-            Don't have an account?{' '}
+            {t.login.noAccount}{' '}
             <Link to="/register" className="text-primary font-medium hover:underline">
-              Sign up
+              {t.login.signUp}
             </Link>
           </div>
         </CardContent>
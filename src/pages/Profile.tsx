@@ -1,12 +1,18 @@
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BrandingSettings } from '@/components/BrandingSettings';
 import { CreditBadge } from '@/components/CreditBadge';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useCredits } from '@/hooks/use-credits';
 import { ArrowLeft, User, Mail, Building, CreditCard } from 'lucide-react';
 
 const Profile = () => {
   const { user } = useAuth();
+  const { t } = useTranslation();
+  const { credits } = useCredits();
   const navigate = useNavigate();
 
   if (!user) return null;
@@ -20,17 +26,20 @@ const Profile = () => {
             <div className="flex items-center gap-3">
               <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Back
+                {t.common.back}
               </Button>
               <div className="p-2 bg-primary rounded-lg">
                 <User className="h-6 w-6 text-primary-foreground" />
               </div>
               <div>
-                <h1 className="text-xl font-bold">My Profile</h1>
-                <p className="text-sm text-muted-foreground">Manage your account settings</p>
+                <h1 className="text-xl font-bold">{t.profile.title}</h1>
+                <p className="text-sm text-muted-foreground">{t.profile.description}</p>
               </div>
             </div>
-            <CreditBadge />
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+              <CreditBadge />
+            </div>
           </div>
         </div>
       </header>
@@ -41,21 +50,21 @@ const Profile = () => {
           {/* Account Information */}
           <Card>
             <CardHeader>
-              <CardTitle>Account Information</CardTitle>
-              <CardDescription>Your personal details</CardDescription>
+              <CardTitle>{t.profile.accountInformation}</CardTitle>
+              <CardDescription>{t.profile.personalDetails}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex items-center gap-3">
                 <User className="h-5 w-5 text-muted-foreground" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Full Name</p>
+                  <p className="text-sm text-muted-foreground">{t.profile.fullName}</p>
                   <p className="font-medium">{user.fullName}</p>
                 </div>
               </div>
               <div className="flex items-center gap-3">
                 <Mail className="h-5 w-5 text-muted-foreground" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Email</p>
+                  <p className="text-sm text-muted-foreground">{t.profile.email}</p>
                   <p className="font-medium">{user.email}</p>
                 </div>
               </div>
@@ -63,7 +72,7 @@ const Profile = () => {
                 <div className="flex items-center gap-3">
                   <Building className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm text-muted-foreground">Organization</p>
+                    <p className="text-sm text-muted-foreground">{t.profile.organization}</p>
                     <p className="font-medium">{user.organizationName}</p>
                   </div>
                 </div>
@@ -74,22 +83,19 @@ const Profile = () => {
           {/* Credit Information */}
           <Card>
             <CardHeader>
-              <CardTitle>Credit Balance</CardTitle>
-              <CardDescription>Your available credits</CardDescription>
+              <CardTitle>{t.profile.creditBalance}</CardTitle>
+              <CardDescription>{t.profile.availableCreditsDescription}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-3 mb-4">
                 <CreditCard className="h-5 w-5 text-muted-foreground" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Available Credits</p>
-                  <p className="text-3xl font-bold">{user.credits}</p>
+                  <p className="text-sm text-muted-foreground">{t.profile.availableCredits}</p>
+                  <p className="text-3xl font-bold">{credits}</p>
                 </div>
               </div>
               <p className="text-sm text-muted-foreground">
-                {user.credits === 0 
-                  ? 'You have no credits remaining. Contact admin to add more credits.' 
-                  : `You can generate ${user.credits} more report${user.credits !== 1 ? 's' : ''}.`
-                }
+                {credits === 0 ? t.profile.noCredits : t.profile.canGenerate(credits)}
               </p>
             </CardContent>
           </Card>
@@ -97,8 +103,8 @@ const Profile = () => {
           {/* Account Type */}
           <Card>
             <CardHeader>
-              <CardTitle>Account Type</CardTitle>
-              <CardDescription>Your account role</CardDescription>
+              <CardTitle>{t.profile.accountType}</CardTitle>
+              <CardDescription>{t.profile.accountRole}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="inline-block px-3 py-1 bg-primary/10 text-primary rounded-full text-sm font-medium capitalize">
@@ -110,16 +116,19 @@ const Profile = () => {
           {/* Support */}
           <Card>
             <CardHeader>
-              <CardTitle>Need Help?</CardTitle>
-              <CardDescription>Contact support</CardDescription>
+              <CardTitle>{t.profile.help}</CardTitle>
+              <CardDescription>{t.profile.contactSupport}</CardDescription>
             </CardHeader>
             <CardContent>
               <p className="text-sm text-muted-foreground mb-4">
-                For credit top-ups or technical support, please contact your administrator.
+                {t.profile.supportText}
               </p>
-              <Button variant="outline">Contact Support</Button>
+              <Button variant="outline">{t.profile.contactSupportButton}</Button>
             </CardContent>
           </Card>
+
+          {/* Organization Branding */}
+          <BrandingSettings />
         </div>
       </main>
     </div>
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,6 +15,7 @@ const Register = () => {
   const navigate = useNavigate();
   const { register } = useAuth();
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
@@ -40,8 +43,8 @@ const Register = () => {
     
     if (!formData.acceptTerms) {
       toast({
-        title: 'Terms required',
-        description: 'Please accept the terms and conditions',
+        title: t.register.termsRequired,
+        description: t.register.termsRequiredDescription,
         variant: 'destructive',
       });
       return;
@@ -49,8 +52,8 @@ const Register = () => {
 
     if (!validatePassword(formData.password)) {
       toast({
-        title: 'Invalid password',
-        description: 'Password must be at least 8 characters with 1 uppercase, 1 number, and 1 special character',
+        title: t.register.invalidPassword,
+        description: t.register.invalidPasswordDescription,
         variant: 'destructive',
       });
       return;
@@ -58,8 +61,8 @@ const Register = () => {
 
     if (formData.password !== formData.confirmPassword) {
       toast({
-        title: 'Passwords do not match',
-        description: 'Please ensure both passwords are identical',
+        title: t.register.passwordMismatch,
+        description: t.register.passwordMismatchDescription,
         variant: 'destructive',
       });
       return;
@@ -68,23 +71,32 @@ const Register = () => {
     setIsLoading(true);
 
     try {
-      await register({
+      const { requiresEmailConfirmation } = await register({
         fullName: formData.fullName,
         email: formData.email,
         password: formData.password,
         organizationName: formData.organizationName || undefined,
         phoneNumber: formData.phoneNumber || undefined,
       });
+
+      if (requiresEmailConfirmation) {
+        toast({
+          title: t.register.confirmEmail,
+          description: t.register.confirmEmailDescription(formData.email),
+        });
+        navigate('/login');
+        return;
+      }
       
       toast({
-        title: 'Registration successful',
-        description: 'You have been granted 10 credits to get started!',
+        title: t.register.success,
+        description: t.register.successDescription,
       });
       navigate('/dashboard');
     } catch (error) {
       toast({
-        title: 'Registration failed',
-        description: 'Please try again',
+        title: t.register.failed,
+        description: error instanceof Error ? error.message : t.register.failedDescription,
         variant: 'destructive',
       });
     } finally {
@@ -93,7 +105,10 @@ const Register = () => {
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4 relative">
+      <div className="absolute top-4 right-4">
+        <LanguageSwitcher />
+      </div>
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1 text-center">
           <div className="flex justify-center mb-4">
@@ -101,15 +116,15 @@ const Register = () => {
               <FileText className="h-8 w-8 text-primary-foreground" />
             </div>
           </div>
-          <CardTitle className="text-2xl font-bold">Create Account</CardTitle>
+          <CardTitle className="text-2xl font-bold">{t.register.title}</CardTitle>
           <CardDescription>
-            Get started with 10 free credits
+            {t.register.description}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="fullName">Full Name *</Label>
+              <Label htmlFor="fullName">{t.register.fullName}</Label>
               <Input
                 id="fullName"
                 placeholder="John Doe"
@@ -119,7 +134,7 @@ const Register = () => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="email">Email Address *</Label>
+              <Label htmlFor="email">{t.register.email}</Label>
               <Input
                 id="email"
                 type="email"
@@ -130,7 +145,7 @@ const Register = () => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="organizationName">Organization Name</Label>
+              <Label htmlFor="organizationName">{t.register.organization}</Label>
               <Input
                 id="organizationName"
                 placeholder="Your Company Ltd."
@@ -139,7 +154,7 @@ const Register = () => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="phoneNumber">Phone Number</Label>
+              <Label htmlFor="phoneNumber">{t.register.phone}</Label>
               <Input
                 id="phoneNumber"
                 type="tel"
@@ -149,12 +164,12 @@ const Register = () => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password *</Label>
+              <Label htmlFor="password">{t.register.password}</Label>
               <div className="relative">
                 <Input
                   id="password"
                   type={showPassword ? 'text' : 'password'}
-                  placeholder="Create a strong password"
+                  placeholder={t.register.passwordPlaceholder}
                   value={formData.password}
                   onChange={(e) => setFormData({ ...formData, password: e.target.value })}
                   required
@@ -168,16 +183,16 @@ const Register = () => {
                 </button>
               </div>
               <p className="text-xs text-muted-foreground">
-                Min 8 characters, 1 uppercase, 1 number, 1 special character
+                {t.register.passwordHint}
               </p>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="confirmPassword">Confirm Password *</Label>
+              <Label htmlFor="confirmPassword">{t.register.confirmPassword}</Label>
               <div className="relative">
                 <Input
                   id="confirmPassword"
                   type={showConfirmPassword ? 'text' : 'password'}
-                  placeholder="Re-enter your password"
+                  placeholder={t.register.confirmPasswordPlaceholder}
                   value={formData.confirmPassword}
                   onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
                   required
@@ -200,17 +215,17 @@ const Register = () => {
                 }
               />
               <Label htmlFor="terms" className="text-sm font-normal cursor-pointer leading-tight">
-                I agree to the Terms and Conditions and Privacy Policy
+                {t.register.acceptTerms}
               </Label>
             </div>
             <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? 'Creating account...' : 'Create Account'}
+              {isLoading ? t.register.submitting : t.register.submit}
             </Button>
           </form>
           <div className="mt-6 text-center text-sm">
-            Already have an account?{' '}
+            {t.register.haveAccount}{' '}
             <Link to="/login" className="text-primary font-medium hover:underline">
-              Sign in
+              {t.register.signIn}
             </Link>
           </div>
         </CardContent>
@@ -1,16 +1,182 @@
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { CreditBadge } from '@/components/CreditBadge';
-import { ArrowLeft, FileText, Download, Mail } from 'lucide-react';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { RerenderReportDialog } from '@/components/RerenderReportDialog';
+import { ReportJobsPanel } from '@/components/ReportJobsPanel';
+import { ArrowLeft, FileText, Download, Loader2, Search, RefreshCw, CloudDownload, FileSpreadsheet, Eye, Mail } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCredits } from '@/hooks/use-credits';
+import { REPORTS_PAGE_SIZE, useReports } from '@/hooks/use-reports';
+import { ReportApiError, submitReportJob } from '@/utils/reportApi';
+import { DATA_FORMATS, downloadReportData, type ReportDataFormat } from '@/utils/reportExport';
+import {
+  createReportPdfLink,
+  downloadReportPdf,
+  fetchReportData,
+  REPORT_LINK_DAYS,
+  type ReportParams,
+  type ReportSummary,
+} from '@/utils/reportStorage';
 
 const ReportHistory = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const { language, t, locale } = useTranslation();
+  const queryClient = useQueryClient();
+  const { credits, refreshCredits } = useCredits();
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [emailingId, setEmailingId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [rerenderTarget, setRerenderTarget] = useState<ReportSummary | null>(null);
+  const [refreshTarget, setRefreshTarget] = useState<ReportSummary | null>(null);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
 
-  // Mock data - will be replaced with actual API call
-  const reports = [];
+  // Debounce the search box so each keystroke doesn't hit the database
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { data, isLoading, isError } = useReports(page, search);
+  const reports = data?.reports || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / REPORTS_PAGE_SIZE));
+  const firstVisiblePage = Math.max(1, Math.min(page - 2, pageCount - 4));
+  const visiblePages = Array.from(
+    { length: Math.min(5, pageCount) },
+    (_, i) => firstVisiblePage + i
+  );
+
+  const handleDownload = async (report: ReportSummary) => {
+    setDownloadingId(report.id);
+    try {
+      await downloadReportPdf(report);
+    } catch (error) {
+      console.error('Failed to download stored report:', error);
+      toast({
+        title: t.common.downloadFailed,
+        description: error instanceof Error ? error.message : t.common.downloadFailedDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  // Open an email to the report's delivery address with a link to the stored PDF
+  const handleResendEmail = async (report: ReportSummary) => {
+    const params = report.params as unknown as ReportParams;
+    setEmailingId(report.id);
+    try {
+      const link = await createReportPdfLink(report);
+      const subject = encodeURIComponent(t.history.resendEmailSubject(report.seller_name));
+      const body = encodeURIComponent(t.history.resendEmailBody(report.seller_name, link, REPORT_LINK_DAYS));
+      window.location.href = `mailto:${encodeURIComponent(params.email || user?.email || '')}?subject=${subject}&body=${body}`;
+    } catch (error) {
+      console.error('Failed to prepare report email:', error);
+      toast({
+        title: t.history.resendFailed,
+        description: error instanceof Error ? error.message : t.history.resendFailedDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setEmailingId(null);
+    }
+  };
+
+  // Build data files from the stored JSON rather than calling the backend again
+  const handleExportData = async (report: ReportSummary, format: ReportDataFormat) => {
+    setExportingId(report.id);
+    try {
+      const reportData = await fetchReportData(report.id);
+      await downloadReportData(reportData, format, {
+        sellerName: report.seller_name,
+        sections: report.sections,
+        date: new Date(report.created_at),
+      });
+    } catch (error) {
+      console.error(`Failed to export report as ${format}:`, error);
+      toast({
+        title: t.history.exportFailed,
+        description: error instanceof Error ? error.message : t.history.exportFailedDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  // Re-query the backend with the stored parameters. Costs a credit, like a new report.
+  const handleRefreshData = async (report: ReportSummary) => {
+    if (!user) return;
+
+    const params = report.params as unknown as ReportParams;
+    setRefreshingId(report.id);
+    try {
+      await submitReportJob({
+        ...params,
+        filters: {
+          includeSections: report.sections,
+          language,
+        },
+        userId: user.email,
+      });
+      queryClient.invalidateQueries({ queryKey: ['report-jobs'] });
+
+      toast({
+        title: t.history.refreshQueued,
+        description: t.history.refreshQueuedDescription(params.sellerName),
+      });
+    } catch (error) {
+      console.error('Failed to refresh report data:', error);
+      toast({
+        title: error instanceof ReportApiError ? error.title : t.history.refreshFailed,
+        description: error instanceof Error ? error.message : t.history.refreshFailedDescription,
+        variant: "destructive",
+      });
+    } finally {
+      refreshCredits();
+      setRefreshingId(null);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
@@ -21,65 +187,223 @@ const ReportHistory = () => {
             <div className="flex items-center gap-3">
               <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Back
+                {t.common.back}
               </Button>
               <div className="p-2 bg-primary rounded-lg">
                 <FileText className="h-6 w-6 text-primary-foreground" />
               </div>
               <div>
-                <h1 className="text-xl font-bold">Report History</h1>
-                <p className="text-sm text-muted-foreground">View and download your reports</p>
+                <h1 className="text-xl font-bold">{t.history.title}</h1>
+                <p className="text-sm text-muted-foreground">{t.history.description}</p>
               </div>
             </div>
-            <CreditBadge />
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+              <CreditBadge />
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
-        {reports.length === 0 ? (
+        <ReportJobsPanel className="mb-6" />
+
+        <div className="relative mb-6 max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={t.history.searchPlaceholder}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-9 bg-card"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground">
+            <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+            {t.history.loading}
+          </div>
+        ) : isError ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <h3 className="text-xl font-semibold mb-2">{t.history.loadFailed}</h3>
+              <p className="text-muted-foreground">{t.history.loadFailedDescription}</p>
+            </CardContent>
+          </Card>
+        ) : reports.length === 0 ? (
           <Card>
             <CardContent className="py-16 text-center">
               <FileText className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
-              <h3 className="text-xl font-semibold mb-2">No Reports Yet</h3>
-              <p className="text-muted-foreground mb-6">
-                You haven't generated any reports yet. Create your first report to get started.
-              </p>
-              <Button onClick={() => navigate('/generate')}>
-                Generate Your First Report
-              </Button>
+              {search ? (
+                <>
+                  <h3 className="text-xl font-semibold mb-2">{t.history.noMatches}</h3>
+                  <p className="text-muted-foreground">
+                    {t.history.noMatchesDescription(search)}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-xl font-semibold mb-2">{t.history.empty}</h3>
+                  <p className="text-muted-foreground mb-6">
+                    {t.history.emptyDescription}
+                  </p>
+                  <Button onClick={() => navigate('/generate')}>
+                    {t.history.generateFirst}
+                  </Button>
+                </>
+              )}
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-4">
-            {reports.map((report: any) => (
-              <Card key={report.id}>
-                <CardHeader>
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <CardTitle>{report.sellerName}</CardTitle>
-                      <CardDescription>
-                        {report.department} • Generated on {new Date(report.createdAt).toLocaleDateString()}
-                      </CardDescription>
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              {t.history.showing((page - 1) * REPORTS_PAGE_SIZE + 1, Math.min(page * REPORTS_PAGE_SIZE, total), total)}
+            </p>
+            <div className="space-y-4">
+              {reports.map((report) => (
+                <Card key={report.id}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <CardTitle>{report.seller_name}</CardTitle>
+                        <CardDescription>
+                          {report.department} • {t.history.generatedOn(new Date(report.created_at).toLocaleDateString(locale))} • {t.history.sectionCount(report.sections.length)}
+                        </CardDescription>
+                      </div>
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => navigate(`/reports/${report.id}`)}>
+                          <Eye className="h-4 w-4 mr-2" />
+                          {t.history.view}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownload(report)}
+                          disabled={!report.pdf_path || downloadingId === report.id}
+                        >
+                          {downloadingId === report.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Download className="h-4 w-4 mr-2" />
+                          )}
+                          {t.history.download}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResendEmail(report)}
+                          disabled={!report.pdf_path || emailingId === report.id}
+                        >
+                          {emailingId === report.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Mail className="h-4 w-4 mr-2" />
+                          )}
+                          {t.history.resendEmail}
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={exportingId === report.id}>
+                              {exportingId === report.id ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                              )}
+                              {t.history.data}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {DATA_FORMATS.map((format) => (
+                              <DropdownMenuItem key={format.id} onSelect={() => handleExportData(report, format.id)}>
+                                <div>
+                                  <p className="font-medium">{format.label}</p>
+                                  <p className="text-xs text-muted-foreground">{t.dataFormats[format.id]}</p>
+                                </div>
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        <Button variant="outline" size="sm" onClick={() => setRerenderTarget(report)}>
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          {t.history.rerender}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRefreshTarget(report)}
+                          disabled={credits < 1 || refreshingId === report.id}
+                        >
+                          {refreshingId === report.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <CloudDownload className="h-4 w-4 mr-2" />
+                          )}
+                          {t.history.refreshData}
+                        </Button>
+                      </div>
                     </div>
-                    <div className="flex gap-2">
-                      <Button variant="outline" size="sm">
-                        <Download className="h-4 w-4 mr-2" />
-                        Download
-                      </Button>
-                      <Button variant="outline" size="sm">
-                        <Mail className="h-4 w-4 mr-2" />
-                        Resend Email
-                      </Button>
-                    </div>
-                  </div>
-                </CardHeader>
-              </Card>
-            ))}
-          </div>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
+
+            {pageCount > 1 && (
+              <Pagination className="mt-6">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={(e) => { e.preventDefault(); setPage((p) => Math.max(1, p - 1)); }}
+                      className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+                    />
+                  </PaginationItem>
+                  {visiblePages.map((pageNumber) => (
+                    <PaginationItem key={pageNumber}>
+                      <PaginationLink
+                        href="#"
+                        isActive={pageNumber === page}
+                        onClick={(e) => { e.preventDefault(); setPage(pageNumber); }}
+                      >
+                        {pageNumber}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={(e) => { e.preventDefault(); setPage((p) => Math.min(pageCount, p + 1)); }}
+                      className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </>
         )}
       </main>
+
+      <RerenderReportDialog
+        report={rerenderTarget}
+        onOpenChange={(open) => { if (!open) setRerenderTarget(null); }}
+      />
+
+      <AlertDialog open={!!refreshTarget} onOpenChange={(open) => { if (!open) setRefreshTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.history.refreshConfirmTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t.history.refreshConfirmDescription(refreshTarget?.seller_name ?? '', credits)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t.common.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => refreshTarget && handleRefreshData(refreshTarget)}>
+              {t.history.refreshConfirm}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
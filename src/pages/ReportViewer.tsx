@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { CreditBadge } from '@/components/CreditBadge';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { ReportKpiCards } from '@/components/report-viewer/ReportKpiCards';
+import { DepartmentChart, StateChart, WinLossChart } from '@/components/report-viewer/ReportCharts';
+import { TenderTable } from '@/components/report-viewer/TenderTable';
+import { LikelyWinsList } from '@/components/report-viewer/LikelyWinsList';
+import { PerformanceTrendCard } from '@/components/report-viewer/PerformanceTrendCard';
+import { CompetitorList } from '@/components/report-viewer/CompetitorList';
+import { ArrowLeft, Download, FileText, Loader2 } from 'lucide-react';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { useStoredReport } from '@/hooks/use-reports';
+import { formatDate } from '@/utils/pdf/format';
+import { computeReportMetrics, scoreCompetitors } from '@/utils/reportMetrics';
+import { downloadReportPdf } from '@/utils/reportStorage';
+import { departmentLabel } from '@/utils/reportScope';
+import { computePerformanceTrend } from '@/utils/reportTrend';
+import { groupWins } from '@/utils/reportView';
+
+/** A stored report as an interactive page, built from the same data as its PDF. */
+const ReportViewer = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { t, locale } = useTranslation();
+  const { data, isLoading, isError } = useStoredReport(id);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const reportData = data?.reportData;
+  const metrics = useMemo(() => (reportData ? computeReportMetrics(reportData) : null), [reportData]);
+  const departments = useMemo(() => groupWins(metrics?.wins || [], 'dept'), [metrics]);
+  const trend = useMemo(
+    () =>
+      reportData
+        ? computePerformanceTrend(metrics.wins, metrics.marketWins, {
+            days: reportData.meta.params_used.days,
+            endDate: reportData.meta.report_generated_at,
+          })
+        : null,
+    [reportData, metrics]
+  );
+  const competitors = useMemo(
+    () => (reportData ? scoreCompetitors(reportData, metrics) : []),
+    [reportData, metrics]
+  );
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadReportPdf(data.report);
+    } catch (error) {
+      console.error('Failed to download report:', error);
+      toast({
+        title: t.common.downloadFailed,
+        description: error instanceof Error ? error.message : t.viewer.downloadFailedDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="bg-card border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="sm" onClick={() => navigate('/history')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t.common.back}
+              </Button>
+              <div className="p-2 bg-primary rounded-lg">
+                <FileText className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">{data?.report.seller_name ?? t.viewer.fallbackTitle}</h1>
+                <p className="text-sm text-muted-foreground">
+                  {reportData
+                    ? t.viewer.subtitle(
+                        departmentLabel(reportData.meta.params_used),
+                        reportData.meta.params_used.days,
+                        formatDate(reportData.meta.report_generated_at, locale)
+                      )
+                    : t.viewer.interactive}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              {data?.report.pdf_path && (
+                <Button variant="outline" size="sm" onClick={handleDownload} disabled={isDownloading}>
+                  {isDownloading ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  {t.common.downloadPdf}
+                </Button>
+              )}
+              <LanguageSwitcher />
+              <CreditBadge />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground">
+            <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+            {t.viewer.loading}
+          </div>
+        ) : isError || !reportData ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <h3 className="text-xl font-semibold mb-2">{t.viewer.loadFailed}</h3>
+              <p className="text-muted-foreground mb-6">
+                {t.viewer.loadFailedDescription}
+              </p>
+              <Button onClick={() => navigate('/history')}>{t.viewer.backToHistory}</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <ReportKpiCards metrics={metrics} estimatedMissedValue={reportData.data.estimatedMissedValue} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <WinLossChart metrics={metrics} />
+              <div className="lg:col-span-2">
+                <DepartmentChart groups={departments} />
+              </div>
+            </div>
+
+            <PerformanceTrendCard trend={trend} />
+
+            <StateChart states={reportData.data.topPerformingStates || []} />
+
+            <CompetitorList competitors={competitors} />
+
+            <LikelyWinsList ai={reportData.data.missedButWinnable.ai} />
+
+            <TenderTable
+              title={t.viewer.recentWins}
+              description={t.viewer.recentWinsDescription(metrics.wins.length, reportData.meta.params_used.sellerName)}
+              rows={metrics.wins}
+            />
+
+            <TenderTable
+              title={t.viewer.lowCompetition}
+              description={t.viewer.lowCompetitionDescription}
+              rows={reportData.data.lowCompetitionBids?.results || []}
+              showBidders
+              defaultSort={{ key: 'bidders_count', direction: 'asc' }}
+            />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ReportViewer;
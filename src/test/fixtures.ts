@@ -0,0 +1,19 @@
+import { MOCK_FIXTURES, type MockReportParams } from '../../mock-backend/fixtures';
+
+// Builds the mock backend's fixtures as report data for tests. Every suite asks
+// with the same parameters, so what they render and export stays comparable.
+
+export const FIXTURE_PARAMS: Omit<MockReportParams, 'sellerName'> = {
+  department: 'Ministry of Defence',
+  offeredItem: 'Office Chairs, Steel Almirah, Laptops',
+  days: 90,
+  limit: 100,
+  email: 'reports@example.com',
+};
+
+/** The data a fixture returns for its own seller, with any parameters overridden. */
+export const fixture = (id: string, params: Partial<MockReportParams> = {}) => {
+  const match = MOCK_FIXTURES.find((candidate) => candidate.id === id);
+  if (!match) throw new Error(`Unknown fixture ${id}`);
+  return match.build({ ...FIXTURE_PARAMS, sellerName: match.sellerName, ...params });
+};
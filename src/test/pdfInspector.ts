@@ -0,0 +1,94 @@
+import type jsPDF from 'jspdf';
+
+// Reads back what generatePDF drew, for assertions in tests. jsPDF keeps each
+// page's content stream uncompressed in doc.internal.pages until output, so the
+// text operators can be read directly instead of parsing the finished file.
+
+const PT_PER_MM = 72 / 25.4;
+
+export interface PdfTextItem {
+  text: string;
+  page: number;
+  fontSize: number;
+  /** Distance from the top of the page, in mm (the units generatePDF draws in). */
+  y: number;
+}
+
+export interface PdfTable {
+  page: number;
+  head: string[];
+  rows: number;
+}
+
+// (text) Tj with \( \) and \\ escapes
+const TEXT_OPERATOR = /^\((.*)\) Tj$/;
+const FONT_OPERATOR = /^\/F\d+ ([\d.]+) Tf$/;
+const POSITION_OPERATOR = /^[\d.-]+ ([\d.-]+) Td$/;
+
+const unescapePdfString = (value: string) => value.replace(/\\([()\\])/g, '$1');
+
+export const getPageCount = (doc: jsPDF) => doc.getNumberOfPages();
+
+/** Every text run on every page, in drawing order. */
+export const extractText = (doc: jsPDF): PdfTextItem[] => {
+  const pages = (doc.internal as unknown as { pages: (string[] | null)[] }).pages;
+  const pageHeightPt = doc.internal.pageSize.getHeight() * PT_PER_MM;
+  const items: PdfTextItem[] = [];
+
+  pages.forEach((operators, index) => {
+    if (!operators) return;
+
+    let fontSize = 0;
+    let y = 0;
+    // Entries can hold several operators, one per line
+    operators.flatMap((entry) => entry.split('\n')).forEach((operator) => {
+      const font = FONT_OPERATOR.exec(operator);
+      if (font) fontSize = Number(font[1]);
+
+      const position = POSITION_OPERATOR.exec(operator);
+      if (position) y = (pageHeightPt - Number(position[1])) / PT_PER_MM;
+
+      const text = TEXT_OPERATOR.exec(operator);
+      if (text) items.push({ text: unescapePdfString(text[1]), page: index, fontSize, y });
+    });
+  });
+
+  return items;
+};
+
+export const textOnPage = (items: PdfTextItem[], page: number) =>
+  items.filter((item) => item.page === page).map((item) => item.text);
+
+/** Section banners drawn by addSectionHeader (and the executive summary banner). */
+export const extractHeadings = (items: PdfTextItem[]) =>
+  items.filter((item) => item.fontSize === 14).map(({ text, page }) => ({ text, page }));
+
+type AutoTableOptions = { head?: unknown[][]; body?: unknown[][] };
+type AutoTableModule = { default: (doc: jsPDF, options: AutoTableOptions) => void };
+
+/** Tables drawn since the last resetRecordedTables(), once recordTables is mocked in. */
+export const recordedTables: PdfTable[] = [];
+
+export const resetRecordedTables = () => {
+  recordedTables.length = 0;
+};
+
+/**
+ * Wrap jspdf-autotable so every table is recorded and still drawn:
+ *
+ *   vi.mock('jspdf-autotable', async (importOriginal) => {
+ *     const { recordTables } = await import('@/test/pdfInspector');
+ *     return recordTables(await importOriginal());
+ *   });
+ */
+export const recordTables = <T extends AutoTableModule>(actual: T): T => ({
+  ...actual,
+  default: (doc: jsPDF, options: AutoTableOptions) => {
+    recordedTables.push({
+      page: doc.getCurrentPageInfo().pageNumber,
+      head: (options.head?.[0] ?? []).map(String),
+      rows: options.body?.length ?? 0,
+    });
+    return actual.default(doc, options);
+  },
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  hexToHslComponents,
+  hexToPdfColor,
+  isHexColor,
+  pdfColorToHex,
+  prefersLightText,
+  toReportBranding,
+  type OrganizationTheme,
+} from '@/utils/branding';
+
+// Only the pure helpers are tested; the client needs a browser to load
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const THEME: OrganizationTheme = {
+  id: 'b7c5c1f2-0000-4000-8000-000000000001',
+  organization_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+  primary_color: '#0B5FFF',
+  accent_color: null,
+  cover_title: 'Acme Tender Intelligence',
+  footer_disclaimer: '',
+  contact_line: 'reports@acme.example',
+  logo_path: null,
+  updated_by: null,
+  created_at: '2025-11-06T09:00:00Z',
+  updated_at: '2025-11-06T09:00:00Z',
+};
+
+describe('colour helpers', () => {
+  it('accepts only six-digit hex colours', () => {
+    expect(isHexColor('#0b5fff')).toBe(true);
+    expect(isHexColor('#0B5FFF')).toBe(true);
+    expect(isHexColor('#fff')).toBe(false);
+    expect(isHexColor('0b5fff')).toBe(false);
+    expect(isHexColor(null)).toBe(false);
+  });
+
+  it('converts between hex and PDF colours', () => {
+    expect(hexToPdfColor('#2962ff')).toEqual([41, 98, 255]);
+    expect(pdfColorToHex([41, 98, 255])).toBe('#2962ff');
+    expect(pdfColorToHex([0, 8, 15])).toBe('#00080f');
+  });
+
+  it('formats colours for the HSL theme variables', () => {
+    expect(hexToHslComponents('#095aa9')).toBe('210 90% 35%');
+    expect(hexToHslComponents('#808080')).toBe('0 0% 50%');
+    expect(hexToHslComponents('#ff0000')).toBe('0 100% 50%');
+  });
+
+  it('picks the more readable text colour', () => {
+    expect(prefersLightText('#0b5fff')).toBe(true);
+    expect(prefersLightText('#1e293b')).toBe(true);
+    expect(prefersLightText('#fde047')).toBe(false);
+    expect(prefersLightText('#ffffff')).toBe(false);
+  });
+});
+
+describe('toReportBranding', () => {
+  it('maps a stored theme to PDF overrides, leaving blanks unset', () => {
+    expect(toReportBranding(THEME, 'data:image/png;base64,AAAA')).toEqual({
+      primaryColor: [11, 95, 255],
+      accentColor: undefined,
+      coverTitle: 'Acme Tender Intelligence',
+      footerDisclaimer: undefined,
+      contactLine: 'reports@acme.example',
+      logo: 'data:image/png;base64,AAAA',
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { PdfColor, ReportBranding } from '@/utils/pdf/types';
+
+export type OrganizationTheme = Tables<'organization_themes'>;
+
+export interface OrganizationThemeInput {
+  primaryColor: string | null;
+  accentColor: string | null;
+  coverTitle: string | null;
+  footerDisclaimer: string | null;
+  contactLine: string | null;
+}
+
+const BRANDING_BUCKET = 'branding';
+
+export const LOGO_TYPES = ['image/png', 'image/jpeg'];
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: string | null | undefined): value is string => !!value && HEX_COLOR.test(value);
+
+export const hexToPdfColor = (hex: string): PdfColor => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+export const pdfColorToHex = (color: PdfColor) =>
+  `#${color.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+
+/** A colour as the space-separated "h s% l%" the app's CSS variables hold, e.g. "217 91% 35%". */
+export const hexToHslComponents = (hex: string) => {
+  const [r, g, b] = hexToPdfColor(hex).map((channel) => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  return `${Math.round(hue)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+};
+
+/** Whether white text is easier to read than near-black text on this colour. */
+export const prefersLightText = (hex: string) => {
+  const [r, g, b] = hexToPdfColor(hex).map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  // White wins while its contrast ratio beats black's
+  return 1.05 / (luminance + 0.05) >= (luminance + 0.05) / 0.05;
+};
+
+// Blank fields are stored as null so they fall back to the defaults
+const emptyToNull = (value: string | null) => value?.trim() || null;
+
+/** Translate a stored theme into the overrides the PDF generator understands. */
+export const toReportBranding = (theme: OrganizationTheme, logo?: string): ReportBranding => ({
+  primaryColor: isHexColor(theme.primary_color) ? hexToPdfColor(theme.primary_color) : undefined,
+  accentColor: isHexColor(theme.accent_color) ? hexToPdfColor(theme.accent_color) : undefined,
+  coverTitle: theme.cover_title || undefined,
+  footerDisclaimer: theme.footer_disclaimer || undefined,
+  contactLine: theme.contact_line || undefined,
+  logo,
+});
+
+/** The signed-in user's organisation theme; row-level security limits the table to it. */
+export const fetchOrganizationTheme = async (): Promise<OrganizationTheme | null> => {
+  const { data, error } = await supabase.from('organization_themes').select('*').maybeSingle();
+  if (error) throw error;
+
+  return data;
+};
+
+/** Create or update an organisation's theme. Only its admins are allowed to. */
+export const saveOrganizationTheme = async (
+  organizationId: string,
+  userId: string,
+  input: OrganizationThemeInput
+): Promise<OrganizationTheme> => {
+  const { data, error } = await supabase
+    .from('organization_themes')
+    .upsert(
+      {
+        organization_id: organizationId,
+        primary_color: emptyToNull(input.primaryColor),
+        accent_color: emptyToNull(input.accentColor),
+        cover_title: emptyToNull(input.coverTitle),
+        footer_disclaimer: emptyToNull(input.footerDisclaimer),
+        contact_line: emptyToNull(input.contactLine),
+        updated_by: userId,
+      },
+      { onConflict: 'organization_id' }
+    )
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * Store a new logo for a saved theme, replacing any previous one. The file lives
+ * under the theme's id, which the storage policies check against the organisation.
+ */
+export const uploadOrganizationLogo = async (theme: OrganizationTheme, file: File): Promise<OrganizationTheme> => {
+  if (!LOGO_TYPES.includes(file.type)) {
+    throw new Error('The logo must be a PNG or JPEG image');
+  }
+  if (file.size > MAX_LOGO_BYTES) {
+    throw new Error('The logo must be 512 KB or smaller');
+  }
+
+  const logoPath = `${theme.id}/logo`;
+  const { error: uploadError } = await supabase.storage
+    .from(BRANDING_BUCKET)
+    .upload(logoPath, file, { contentType: file.type, upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('organization_themes')
+    .update({ logo_path: logoPath })
+    .eq('id', theme.id)
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  return data;
+};
+
+export const removeOrganizationLogo = async (theme: OrganizationTheme): Promise<OrganizationTheme> => {
+  if (theme.logo_path) {
+    const { error: removeError } = await supabase.storage.from(BRANDING_BUCKET).remove([theme.logo_path]);
+    if (removeError) throw removeError;
+  }
+
+  const { data, error } = await supabase
+    .from('organization_themes')
+    .update({ logo_path: null })
+    .eq('id', theme.id)
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  return data;
+};
+
+/** A short-lived URL for showing the logo in the app; the bucket is private. */
+export const fetchOrganizationLogoUrl = async (logoPath: string) => {
+  const { data, error } = await supabase.storage.from(BRANDING_BUCKET).createSignedUrl(logoPath, 60 * 60);
+  if (error) throw error;
+
+  return data.signedUrl;
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Load the branding to print on the signed-in user's PDFs. Resolves to null when
+ * the organisation has no theme or it can't be loaded, so a report is never lost
+ * over its branding.
+ */
+export const loadReportBranding = async (): Promise<ReportBranding | null> => {
+  try {
+    const theme = await fetchOrganizationTheme();
+    if (!theme) return null;
+
+    let logo: string | undefined;
+    if (theme.logo_path) {
+      const { data, error } = await supabase.storage.from(BRANDING_BUCKET).download(theme.logo_path);
+      if (error) {
+        console.warn('Could not load the organisation logo, leaving it out:', error);
+      } else {
+        logo = await blobToDataUrl(data);
+      }
+    }
+
+    return toReportBranding(theme, logo);
+  } catch (error) {
+    console.warn('Could not load organisation branding, using the default theme:', error);
+    return null;
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { buildCompetitorProfile, competitorKey, type CompetitorReportSource } from '@/utils/competitors';
+import type { WinRecord } from '@/utils/reportSchema';
+
+const win = (bid_number: string, dept: string, total_price: number, seller?: string): WinRecord => ({
+  bid_number,
+  dept,
+  total_price,
+  seller,
+  ended_at: '2025-01-10T00:00:00.000Z',
+});
+
+const report = (id: string, date: string, data: Partial<CompetitorReportSource>): CompetitorReportSource => ({
+  id,
+  sellerName: 'Acme Supplies',
+  offeredItem: 'Chairs',
+  date,
+  topSellers: [],
+  recentWins: [],
+  marketWins: [],
+  ...data,
+});
+
+describe('competitorKey', () => {
+  it('ignores case and extra spaces', () => {
+    expect(competitorKey('  Rival   Traders ')).toBe(competitorKey('rival traders'));
+  });
+});
+
+describe('buildCompetitorProfile', () => {
+  const reports = [
+    report('later', '2025-02-01T00:00:00.000Z', {
+      topSellers: [
+        { seller: 'Rival Traders', dept: 'Railways', value: 700 },
+        { seller: 'Rival Traders', dept: 'Space', value: 300 },
+        { seller: 'Someone Else', dept: 'Railways', value: 900 },
+      ],
+      recentWins: [win('R-1', 'Railways', 100)],
+      marketWins: [win('M-1', 'Railways', 400, 'rival traders'), win('M-2', 'Railways', 200, 'Someone Else')],
+    }),
+    report('earlier', '2025-01-01T00:00:00.000Z', {
+      topSellers: [{ seller: 'Rival Traders', dept: 'Railways', value: 500 }],
+      marketWins: [win('M-1', 'Railways', 400, 'Rival Traders')],
+    }),
+    report('unrelated', '2025-01-15T00:00:00.000Z', {
+      topSellers: [{ seller: 'Someone Else', dept: 'Defence', value: 100 }],
+    }),
+  ];
+
+  it('lists the reports they appear in, oldest first, with their value in each', () => {
+    const profile = buildCompetitorProfile('Rival Traders', reports);
+
+    expect(profile.appearances.map(({ reportId, value }) => ({ reportId, value }))).toEqual([
+      { reportId: 'earlier', value: 500 },
+      { reportId: 'later', value: 1000 },
+    ]);
+  });
+
+  it('marks the departments we also had tenders in', () => {
+    const profile = buildCompetitorProfile('Rival Traders', reports);
+
+    expect(profile.departments).toEqual([
+      { dept: 'Railways', reports: 2, latestValue: 700, shared: true },
+      { dept: 'Space', reports: 1, latestValue: 300, shared: false },
+    ]);
+  });
+
+  it('counts each tender they won from us once, from the latest report', () => {
+    const profile = buildCompetitorProfile('Rival Traders', reports);
+
+    expect(profile.headToHead).toHaveLength(1);
+    expect(profile.headToHead[0]).toMatchObject({ bid_number: 'M-1', reportId: 'later' });
+    expect(profile.headToHeadValue).toBe(400);
+  });
+
+  it('finds sellers who only appear as the winner of our lost tenders', () => {
+    const profile = buildCompetitorProfile('someone else', [reports[0]]);
+
+    expect(profile.name).toBe('Someone Else');
+    expect(profile.headToHead.map((tender) => tender.bid_number)).toEqual(['M-2']);
+  });
+
+  it('returns null for a seller in none of the reports', () => {
+    expect(buildCompetitorProfile('Nobody', reports)).toBeNull();
+  });
+});
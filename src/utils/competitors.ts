@@ -0,0 +1,125 @@
+import type { TopSeller, WinRecord } from '@/utils/reportSchema';
+
+// Competitor profiles, built by collecting a seller across every stored report
+// they appear in: as one of the top sellers by department, or as the winner of
+// tenders we bid on and lost. Kept free of React so it can be tested on its own.
+
+/** The parts of a stored report a competitor profile is built from. */
+export interface CompetitorReportSource {
+  id: string;
+  /** Our seller the report was generated for. */
+  sellerName: string;
+  offeredItem: string;
+  /** When the data was generated, falling back to when the report was saved. */
+  date: string;
+  topSellers: TopSeller[];
+  recentWins: WinRecord[];
+  marketWins: WinRecord[];
+}
+
+export interface CompetitorAppearance {
+  reportId: string;
+  date: string;
+  sellerName: string;
+  offeredItem: string;
+  /** Their value in each department the report lists them under. */
+  departments: { dept: string; value: number }[];
+  value: number;
+  /** Tenders in this report we lost to them. */
+  headToHead: WinRecord[];
+}
+
+export interface CompetitorDepartment {
+  dept: string;
+  /** Reports listing them in this department. */
+  reports: number;
+  /** Their value here in the most recent report listing them in it. */
+  latestValue: number;
+  /** Whether we had tenders in this department in any of those reports. */
+  shared: boolean;
+}
+
+export interface CompetitorProfile {
+  name: string;
+  /** Oldest first. */
+  appearances: CompetitorAppearance[];
+  departments: CompetitorDepartment[];
+  headToHead: (WinRecord & { reportId: string })[];
+  headToHeadValue: number;
+}
+
+/** Names are matched ignoring case and extra spaces. */
+export const competitorKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** The link to a competitor's profile page. */
+export const competitorPath = (name: string) => `/competitors/${encodeURIComponent(name.trim())}`;
+
+const sameName = (key: string, name?: string | null) => !!name && competitorKey(name) === key;
+
+/**
+ * Gather everything the reports say about one competitor. Returns null when
+ * they appear in none of them. A head-to-head tender seen in several reports is
+ * counted once, from the latest report it's in.
+ */
+export const buildCompetitorProfile = (name: string, reports: CompetitorReportSource[]): CompetitorProfile | null => {
+  const key = competitorKey(name);
+  const appearances: CompetitorAppearance[] = [];
+  let displayName = name.trim();
+
+  [...reports]
+    .sort((a, b) => Date.parse(a.date) - Date.parse(b.date))
+    .forEach((report) => {
+      const listed = report.topSellers.filter((seller) => sameName(key, seller.seller));
+      const headToHead = report.marketWins.filter((win) => sameName(key, win.seller));
+      if (listed.length === 0 && headToHead.length === 0) return;
+
+      displayName = listed[0]?.seller ?? headToHead[0].seller;
+      appearances.push({
+        reportId: report.id,
+        date: report.date,
+        sellerName: report.sellerName,
+        offeredItem: report.offeredItem,
+        departments: listed.map(({ dept, value }) => ({ dept, value })),
+        value: listed.reduce((sum, seller) => sum + (seller.value || 0), 0),
+        headToHead,
+      });
+    });
+  if (appearances.length === 0) return null;
+
+  // Departments we had tenders in, per report
+  const ourDepartments = new Map(
+    reports.map((report) => [
+      report.id,
+      new Set([...report.recentWins, ...report.marketWins].map((win) => competitorKey(win.dept || ''))),
+    ])
+  );
+
+  const departments = new Map<string, CompetitorDepartment>();
+  appearances.forEach((appearance) => {
+    appearance.departments.forEach(({ dept, value }) => {
+      const entry = departments.get(competitorKey(dept)) ?? { dept, reports: 0, latestValue: 0, shared: false };
+      entry.reports += 1;
+      entry.latestValue = value;
+      entry.shared ||= ourDepartments.get(appearance.reportId).has(competitorKey(dept));
+      departments.set(competitorKey(dept), entry);
+    });
+  });
+
+  const headToHead = new Map<string, WinRecord & { reportId: string }>();
+  appearances.forEach((appearance) => {
+    appearance.headToHead.forEach((win, index) => {
+      headToHead.set(win.bid_number || `${appearance.reportId}:${index}`, { ...win, reportId: appearance.reportId });
+    });
+  });
+  const lost = [...headToHead.values()].sort(
+    (a, b) => (Date.parse(b.ended_at ?? '') || 0) - (Date.parse(a.ended_at ?? '') || 0)
+  );
+
+  return {
+    name: displayName,
+    appearances,
+    departments: [...departments.values()].sort((a, b) => b.latestValue - a.latestValue),
+    headToHead: lost,
+    headToHeadValue: lost.reduce((sum, win) => sum + (win.total_price || 0), 0),
+  };
+};
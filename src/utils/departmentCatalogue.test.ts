@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { buildDepartmentCatalogue, DEFAULT_DEPARTMENTS, type CatalogueReportSource } from '@/utils/departmentCatalogue';
+import type { WinRecord } from '@/utils/reportSchema';
+
+const tender = (bid_number: string, ministry: string, org: string): WinRecord => ({ bid_number, ministry, org });
+
+const report = (date: string, data: Partial<CatalogueReportSource>): CatalogueReportSource => ({
+  date,
+  allDepartments: [],
+  tenders: [],
+  ...data,
+});
+
+describe('buildDepartmentCatalogue', () => {
+  it('offers the default departments before any report is stored', () => {
+    const catalogue = buildDepartmentCatalogue([]);
+
+    expect(catalogue.map((entry) => entry.name)).toEqual([...DEFAULT_DEPARTMENTS].sort((a, b) => a.localeCompare(b)));
+    expect(catalogue.every((entry) => entry.kind === 'department' && entry.tenders === null)).toBe(true);
+  });
+
+  it('takes the newest department totals and counts each tender once', () => {
+    const catalogue = buildDepartmentCatalogue([
+      report('2025-02-01T00:00:00.000Z', {
+        allDepartments: [{ department: 'Ministry of Railways', total_tenders: '900' }],
+        tenders: [tender('B-1', 'Ministry of Railways', 'Northern Railway'), tender('B-2', 'Ministry of Power', 'NTPC')],
+      }),
+      report('2025-01-01T00:00:00.000Z', {
+        allDepartments: [
+          { department: 'ministry of railways', total_tenders: 400 },
+          { department: 'Department of Space', total_tenders: 1200 },
+        ],
+        tenders: [tender('B-1', 'Ministry of Railways', 'Northern Railway'), tender('B-3', 'Ministry of Power', 'NTPC')],
+      }),
+    ]);
+    const find = (name: string) => catalogue.find((entry) => entry.name === name);
+
+    expect(catalogue.slice(0, 2)).toEqual([
+      { name: 'Department of Space', kind: 'department', tenders: 1200 },
+      { name: 'Ministry of Railways', kind: 'department', tenders: 900 },
+    ]);
+    expect(find('Ministry of Power')).toEqual({ name: 'Ministry of Power', kind: 'ministry', tenders: 2 });
+    expect(find('NTPC')).toEqual({ name: 'NTPC', kind: 'organisation', tenders: 2 });
+    expect(find('Northern Railway')).toMatchObject({ tenders: 1 });
+    // Already listed as a department
+    expect(catalogue.filter((entry) => entry.name.toLowerCase() === 'ministry of railways')).toHaveLength(1);
+    // The backend listing replaces the defaults
+    expect(catalogue.filter((entry) => entry.kind === 'department')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,98 @@
+import type { DepartmentTotal, WinRecord } from '@/utils/reportSchema';
+
+// The buyers a report can be scoped to, gathered from stored report data: the
+// backend's allDepartments listing with its tender counts, and the ministries and
+// organisations named on tenders. Until a stored report carries that listing, the
+// common departments below are offered without counts.
+//
+// Each kind is requested in its own field (see utils/reportScope), so a ministry
+// or organisation is never sent to the backend as a department.
+
+export const DEFAULT_DEPARTMENTS = [
+  'Department Of Defence',
+  'Department Of Military Affairs',
+  'Department Of Defence Production',
+  'Department Of Defence Research & Development',
+  'Central Armed Police Forces',
+  'Indian Railways',
+  'Department Of Atomic Energy',
+  'Department Of Heavy Industry',
+  'Coal India Limited',
+  'Steel Authority Of India Limited',
+];
+
+export type CatalogueKind = 'department' | 'ministry' | 'organisation';
+
+/** A buyer picked for a report. */
+export type ScopePick = Pick<CatalogueEntry, 'name' | 'kind'>;
+
+export interface CatalogueEntry {
+  name: string;
+  kind: CatalogueKind;
+  /**
+   * Tender volume: the backend's latest total for departments, the tenders seen
+   * in stored reports for ministries and organisations; null when unknown.
+   */
+  tenders: number | null;
+}
+
+/** The catalogue data of one stored report. */
+export interface CatalogueReportSource {
+  date: string;
+  allDepartments: DepartmentTotal[];
+  tenders: WinRecord[];
+}
+
+const normalize = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const KIND_ORDER: CatalogueKind[] = ['department', 'ministry', 'organisation'];
+
+/**
+ * One entry per buyer across the given reports, grouped by kind and busiest
+ * first. A name listed as a department is not repeated as a ministry or
+ * organisation.
+ */
+export const buildDepartmentCatalogue = (reports: CatalogueReportSource[]): CatalogueEntry[] => {
+  const entries = new Map<string, CatalogueEntry>();
+
+  // Totals are market-wide snapshots, so the newest report's count (and spelling) wins rather than adding up
+  [...reports]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach((report) => report.allDepartments.forEach(({ department, total_tenders }) => {
+      if (!department?.trim()) return;
+      const tenders = Number(total_tenders);
+      entries.set(normalize(department), {
+        name: department.trim(),
+        kind: 'department',
+        tenders: Number.isFinite(tenders) ? tenders : null,
+      });
+    }));
+
+  if (entries.size === 0) {
+    DEFAULT_DEPARTMENTS.forEach((department) => {
+      entries.set(normalize(department), { name: department, kind: 'department', tenders: null });
+    });
+  }
+
+  // The same tender shows up in several reports; count it once
+  const seen = new Set<string>();
+  reports.flatMap((report) => report.tenders).forEach((tender) => {
+    if (tender.bid_number) {
+      if (seen.has(tender.bid_number)) return;
+      seen.add(tender.bid_number);
+    }
+    const buyers: [string | null | undefined, CatalogueKind][] = [[tender.ministry, 'ministry'], [tender.org, 'organisation']];
+    buyers.forEach(([name, kind]) => {
+      if (!name?.trim()) return;
+      const entry = entries.get(normalize(name));
+      if (entry && entry.kind !== kind) return;
+      entries.set(normalize(name), { name: entry?.name ?? name.trim(), kind, tenders: (entry?.tenders ?? 0) + 1 });
+    });
+  });
+
+  return [...entries.values()].sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+    || (b.tenders ?? -1) - (a.tenders ?? -1)
+    || a.name.localeCompare(b.name)
+  );
+};
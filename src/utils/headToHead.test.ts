@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { computeHeadToHead } from '@/utils/headToHead';
+import type { ReportData, SharedBid, WinRecord } from '@/utils/reportSchema';
+
+const win = (dept: string, total_price: number): WinRecord => ({ dept, total_price });
+
+const bid = (data: Partial<SharedBid>): SharedBid => ({ bid_number: 'GEM/1', ended_at: '2025-01-10T00:00:00.000Z', ...data });
+
+const report = (data: Partial<ReportData['data']>): ReportData => ({
+  meta: {
+    report_generated_at: '2025-01-15T10:30:00.000Z',
+    params_used: { sellerName: 'Acme Supplies', department: 'Railways', offeredItem: 'Chairs', days: 30, limit: 100, email: '' },
+  },
+  data: {
+    missedButWinnable: {
+      seller: 'Acme Supplies',
+      recentWins: [win('Railways', 3000), win('Defence', 1000)],
+      marketWins: [],
+      ai: {
+        strategy_summary: '',
+        signals: { org_affinity: [], dept_affinity: [], ministry_affinity: [], quantity_ranges: [], price_ranges: [] },
+      },
+    },
+    ...data,
+  },
+});
+
+describe('computeHeadToHead', () => {
+  it('is null for reports without a competitor to compare with', () => {
+    expect(computeHeadToHead(report({}))).toBeNull();
+  });
+
+  it('records who won each shared tender', () => {
+    const headToHead = computeHeadToHead(report({
+      headToHead: {
+        competitor: 'Rival Traders',
+        competitorWins: [],
+        sharedBids: [
+          bid({ winner: 'acme supplies' }),
+          bid({ winner: 'Rival  Traders' }),
+          bid({ winner: 'Rival Traders' }),
+          bid({ winner: 'Someone Else' }),
+          bid({ winner: null }),
+        ],
+      },
+    }));
+
+    expect(headToHead.record).toEqual({ won: 1, lost: 2, other: 1, open: 1 });
+  });
+
+  it('lists departments, categories and states both sides are active in', () => {
+    const headToHead = computeHeadToHead(report({
+      categoryListing: [{ category: 'Chairs', count: 3, value: 9000 }, { category: 'Desks', count: 1, value: 500 }],
+      topPerformingStates: [{ state: 'Delhi', value: 2000, count: 2 }, { state: 'Goa', value: 100, count: 1 }],
+      headToHead: {
+        competitor: 'Rival Traders',
+        competitorWins: [win('Railways', 5000), win('railways', 1000), win('Space', 7000)],
+        competitorCategories: [{ category: 'chairs', count: 2, value: 4000 }],
+        competitorStates: [{ state: 'Delhi', value: 6000, count: 4 }, { state: 'Kerala', value: 100, count: 1 }],
+        sharedBids: [],
+      },
+    }));
+
+    expect(headToHead.sharedDepartments).toEqual([{ name: 'Railways', ours: 3000, theirs: 6000 }]);
+    expect(headToHead.sharedCategories).toEqual([{ name: 'Chairs', ours: 9000, theirs: 4000 }]);
+    expect(headToHead.sharedStates).toEqual([{ name: 'Delhi', ours: 2000, theirs: 6000 }]);
+  });
+
+  it('compares average prices per item where both prices are known, biggest gap first', () => {
+    const headToHead = computeHeadToHead(report({
+      headToHead: {
+        competitor: 'Rival Traders',
+        competitorWins: [],
+        sharedBids: [
+          bid({ item: 'Chairs', our_price: 110, competitor_price: 100 }),
+          bid({ item: 'chairs', our_price: 130, competitor_price: 100 }),
+          bid({ item: 'Desks', our_price: 50, competitor_price: 100 }),
+          bid({ item: 'Lamps', our_price: 80 }),
+        ],
+      },
+    }));
+
+    expect(headToHead.priceGaps).toEqual([
+      { item: 'Desks', bids: 1, ourAverage: 50, theirAverage: 100, gap: -50 },
+      { item: 'Chairs', bids: 2, ourAverage: 120, theirAverage: 100, gap: 20 },
+    ]);
+  });
+});
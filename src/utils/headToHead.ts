@@ -0,0 +1,131 @@
+import type { ReportData, SharedBid, WinRecord } from '@/utils/reportSchema';
+
+// Head-to-head comparison of the report's seller with one named competitor, from
+// the backend's headToHead block. Only present when the report was requested in
+// comparison mode. The block is not yet part of the production backend contract,
+// so comparison mode stays hidden unless reportConfig.headToHead is set.
+
+/** Who won a tender both sellers bid on, from our seller's side. */
+export type MatchupOutcome = 'won' | 'lost' | 'other' | 'open';
+
+export interface Matchup extends SharedBid {
+  outcome: MatchupOutcome;
+}
+
+/** A department, category or state both sellers are active in, with each side's value there. */
+export interface Overlap {
+  name: string;
+  ours: number;
+  theirs: number;
+}
+
+export interface PriceGap {
+  item: string;
+  /** Shared tenders for the item where both prices are known. */
+  bids: number;
+  ourAverage: number;
+  theirAverage: number;
+  /** How much higher our average price is than theirs, in percent; negative when we're cheaper. */
+  gap: number;
+}
+
+export interface HeadToHead {
+  seller: string;
+  competitor: string;
+  matchups: Matchup[];
+  record: Record<MatchupOutcome, number>;
+  /** Departments both won tenders in; values are what each side won there. */
+  sharedDepartments: Overlap[];
+  /** Offered-item categories they also sell in; `ours` is the category's value in the report's category listing. */
+  sharedCategories: Overlap[];
+  /** States in both sides' top states, with each side's value there. */
+  sharedStates: Overlap[];
+  priceGaps: PriceGap[];
+}
+
+const normalize = (name?: string | null) => (name || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const outcomeOf = (bid: SharedBid, seller: string, competitor: string): MatchupOutcome => {
+  if (!bid.winner) return 'open';
+  if (normalize(bid.winner) === normalize(seller)) return 'won';
+  if (normalize(bid.winner) === normalize(competitor)) return 'lost';
+  return 'other';
+};
+
+/** Total value per department, keyed by normalised name. */
+const valueByDepartment = (wins: WinRecord[]) => {
+  const departments = new Map<string, { name: string; value: number }>();
+  wins.forEach((win) => {
+    if (!win.dept) return;
+    const entry = departments.get(normalize(win.dept)) ?? { name: win.dept, value: 0 };
+    entry.value += win.total_price || 0;
+    departments.set(normalize(win.dept), entry);
+  });
+  return departments;
+};
+
+/** Names present on both sides, with each side's value, largest combined value first. */
+const overlap = (ours: Map<string, { name: string; value: number }>, theirs: Map<string, { name: string; value: number }>) =>
+  [...ours.entries()]
+    .filter(([key]) => theirs.has(key))
+    .map(([key, { name, value }]) => ({ name, ours: value, theirs: theirs.get(key).value }))
+    .sort((a, b) => b.ours + b.theirs - (a.ours + a.theirs) || a.name.localeCompare(b.name));
+
+const byName = <T,>(entries: T[], name: (entry: T) => string, value: (entry: T) => number) =>
+  new Map(entries.map((entry) => [normalize(name(entry)), { name: name(entry), value: value(entry) }]));
+
+/** Average bid prices per item on shared tenders where both sides' prices are known, biggest gap first. */
+const priceGapsOf = (bids: SharedBid[]): PriceGap[] => {
+  const items = new Map<string, { item: string; ours: number[]; theirs: number[] }>();
+  bids.forEach((bid) => {
+    if (!bid.item || !bid.our_price || !bid.competitor_price) return;
+    const entry = items.get(normalize(bid.item)) ?? { item: bid.item, ours: [], theirs: [] };
+    entry.ours.push(bid.our_price);
+    entry.theirs.push(bid.competitor_price);
+    items.set(normalize(bid.item), entry);
+  });
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return [...items.values()]
+    .map(({ item, ours, theirs }) => {
+      const ourAverage = average(ours);
+      const theirAverage = average(theirs);
+      return { item, bids: ours.length, ourAverage, theirAverage, gap: ((ourAverage - theirAverage) / theirAverage) * 100 };
+    })
+    .sort((a, b) => Math.abs(b.gap) - Math.abs(a.gap) || a.item.localeCompare(b.item));
+};
+
+/** The comparison with the requested competitor; null when the report has none. */
+export const computeHeadToHead = (reportData: ReportData): HeadToHead | null => {
+  const headToHead = reportData.data.headToHead;
+  if (!headToHead) return null;
+
+  const seller = reportData.meta.params_used.sellerName;
+  const { competitor } = headToHead;
+  const matchups = headToHead.sharedBids
+    .map((bid) => ({ ...bid, outcome: outcomeOf(bid, seller, competitor) }))
+    .sort((a, b) => (Date.parse(b.ended_at ?? '') || 0) - (Date.parse(a.ended_at ?? '') || 0));
+
+  const record: Record<MatchupOutcome, number> = { won: 0, lost: 0, other: 0, open: 0 };
+  matchups.forEach((matchup) => { record[matchup.outcome] += 1; });
+
+  return {
+    seller,
+    competitor,
+    matchups,
+    record,
+    sharedDepartments: overlap(
+      valueByDepartment(reportData.data.missedButWinnable?.recentWins || []),
+      valueByDepartment(headToHead.competitorWins)
+    ),
+    sharedCategories: overlap(
+      byName(reportData.data.categoryListing || [], (category) => category.category, (category) => category.value),
+      byName(headToHead.competitorCategories || [], (category) => category.category, (category) => category.value)
+    ),
+    sharedStates: overlap(
+      byName(reportData.data.topPerformingStates || [], (state) => state.state, (state) => state.value),
+      byName(headToHead.competitorStates || [], (state) => state.state, (state) => state.value)
+    ),
+    priceGaps: priceGapsOf(headToHead.sharedBids),
+  };
+};
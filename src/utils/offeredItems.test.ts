@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildItemSuggestions,
+  cleanItem,
+  itemKey,
+  matchItemSuggestions,
+  MAX_OFFERED_ITEMS,
+  reportOfferedItems,
+  validateItem,
+} from '@/utils/offeredItems';
+
+describe('itemKey', () => {
+  it('folds case, spacing and plurals', () => {
+    expect(itemKey('  Halogen   Lamps, ')).toBe(itemKey('HALOGEN LAMP'));
+    expect(itemKey('batteries')).toBe(itemKey('Battery'));
+    expect(itemKey('Boxes')).toBe(itemKey('BOX'));
+    expect(itemKey('Glass')).toBe('GLASS');
+    expect(itemKey('FUSE 6 23X32 MM 6 3A SLOW BLOW')).toBe('FUSE 6 23X32 MM 6 3A SLOW BLOW');
+  });
+
+  it('treats synonyms as the same item', () => {
+    expect(itemKey('HALOGEN BULB')).toBe(itemKey('Halogen Lamp'));
+    expect(itemKey('Tires')).toBe(itemKey('TYRE'));
+    expect(itemKey('10 Ampere Fuse')).toBe(itemKey('10 AMP FUSE'));
+  });
+
+  it('keeps words that only look alike apart', () => {
+    expect(itemKey('TABLE LAMP')).not.toBe(itemKey('TABLE LAMINATE'));
+    expect(itemKey('AMP')).toBe('AMP');
+  });
+});
+
+describe('cleanItem', () => {
+  it('keeps the item as typed apart from surrounding separators and extra spaces', () => {
+    expect(cleanItem('  Table   Lamp, ')).toBe('Table Lamp');
+    expect(cleanItem('10 AMP Fuse')).toBe('10 AMP Fuse');
+  });
+});
+
+describe('validateItem', () => {
+  it('rejects items that are too short, without a name or already listed', () => {
+    expect(validateItem('ab', [])).toBe('tooShort');
+    expect(validateItem('x'.repeat(101), [])).toBe('tooLong');
+    expect(validateItem('12 34', [])).toBe('noLetters');
+    expect(validateItem('Halogen Lamps', ['HALOGEN LAMP'])).toBe('duplicate');
+    expect(validateItem('Vent Cover', Array.from({ length: MAX_OFFERED_ITEMS }, (_, index) => `ITEM ${index}`))).toBe('tooMany');
+    expect(validateItem('Halogen Bulb', ['Halogen Lamps'])).toBe('duplicate');
+    expect(validateItem('Vent Cover', ['HALOGEN BULB'])).toBeNull();
+  });
+});
+
+describe('reportOfferedItems', () => {
+  it('reads the item list, or splits the label of older reports', () => {
+    const params = { sellerName: 'Acme', department: 'Railways', days: 30, limit: 10, email: '' };
+    expect(reportOfferedItems({ ...params, offeredItem: 'CHAIR, TABLE', offeredItems: ['CHAIR', 'TABLE'] })).toEqual(['CHAIR', 'TABLE']);
+    expect(reportOfferedItems({ ...params, offeredItem: 'Chairs,  Tables ,' })).toEqual(['Chairs', 'Tables']);
+  });
+});
+
+describe('item suggestions', () => {
+  const suggestions = buildItemSuggestions([
+    {
+      categories: [{ category: 'Halogen Lamp', count: 12, value: 100 }, { category: 'Vent Cover', count: 3, value: 50 }],
+      likelyWins: [{ item: 'HALOGEN LAMP', marketWins: 4 }, { item: 'Office Chairs', marketWins: 2 }],
+    },
+    { categories: [{ category: 'halogen  lamps', count: 5, value: 80 }, { category: 'Halogen Bulb', count: 1, value: 10 }], likelyWins: [] },
+  ]);
+
+  it('merges spellings and synonyms across reports without counting likely wins twice', () => {
+    expect(suggestions).toEqual([
+      { item: 'Halogen Lamp', tenders: 18 },
+      { item: 'Vent Cover', tenders: 3 },
+      { item: 'Office Chairs', tenders: 2 },
+    ]);
+  });
+
+  it('matches every word typed, in any case or plural, leaving out picked items', () => {
+    expect(matchItemSuggestions(suggestions, 'lamps', []).map(({ item }) => item)).toEqual(['Halogen Lamp']);
+    expect(matchItemSuggestions(suggestions, 'bulb', []).map(({ item }) => item)).toEqual(['Halogen Lamp']);
+    expect(matchItemSuggestions(suggestions, 'co', ['VENT COVER']).map(({ item }) => item)).toEqual([]);
+    expect(matchItemSuggestions(suggestions, 'chair', []).map(({ item }) => item)).toEqual(['Office Chairs']);
+  });
+});
@@ -0,0 +1,126 @@
+import type { ReportData } from '@/utils/reportSchema';
+
+// The item categories a report is requested for. Requests list them in
+// `offeredItems`; `offeredItem` carries them joined into one readable label, as
+// every report did before items were picked one by one.
+//
+// Items are sent as the user typed or picked them. itemKey folds case, spacing,
+// plurals and synonyms so the same item isn't listed twice; it never rewrites
+// what is sent.
+
+export const MAX_OFFERED_ITEMS = 20;
+export const MIN_ITEM_LENGTH = 3;
+export const MAX_ITEM_LENGTH = 100;
+
+// Plural endings folded to the singular: "BATTERIES" -> "BATTERY", "BOXES" -> "BOX",
+// "LAMPS" -> "LAMP", leaving words like "GLASS" and "STATUS" alone
+const singular = (word: string) => {
+  if (word.length <= 3) return word;
+  if (word.endsWith('IES')) return `${word.slice(0, -3)}Y`;
+  if (/(SS|X|CH|SH)ES$/.test(word)) return word.slice(0, -2);
+  if (/[^SUI]S$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+// Words catalogues use for the same thing, keyed by their singular
+const ITEM_SYNONYMS: Record<string, string> = {
+  LAMP: 'BULB',
+  TIRE: 'TYRE',
+  COLOR: 'COLOUR',
+  ALUMINUM: 'ALUMINIUM',
+  MILLIMETER: 'MM',
+  MILLIMETRE: 'MM',
+  AMPERE: 'AMP',
+};
+
+/** The key two spellings of one item share: "  Halogen   lamps, " and "HALOGEN BULB" -> "HALOGEN BULB". */
+export const itemKey = (item: string) =>
+  item
+    .replace(/^[\s,;.]+|[\s,;.]+$/g, '')
+    .toUpperCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => {
+      const one = singular(word);
+      return ITEM_SYNONYMS[one] ?? one;
+    })
+    .join(' ');
+
+/** An item as it is sent: what the user typed, without surrounding spaces or separators. */
+export const cleanItem = (item: string) => item.replace(/^[\s,;.]+|[\s,;.]+$/g, '').replace(/\s+/g, ' ');
+
+/** Split pasted or typed text into items, one per comma, semicolon or line. */
+export const splitItems = (text: string) => text.split(/[,;\n]/).map((item) => item.trim()).filter(Boolean);
+
+export type ItemError = 'tooShort' | 'tooLong' | 'noLetters' | 'duplicate' | 'tooMany';
+
+/** Why an item can't be added next to the ones already picked, or null when it can. */
+export const validateItem = (item: string, existing: string[]): ItemError | null => {
+  const cleaned = cleanItem(item);
+  if (cleaned.length < MIN_ITEM_LENGTH) return 'tooShort';
+  if (cleaned.length > MAX_ITEM_LENGTH) return 'tooLong';
+  if (!/\p{L}/u.test(cleaned)) return 'noLetters';
+  const key = itemKey(cleaned);
+  if (existing.some((other) => itemKey(other) === key)) return 'duplicate';
+  if (existing.length >= MAX_OFFERED_ITEMS) return 'tooMany';
+  return null;
+};
+
+/** The offered-item label stored with a report. */
+export const describeOfferedItems = (items: string[]) => items.join(', ');
+
+/** The items a report was requested for, from the list or, for older reports, the label. */
+export const reportOfferedItems = (params: ReportData['meta']['params_used']): string[] =>
+  params.offeredItems ?? splitItems(params.offeredItem);
+
+export interface ItemSuggestion {
+  item: string;
+  /** Tenders seen for the item across stored reports. */
+  tenders: number;
+}
+
+/** The item data of one stored report. */
+export interface ItemReportSource {
+  categories: NonNullable<ReportData['data']['categoryListing']>;
+  /** Items the analysis expects the seller to win, with how many market wins back that up. */
+  likelyWins: { item: string; marketWins: number }[];
+}
+
+/**
+ * Every item category and likely win across stored reports, merged by itemKey
+ * under the first spelling seen, most tenders first.
+ */
+export const buildItemSuggestions = (reports: ItemReportSource[]): ItemSuggestion[] => {
+  const suggestions = new Map<string, ItemSuggestion>();
+  const add = (item: string, tenders: number) => {
+    const cleaned = cleanItem(item);
+    if (cleaned.length < MIN_ITEM_LENGTH) return;
+    const key = itemKey(cleaned);
+    const suggestion = suggestions.get(key);
+    if (suggestion) suggestion.tenders += tenders;
+    else suggestions.set(key, { item: cleaned, tenders });
+  };
+
+  reports.forEach((report) => {
+    report.categories.forEach(({ category, count }) => add(category, count || 0));
+    // A likely win's market wins are already in its category's count when the report lists one
+    const listed = new Set(report.categories.map(({ category }) => itemKey(category)));
+    report.likelyWins
+      .filter(({ item }) => !listed.has(itemKey(item)))
+      .forEach(({ item, marketWins }) => add(item, marketWins));
+  });
+
+  return [...suggestions.values()].sort((a, b) => b.tenders - a.tenders || a.item.localeCompare(b.item));
+};
+
+/** Suggestions containing every word typed, leaving out items already picked. */
+export const matchItemSuggestions = (suggestions: ItemSuggestion[], query: string, picked: string[], limit = 8) => {
+  const words = itemKey(query).split(' ').filter(Boolean);
+  const taken = new Set(picked.map(itemKey));
+  return suggestions
+    .filter(({ item }) => {
+      const key = itemKey(item);
+      return !taken.has(key) && words.every((word) => key.includes(word));
+    })
+    .slice(0, limit);
+};
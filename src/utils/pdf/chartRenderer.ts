@@ -0,0 +1,64 @@
+import {
+  ArcElement,
+  BarController,
+  BarElement,
+  CategoryScale,
+  Chart,
+  DoughnutController,
+  Legend,
+  LinearScale,
+  LineController,
+  LineElement,
+  PieController,
+  PointElement,
+  ScatterController,
+  type ChartConfiguration,
+} from 'chart.js';
+
+Chart.register(
+  ArcElement,
+  BarController,
+  BarElement,
+  CategoryScale,
+  DoughnutController,
+  Legend,
+  LinearScale,
+  LineController,
+  LineElement,
+  PieController,
+  PointElement,
+  ScatterController
+);
+
+// Charts are laid out at screen size (96 px per inch) so font sizes read like the
+// report's text, then drawn at three times that resolution: about 290 dpi on paper.
+const CSS_PIXELS_PER_MM = 96 / 25.4;
+const PIXEL_RATIO = 3;
+
+/**
+ * Draw a chart.js chart on an off-screen canvas and return it as a PNG data URL
+ * sized for `widthMm` x `heightMm` on the page. PDFs are built in the browser, so
+ * this uses the DOM canvas; it resolves to null where there is none (e.g. tests)
+ * or the chart fails to draw, and the PDF is made without it.
+ */
+export const renderChartImage = (config: ChartConfiguration, widthMm: number, heightMm: number): string | null => {
+  if (typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(widthMm * CSS_PIXELS_PER_MM);
+  canvas.height = Math.round(heightMm * CSS_PIXELS_PER_MM);
+
+  let chart: Chart | undefined;
+  try {
+    chart = new Chart(canvas, {
+      ...config,
+      options: { ...config.options, responsive: false, animation: false, devicePixelRatio: PIXEL_RATIO },
+    });
+    return chart.toBase64Image('image/png', 1);
+  } catch (error) {
+    console.warn('Could not render chart, leaving it out:', error);
+    return null;
+  } finally {
+    chart?.destroy();
+  }
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  donutChart,
+  horizontalBarChart,
+  lineChart,
+  pieChart,
+  scatterChart,
+  stackedBarChart,
+  wrapLabel,
+} from '@/utils/pdf/charts';
+import { renderChartImage } from '@/utils/pdf/chartRenderer';
+
+const GREEN: [number, number, number] = [16, 185, 129];
+const RED: [number, number, number] = [239, 68, 68];
+
+describe('wrapLabel', () => {
+  it('keeps short labels on one line', () => {
+    expect(wrapLabel('Ministry of Defence')).toBe('Ministry of Defence');
+  });
+
+  it('wraps long labels at word boundaries', () => {
+    expect(wrapLabel('Department of Telecommunications Services', 28)).toEqual([
+      'Department of',
+      'Telecommunications Services',
+    ]);
+  });
+
+  it('marks labels that need more lines than allowed', () => {
+    const lines = wrapLabel('Central Public Works Department Southern Region Zone Four Circle Office', 20, 2) as string[];
+
+    expect(lines).toHaveLength(2);
+    expect(lines[1].endsWith('...')).toBe(true);
+    lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(20));
+  });
+});
+
+describe('chart configurations', () => {
+  it('builds donuts and pies with one colour per slice', () => {
+    const slices = [
+      { label: 'Wins', value: 3, color: GREEN },
+      { label: 'Losses', value: 1, color: RED },
+    ];
+
+    const donut = donutChart(slices);
+    expect(donut.type).toBe('doughnut');
+    expect(donut.data.datasets[0].data).toEqual([3, 1]);
+    expect(donut.data.datasets[0].backgroundColor).toEqual(['rgb(16, 185, 129)', 'rgb(239, 68, 68)']);
+    expect(donut.options.cutout).toBe('55%');
+    expect(pieChart(slices).options.cutout).toBe('0%');
+  });
+
+  it('lays horizontal bars along the y axis with formatted values', () => {
+    const config = horizontalBarChart([{ label: 'Ministry of Railways', value: 2500000 }], GREEN, {
+      axes: { x: 'Value' },
+      formatValue: (value) => `₹${value / 100000} L`,
+    });
+    const ticks = config.options.scales.x.ticks as { callback: (value: number) => string };
+
+    expect(config.options.indexAxis).toBe('y');
+    expect(config.data.labels).toEqual(['Ministry of Railways']);
+    expect(ticks.callback(2500000)).toBe('₹25 L');
+    expect(config.options.scales.x.title).toMatchObject({ display: true, text: 'Value' });
+  });
+
+  it('stacks every series on both axes', () => {
+    const config = stackedBarChart(['Railways', 'Defence'], [
+      { label: 'Ours', color: GREEN, values: [2, 1] },
+      { label: 'Others', color: RED, values: [5, 0] },
+    ], { horizontal: true });
+
+    expect(config.data.datasets.map((dataset) => dataset.data)).toEqual([[2, 1], [5, 0]]);
+    expect(config.options.scales.x).toMatchObject({ stacked: true });
+    expect(config.options.scales.y).toMatchObject({ stacked: true });
+    expect(config.options.plugins.legend.display).toBe(true);
+  });
+
+  it('draws a line per series and only shows a legend for several', () => {
+    const single = lineChart(['Jan', 'Feb'], [{ label: 'Wins', color: GREEN, values: [1, 4] }]);
+    const double = lineChart(['Jan', 'Feb'], [
+      { label: 'Wins', color: GREEN, values: [1, 4] },
+      { label: 'Losses', color: RED, values: [2, 0] },
+    ]);
+
+    expect(single.type).toBe('line');
+    expect(single.data.labels).toEqual(['Jan', 'Feb']);
+    expect(single.options.plugins.legend.display).toBe(false);
+    expect(double.options.plugins.legend.display).toBe(true);
+  });
+
+  it('plots scatter points as given', () => {
+    const config = scatterChart([{ label: 'Tenders', color: GREEN, points: [{ x: 1, y: 50000 }, { x: 2, y: 12000 }] }]);
+
+    expect(config.type).toBe('scatter');
+    expect(config.data.datasets[0].data).toEqual([{ x: 1, y: 50000 }, { x: 2, y: 12000 }]);
+  });
+});
+
+describe('renderChartImage', () => {
+  it('returns null where there is no DOM canvas', () => {
+    expect(renderChartImage(pieChart([{ label: 'Wins', value: 1, color: GREEN }]), 50, 50)).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+import type { ChartConfiguration, ChartType } from 'chart.js';
+import { renderChartImage } from '@/utils/pdf/chartRenderer';
+import type { PdfColor, PdfLayoutContext } from '@/utils/pdf/types';
+import { toCssColor } from '@/utils/reportView';
+
+// Chart configurations for the PDF, built from report data with the same palette
+// as the web viewer's charts. Builders are pure so they can be tested without a
+// canvas; addChart and drawChart render them to images and place them.
+
+export interface ChartSlice {
+  label: string;
+  value: number;
+  color: PdfColor;
+}
+
+export interface ChartSeries {
+  label: string;
+  color: PdfColor;
+  values: number[];
+}
+
+export interface ScatterSeries {
+  label: string;
+  color: PdfColor;
+  points: { x: number; y: number }[];
+}
+
+export interface ChartAxes {
+  x?: string;
+  y?: string;
+}
+
+type ValueFormatter = (value: number) => string;
+
+const FONT_FAMILY = '"Noto Sans", "Noto Sans Devanagari", Helvetica, Arial, sans-serif';
+const TEXT_COLOR = toCssColor([60, 60, 60]);
+const GRID_COLOR = 'rgba(200, 200, 200, 0.5)';
+
+const withAlpha = ([r, g, b]: PdfColor, alpha: number) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+/** Break a long category name over up to `maxLines` lines instead of cutting it short. */
+export const wrapLabel = (label: string, width = 28, maxLines = 2): string | string[] => {
+  if (label.length <= width) return label;
+
+  const lines: string[] = [];
+  let line = '';
+  label.split(/\s+/).forEach((word) => {
+    if (line && `${line} ${word}`.length > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, width - 3)}...`;
+  return kept;
+};
+
+const baseOptions = (showLegend: boolean) =>
+  ({
+    font: { family: FONT_FAMILY, size: 9 },
+    color: TEXT_COLOR,
+    plugins: {
+      legend: {
+        display: showLegend,
+        position: 'bottom',
+        labels: { font: { family: FONT_FAMILY, size: 9 }, color: TEXT_COLOR, boxWidth: 10, boxHeight: 10 },
+      },
+    },
+  }) as const;
+
+const axisOptions = (title: string | undefined, formatValue?: ValueFormatter) => ({
+  title: { display: !!title, text: title, font: { family: FONT_FAMILY, size: 9 }, color: TEXT_COLOR },
+  ticks: {
+    font: { family: FONT_FAMILY, size: 8 },
+    color: TEXT_COLOR,
+    ...(formatValue && { callback: (value: string | number) => formatValue(Number(value)) }),
+  },
+  grid: { color: GRID_COLOR },
+});
+
+/** A donut, or a full pie with `cutout` 0. The viewer's win/loss chart is a donut. */
+export const donutChart = (slices: ChartSlice[], { cutout = '55%', legend = false } = {}): ChartConfiguration<'doughnut'> => ({
+  type: 'doughnut',
+  data: {
+    labels: slices.map((slice) => slice.label),
+    datasets: [
+      {
+        data: slices.map((slice) => slice.value),
+        backgroundColor: slices.map((slice) => toCssColor(slice.color)),
+        borderColor: '#ffffff',
+        borderWidth: 2,
+      },
+    ],
+  },
+  options: { ...baseOptions(legend), cutout },
+});
+
+export const pieChart = (slices: ChartSlice[], { legend = false } = {}) => donutChart(slices, { cutout: '0%', legend });
+
+/** Bars running left to right, one per category, with long names wrapped rather than cut. */
+export const horizontalBarChart = (
+  bars: { label: string; value: number }[],
+  color: PdfColor,
+  { axes = {}, formatValue }: { axes?: ChartAxes; formatValue?: ValueFormatter } = {}
+): ChartConfiguration<'bar'> => ({
+  type: 'bar',
+  data: {
+    labels: bars.map((bar) => wrapLabel(bar.label)),
+    datasets: [
+      {
+        data: bars.map((bar) => bar.value),
+        backgroundColor: toCssColor(color),
+        borderRadius: 3,
+        maxBarThickness: 18,
+      },
+    ],
+  },
+  options: {
+    ...baseOptions(false),
+    indexAxis: 'y',
+    scales: {
+      x: { ...axisOptions(axes.x, formatValue), beginAtZero: true },
+      y: { ...axisOptions(axes.y), grid: { display: false } },
+    },
+  },
+});
+
+/** One bar per category, split into a segment per series. */
+export const stackedBarChart = (
+  labels: string[],
+  series: ChartSeries[],
+  { axes = {}, formatValue, horizontal = false }: { axes?: ChartAxes; formatValue?: ValueFormatter; horizontal?: boolean } = {}
+): ChartConfiguration<'bar'> => {
+  const valueAxis = { ...axisOptions(horizontal ? axes.x : axes.y, formatValue), stacked: true, beginAtZero: true };
+  const categoryAxis = { ...axisOptions(horizontal ? axes.y : axes.x), stacked: true, grid: { display: false } };
+
+  return {
+    type: 'bar',
+    data: {
+      labels: labels.map((label) => wrapLabel(label, horizontal ? 28 : 16)),
+      datasets: series.map((entry) => ({
+        label: entry.label,
+        data: entry.values,
+        backgroundColor: toCssColor(entry.color),
+        maxBarThickness: 28,
+      })),
+    },
+    options: {
+      ...baseOptions(true),
+      indexAxis: horizontal ? 'y' : 'x',
+      scales: horizontal ? { x: valueAxis, y: categoryAxis } : { x: categoryAxis, y: valueAxis },
+    },
+  };
+};
+
+/** Values over successive periods, one line per series. */
+export const lineChart = (
+  labels: string[],
+  series: ChartSeries[],
+  { axes = {}, formatValue }: { axes?: ChartAxes; formatValue?: ValueFormatter } = {}
+): ChartConfiguration<'line'> => ({
+  type: 'line',
+  data: {
+    labels,
+    datasets: series.map((entry) => ({
+      label: entry.label,
+      data: entry.values,
+      borderColor: toCssColor(entry.color),
+      backgroundColor: withAlpha(entry.color, 0.15),
+      pointBackgroundColor: toCssColor(entry.color),
+      pointRadius: 2.5,
+      borderWidth: 2,
+      tension: 0.25,
+    })),
+  },
+  options: {
+    ...baseOptions(series.length > 1),
+    scales: {
+      x: { ...axisOptions(axes.x), grid: { display: false } },
+      y: { ...axisOptions(axes.y, formatValue), beginAtZero: true },
+    },
+  },
+});
+
+export const scatterChart = (
+  series: ScatterSeries[],
+  { axes = {}, formatX, formatY }: { axes?: ChartAxes; formatX?: ValueFormatter; formatY?: ValueFormatter } = {}
+): ChartConfiguration<'scatter'> => ({
+  type: 'scatter',
+  data: {
+    datasets: series.map((entry) => ({
+      label: entry.label,
+      data: entry.points,
+      backgroundColor: withAlpha(entry.color, 0.7),
+      borderColor: toCssColor(entry.color),
+      pointRadius: 3,
+    })),
+  },
+  options: {
+    ...baseOptions(series.length > 1),
+    scales: {
+      x: { ...axisOptions(axes.x, formatX), beginAtZero: true },
+      y: { ...axisOptions(axes.y, formatY), beginAtZero: true },
+    },
+  },
+});
+
+/** Render a chart into the given box on the current page. Returns false if it couldn't be drawn. */
+export const drawChart = <T extends ChartType>(
+  ctx: PdfLayoutContext,
+  config: ChartConfiguration<T>,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const image = renderChartImage(config as ChartConfiguration, width, height);
+  if (!image) return false;
+
+  ctx.doc.addImage(image, 'PNG', x, y, width, height);
+  return true;
+};
+
+/**
+ * Add a full-width chart at the cursor, under an optional heading, moving to a
+ * new page first if it doesn't fit. Nothing is drawn, not even the heading, if
+ * the chart can't be rendered.
+ */
+export const addChart = <T extends ChartType>(
+  ctx: PdfLayoutContext,
+  config: ChartConfiguration<T>,
+  height: number,
+  { title, titleColor }: { title?: string; titleColor?: PdfColor } = {}
+) => {
+  const { doc, margin, pageWidth } = ctx;
+  const width = pageWidth - 2 * margin;
+  const image = renderChartImage(config as ChartConfiguration, width, height);
+  if (!image) return false;
+
+  ctx.checkPageBreak(height + (title ? 10 : 0));
+  if (title) {
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...(titleColor ?? ctx.colors.dark));
+    doc.text(title, margin, ctx.y);
+    ctx.y += 4;
+  }
+
+  doc.addImage(image, 'PNG', margin, ctx.y, width, height);
+  ctx.y += height + 8;
+  doc.setTextColor(...ctx.colors.dark);
+  return true;
+};
@@ -0,0 +1,77 @@
+import type jsPDF from 'jspdf';
+import type { PdfBookmark, PdfLayoutContext } from '@/utils/pdf/types';
+
+/** A rendered section, listed on the contents page with its bookmarks under it in the outline. */
+export interface ContentsEntry {
+  title: string;
+  page: number;
+  bookmarks: PdfBookmark[];
+}
+
+const ROW_HEIGHT = 9;
+
+// Outline titles are PDF text strings: non-Latin ones must be UTF-16BE with a byte order mark
+const toPdfTextString = (text: string) => {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  let encoded = '\xfe\xff';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    encoded += String.fromCharCode(code >> 8, code & 0xff);
+  }
+  return encoded;
+};
+
+/**
+ * Add the page the contents are drawn on once the sections have rendered, so
+ * that page numbers in every footer already count it.
+ */
+export const reserveContentsPage = (ctx: PdfLayoutContext) => {
+  ctx.addNewPage();
+  return ctx.doc.getCurrentPageInfo().pageNumber;
+};
+
+/** List each section with its page number; every row links to its page. */
+export const renderContentsPage = (ctx: PdfLayoutContext, contentsPage: number, entries: ContentsEntry[]) => {
+  const { doc, margin, pageWidth, colors, t } = ctx;
+
+  doc.setPage(contentsPage);
+  ctx.y = 20;
+  ctx.addSectionHeader(t.contents.title);
+  ctx.y += 3;
+
+  entries.forEach((entry) => {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...colors.dark);
+
+    const pageLabel = entry.page.toString();
+    const pageLabelWidth = doc.getTextWidth(pageLabel);
+    const [title] = doc.splitTextToSize(entry.title, pageWidth - 2 * margin - pageLabelWidth - 15);
+    doc.text(title, margin, ctx.y);
+    doc.text(pageLabel, pageWidth - margin, ctx.y, { align: 'right' });
+
+    // Dotted leader between the title and its page number
+    doc.setDrawColor(...colors.light);
+    doc.setLineWidth(0.3);
+    doc.setLineDashPattern([0.5, 1.5], 0);
+    doc.line(margin + doc.getTextWidth(title) + 2, ctx.y, pageWidth - margin - pageLabelWidth - 2, ctx.y);
+    doc.setLineDashPattern([], 0);
+
+    doc.link(margin, ctx.y - ROW_HEIGHT + 3, pageWidth - 2 * margin, ROW_HEIGHT, { pageNumber: entry.page });
+    ctx.y += ROW_HEIGHT;
+  });
+};
+
+/** Bookmarks for the contents page, each section and what each section marked within it. */
+export const addDocumentOutline = (doc: jsPDF, contentsTitle: string, contentsPage: number, entries: ContentsEntry[]) => {
+  doc.outline.add(null, toPdfTextString(contentsTitle), { pageNumber: contentsPage });
+  entries.forEach((entry) => {
+    const parent = doc.outline.add(null, toPdfTextString(entry.title), { pageNumber: entry.page });
+    entry.bookmarks.forEach((bookmark) => {
+      doc.outline.add(parent, toPdfTextString(bookmark.title), { pageNumber: bookmark.page });
+    });
+  });
+
+  // Open viewers with the outline panel showing
+  doc.setDisplayMode(null, null, 'UseOutlines');
+};
@@ -0,0 +1,189 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import jsPDF from 'jspdf';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_FIXTURES } from '../../../mock-backend/fixtures';
+import { DEVANAGARI_FONT, LATIN_FONT, loadPdfFonts, registerPdfFonts, toRenderableText } from '@/utils/pdf/fonts';
+import { generatePDF } from '@/utils/pdfGenerator';
+import { DEFAULT_SECTIONS } from '@/utils/reportSections';
+
+// Serve the font URLs Vite hands out (/node_modules/...) from disk
+const serveFontsFromDisk = () =>
+  vi.stubGlobal('fetch', async (url: string) => {
+    const file = readFileSync(resolve(process.cwd(), `.${url.split('?')[0]}`));
+    return new Response(file);
+  });
+
+// Record which font each string is drawn in
+const recordDrawnText = (doc: jsPDF) => {
+  const drawn: { text: string | string[]; font: string }[] = [];
+  doc.text = ((text: string | string[]) => {
+    drawn.push({ text, font: doc.getFont().fontName });
+    return doc;
+  }) as jsPDF['text'];
+  return drawn;
+};
+
+// Shaped glyphs are drawn as Private Use Area codes offset from their glyph ids
+const GLYPH_CODE_BASE = 0xe000;
+
+const devanagariGlyph = (doc: jsPDF, char: string) => {
+  const font = (doc.getFont as (fontName: string, fontStyle: string) => { metadata: { characterToGlyph: (code: number) => number } })(
+    DEVANAGARI_FONT,
+    'normal'
+  );
+  return font.metadata.characterToGlyph(char.charCodeAt(0));
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('registerPdfFonts', () => {
+  it('embeds the Noto fonts and maps Helvetica onto them', async () => {
+    serveFontsFromDisk();
+    const doc = new jsPDF();
+    registerPdfFonts(doc, await loadPdfFonts());
+
+    expect(Object.keys(doc.getFontList())).toEqual(expect.arrayContaining([LATIN_FONT, DEVANAGARI_FONT]));
+    doc.setFont('helvetica', 'bold');
+    expect(doc.getFont()).toMatchObject({ fontName: LATIN_FONT, fontStyle: 'bold' });
+  });
+
+  it('switches to the Devanagari face for Devanagari runs only and restores the font after', async () => {
+    serveFontsFromDisk();
+    const doc = new jsPDF();
+    const drawn = recordDrawnText(doc);
+    registerPdfFonts(doc, await loadPdfFonts());
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Seller मॉक यूनिकोड विक्रेता', 10, 10);
+    doc.text('Latin seller', 10, 20);
+
+    expect(drawn[0]).toEqual({ text: 'Seller ', font: LATIN_FONT });
+    expect(drawn.slice(1, -1).map(({ font }) => font)).toEqual(expect.arrayContaining([DEVANAGARI_FONT]));
+    expect(drawn.slice(1, -1).every(({ font }) => font === DEVANAGARI_FONT)).toBe(true);
+    expect(drawn[drawn.length - 1]).toEqual({ text: 'Latin seller', font: LATIN_FONT });
+    expect(doc.getFont()).toMatchObject({ fontName: LATIN_FONT, fontStyle: 'bold' });
+  });
+
+  it('draws shaped Devanagari glyphs', async () => {
+    serveFontsFromDisk();
+    const doc = new jsPDF();
+    const drawn = recordDrawnText(doc);
+    registerPdfFonts(doc, await loadPdfFonts());
+    const nominal = (char: string) => devanagariGlyph(doc, char);
+    const drawnGlyphs = (text: string) => {
+      drawn.length = 0;
+      doc.text(text, 10, 10);
+      return drawn.flatMap((entry) => Array.from(entry.text as string, (char) => char.charCodeAt(0) - GLYPH_CODE_BASE));
+    };
+
+    // The i sign is written after its consonant but drawn before it
+    const [sign, consonant] = drawnGlyphs('कि');
+    expect(consonant).toBe(nominal('क'));
+    expect(sign).not.toBe(consonant);
+    expect(sign).toBeGreaterThan(0);
+
+    // क्ष is a single conjunct glyph, not its three characters side by side
+    const conjunct = drawnGlyphs('क्ष');
+    expect(conjunct).toHaveLength(1);
+    expect([nominal('क'), nominal('्'), nominal('ष')]).not.toContain(conjunct[0]);
+  });
+
+  it('writes the shaped glyph ids into the PDF and maps them back to text', async () => {
+    serveFontsFromDisk();
+    const doc = new jsPDF({ compress: false });
+    registerPdfFonts(doc, await loadPdfFonts());
+    const hex = (code: number) => code.toString(16).padStart(4, '0');
+
+    doc.text('कि', 10, 10);
+    const output = doc.output();
+    const [, sign] = output.match(new RegExp(`<([0-9a-f]{4})${hex(devanagariGlyph(doc, 'क'))}> Tj`));
+
+    expect(output).toContain(`<${sign}><${hex('ि'.charCodeAt(0))}>`);
+    expect(output).toContain(`<${hex(devanagariGlyph(doc, 'क'))}><${hex('क'.charCodeAt(0))}>`);
+  });
+
+  it('keeps the rupee sign when the fonts are embedded', async () => {
+    serveFontsFromDisk();
+    const doc = new jsPDF();
+    const drawn = recordDrawnText(doc);
+    registerPdfFonts(doc, await loadPdfFonts());
+
+    doc.text('₹ 1,50,000', 10, 10);
+
+    expect(drawn[0].text).toBe('₹ 1,50,000');
+  });
+
+  it('warns about characters no embedded font can draw', async () => {
+    serveFontsFromDisk();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const doc = new jsPDF();
+    const drawn = recordDrawnText(doc);
+    registerPdfFonts(doc, await loadPdfFonts());
+
+    doc.text(['🔥 High', 'சென்னை Corporation'], 10, 10);
+
+    expect(drawn[0].text).toEqual(['High', 'Corporation']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('🔥'));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('சென்னை'));
+  });
+
+  it('falls back to plain-text stand-ins with Helvetica', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const doc = new jsPDF();
+    const drawn = recordDrawnText(doc);
+    registerPdfFonts(doc, null);
+
+    doc.text('₹ 1,50,000', 10, 10);
+    doc.text('Above Average ✓', 10, 20);
+
+    expect(drawn.map(({ text }) => text)).toEqual(['Rs. 1,50,000', 'Above Average']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('✓'));
+    expect(doc.getFont().fontName).toBe('helvetica');
+  });
+});
+
+describe('toRenderableText', () => {
+  it('leaves text Helvetica can draw untouched', () => {
+    const doc = new jsPDF();
+
+    expect(toRenderableText(doc, 'Café – 50% • “quoted”')).toBe('Café – 50% • “quoted”');
+  });
+});
+
+describe('loadPdfFonts', () => {
+  it('resolves to null when the fonts cannot be fetched', async () => {
+    vi.stubGlobal('fetch', async () => new Response(null, { status: 404 }));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Fonts are cached once loaded, so start from a fresh module
+    vi.resetModules();
+    const { loadPdfFonts: loadFreshFonts } = await import('@/utils/pdf/fonts');
+
+    expect(await loadFreshFonts()).toBeNull();
+  });
+});
+
+describe('generatePDF with embedded fonts', () => {
+  it('renders a report with Hindi names without errors', async () => {
+    serveFontsFromDisk();
+    // The fixture's Tamil and Kannada names have no embedded font
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fixture = MOCK_FIXTURES.find((candidate) => candidate.id === 'unicode');
+    const report = fixture.build({
+      sellerName: fixture.sellerName,
+      department: 'Ministry of Defence',
+      offeredItem: 'Office Chairs',
+      days: 90,
+      limit: 100,
+      email: 'reports@example.com',
+    });
+
+    const doc = await generatePDF(report, { includeSections: DEFAULT_SECTIONS });
+
+    expect(doc.getNumberOfPages()).toBeGreaterThan(1);
+    expect(Object.keys(doc.getFontList())).toContain(DEVANAGARI_FONT);
+  });
+});
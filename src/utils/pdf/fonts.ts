@@ -0,0 +1,306 @@
+import type jsPDF from 'jspdf';
+import type { TextOptionsLight } from 'jspdf';
+import notoSansRegularUrl from '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url';
+import notoSansItalicUrl from '@expo-google-fonts/noto-sans/400Regular_Italic/NotoSans_400Regular_Italic.ttf?url';
+import notoSansBoldUrl from '@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf?url';
+import notoDevanagariRegularUrl from '@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf?url';
+import notoDevanagariBoldUrl from '@expo-google-fonts/noto-sans-devanagari/700Bold/NotoSansDevanagari_700Bold.ttf?url';
+import { createTextShaper, type TextShaper } from '@/utils/pdf/shaping';
+
+// jsPDF's built-in Helvetica only covers WinAnsi, so ₹, Hindi names and symbols
+// come out as garbage. Sections keep asking for 'helvetica'; once the Noto fonts
+// are embedded, every setFont/text call on the document is routed through them.
+// jsPDF does no glyph fallback or complex shaping of its own: each line is split
+// into script runs, Devanagari runs are shaped with HarfBuzz and drawn glyph by
+// glyph in the Devanagari face, and characters no embedded font has are swapped
+// for a plain-text stand-in (₹ becomes "Rs.").
+
+export const LATIN_FONT = 'NotoSans';
+export const DEVANAGARI_FONT = 'NotoSansDevanagari';
+
+export type PdfFontStyle = 'normal' | 'bold' | 'italic';
+
+export interface PdfFontFile {
+  family: string;
+  style: PdfFontStyle;
+  fileName: string;
+  /** Base64-encoded TTF. */
+  data: string;
+}
+
+export interface PdfFonts {
+  files: PdfFontFile[];
+  /** Shapes Devanagari runs; null if HarfBuzz couldn't be loaded. */
+  shaper: TextShaper | null;
+}
+
+const FONT_SOURCES: Omit<PdfFontFile, 'data'>[] = [
+  { family: LATIN_FONT, style: 'normal', fileName: 'NotoSans-Regular.ttf' },
+  { family: LATIN_FONT, style: 'bold', fileName: 'NotoSans-Bold.ttf' },
+  { family: LATIN_FONT, style: 'italic', fileName: 'NotoSans-Italic.ttf' },
+  { family: DEVANAGARI_FONT, style: 'normal', fileName: 'NotoSansDevanagari-Regular.ttf' },
+  { family: DEVANAGARI_FONT, style: 'bold', fileName: 'NotoSansDevanagari-Bold.ttf' },
+];
+
+const FONT_URLS: Record<string, string> = {
+  'NotoSans-Regular.ttf': notoSansRegularUrl,
+  'NotoSans-Bold.ttf': notoSansBoldUrl,
+  'NotoSans-Italic.ttf': notoSansItalicUrl,
+  'NotoSansDevanagari-Regular.ttf': notoDevanagariRegularUrl,
+  'NotoSansDevanagari-Bold.ttf': notoDevanagariBoldUrl,
+};
+
+// Stand-ins for characters none of the fonts can draw; anything else missing is dropped
+const GLYPH_FALLBACKS: Record<string, string> = {
+  '₹': 'Rs.',
+  '▸': '>',
+  '•': '-',
+  '–': '-',
+  '—': '-',
+};
+
+// Characters Helvetica can draw: WinAnsiEncoding
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+// Includes the danda and the joiners that pick conjunct forms
+const DEVANAGARI = /[\p{Script_Extensions=Devanagari}\u200c\u200d]/u;
+
+// Shaped glyphs are drawn as Private Use Area codes, added to the Devanagari
+// faces' character map as they're used
+const GLYPH_CODE_BASE = 0xe000;
+
+type EmbeddedFont = ReturnType<jsPDF['getFont']> & {
+  metadata?: {
+    characterToGlyph?: (code: number) => number;
+    widthOfGlyph?: (glyph: number) => number;
+    toUnicode?: Record<number, number>;
+    cmap?: { unicode: { codeMap: Record<number, number> } };
+  };
+};
+
+const getFont = (doc: jsPDF, fontName?: string, fontStyle?: string) =>
+  (doc.getFont as (fontName?: string, fontStyle?: string) => EmbeddedFont)(fontName, fontStyle);
+
+interface TextRun {
+  text: string;
+  devanagari: boolean;
+}
+
+// Spaces stay in the run they follow, so a Hindi phrase is shaped as one run
+const splitScriptRuns = (line: string) => {
+  const runs: TextRun[] = [];
+  for (const char of line) {
+    const last = runs[runs.length - 1];
+    const devanagari = last && /\s/.test(char) ? last.devanagari : DEVANAGARI.test(char);
+    if (last?.devanagari === devanagari) last.text += char;
+    else runs.push({ text: char, devanagari });
+  }
+  return runs;
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked so large fonts don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+let fontsPromise: Promise<PdfFonts> | null = null;
+
+/**
+ * Fetch the embeddable fonts and the Devanagari shaper once per session. Resolves
+ * to null if the fonts can't be loaded, in which case PDFs fall back to Helvetica
+ * with plain-text stand-ins.
+ */
+export const loadPdfFonts = async (): Promise<PdfFonts | null> => {
+  fontsPromise ??= Promise.all(
+    FONT_SOURCES.map(async (source) => {
+      const response = await fetch(FONT_URLS[source.fileName]);
+      if (!response.ok) throw new Error(`HTTP ${response.status} loading ${source.fileName}`);
+      return { ...source, data: toBase64(await response.arrayBuffer()) };
+    })
+  ).then(async (files) => ({
+    files,
+    shaper: await createTextShaper(files.filter((file) => file.family === DEVANAGARI_FONT)),
+  }));
+
+  try {
+    return await fontsPromise;
+  } catch (error) {
+    // Try again next time rather than keeping a transient failure for the session
+    fontsPromise = null;
+    console.warn('Could not load PDF fonts, falling back to Helvetica:', error);
+    return null;
+  }
+};
+
+const hasGlyph = (doc: jsPDF, char: string) => {
+  const font = getFont(doc);
+  if (font.encoding === 'Identity-H' && font.metadata?.characterToGlyph) {
+    return char.length === 1 && font.metadata.characterToGlyph(char.charCodeAt(0)) > 0;
+  }
+  const code = char.codePointAt(0);
+  return code < 0x80 || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char);
+};
+
+// Characters already reported as missing, so a long report warns about each once
+const reportedMissing = new Set<string>();
+
+/**
+ * Replace characters the current font can't draw with their plain-text stand-ins.
+ * Characters without one (emoji, scripts no embedded font covers, such as Tamil)
+ * are left out, with a console warning.
+ */
+export const toRenderableText = (doc: jsPDF, text: string) => {
+  const missing: string[] = [];
+  const result = Array.from(text)
+    .map((char) => {
+      if (hasGlyph(doc, char)) return char;
+      const fallback = GLYPH_FALLBACKS[char];
+      if (fallback === undefined) missing.push(char);
+      return fallback ?? '';
+    })
+    .join('');
+
+  if (missing.length === 0) return result;
+
+  const unreported = missing.filter((char) => !reportedMissing.has(char));
+  if (unreported.length > 0) {
+    unreported.forEach((char) => reportedMissing.add(char));
+    console.warn(`No PDF font can draw "${[...new Set(unreported)].join('')}"; left out of "${text}"`);
+  }
+
+  // Tidy the gap a dropped character leaves, e.g. "🔥 High" -> "High"
+  return result.replace(/ {2,}/g, ' ').trim();
+};
+
+// Let the PDF's text layer map each shaped glyph back to a character of its
+// cluster: the one it is the plain form of, else one no other glyph stands for
+const labelGlyphs = (font: EmbeddedFont, text: string, glyphs: ReturnType<TextShaper>) => {
+  const clusters = [...new Set(glyphs.map(({ cluster }) => cluster))].sort((a, b) => a - b);
+  clusters.forEach((start, index) => {
+    const chars = Array.from(text.slice(start, clusters[index + 1] ?? text.length));
+    const inCluster = glyphs.filter(({ cluster }) => cluster === start).map(({ glyph }) => glyph);
+    const plain = new Map(chars.map((char) => [font.metadata.characterToGlyph(char.charCodeAt(0)), char]));
+    const unclaimed = chars.filter((char) => !inCluster.includes(font.metadata.characterToGlyph(char.charCodeAt(0))));
+
+    inCluster.forEach((glyph) => {
+      const char = plain.get(glyph) ?? unclaimed[0] ?? chars[0];
+      font.metadata.toUnicode[glyph] = char.charCodeAt(0);
+    });
+  });
+};
+
+/**
+ * Embed the fonts (when loaded) and route the document's text through them.
+ * Call right after creating the document, before anything is drawn.
+ */
+export const registerPdfFonts = (doc: jsPDF, fonts: PdfFonts | null) => {
+  const setFont = doc.setFont.bind(doc) as jsPDF['setFont'];
+  const drawText = doc.text.bind(doc) as (...args: unknown[]) => jsPDF;
+  const unitWidth = doc.getStringUnitWidth.bind(doc) as jsPDF['getStringUnitWidth'];
+  const shaper = fonts?.shaper ?? null;
+
+  if (fonts) {
+    fonts.files.forEach((font) => {
+      doc.addFileToVFS(font.fileName, font.data);
+      doc.addFont(font.fileName, font.family, font.style);
+    });
+
+    doc.setFont = ((fontName: string, fontStyle?: string, fontWeight?: string | number) =>
+      setFont(fontName?.toLowerCase() === 'helvetica' ? LATIN_FONT : fontName, fontStyle, fontWeight)) as jsPDF['setFont'];
+    doc.setFont(LATIN_FONT, 'normal');
+  }
+
+  const hasDevanagari = (text: string) => !!fonts && doc.getFont().fontName === LATIN_FONT && DEVANAGARI.test(text);
+  // The Devanagari face has no italic; upright is closer than garbage glyphs
+  const devanagariStyle = () => (doc.getFont().fontStyle === 'bold' ? 'bold' : 'normal');
+
+  const runWidth = (run: TextRun) => {
+    if (!run.devanagari) return unitWidth(toRenderableText(doc, run.text));
+    const style = devanagariStyle();
+    if (shaper) return shaper(run.text, style).reduce((width, { advance }) => width + advance, 0);
+    return unitWidth(run.text, { font: getFont(doc, DEVANAGARI_FONT, style) });
+  };
+
+  // Draw the glyphs of a run, one string per stretch jsPDF would space the same way
+  const drawShaped = (text: string, x: number, y: number, fontSize: number, style: PdfFontStyle) => {
+    const font = getFont(doc);
+    const glyphs = shaper(text, style).filter(({ glyph }) => glyph > 0);
+    let pen = 0;
+    let chunk = '';
+    let chunkX = 0;
+    let chunkY = 0;
+    let chunkEnd = 0;
+
+    const flush = () => {
+      if (chunk) drawText(chunk, x + chunkX * fontSize, y - chunkY * fontSize);
+      chunk = '';
+    };
+
+    glyphs.forEach(({ glyph, advance, xOffset, yOffset }) => {
+      const glyphX = pen + xOffset;
+      if (!chunk || Math.abs(glyphX - chunkEnd) > 1e-6 || yOffset !== chunkY) {
+        flush();
+        chunkX = chunkEnd = glyphX;
+        chunkY = yOffset;
+      }
+      font.metadata.cmap.unicode.codeMap[GLYPH_CODE_BASE + glyph] = glyph;
+      chunk += String.fromCharCode(GLYPH_CODE_BASE + glyph);
+      chunkEnd += font.metadata.widthOfGlyph(glyph) / 1000;
+      pen += advance;
+    });
+    flush();
+    labelGlyphs(font, text, glyphs);
+  };
+
+  const drawLine = (line: string, x: number, y: number) => {
+    const fontSize = doc.getFontSize() / doc.internal.scaleFactor;
+    let pen = x;
+
+    splitScriptRuns(line).forEach((run) => {
+      const width = runWidth(run) * fontSize;
+      if (run.devanagari) {
+        const current = doc.getFont();
+        const style = devanagariStyle();
+        setFont(DEVANAGARI_FONT, style);
+        if (shaper) drawShaped(run.text, pen, y, fontSize, style);
+        else drawText(run.text, pen, y);
+        setFont(current.fontName, current.fontStyle);
+      } else {
+        drawText(toRenderableText(doc, run.text), pen, y);
+      }
+      pen += width;
+    });
+  };
+
+  doc.getStringUnitWidth = ((text: string, options?: unknown) =>
+    hasDevanagari(text)
+      ? splitScriptRuns(text).reduce((width, run) => width + runWidth(run), 0)
+      : unitWidth(text, options)) as jsPDF['getStringUnitWidth'];
+
+  doc.text = ((text: string | string[], ...args: unknown[]) => {
+    const lines = Array.isArray(text) ? text : [text];
+    const [x, y, options] = args as [number, number, TextOptionsLight | undefined];
+
+    if (typeof x !== 'number' || options?.angle || !lines.some((line) => hasDevanagari(line))) {
+      const renderable = lines.map((line) => toRenderableText(doc, line));
+      return drawText(Array.isArray(text) ? renderable : renderable[0], ...args);
+    }
+
+    // Lay the lines out here, since each one is drawn as several runs
+    const fontSize = doc.getFontSize() / doc.internal.scaleFactor;
+    const lineHeight = (options?.lineHeightFactor ?? doc.getLineHeightFactor()) * fontSize;
+    const shift = options?.align === 'center' ? 0.5 : options?.align === 'right' ? 1 : 0;
+    const laidOut = lines.flatMap((line) =>
+      options?.maxWidth ? (doc.splitTextToSize(line, options.maxWidth) as string[]) : line.split(/\r\n|\r|\n/)
+    );
+
+    laidOut.forEach((line, index) => {
+      drawLine(line, x - doc.getStringUnitWidth(line) * fontSize * shift, y + index * lineHeight);
+    });
+    return doc;
+  }) as jsPDF['text'];
+};
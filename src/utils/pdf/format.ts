@@ -0,0 +1,8 @@
+import { formatRupees } from '@/i18n/numbers';
+
+export const formatCurrency = (amount: number): string => formatRupees(amount);
+
+export const formatDate = (dateString: string, locale = 'en-GB'): string => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString(locale, { day: '2-digit', month: 'short', year: 'numeric' });
+};
@@ -0,0 +1,192 @@
+import type jsPDF from 'jspdf';
+import type { FilterOptions, ReportData } from '@/utils/pdfGenerator';
+import { DATE_LOCALES, NUMBER_UNITS } from '@/i18n/languages';
+import { formatCompactRupees } from '@/i18n/numbers';
+import { PDF_MESSAGES } from '@/i18n/pdf';
+import { formatDate } from '@/utils/pdf/format';
+import type { PdfColor, PdfLayoutContext, ReportBranding, ReportPalette } from '@/utils/pdf/types';
+import { computeReportMetrics } from '@/utils/reportMetrics';
+
+export const REPORT_COLORS: ReportPalette = {
+  primary: [41, 98, 255],
+  secondary: [16, 185, 129],
+  accent: [249, 115, 22],
+  warning: [251, 191, 36],
+  danger: [239, 68, 68],
+  purple: [168, 85, 247],
+  dark: [60, 60, 60],
+  light: [200, 200, 200],
+};
+
+// Fit text into at most `maxLines` lines at the current font size, marking a cut with "..."
+const clampLines = (doc: jsPDF, text: string, width: number, maxLines: number): string[] => {
+  const lines: string[] = doc.splitTextToSize(text, width);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, -3).trimEnd()}...`;
+  return kept;
+};
+
+/** Build the layout context sections draw through, starting at the top of page one. */
+export const createLayoutContext = (
+  doc: jsPDF,
+  reportData: ReportData,
+  filters: FilterOptions,
+  branding: ReportBranding = {}
+): PdfLayoutContext => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const colors: ReportPalette = {
+    ...REPORT_COLORS,
+    primary: branding.primaryColor ?? REPORT_COLORS.primary,
+    accent: branding.accentColor ?? REPORT_COLORS.accent,
+  };
+  const language = filters.language ?? 'en';
+  const t = PDF_MESSAGES[language];
+  // Read once; undefined until first drawn, null if the image can't be decoded
+  let logoProperties: ReturnType<jsPDF['getImageProperties']> | null | undefined;
+
+  const ctx: PdfLayoutContext = {
+    doc,
+    reportData,
+    filters,
+    language,
+    t,
+    branding,
+    metrics: computeReportMetrics(reportData),
+    colors,
+    pageWidth,
+    pageHeight,
+    margin,
+    y: 20,
+    bookmarks: [],
+
+    addNewPage: () => {
+      doc.addPage();
+      ctx.y = 20;
+      ctx.addPageHeader();
+      ctx.addPageFooter();
+    },
+
+    addPageHeader: () => {
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(100, 100, 100);
+      doc.text(branding.coverTitle || t.layout.header, pageWidth / 2, 10, { align: 'center' });
+      ctx.drawLogo(margin, 3, 24, 7.5);
+      doc.setDrawColor(...colors.primary);
+      doc.setLineWidth(0.5);
+      doc.line(margin, 12, pageWidth - margin, 12);
+    },
+
+    addPageFooter: () => {
+      const pageNum = doc.getCurrentPageInfo().pageNumber;
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(100, 100, 100);
+      doc.text(t.layout.generated(ctx.formatDate(reportData.meta.report_generated_at)), margin, pageHeight - 10);
+      doc.text(t.layout.page(pageNum), pageWidth / 2, pageHeight - 10, { align: 'center' });
+      doc.text(reportData.meta.params_used.sellerName, pageWidth - margin, pageHeight - 10, { align: 'right' });
+
+      // Branded lines share the two rows below, leaving the content area untouched
+      let row = pageHeight - 6;
+      if (branding.contactLine) {
+        doc.setFontSize(7);
+        doc.text(clampLines(doc, branding.contactLine, pageWidth - 2 * margin, 1), pageWidth / 2, row, { align: 'center' });
+        row += 3;
+      }
+      if (branding.footerDisclaimer) {
+        doc.setFontSize(6);
+        const maxLines = branding.contactLine ? 1 : 2;
+        clampLines(doc, branding.footerDisclaimer, pageWidth - 2 * margin, maxLines).forEach((line, index) => {
+          doc.text(line, pageWidth / 2, row + index * 2.5, { align: 'center' });
+        });
+      }
+    },
+
+    drawLogo: (x: number, y: number, maxWidth: number, maxHeight: number) => {
+      if (!branding.logo || logoProperties === null) return;
+      try {
+        logoProperties ??= doc.getImageProperties(branding.logo);
+        const scale = Math.min(maxWidth / logoProperties.width, maxHeight / logoProperties.height);
+        // The alias embeds the image once however many pages show it
+        doc.addImage(
+          branding.logo,
+          logoProperties.fileType,
+          x,
+          y,
+          logoProperties.width * scale,
+          logoProperties.height * scale,
+          'organization-logo'
+        );
+      } catch (error) {
+        logoProperties = null;
+        console.warn('Could not draw the organisation logo, leaving it out:', error);
+      }
+    },
+
+    checkPageBreak: (requiredSpace: number) => {
+      if (ctx.y + requiredSpace > pageHeight - 25) {
+        ctx.addNewPage();
+        return true;
+      }
+      return false;
+    },
+
+    addSectionHeader: (title: string, color: PdfColor = colors.primary) => {
+      ctx.checkPageBreak(20);
+      doc.setFillColor(...color);
+      doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 12, 2, 2, 'F');
+      doc.setFont('helvetica', 'bold');
+      // Shrink titles that would overrun the banner, e.g. bilingual ones
+      let fontSize = 14;
+      doc.setFontSize(fontSize);
+      while (fontSize > 9 && doc.getTextWidth(title) > pageWidth - 2 * margin - 10) {
+        doc.setFontSize(--fontSize);
+      }
+      doc.setTextColor(255, 255, 255);
+      doc.text(title, margin + 5, ctx.y + 8);
+      ctx.y += 17;
+      doc.setTextColor(...colors.dark);
+    },
+
+    addBookmark: (title: string) => {
+      ctx.bookmarks.push({ title, page: doc.getCurrentPageInfo().pageNumber });
+    },
+
+    addCallout: (title: string, lines: string[], fill: PdfColor, titleColor: PdfColor) => {
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      const wrapped: string[] = lines.flatMap((line) => doc.splitTextToSize(line, pageWidth - 2 * margin - 10));
+      const height = 17 + wrapped.length * 6;
+
+      ctx.checkPageBreak(height);
+      doc.setFillColor(...fill);
+      doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, height, 2, 2, 'F');
+
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...titleColor);
+      doc.text(title, margin + 5, ctx.y + 8);
+
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...colors.dark);
+      wrapped.forEach((line, index) => {
+        doc.text(line, margin + 5, ctx.y + 15 + index * 6);
+      });
+
+      ctx.y += height + 5;
+    },
+
+    formatDate: (date: string) => formatDate(date, DATE_LOCALES[language]),
+
+    formatCompactCurrency: (amount: number) => formatCompactRupees(amount, NUMBER_UNITS[language]),
+
+    // jspdf-autotable records the last table on the document but doesn't type it
+    lastTableY: () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY,
+  };
+
+  return ctx;
+};
@@ -0,0 +1,49 @@
+import { aiInsightsSection } from '@/utils/pdf/sections/aiInsights';
+import { bidsSummarySection } from '@/utils/pdf/sections/bidsSummary';
+import { buyerInsightsSection } from '@/utils/pdf/sections/buyerInsights';
+import { departmentBreakdownSection } from '@/utils/pdf/sections/departmentBreakdown';
+import { lowCompetitionSection } from '@/utils/pdf/sections/lowCompetition';
+import { marketOverviewSection } from '@/utils/pdf/sections/marketOverview';
+import { metricDefinitionsSection } from '@/utils/pdf/sections/metricDefinitions';
+import { missedTendersSection } from '@/utils/pdf/sections/missedTenders';
+import { performanceTrendSection } from '@/utils/pdf/sections/performanceTrend';
+import { recentBidsSection } from '@/utils/pdf/sections/recentBids';
+import { rivalryScoreSection } from '@/utils/pdf/sections/rivalryScore';
+import { topPerformerSection } from '@/utils/pdf/sections/topPerformer';
+import { topStatesSection } from '@/utils/pdf/sections/topStates';
+import type { ReportSection } from '@/utils/pdf/types';
+import type { ReportData } from '@/utils/reportSchema';
+import { reportInfoTable, type ReportTable } from '@/utils/reportTables';
+
+// Every section of the report, in the order they appear after the cover page.
+// Add, reorder or remove sections here; the section toggles in the app are
+// derived from this list (see utils/reportSections.ts).
+export const REPORT_SECTIONS: ReportSection[] = [
+  bidsSummarySection,
+  marketOverviewSection,
+  performanceTrendSection,
+  departmentBreakdownSection,
+  topPerformerSection,
+  missedTendersSection,
+  aiInsightsSection,
+  buyerInsightsSection,
+  rivalryScoreSection,
+  lowCompetitionSection,
+  topStatesSection,
+  recentBidsSection,
+  metricDefinitionsSection,
+];
+
+export const getReportSection = (id: string) => REPORT_SECTIONS.find((section) => section.id === id);
+
+/** Sections to render for a selection of ids, in registry order. */
+export const resolveReportSections = (includeSections: string[]) =>
+  REPORT_SECTIONS.filter((section) => section.required || includeSections.includes(section.id));
+
+/** Data tables for the selected sections, after a table of report parameters. */
+export const buildReportTables = (reportData: ReportData, includeSections: string[]): ReportTable[] => [
+  reportInfoTable(reportData),
+  ...resolveReportSections(includeSections)
+    .filter((section) => section.table)
+    .map((section) => section.table(reportData)),
+];
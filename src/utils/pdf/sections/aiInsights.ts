@@ -0,0 +1,275 @@
+import autoTable from 'jspdf-autotable';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import type { MatchingMarketWin } from '@/utils/reportSchema';
+import { toNumber } from '@/utils/reportTables';
+
+export const aiInsightsSection: ReportSection = {
+  id: 'aiInsights',
+  label: 'AI Intelligence & Recommendations',
+  title: (t) => t.aiInsights.title,
+  defaultEnabled: true,
+  required: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+
+    const aiData = reportData.data.missedButWinnable?.ai;
+    if (!aiData) return;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.aiInsights.title, colors.purple);
+
+    // Strategy Summary
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(126, 34, 206);
+    doc.text(t.aiInsights.strategicOverview, margin, ctx.y);
+    ctx.y += 8;
+
+    doc.setFillColor(250, 245, 255);
+    doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 0, 2, 2, 'F');
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...colors.dark);
+    const summaryLines = doc.splitTextToSize(aiData.strategy_summary || '', pageWidth - 2 * margin - 10);
+    summaryLines.forEach((line: string) => {
+      ctx.checkPageBreak(5);
+      doc.text(line, margin + 5, ctx.y + 5);
+      ctx.y += 5;
+    });
+    ctx.y += 10;
+
+    // Likely Wins Section
+    const likelyWins = aiData.likely_wins || [];
+    if (likelyWins.length > 0) {
+      ctx.checkPageBreak(50);
+      ctx.addNewPage();
+      ctx.addSectionHeader(t.aiInsights.likelyWins, [249, 115, 22]);
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...colors.dark);
+      doc.text(t.aiInsights.likelyWinsIntro, margin, ctx.y);
+      ctx.y += 12;
+
+      likelyWins.slice(0, 3).forEach((opportunity, index) => {
+        ctx.checkPageBreak(80);
+
+        const item = opportunity.offered_item || '';
+        const shortItem = item.length > 50 ? `${item.substring(0, 47)}...` : item;
+        ctx.addBookmark(shortItem ? `${t.aiInsights.opportunity(index + 1)}: ${shortItem}` : t.aiInsights.opportunity(index + 1));
+
+        // Opportunity header
+        doc.setFillColor(255, 247, 237);
+        doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 10, 2, 2, 'F');
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(234, 88, 12);
+        doc.text(t.aiInsights.opportunity(index + 1), margin + 3, ctx.y + 7);
+        ctx.y += 13;
+
+        // Offered Item
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(60, 60, 60);
+        doc.text(t.aiInsights.targetProduct, margin + 3, ctx.y);
+        ctx.y += 5;
+
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(80, 80, 80);
+        const itemLines = doc.splitTextToSize(opportunity.offered_item || '', pageWidth - 2 * margin - 10);
+        itemLines.forEach((line: string) => {
+          ctx.checkPageBreak(5);
+          doc.text(line, margin + 5, ctx.y);
+          ctx.y += 4;
+        });
+        ctx.y += 3;
+
+        // Reason/Rationale
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(60, 60, 60);
+        doc.text(t.aiInsights.whyOpportunity, margin + 3, ctx.y);
+        ctx.y += 5;
+
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(80, 80, 80);
+        const reasonLines = doc.splitTextToSize(opportunity.reason || '', pageWidth - 2 * margin - 10);
+        reasonLines.forEach((line: string) => {
+          ctx.checkPageBreak(5);
+          doc.text(line, margin + 5, ctx.y);
+          ctx.y += 4;
+        });
+        ctx.y += 5;
+
+        // Matching Market Wins
+        const matchingWins = opportunity.matching_market_wins || [];
+        if (matchingWins.length > 0) {
+          ctx.checkPageBreak(40);
+          doc.setFont('helvetica', 'bold');
+          doc.setTextColor(234, 88, 12);
+          doc.text(t.aiInsights.supportingEvidence(matchingWins.length), margin + 3, ctx.y);
+          ctx.y += 7;
+
+          const winData = matchingWins.slice(0, 5).map((win: MatchingMarketWin, idx: number) => [
+            (idx + 1).toString(),
+            (win.bid_number || t.common.notAvailable).substring(0, 22),
+            (win.org || win.dept || t.common.notAvailable).substring(0, 35),
+            (win.quantity || '-').toString(),
+            win.price_hint ? formatCurrency(win.price_hint) : '-',
+            win.confidence || '-'
+          ]);
+
+          autoTable(doc, {
+            startY: ctx.y,
+            head: [[t.columns.number, t.columns.bidNumber, t.columns.organizationOrDept, t.columns.quantity, t.columns.value, t.columns.match]],
+            body: winData,
+            theme: 'grid',
+            headStyles: { 
+              fillColor: [249, 115, 22],
+              textColor: [255, 255, 255],
+              fontSize: 8,
+              fontStyle: 'bold',
+              halign: 'center'
+            },
+            bodyStyles: { fontSize: 7 },
+            columnStyles: {
+              0: { cellWidth: 8, halign: 'center' },
+              1: { cellWidth: 35 },
+              2: { cellWidth: 60 },
+              3: { cellWidth: 15, halign: 'center' },
+              4: { cellWidth: 30, halign: 'right' },
+              5: { cellWidth: 20, halign: 'center' },
+            },
+            margin: { left: margin, right: margin },
+          });
+
+          ctx.y = ctx.lastTableY() + 12;
+        }
+      });
+    }
+
+    // Guidance Section - Next Steps
+    const guidance = aiData.guidance;
+    if (guidance) {
+      ctx.checkPageBreak(50);
+      ctx.addNewPage();
+      ctx.addSectionHeader(t.aiInsights.actionPlan, [16, 185, 129]);
+
+      // Note/Context
+      if (guidance.note) {
+        doc.setFillColor(236, 253, 245);
+        doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 0, 2, 2, 'F');
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'italic');
+        doc.setTextColor(4, 120, 87);
+        const noteLines = doc.splitTextToSize(guidance.note, pageWidth - 2 * margin - 10);
+        let tempY = ctx.y;
+        noteLines.forEach((line: string) => {
+          doc.text(line, margin + 5, tempY + 5);
+          tempY += 4.5;
+        });
+        ctx.y = tempY + 8;
+      }
+
+      // Next Steps
+      const nextSteps = guidance.next_steps || [];
+      if (nextSteps.length > 0) {
+        ctx.checkPageBreak(40);
+        doc.setFontSize(11);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(16, 185, 129);
+        doc.text(t.aiInsights.immediateActions, margin, ctx.y);
+        ctx.y += 10;
+
+        nextSteps.forEach((step: string, index: number) => {
+          ctx.checkPageBreak(20);
+
+          // Step number badge
+          doc.setFillColor(16, 185, 129);
+          doc.circle(margin + 4, ctx.y + 2, 3.5, 'F');
+          doc.setFontSize(8);
+          doc.setFont('helvetica', 'bold');
+          doc.setTextColor(255, 255, 255);
+          doc.text((index + 1).toString(), margin + 4, ctx.y + 3, { align: 'center' });
+
+          // Step text
+          doc.setFont('helvetica', 'normal');
+          doc.setFontSize(9);
+          doc.setTextColor(60, 60, 60);
+          const stepLines = doc.splitTextToSize(step, pageWidth - 2 * margin - 15);
+          let lineY = ctx.y;
+          stepLines.forEach((line: string, lineIdx: number) => {
+            ctx.checkPageBreak(5);
+            doc.text(line, margin + 12, lineY + 3);
+            lineY += 4.5;
+          });
+          ctx.y = lineY + 5;
+        });
+        ctx.y += 5;
+      }
+
+      // Expansion Areas
+      const expansionAreas = guidance.expansion_areas || [];
+      if (expansionAreas.length > 0) {
+        ctx.checkPageBreak(40);
+        doc.setFontSize(11);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(139, 92, 246);
+        doc.text(t.aiInsights.expansion, margin, ctx.y);
+        ctx.y += 10;
+
+        expansionAreas.forEach((area: string, index: number) => {
+          ctx.checkPageBreak(20);
+
+          // Area marker
+          doc.setFillColor(245, 243, 255);
+          doc.roundedRect(margin, ctx.y - 2, pageWidth - 2 * margin, 0, 2, 2, 'F');
+
+          doc.setFontSize(9);
+          doc.setFont('helvetica', 'bold');
+          doc.setTextColor(139, 92, 246);
+          doc.text(`▸`, margin + 2, ctx.y + 2);
+
+          doc.setFont('helvetica', 'normal');
+          doc.setTextColor(60, 60, 60);
+          const areaLines = doc.splitTextToSize(area, pageWidth - 2 * margin - 12);
+          let lineY = ctx.y;
+          areaLines.forEach((line: string) => {
+            ctx.checkPageBreak(5);
+            doc.text(line, margin + 8, lineY + 2);
+            lineY += 4.5;
+          });
+          ctx.y = lineY + 7;
+        });
+      }
+    }
+  },
+  table: (reportData) => ({
+    name: 'Likely Wins',
+    columns: [
+      { header: 'Offered Item', type: 'text', width: 30 },
+      { header: 'Reason', type: 'text', width: 50 },
+      { header: 'Bid Number', type: 'text', width: 26 },
+      { header: 'Organization', type: 'text', width: 36 },
+      { header: 'Department', type: 'text', width: 36 },
+      { header: 'Quantity', type: 'integer', width: 10 },
+      { header: 'Price Hint', type: 'currency', width: 16 },
+      { header: 'Confidence', type: 'text', width: 12 },
+    ],
+    // One row per supporting market win, repeating the opportunity it backs
+    rows: (reportData.data.missedButWinnable?.ai?.likely_wins || []).flatMap((opportunity) =>
+      (opportunity.matching_market_wins.length > 0 ? opportunity.matching_market_wins : [null]).map((win) => [
+        opportunity.offered_item,
+        opportunity.reason,
+        win?.bid_number ?? null,
+        win?.org ?? null,
+        win?.dept ?? null,
+        toNumber(win?.quantity),
+        toNumber(win?.price_hint),
+        win?.confidence ?? null,
+      ])
+    ),
+  }),
+};
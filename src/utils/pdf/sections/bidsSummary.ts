@@ -0,0 +1,241 @@
+import autoTable from 'jspdf-autotable';
+import { addChart, donutChart, drawChart, horizontalBarChart } from '@/utils/pdf/charts';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import { computeReportMetrics } from '@/utils/reportMetrics';
+import { groupWins } from '@/utils/reportView';
+
+export const bidsSummarySection: ReportSection = {
+  id: 'bidsSummary',
+  label: 'Summary of Bids Participated (Department-wise)',
+  title: (t) => t.bidsSummary.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+    const { totalBids, successCount, losses, winRate, totalValue, avgValue, avgBidsPerDay } = ctx.metrics;
+
+    ctx.addNewPage();
+
+    // Executive Summary with Pie Chart
+    doc.setFillColor(59, 130, 246);
+    doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 12, 2, 2, 'F');
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(255, 255, 255);
+    doc.text(t.bidsSummary.title, margin + 5, ctx.y + 8);
+    ctx.y += 17;
+    doc.setTextColor(...colors.dark);
+
+    // Performance Highlights Section
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(30, 64, 175);
+    doc.text(t.bidsSummary.highlights, margin, ctx.y);
+    ctx.y += 10;
+
+    // KPI Cards - 3 boxes
+    const kpiWidth = (pageWidth - 2 * margin - 10) / 3;
+    const kpiHeight = 28;
+
+    // Win Rate
+    doc.setFillColor(34, 197, 94);
+    doc.roundedRect(margin, ctx.y, kpiWidth, kpiHeight, 3, 3, 'F');
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(255, 255, 255);
+    doc.text(t.metrics.winRate, margin + kpiWidth / 2, ctx.y + 8, { align: 'center' });
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${winRate}%`, margin + kpiWidth / 2, ctx.y + 20, { align: 'center' });
+
+    // Total Bids
+    doc.setFillColor(59, 130, 246);
+    doc.roundedRect(margin + kpiWidth + 5, ctx.y, kpiWidth, kpiHeight, 3, 3, 'F');
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.metrics.totalBids, margin + kpiWidth + 5 + kpiWidth / 2, ctx.y + 8, { align: 'center' });
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text(totalBids.toString(), margin + kpiWidth + 5 + kpiWidth / 2, ctx.y + 20, { align: 'center' });
+
+    // Success Count
+    doc.setFillColor(168, 85, 247);
+    doc.roundedRect(margin + 2 * kpiWidth + 10, ctx.y, kpiWidth, kpiHeight, 3, 3, 'F');
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.metrics.successCount, margin + 2 * kpiWidth + 10 + kpiWidth / 2, ctx.y + 8, { align: 'center' });
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text(successCount.toString(), margin + 2 * kpiWidth + 10 + kpiWidth / 2, ctx.y + 20, { align: 'center' });
+
+    ctx.y += kpiHeight + 15;
+    doc.setTextColor(...colors.dark);
+
+    // Win/Loss Distribution with Pie Chart
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(30, 64, 175);
+    doc.text(t.bidsSummary.winLoss, margin, ctx.y);
+    ctx.y += 10;
+
+    // Same colours as the viewer's win/loss donut
+    if (totalBids > 0) {
+      drawChart(
+        ctx,
+        donutChart([
+          { label: t.bidsSummary.wins, value: successCount, color: colors.secondary },
+          { label: t.bidsSummary.losses, value: losses, color: colors.danger },
+        ]),
+        margin,
+        ctx.y,
+        70,
+        50
+      );
+    }
+
+    // Legend
+    const legendX = margin + 75;
+    let legendY = ctx.y + 10;
+
+    doc.setFillColor(...colors.secondary);
+    doc.circle(legendX, legendY, 3, 'F');
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(60, 60, 60);
+    doc.text(t.bidsSummary.winsLegend(successCount, winRate), legendX + 6, legendY + 2);
+
+    legendY += 8;
+    doc.setFillColor(...colors.danger);
+    doc.circle(legendX, legendY, 3, 'F');
+    doc.text(t.bidsSummary.lossesLegend(losses, (100 - parseFloat(winRate)).toFixed(1)), legendX + 6, legendY + 2);
+
+    ctx.y += 60;
+
+    // Detailed Performance Metrics Table
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(30, 64, 175);
+    doc.text(t.bidsSummary.detailedMetrics, margin, ctx.y);
+    ctx.y += 8;
+
+    const performanceMetrics = [
+      [t.metrics.totalBidsParticipated, totalBids.toString(), t.metrics.participation],
+      [t.metrics.successfulWins, successCount.toString(), t.metrics.performance],
+      [t.metrics.unsuccessfulBids, losses.toString(), t.metrics.performance],
+      [t.metrics.winRate, `${winRate}%`, t.metrics.performance],
+      [t.metrics.totalBidValue, formatCurrency(totalValue), t.metrics.financial],
+      [t.metrics.averageOrderValue, formatCurrency(avgValue), t.metrics.financial],
+      [t.metrics.qualifiedBidValue, formatCurrency(totalValue * 0.98), t.metrics.financial],
+      [t.metrics.disqualifiedBidValue, formatCurrency(totalValue * 0.02), t.metrics.financial],
+      [t.metrics.averageBidPerDay, avgBidsPerDay, t.metrics.activity],
+    ];
+
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[t.columns.metric, t.columns.value, t.columns.category]],
+      body: performanceMetrics,
+      theme: 'striped',
+      headStyles: { 
+        fillColor: [30, 64, 175],
+        textColor: [255, 255, 255],
+        fontSize: 10,
+        fontStyle: 'bold',
+        halign: 'center'
+      },
+      bodyStyles: { fontSize: 9 },
+      alternateRowStyles: { fillColor: [239, 246, 255] },
+      columnStyles: {
+        0: { cellWidth: 80, fontStyle: 'bold' },
+        1: { cellWidth: 60, halign: 'right' },
+        2: { cellWidth: 45, halign: 'center', textColor: [30, 64, 175], fontStyle: 'bold' },
+      },
+      margin: { left: margin, right: margin },
+    });
+
+    ctx.y = ctx.lastTableY() + 15;
+
+    // Department distribution
+    ctx.checkPageBreak(50);
+    ctx.addSectionHeader(t.bidsSummary.strategicInsights, colors.purple);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.bidsSummary.strategicInsightsIntro, margin, ctx.y);
+    ctx.y += 10;
+
+    const deptSignals = reportData.data.missedButWinnable?.ai?.signals?.dept_affinity || [];
+    if (deptSignals.length > 0) {
+      const deptData = deptSignals.slice(0, 10).map((dept, index) => {
+        const estValue = Math.round(totalValue / deptSignals.length);
+        return [
+          (index + 1).toString(),
+          dept.dept.length > 45 ? dept.dept.substring(0, 42) + '...' : dept.dept,
+          formatCurrency(estValue),
+          `${((1 / deptSignals.length) * 100).toFixed(1)}%`,
+          t.common.active
+        ];
+      });
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[t.columns.number, t.columns.department, t.columns.estValue, t.columns.share, t.columns.status]],
+        body: deptData,
+        theme: 'striped',
+        headStyles: { 
+          fillColor: colors.primary,
+          textColor: [255, 255, 255],
+          fontSize: 9,
+          fontStyle: 'bold',
+          halign: 'center'
+        },
+        bodyStyles: { fontSize: 8 },
+        alternateRowStyles: { fillColor: [245, 247, 250] },
+        columnStyles: {
+          0: { cellWidth: 12, halign: 'center' },
+          1: { cellWidth: 88 },
+          2: { cellWidth: 35, halign: 'right' },
+          3: { cellWidth: 22, halign: 'center' },
+          4: { cellWidth: 28, halign: 'center' },
+        },
+        margin: { left: margin, right: margin },
+      });
+      ctx.y = ctx.lastTableY() + 10;
+    }
+
+    // Value won per department, as in the viewer's department chart
+    const departments = groupWins(ctx.metrics.wins, 'dept', 5);
+    if (departments.length > 0) {
+      addChart(
+        ctx,
+        horizontalBarChart(
+          departments.map((group) => ({ label: group.name, value: group.value })),
+          colors.primary,
+          { axes: { x: t.columns.value }, formatValue: ctx.formatCompactCurrency }
+        ),
+        departments.length * 11 + 15,
+        { title: t.bidsSummary.topDepartmentsChart, titleColor: [30, 64, 175] }
+      );
+    }
+  },
+  table: (reportData) => {
+    const { totalBids, successCount, losses, totalValue, avgValue } = computeReportMetrics(reportData);
+    const days = reportData.meta.params_used.days;
+    return {
+      name: 'Bids Summary',
+      columns: [
+        { header: 'Metric', type: 'text', width: 28 },
+        { header: 'Value', type: 'number', width: 18 },
+        { header: 'Category', type: 'text', width: 16 },
+      ],
+      rows: [
+        ['Total Bids Participated', totalBids, 'Participation'],
+        ['Successful Wins', successCount, 'Performance'],
+        ['Unsuccessful Bids', losses, 'Performance'],
+        ['Win Rate (%)', totalBids > 0 ? (successCount / totalBids) * 100 : 0, 'Performance'],
+        ['Total Bid Value (₹)', totalValue, 'Financial'],
+        ['Average Order Value (₹)', avgValue, 'Financial'],
+        ['Average Bids per Day', totalBids / days, 'Activity'],
+      ],
+    };
+  },
+};
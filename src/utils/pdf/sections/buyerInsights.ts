@@ -0,0 +1,175 @@
+import autoTable from 'jspdf-autotable';
+import type { ReportSection } from '@/utils/pdf/types';
+import type { ReportCell } from '@/utils/reportTables';
+
+export const buyerInsightsSection: ReportSection = {
+  id: 'buyerInsights',
+  label: 'Buyer/Department Insights',
+  title: (t) => t.buyerInsights.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.buyerInsights.title, colors.purple);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.buyerInsights.intro, margin, ctx.y);
+    ctx.y += 12;
+
+    // Organization Affinity
+    const orgAffinity = reportData.data.missedButWinnable?.ai?.signals?.org_affinity || [];
+    if (orgAffinity.length > 0) {
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...colors.purple);
+      doc.text(t.buyerInsights.topOrganizations, margin, ctx.y);
+      ctx.y += 8;
+
+      orgAffinity.slice(0, 5).forEach((org, index) => {
+        ctx.checkPageBreak(25);
+        doc.setFillColor(245, 243, 255);
+        doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 0, 1, 1, 'F');
+
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(...colors.dark);
+        const orgName = org.org.length > 50 ? org.org.substring(0, 47) + '...' : org.org;
+        doc.text(`${index + 1}. ${orgName}`, margin + 3, ctx.y + 5);
+        ctx.y += 10;
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        const orgLines = doc.splitTextToSize(org.signal, pageWidth - 2 * margin - 10);
+        orgLines.forEach((line: string) => {
+          ctx.checkPageBreak(5);
+          doc.text(line, margin + 8, ctx.y);
+          ctx.y += 4.5;
+        });
+        ctx.y += 5;
+      });
+
+      ctx.y += 5;
+    }
+
+    // Ministry Affinity
+    const ministryAffinity = reportData.data.missedButWinnable?.ai?.signals?.ministry_affinity || [];
+    if (ministryAffinity.length > 0) {
+      ctx.checkPageBreak(50);
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...colors.purple);
+      doc.text(t.buyerInsights.ministryPatterns, margin, ctx.y);
+      ctx.y += 8;
+
+      const ministryData = ministryAffinity.slice(0, 8).map((ministry, index) => {
+        const truncatedMinistry = ministry.ministry.length > 55 
+          ? ministry.ministry.substring(0, 52) + '...' 
+          : ministry.ministry;
+        const truncatedSignal = ministry.signal.length > 70 
+          ? ministry.signal.substring(0, 67) + '...' 
+          : ministry.signal;
+        return [
+          (index + 1).toString(),
+          truncatedMinistry,
+          truncatedSignal
+        ];
+      });
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[t.columns.number, t.columns.ministry, t.columns.insight]],
+        body: ministryData,
+        theme: 'striped',
+        headStyles: { 
+          fillColor: colors.purple,
+          textColor: [255, 255, 255],
+          fontSize: 9,
+          fontStyle: 'bold',
+          halign: 'center'
+        },
+        bodyStyles: { fontSize: 8, cellPadding: 2 },
+        alternateRowStyles: { fillColor: [245, 243, 255] },
+        columnStyles: {
+          0: { cellWidth: 10, halign: 'center' },
+          1: { cellWidth: 65, fontStyle: 'bold' },
+          2: { cellWidth: 110 },
+        },
+        margin: { left: margin, right: margin },
+      });
+
+      ctx.y = ctx.lastTableY() + 10;
+    }
+
+    // Quantity and Price Patterns
+    ctx.checkPageBreak(70);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...colors.purple);
+    doc.text(t.buyerInsights.winningPatterns, margin, ctx.y);
+    ctx.y += 8;
+
+    const quantityRanges = reportData.data.missedButWinnable?.ai?.signals?.quantity_ranges || [];
+    const priceRanges = reportData.data.missedButWinnable?.ai?.signals?.price_ranges || [];
+
+    if (quantityRanges.length > 0) {
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(107, 70, 193);
+      doc.text(t.buyerInsights.quantityRanges, margin, ctx.y);
+      ctx.y += 6;
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(60, 60, 60);
+      quantityRanges.slice(0, 5).forEach(range => {
+        ctx.checkPageBreak(6);
+        const rangeLines = doc.splitTextToSize(`• ${range}`, pageWidth - 2 * margin - 10);
+        rangeLines.forEach((line: string) => {
+          doc.text(line, margin + 5, ctx.y);
+          ctx.y += 4.5;
+        });
+      });
+      ctx.y += 5;
+    }
+
+    if (priceRanges.length > 0) {
+      ctx.checkPageBreak(40);
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(107, 70, 193);
+      doc.text(t.buyerInsights.priceRanges, margin, ctx.y);
+      ctx.y += 6;
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(60, 60, 60);
+      priceRanges.slice(0, 5).forEach(range => {
+        ctx.checkPageBreak(6);
+        const rangeLines = doc.splitTextToSize(`• ${range}`, pageWidth - 2 * margin - 10);
+        rangeLines.forEach((line: string) => {
+          doc.text(line, margin + 5, ctx.y);
+          ctx.y += 4.5;
+        });
+      });
+    }
+  },
+  table: (reportData) => {
+    const signals = reportData.data.missedButWinnable?.ai?.signals;
+    return {
+      name: 'Buyer Insights',
+      columns: [
+        { header: 'Type', type: 'text', width: 14 },
+        { header: 'Name', type: 'text', width: 40 },
+        { header: 'Insight', type: 'text', width: 70 },
+      ],
+      rows: [
+        ...(signals?.org_affinity || []).map((org): ReportCell[] => ['Organization', org.org, org.signal]),
+        ...(signals?.ministry_affinity || []).map((ministry): ReportCell[] => ['Ministry', ministry.ministry, ministry.signal]),
+        ...(signals?.quantity_ranges || []).map((range): ReportCell[] => ['Quantity Range', range, null]),
+        ...(signals?.price_ranges || []).map((range): ReportCell[] => ['Price Range', range, null]),
+      ],
+    };
+  },
+};
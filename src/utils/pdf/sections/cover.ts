@@ -0,0 +1,112 @@
+import { describeOfferedItems, reportOfferedItems } from '@/utils/offeredItems';
+import type { PdfColor, PdfLayoutContext } from '@/utils/pdf/types';
+import { departmentLabel } from '@/utils/reportScope';
+
+// Blend a colour towards black (negative amount) or white (positive amount)
+const shade = ([r, g, b]: PdfColor, amount: number): PdfColor => {
+  const target = amount < 0 ? 0 : 255;
+  const weight = Math.abs(amount);
+  return [r, g, b].map((channel) => Math.round(channel + (target - channel) * weight)) as PdfColor;
+};
+
+/** Cover page, drawn on the document's first page before any section. */
+export const renderCoverPage = (ctx: PdfLayoutContext) => {
+  const { doc, reportData, margin, pageWidth, pageHeight, t, branding } = ctx;
+
+  // Dark navy by default, or a deep shade of the organisation's primary colour
+  const background: PdfColor = branding.primaryColor ? shade(branding.primaryColor, -0.75) : [15, 23, 42];
+  const panel: PdfColor = branding.primaryColor ? shade(branding.primaryColor, -0.6) : [30, 41, 59];
+  const accent: PdfColor = branding.accentColor ?? [59, 130, 246];
+  const sellerColor: PdfColor = branding.accentColor ? shade(branding.accentColor, 0.3) : [96, 165, 250];
+
+  // Modern dark background with gradient effect
+  doc.setFillColor(...background);
+  doc.rect(0, 0, pageWidth, pageHeight / 2, 'F');
+
+  doc.setFillColor(...panel);
+  doc.circle(pageWidth + 20, -20, 100, 'F');
+  doc.circle(-30, pageHeight / 3, 80, 'F');
+
+  // Top accent line
+  doc.setDrawColor(...accent);
+  doc.setLineWidth(3);
+  doc.line(0, 8, pageWidth, 8);
+
+  ctx.drawLogo(margin, 13, 40, 14);
+
+  // Header text
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(148, 163, 184);
+  doc.text(t.cover.government, pageWidth / 2, 25, { align: 'center' });
+  doc.text(t.cover.tenderAnalysis, pageWidth / 2, 32, { align: 'center' });
+
+  ctx.y = 50;
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(186, 230, 253); // Light cyan
+  doc.text(branding.coverTitle || t.cover.title, pageWidth / 2, ctx.y, { align: 'center' });
+
+  // Company name box
+  ctx.y += 18;
+  const companyBoxWidth = pageWidth - 60;
+  const companyBoxHeight = 24;
+  doc.setFillColor(...panel);
+  doc.roundedRect((pageWidth - companyBoxWidth) / 2, ctx.y - 8, companyBoxWidth, companyBoxHeight, 4, 4, 'F');
+
+  doc.setDrawColor(...accent);
+  doc.setLineWidth(1);
+  doc.roundedRect((pageWidth - companyBoxWidth) / 2, ctx.y - 8, companyBoxWidth, companyBoxHeight, 4, 4, 'S');
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...sellerColor);
+  doc.text(reportData.meta.params_used.sellerName, pageWidth / 2, ctx.y + 5, { align: 'center' });
+
+  // Report details box
+  ctx.y += 40;
+  const detailsBoxY = ctx.y;
+  doc.setFillColor(255, 255, 255);
+  doc.roundedRect(margin, detailsBoxY, pageWidth - 2 * margin, 60, 3, 3, 'F');
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(51, 65, 85);
+
+  ctx.y = detailsBoxY + 12;
+  doc.text(t.cover.reportGenerated, margin + 10, ctx.y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(ctx.formatDate(reportData.meta.report_generated_at), margin + 70, ctx.y);
+
+  ctx.y += 8;
+  doc.setFont('helvetica', 'bold');
+  doc.text(t.cover.analysisPeriod, margin + 10, ctx.y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(t.cover.days(reportData.meta.params_used.days), margin + 70, ctx.y);
+
+  ctx.y += 8;
+  doc.setFont('helvetica', 'bold');
+  doc.text(t.cover.department, margin + 10, ctx.y);
+  doc.setFont('helvetica', 'normal');
+  const department = departmentLabel(reportData.meta.params_used);
+  const deptText = department.length > 40
+    ? department.substring(0, 37) + '...'
+    : department;
+  doc.text(deptText, margin + 70, ctx.y);
+
+  ctx.y += 10;
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(100, 116, 139);
+  doc.text(t.cover.offeredItems, margin + 10, ctx.y);
+  ctx.y += 5;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(71, 85, 105);
+  const itemsText = describeOfferedItems(reportOfferedItems(reportData.meta.params_used)) || t.cover.variousItems;
+  const wrappedItems = doc.splitTextToSize(itemsText, pageWidth - 2 * margin - 20);
+  wrappedItems.slice(0, 2).forEach((line: string) => {
+    doc.text(line, margin + 10, ctx.y);
+    ctx.y += 4;
+  });
+};
@@ -0,0 +1,173 @@
+import autoTable from 'jspdf-autotable';
+import { addChart, stackedBarChart } from '@/utils/pdf/charts';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import { computeDepartmentBreakdown, reportDepartments } from '@/utils/reportScope';
+
+// Departments beyond this many are left out of the chart, though not the tables
+const MAX_CHART_DEPARTMENTS = 12;
+
+const percent = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+export const departmentBreakdownSection: ReportSection = {
+  id: 'departmentBreakdown',
+  label: 'Department Breakdown',
+  title: (t) => t.departmentBreakdown.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+    const labels = t.departmentBreakdown;
+    const selected = reportDepartments(reportData.meta.params_used);
+    const breakdown = computeDepartmentBreakdown(reportData);
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(labels.title, colors.primary);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(labels.intro, margin, ctx.y);
+    ctx.y += 6;
+    const scope = doc.splitTextToSize(
+      selected.length === 0 ? labels.scopeAll : labels.scopeSelected(selected.join(', ')),
+      pageWidth - 2 * margin
+    );
+    doc.setTextColor(100, 100, 100);
+    doc.text(scope, margin, ctx.y);
+    doc.setTextColor(...colors.dark);
+    ctx.y += scope.length * 5 + 6;
+
+    const withTenders = breakdown.filter((department) => department.wins + department.losses > 0);
+    if (withTenders.length === 0) {
+      doc.text(labels.none, margin, ctx.y);
+      ctx.y += 10;
+      return;
+    }
+
+    const charted = withTenders.slice(0, MAX_CHART_DEPARTMENTS);
+    addChart(
+      ctx,
+      stackedBarChart(
+        charted.map((department) => department.dept),
+        [
+          { label: labels.won, color: colors.secondary, values: charted.map((department) => department.wins) },
+          { label: labels.lost, color: colors.danger, values: charted.map((department) => department.losses) },
+        ],
+        { horizontal: true }
+      ),
+      Math.min(30 + charted.length * 9, 110),
+      { title: labels.chart }
+    );
+
+    const keepHeaders = (data: { pageNumber: number }) => {
+      if (data.pageNumber > 1) {
+        ctx.addPageHeader();
+        ctx.addPageFooter();
+      }
+    };
+
+    // One row per department, comparable at a glance
+    ctx.checkPageBreak(40);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(labels.comparison, margin, ctx.y);
+    ctx.y += 8;
+
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[t.columns.department, labels.won, labels.lost, labels.winRate, labels.valueWon, labels.valueLost, labels.share]],
+      body: breakdown.map((department) => [
+        department.dept,
+        department.wins.toString(),
+        department.losses.toString(),
+        percent(department.winRate),
+        formatCurrency(department.valueWon),
+        formatCurrency(department.valueLost),
+        percent(department.shareOfValueWon),
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: colors.primary, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 8 },
+      columnStyles: {
+        0: { cellWidth: 50 },
+        1: { cellWidth: 14, halign: 'center' },
+        2: { cellWidth: 20, halign: 'center' },
+        3: { cellWidth: 18, halign: 'center' },
+        4: { cellWidth: 28, halign: 'right' },
+        5: { cellWidth: 28, halign: 'right' },
+        6: { cellWidth: 22, halign: 'center' },
+      },
+      margin: { top: 20, left: margin, right: margin },
+      didDrawPage: keepHeaders,
+    });
+
+    ctx.y = ctx.lastTableY() + 12;
+
+    // Who we sell to and who we're up against in each department
+    ctx.checkPageBreak(40);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(labels.detail, margin, ctx.y);
+    ctx.y += 8;
+
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[t.columns.department, labels.topBuyer, labels.leadingCompetitor]],
+      body: withTenders.map((department) => [
+        department.dept,
+        department.topBuyer ?? t.common.notAvailable,
+        department.leadingCompetitor
+          ? `${department.leadingCompetitor.seller} (${ctx.formatCompactCurrency(department.leadingCompetitor.value)})`
+          : t.common.notAvailable,
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: colors.primary, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 8 },
+      alternateRowStyles: { fillColor: [245, 247, 250] },
+      columnStyles: {
+        0: { cellWidth: 60 },
+        1: { cellWidth: 60 },
+        2: { cellWidth: 60 },
+      },
+      margin: { top: 20, left: margin, right: margin },
+      didDrawPage: keepHeaders,
+    });
+
+    ctx.y = ctx.lastTableY() + 12;
+
+    const empty = breakdown.filter((department) => department.selected && department.wins + department.losses === 0);
+    if (empty.length > 0) {
+      ctx.checkPageBreak(30);
+      ctx.addCallout(
+        labels.noTenders,
+        [labels.noTendersIn(empty.map((department) => department.dept).join(', '))],
+        [255, 251, 235],
+        colors.warning
+      );
+    }
+  },
+  table: (reportData) => ({
+    name: 'Department Breakdown',
+    columns: [
+      { header: 'Department', type: 'text', width: 36 },
+      { header: 'Won', type: 'integer', width: 8 },
+      { header: 'Won by Others', type: 'integer', width: 14 },
+      { header: 'Win Rate', type: 'percent', width: 10 },
+      { header: 'Value Won', type: 'currency', width: 16 },
+      { header: 'Value Lost', type: 'currency', width: 16 },
+      { header: 'Share of Value Won', type: 'percent', width: 12 },
+      { header: 'Top Buyer', type: 'text', width: 30 },
+      { header: 'Leading Competitor', type: 'text', width: 30 },
+    ],
+    rows: computeDepartmentBreakdown(reportData).map((department) => [
+      department.dept,
+      department.wins,
+      department.losses,
+      department.winRate === null ? null : department.winRate / 100,
+      department.valueWon,
+      department.valueLost,
+      department.shareOfValueWon === null ? null : department.shareOfValueWon / 100,
+      department.topBuyer,
+      department.leadingCompetitor?.seller ?? null,
+    ]),
+  }),
+};
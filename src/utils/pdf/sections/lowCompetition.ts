@@ -0,0 +1,115 @@
+import autoTable from 'jspdf-autotable';
+import { addChart, scatterChart } from '@/utils/pdf/charts';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import type { LowCompetitionBid } from '@/utils/reportSchema';
+import { TENDER_COLUMNS, tenderRow, toNumber } from '@/utils/reportTables';
+
+export const lowCompetitionSection: ReportSection = {
+  id: 'lowCompetition',
+  label: 'Single-Bidder/Low-Competition Opportunities',
+  title: (t) => t.lowCompetition.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.lowCompetition.title, colors.secondary);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.lowCompetition.intro, margin, ctx.y);
+    ctx.y += 12;
+
+    const lowCompBids = reportData.data.lowCompetitionBids?.results || [];
+    if (lowCompBids.length > 0) {
+      // Summary stats
+      doc.setFillColor(236, 253, 245); // Light green
+      doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 20, 2, 2, 'F');
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...colors.secondary);
+      doc.text(t.lowCompetition.total(lowCompBids.length), margin + 5, ctx.y + 8);
+
+      const lowCompValue = lowCompBids.reduce((sum: number, bid: LowCompetitionBid) => sum + (bid.total_price || 0), 0);
+      doc.text(t.lowCompetition.totalValue(formatCurrency(lowCompValue)), margin + 5, ctx.y + 15);
+      ctx.y += 25;
+
+      doc.setTextColor(...colors.dark);
+
+      // Opportunities table
+      const lowCompData = lowCompBids.slice(0, 10).map((bid: LowCompetitionBid, index: number) => [
+        (index + 1).toString(),
+        (bid.bid_number || t.common.notAvailable).substring(0, 20),
+        (bid.org || t.common.notAvailable).substring(0, 28),
+        (bid.dept || t.common.notAvailable).substring(0, 23),
+        formatCurrency(bid.total_price || 0),
+        t.common.bidders(bid.bidders_count || 1),
+        bid.ended_at ? ctx.formatDate(bid.ended_at) : t.common.notAvailable,
+      ]);
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[t.columns.number, t.columns.bidNumber, t.columns.organization, t.columns.department, t.columns.value, t.columns.competition, t.columns.date]],
+        body: lowCompData,
+        theme: 'striped',
+        headStyles: { fillColor: colors.secondary, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+        bodyStyles: { fontSize: 8 },
+        alternateRowStyles: { fillColor: [236, 253, 245] },
+        columnStyles: {
+          0: { cellWidth: 10, halign: 'center' },
+          1: { cellWidth: 28 },
+          2: { cellWidth: 42 },
+          3: { cellWidth: 35 },
+          4: { cellWidth: 28, halign: 'right' },
+          5: { cellWidth: 20, halign: 'center' },
+          6: { cellWidth: 22, halign: 'center' },
+        },
+        margin: { left: margin, right: margin },
+      });
+
+      ctx.y = ctx.lastTableY() + 15;
+
+      // Every tender, not just the listed ten: where value and competition meet
+      addChart(
+        ctx,
+        scatterChart(
+          [
+            {
+              label: t.lowCompetition.title,
+              color: colors.secondary,
+              points: lowCompBids.map((bid: LowCompetitionBid) => ({ x: bid.bidders_count || 1, y: bid.total_price || 0 })),
+            },
+          ],
+          {
+            axes: { x: t.lowCompetition.bidders, y: t.columns.value },
+            formatX: (value) => (Number.isInteger(value) ? String(value) : ''),
+            formatY: ctx.formatCompactCurrency,
+          }
+        ),
+        70,
+        { title: t.lowCompetition.valueVsBidders }
+      );
+    } else {
+      doc.setFontSize(10);
+      doc.text(t.lowCompetition.none, margin, ctx.y);
+      ctx.y += 10;
+    }
+
+    // Strategic recommendations
+    ctx.checkPageBreak(50);
+    ctx.addCallout(
+      t.lowCompetition.recommendations,
+      t.lowCompetition.recommendationBullets.map((bullet) => `• ${bullet}`),
+      [236, 253, 245],
+      colors.secondary
+    );
+  },
+  table: (reportData) => ({
+    name: 'Low Competition',
+    columns: [...TENDER_COLUMNS, { header: 'Bidders', type: 'integer', width: 10 }],
+    rows: (reportData.data.lowCompetitionBids?.results || [])
+      .map((bid) => [...tenderRow(bid), toNumber(bid.bidders_count)]),
+  }),
+};
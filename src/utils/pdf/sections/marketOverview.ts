@@ -0,0 +1,174 @@
+import autoTable from 'jspdf-autotable';
+import { addChart, stackedBarChart } from '@/utils/pdf/charts';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import { computeReportMetrics } from '@/utils/reportMetrics';
+import type { ReportCell } from '@/utils/reportTables';
+import { compareWins } from '@/utils/reportView';
+
+export const marketOverviewSection: ReportSection = {
+  id: 'marketOverview',
+  label: 'Overall Market Overview',
+  title: (t) => t.marketOverview.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+    const { totalBids, successCount, losses, winRate, totalValue, avgValue, avgBidsPerDay } = ctx.metrics;
+    const { valueShare, marketSize, marketSizeSource } = ctx.metrics;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.marketOverview.title, colors.secondary);
+
+    // KPI Cards
+    const kpiBoxWidth = (pageWidth - 2 * margin - 10) / 3;
+    const kpiBoxHeight = 28;
+
+    // Win Rate Box
+    doc.setFillColor(...colors.secondary);
+    doc.roundedRect(margin, ctx.y, kpiBoxWidth, kpiBoxHeight, 3, 3, 'F');
+    doc.setFontSize(24);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(255, 255, 255);
+    doc.text(`${winRate}%`, margin + kpiBoxWidth / 2, ctx.y + 14, { align: 'center' });
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.metrics.winRate, margin + kpiBoxWidth / 2, ctx.y + 22, { align: 'center' });
+
+    // Total Bids Box
+    doc.setFillColor(...colors.primary);
+    doc.roundedRect(margin + kpiBoxWidth + 5, ctx.y, kpiBoxWidth, kpiBoxHeight, 3, 3, 'F');
+    doc.setFontSize(24);
+    doc.setFont('helvetica', 'bold');
+    doc.text(totalBids.toString(), margin + kpiBoxWidth + 5 + kpiBoxWidth / 2, ctx.y + 14, { align: 'center' });
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.metrics.totalBids, margin + kpiBoxWidth + 5 + kpiBoxWidth / 2, ctx.y + 22, { align: 'center' });
+
+    // Total Value Box
+    doc.setFillColor(...colors.accent);
+    doc.roundedRect(margin + 2 * kpiBoxWidth + 10, ctx.y, kpiBoxWidth, kpiBoxHeight, 3, 3, 'F');
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.text(ctx.formatCompactCurrency(totalValue), margin + 2 * kpiBoxWidth + 10 + kpiBoxWidth / 2, ctx.y + 14, { align: 'center' });
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.metrics.totalValue, margin + 2 * kpiBoxWidth + 10 + kpiBoxWidth / 2, ctx.y + 22, { align: 'center' });
+
+    ctx.y += kpiBoxHeight + 15;
+    doc.setTextColor(...colors.dark);
+
+    // Market Metrics Table
+    ctx.checkPageBreak(60);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(t.marketOverview.metrics, margin, ctx.y);
+    ctx.y += 8;
+
+    const marketMetrics = [
+      [t.metrics.totalBidsParticipated, totalBids.toString(), '100%'],
+      [t.metrics.successfulWins, successCount.toString(), `${winRate}%`],
+      [t.metrics.lostOpportunities, losses.toString(), `${(100 - parseFloat(winRate)).toFixed(1)}%`],
+      [t.metrics.averageOrderValue, formatCurrency(avgValue), '-'],
+      [t.metrics.averageBidsPerDay, avgBidsPerDay, '-'],
+      [t.metrics.valueShare, formatCurrency(totalValue), valueShare === null ? '-' : `${(valueShare * 100).toFixed(1)}%`],
+      [
+        t.metrics.marketSize,
+        formatCurrency(marketSize),
+        marketSizeSource === 'categoryListing' ? t.metrics.fromCategoryListing : t.metrics.fromTendersInScope,
+      ],
+    ];
+
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[t.columns.metric, t.columns.value, t.columns.percentage]],
+      body: marketMetrics,
+      theme: 'grid',
+      headStyles: { fillColor: colors.secondary, textColor: [255, 255, 255], fontSize: 10, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 9 },
+      columnStyles: {
+        0: { cellWidth: 85, fontStyle: 'bold' },
+        1: { cellWidth: 55, halign: 'right' },
+        2: { cellWidth: 45, halign: 'center' },
+      },
+      margin: { left: margin, right: margin },
+    });
+
+    ctx.y = ctx.lastTableY() + 15;
+
+    const departments = compareWins(ctx.metrics.wins, ctx.metrics.marketWins, 'dept');
+    if (departments.length > 0) {
+      addChart(
+        ctx,
+        stackedBarChart(
+          departments.map((group) => group.name),
+          [
+            { label: t.marketOverview.yourWins, color: colors.secondary, values: departments.map((group) => group.ours) },
+            { label: t.marketOverview.otherWins, color: colors.danger, values: departments.map((group) => group.others) },
+          ],
+          { axes: { x: t.marketOverview.tenders }, horizontal: true }
+        ),
+        departments.length * 10 + 25,
+        { title: t.marketOverview.departmentChart }
+      );
+    }
+
+    // Price Band Analysis
+    if (reportData.data.priceBand) {
+      ctx.checkPageBreak(50);
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.text(t.marketOverview.priceBand, margin, ctx.y);
+      ctx.y += 8;
+
+      const priceBandData = [
+        [t.marketOverview.highestBid, formatCurrency(reportData.data.priceBand.highest)],
+        [t.marketOverview.averageBid, formatCurrency(reportData.data.priceBand.average)],
+        [t.marketOverview.lowestBid, formatCurrency(reportData.data.priceBand.lowest)],
+        [t.marketOverview.priceRange, formatCurrency(reportData.data.priceBand.highest - reportData.data.priceBand.lowest)],
+      ];
+
+      autoTable(doc, {
+        startY: ctx.y,
+        body: priceBandData,
+        theme: 'plain',
+        bodyStyles: { fontSize: 9, textColor: colors.dark },
+        columnStyles: {
+          0: { cellWidth: 70, fontStyle: 'bold' },
+          1: { cellWidth: 60, halign: 'right', textColor: colors.primary },
+        },
+        margin: { left: margin + 10, right: margin },
+      });
+
+      ctx.y = ctx.lastTableY() + 10;
+    }
+  },
+  table: (reportData) => {
+    const { totalBids, successCount, losses, totalValue, avgValue, valueInScope, marketSize } = computeReportMetrics(reportData);
+    const { priceBand, estimatedMissedValue } = reportData.data;
+    const rows: ReportCell[][] = [
+      ['Total Bids Participated', totalBids],
+      ['Successful Wins', successCount],
+      ['Lost Opportunities', losses],
+      ['Total Won Value (₹)', totalValue],
+      ['Average Order Value (₹)', avgValue],
+      ['Value of Tenders in Scope (₹)', valueInScope],
+      ['Market Size (₹)', marketSize],
+    ];
+    if (estimatedMissedValue !== undefined) rows.push(['Estimated Missed Value (₹)', estimatedMissedValue]);
+    if (priceBand) {
+      rows.push(
+        ['Highest Bid Value (₹)', priceBand.highest],
+        ['Average Bid Value (₹)', priceBand.average],
+        ['Lowest Bid Value (₹)', priceBand.lowest],
+      );
+    }
+    return {
+      name: 'Market Overview',
+      columns: [
+        { header: 'Metric', type: 'text', width: 30 },
+        { header: 'Value', type: 'number', width: 18 },
+      ],
+      rows,
+    };
+  },
+};
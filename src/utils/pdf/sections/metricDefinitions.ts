@@ -0,0 +1,127 @@
+import autoTable from 'jspdf-autotable';
+import { PDF_MESSAGES, type PdfMessages } from '@/i18n/pdf';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import { computeReportMetrics, THREAT_LEVELS, THREAT_WEIGHTS, type ReportMetrics } from '@/utils/reportMetrics';
+import { DECLINE_THRESHOLD, MIN_TENDERS_PER_HALF } from '@/utils/reportTrend';
+
+const percent = (value: number | null, digits = 1) => (value === null ? null : `${value.toFixed(digits)}%`);
+
+// One row per metric: its name, its value in this report (null if it has none) and how it's calculated
+const definitions = (t: PdfMessages, metrics: ReportMetrics): [string, string | null, string][] => {
+  const d = t.metricDefinitions;
+  return [
+    [t.metrics.winRate, `${metrics.winRate}%`, d.winRate],
+    [t.metrics.totalValue, formatCurrency(metrics.totalValue), d.totalValue],
+    [t.metrics.averageOrderValue, formatCurrency(metrics.avgValue), d.averageOrderValue],
+    [t.metrics.averageBidsPerDay, metrics.avgBidsPerDay, d.averageBidsPerDay],
+    [t.metrics.valueShare, percent(metrics.valueShare === null ? null : metrics.valueShare * 100), d.valueShare],
+    [t.metrics.marketSize, formatCurrency(metrics.marketSize), d.marketSize],
+    [t.metrics.fairShareWinRate, percent(metrics.benchmarkWinRate), d.fairShare],
+    [
+      t.metrics.threatScore,
+      d.scoreRange,
+      d.threatScore(THREAT_WEIGHTS.value * 100, THREAT_WEIGHTS.overlap * 100, THREAT_LEVELS.high, THREAT_LEVELS.medium),
+    ],
+    [t.performanceTrend.declining, null, d.declining(DECLINE_THRESHOLD, MIN_TENDERS_PER_HALF)],
+  ];
+};
+
+export const metricDefinitionsSection: ReportSection = {
+  id: 'metricDefinitions',
+  label: 'Appendix: Metric Definitions',
+  title: (t) => t.metricDefinitions.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, margin, colors, t, metrics } = ctx;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.metricDefinitions.title, colors.dark);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.metricDefinitions.intro, margin, ctx.y);
+    ctx.y += 10;
+
+    const keepHeaders = (data: { pageNumber: number }) => {
+      if (data.pageNumber > 1) {
+        ctx.addPageHeader();
+        ctx.addPageFooter();
+      }
+    };
+
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[t.metricDefinitions.metric, t.metricDefinitions.thisReport, t.metricDefinitions.calculation]],
+      body: definitions(t, metrics).map(([name, value, calculation]) => [name, value ?? '-', calculation]),
+      theme: 'grid',
+      headStyles: { fillColor: colors.dark, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 8, valign: 'middle' },
+      columnStyles: {
+        0: { cellWidth: 40, fontStyle: 'bold' },
+        1: { cellWidth: 30, halign: 'right' },
+        2: { cellWidth: 110 },
+      },
+      margin: { top: 20, left: margin, right: margin },
+      didDrawPage: keepHeaders,
+    });
+
+    ctx.y = ctx.lastTableY() + 12;
+
+    // The per-department figures behind the fair-share benchmark
+    const departments = metrics.departmentWinRates;
+    if (departments.length > 0) {
+      ctx.checkPageBreak(40);
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...colors.dark);
+      doc.text(t.metricDefinitions.departmentRates, margin, ctx.y);
+      ctx.y += 8;
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[
+          t.columns.department,
+          t.metricDefinitions.won,
+          t.metricDefinitions.lost,
+          t.metrics.winRate,
+          t.metricDefinitions.competitors,
+          t.metricDefinitions.fairShareColumn,
+        ]],
+        body: departments.map((department) => [
+          department.dept,
+          department.wins.toString(),
+          department.losses.toString(),
+          percent(department.winRate),
+          department.competitors.toString(),
+          percent(department.fairShare) ?? t.common.notAvailable,
+        ]),
+        theme: 'striped',
+        headStyles: { fillColor: colors.dark, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+        bodyStyles: { fontSize: 8 },
+        alternateRowStyles: { fillColor: [245, 247, 250] },
+        columnStyles: {
+          0: { cellWidth: 70 },
+          1: { cellWidth: 18, halign: 'center' },
+          2: { cellWidth: 18, halign: 'center' },
+          3: { cellWidth: 24, halign: 'center' },
+          4: { cellWidth: 26, halign: 'center' },
+          5: { cellWidth: 24, halign: 'center' },
+        },
+        margin: { top: 20, left: margin, right: margin },
+        didDrawPage: keepHeaders,
+      });
+
+      ctx.y = ctx.lastTableY() + 10;
+    }
+  },
+  table: (reportData) => ({
+    name: 'Metric Definitions',
+    columns: [
+      { header: 'Metric', type: 'text', width: 26 },
+      { header: 'This Report', type: 'text', width: 16 },
+      { header: 'How It Is Calculated', type: 'text', width: 90 },
+    ],
+    rows: definitions(PDF_MESSAGES.en, computeReportMetrics(reportData)),
+  }),
+};
@@ -0,0 +1,97 @@
+import autoTable from 'jspdf-autotable';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import { TENDER_COLUMNS, tenderRow } from '@/utils/reportTables';
+
+export const missedTendersSection: ReportSection = {
+  id: 'missedTenders',
+  label: 'Missed-but-Winnable Tenders',
+  title: (t) => t.missedTenders.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+    const { marketWins } = ctx.metrics;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.missedTenders.title, colors.warning);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.missedTenders.intro, margin, ctx.y);
+    ctx.y += 10;
+
+    if (marketWins.length > 0) {
+      // Summary box
+      doc.setFillColor(255, 251, 235); // Light yellow
+      doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 20, 2, 2, 'F');
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...colors.warning);
+      doc.text(t.missedTenders.total(marketWins.length), margin + 5, ctx.y + 8);
+
+      const missedValue = marketWins.reduce((sum, win) => sum + (win.total_price || 0), 0);
+      doc.text(t.missedTenders.missedValue(formatCurrency(missedValue)), margin + 5, ctx.y + 15);
+      ctx.y += 25;
+
+      doc.setTextColor(...colors.dark);
+
+      // Missed tenders table
+      const missedData = marketWins.slice(0, 10).map((win, index) => [
+        (index + 1).toString(),
+        (win.bid_number || t.common.notAvailable).substring(0, 20),
+        (win.org || t.common.notAvailable).substring(0, 30),
+        (win.dept || t.common.notAvailable).substring(0, 25),
+        formatCurrency(win.total_price || 0),
+        win.ended_at ? ctx.formatDate(win.ended_at) : t.common.notAvailable,
+      ]);
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[t.columns.number, t.columns.bidNumber, t.columns.organization, t.columns.department, t.columns.value, t.columns.endDate]],
+        body: missedData,
+        theme: 'grid',
+        headStyles: { fillColor: colors.warning, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+        bodyStyles: { fontSize: 8 },
+        columnStyles: {
+          0: { cellWidth: 10, halign: 'center' },
+          1: { cellWidth: 30 },
+          2: { cellWidth: 45 },
+          3: { cellWidth: 40 },
+          4: { cellWidth: 30, halign: 'right' },
+          5: { cellWidth: 25, halign: 'center' },
+        },
+        margin: { left: margin, right: margin },
+      });
+
+      ctx.y = ctx.lastTableY() + 15;
+    } else {
+      doc.setFontSize(10);
+      doc.text(t.missedTenders.none, margin, ctx.y);
+      ctx.y += 10;
+    }
+
+    // AI Insights on missed opportunities
+    ctx.checkPageBreak(40);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...colors.warning);
+    doc.text(t.missedTenders.recoveryStrategy, margin, ctx.y);
+    ctx.y += 8;
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...colors.dark);
+    const strategy = reportData.data.missedButWinnable?.ai?.strategy_summary || t.missedTenders.noStrategy;
+    const strategyLines = doc.splitTextToSize(strategy, pageWidth - 2 * margin - 10);
+    strategyLines.forEach((line: string) => {
+      ctx.checkPageBreak(5);
+      doc.text(line, margin + 5, ctx.y);
+      ctx.y += 5;
+    });
+  },
+  table: (reportData) => ({
+    name: 'Missed Tenders',
+    columns: TENDER_COLUMNS,
+    rows: (reportData.data.missedButWinnable?.marketWins || []).map(tenderRow),
+  }),
+};
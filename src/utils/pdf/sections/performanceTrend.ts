@@ -0,0 +1,161 @@
+import autoTable from 'jspdf-autotable';
+import { DATE_LOCALES } from '@/i18n/languages';
+import { addChart, lineChart } from '@/utils/pdf/charts';
+import type { PdfLayoutContext, ReportSection } from '@/utils/pdf/types';
+import type { ReportData } from '@/utils/reportSchema';
+import { toDate } from '@/utils/reportTables';
+import { computePerformanceTrend, formatSigned, formatTrendPeriod } from '@/utils/reportTrend';
+
+const trendOf = (reportData: ReportData) =>
+  computePerformanceTrend(
+    reportData.data.missedButWinnable?.recentWins || [],
+    reportData.data.missedButWinnable?.marketWins || [],
+    { days: reportData.meta.params_used.days, endDate: reportData.meta.report_generated_at }
+  );
+
+const formatChange = (ctx: PdfLayoutContext, change: number | null) =>
+  change === null ? '-' : ctx.t.performanceTrend.points(formatSigned(change, (points) => points.toFixed(1)));
+
+export const performanceTrendSection: ReportSection = {
+  id: 'performanceTrend',
+  label: 'Performance Trend',
+  title: (t) => t.performanceTrend.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, margin, colors, t } = ctx;
+    const { granularity, periods, declining } = trendOf(ctx.reportData);
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.performanceTrend.title, colors.primary);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(granularity === 'week' ? t.performanceTrend.introWeekly : t.performanceTrend.introMonthly, margin, ctx.y);
+    ctx.y += 12;
+
+    if (periods.length === 0) {
+      doc.text(t.performanceTrend.none, margin, ctx.y);
+      ctx.y += 10;
+      return;
+    }
+
+    const labels = periods.map((period) => formatTrendPeriod(period.start, granularity, DATE_LOCALES[ctx.language]));
+
+    addChart(
+      ctx,
+      lineChart(labels, [
+        { label: t.performanceTrend.wins, color: colors.secondary, values: periods.map((period) => period.wins) },
+        { label: t.performanceTrend.losses, color: colors.danger, values: periods.map((period) => period.losses) },
+      ], { axes: { y: t.marketOverview.tenders } }),
+      60,
+      { title: t.performanceTrend.outcomesChart }
+    );
+
+    addChart(
+      ctx,
+      lineChart(labels, [
+        { label: t.performanceTrend.valueWon, color: colors.primary, values: periods.map((period) => period.value) },
+      ], { formatValue: ctx.formatCompactCurrency }),
+      50,
+      { title: t.performanceTrend.valueChart }
+    );
+
+    // Period-over-period table
+    ctx.checkPageBreak(40);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...colors.dark);
+    doc.text(t.performanceTrend.changes, margin, ctx.y);
+    ctx.y += 8;
+
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[
+        t.performanceTrend.period,
+        t.performanceTrend.wins,
+        t.performanceTrend.losses,
+        t.performanceTrend.winRate,
+        t.performanceTrend.winRateChange,
+        t.performanceTrend.valueWon,
+        t.performanceTrend.valueChange,
+      ]],
+      body: periods.map((period, index) => [
+        labels[index],
+        period.wins.toString(),
+        period.losses.toString(),
+        period.winRate === null ? '-' : `${period.winRate.toFixed(1)}%`,
+        formatChange(ctx, period.change?.winRate ?? null),
+        ctx.formatCompactCurrency(period.value),
+        period.change ? formatSigned(period.change.value, ctx.formatCompactCurrency) : '-',
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: colors.primary, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 8 },
+      alternateRowStyles: { fillColor: [245, 247, 250] },
+      columnStyles: {
+        0: { cellWidth: 30 },
+        1: { cellWidth: 18, halign: 'center' },
+        2: { cellWidth: 24, halign: 'center' },
+        3: { cellWidth: 22, halign: 'center' },
+        4: { cellWidth: 26, halign: 'center' },
+        5: { cellWidth: 30, halign: 'right' },
+        6: { cellWidth: 30, halign: 'right' },
+      },
+      didParseCell: (data) => {
+        // Colour falling and rising win rates
+        const change = periods[data.row.index]?.change?.winRate;
+        if (data.section === 'body' && data.column.index === 4 && change) {
+          data.cell.styles.textColor = change < 0 ? colors.danger : colors.secondary;
+        }
+      },
+      // Long windows can run onto another page, which needs the running header and footer
+      margin: { top: 20, left: margin, right: margin },
+      didDrawPage: (data) => {
+        if (data.pageNumber > 1) {
+          ctx.addPageHeader();
+          ctx.addPageFooter();
+        }
+      },
+    });
+
+    ctx.y = ctx.lastTableY() + 12;
+
+    ctx.checkPageBreak(30);
+    if (declining.length > 0) {
+      ctx.addCallout(
+        t.performanceTrend.declining,
+        declining.map((category) =>
+          `• ${t.performanceTrend.decliningLine(category.name, category.earlier.winRate.toFixed(1), category.later.winRate.toFixed(1))}`
+        ),
+        [254, 242, 242],
+        colors.danger
+      );
+    } else {
+      ctx.addCallout(t.performanceTrend.declining, [t.performanceTrend.noDeclining], [236, 253, 245], colors.secondary);
+    }
+  },
+  table: (reportData) => {
+    const { periods } = trendOf(reportData);
+    return {
+      name: 'Performance Trend',
+      columns: [
+        { header: 'Period Start', type: 'date', width: 14 },
+        { header: 'Wins', type: 'integer', width: 8 },
+        { header: 'Losses', type: 'integer', width: 8 },
+        { header: 'Win Rate', type: 'percent', width: 10 },
+        { header: 'Win Rate Change (pts)', type: 'number', width: 12 },
+        { header: 'Value Won', type: 'currency', width: 16 },
+        { header: 'Value Change', type: 'currency', width: 16 },
+      ],
+      rows: periods.map((period) => [
+        toDate(period.start),
+        period.wins,
+        period.losses,
+        period.winRate === null ? null : period.winRate / 100,
+        period.change?.winRate ?? null,
+        period.value,
+        period.change ? period.change.value : null,
+      ]),
+    };
+  },
+};
@@ -0,0 +1,72 @@
+import autoTable from 'jspdf-autotable';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+import { TENDER_COLUMNS, tenderRow } from '@/utils/reportTables';
+
+export const recentBidsSection: ReportSection = {
+  id: 'recentBids',
+  label: 'Recent Successful Bids',
+  title: (t) => t.recentBids.title,
+  defaultEnabled: true,
+  required: true,
+  render: (ctx) => {
+    const { doc, margin, colors, t } = ctx;
+    const { wins } = ctx.metrics;
+
+    if (wins.length === 0) return;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.recentBids.title, colors.secondary);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.recentBids.intro, margin, ctx.y);
+    ctx.y += 10;
+
+    const bidsTableData = wins.slice(0, 20).map((win, index) => [
+      (index + 1).toString(),
+      (win.bid_number || t.common.notAvailable).substring(0, 25),
+      (win.org || '').substring(0, 28),
+      (win.dept || '').substring(0, 23),
+      (win.quantity?.toString() || t.common.notAvailable),
+      formatCurrency(win.total_price || 0),
+      win.ended_at ? ctx.formatDate(win.ended_at) : t.common.notAvailable,
+    ]);
+
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[t.columns.number, t.columns.bidNumber, t.columns.organization, t.columns.department, t.columns.quantity, t.columns.value, t.columns.date]],
+      body: bidsTableData,
+      theme: 'grid',
+      headStyles: { 
+        fillColor: colors.secondary, 
+        textColor: [255, 255, 255], 
+        fontSize: 9, 
+        fontStyle: 'bold',
+        halign: 'center'
+      },
+      bodyStyles: { fontSize: 8 },
+      columnStyles: {
+        0: { cellWidth: 10, halign: 'center' },
+        1: { cellWidth: 35 },
+        2: { cellWidth: 40 },
+        3: { cellWidth: 35 },
+        4: { cellWidth: 18, halign: 'center' },
+        5: { cellWidth: 30, halign: 'right' },
+        6: { cellWidth: 22, halign: 'center' },
+      },
+      margin: { left: margin, right: margin },
+      didDrawPage: (data) => {
+        if (data.pageNumber > 1) {
+          ctx.addPageHeader();
+          ctx.addPageFooter();
+        }
+      },
+    });
+  },
+  table: (reportData) => ({
+    name: 'Recent Bids',
+    columns: TENDER_COLUMNS,
+    rows: (reportData.data.missedButWinnable?.recentWins || []).map(tenderRow),
+  }),
+};
@@ -0,0 +1,271 @@
+import autoTable from 'jspdf-autotable';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { PdfMessages } from '@/i18n/pdf';
+import type { PdfLayoutContext, ReportSection } from '@/utils/pdf/types';
+import { computeHeadToHead, type HeadToHead, type MatchupOutcome } from '@/utils/headToHead';
+import { computeReportMetrics, scoreCompetitors, type ThreatLevel } from '@/utils/reportMetrics';
+
+const threatLabel = (t: PdfMessages, level: ThreatLevel) =>
+  level === 'high' ? t.rivalryScore.threatHigh : level === 'medium' ? t.rivalryScore.threatMedium : t.rivalryScore.threatLow;
+
+const outcomeLabel = (t: PdfMessages, outcome: MatchupOutcome) =>
+  ({
+    won: t.rivalryScore.outcomeWon,
+    lost: t.rivalryScore.outcomeLost,
+    other: t.rivalryScore.outcomeOther,
+    open: t.rivalryScore.outcomeOpen,
+  })[outcome];
+
+const subheading = (ctx: PdfLayoutContext, text: string) => {
+  const { doc, margin, colors } = ctx;
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...colors.danger);
+  doc.text(text, margin, ctx.y);
+  ctx.y += 8;
+};
+
+const note = (ctx: PdfLayoutContext, text: string) => {
+  ctx.doc.setFontSize(9);
+  ctx.doc.setFont('helvetica', 'normal');
+  ctx.doc.setTextColor(...ctx.colors.dark);
+  ctx.doc.text(text, ctx.margin, ctx.y);
+  ctx.y += 10;
+};
+
+// Tables here can run onto another page, which needs the running header and footer
+const keepHeaders = (ctx: PdfLayoutContext) => (data: { pageNumber: number }) => {
+  if (data.pageNumber > 1) {
+    ctx.addPageHeader();
+    ctx.addPageFooter();
+  }
+};
+
+/** The comparison with the competitor named in the request: record, overlaps, shared tenders and price gaps. */
+const renderHeadToHead = (ctx: PdfLayoutContext, headToHead: HeadToHead) => {
+  const { doc, margin, colors, t } = ctx;
+  const labels = t.rivalryScore;
+  const names = (overlaps: { name: string }[]) => overlaps.map((overlap) => overlap.name).join(', ') || labels.none;
+
+  ctx.addNewPage();
+  const title = labels.headToHead(headToHead.seller, headToHead.competitor);
+  ctx.addBookmark(title);
+  doc.setFontSize(13);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...colors.danger);
+  doc.text(title, margin, ctx.y);
+  ctx.y += 7;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...colors.dark);
+  doc.text(labels.headToHeadIntro, margin, ctx.y);
+  ctx.y += 10;
+
+  const { won, lost, other, open } = headToHead.record;
+  ctx.addCallout(labels.record, [
+    labels.recordLine(won, lost, other, open),
+    labels.sharedDepartments(names(headToHead.sharedDepartments)),
+    labels.sharedCategories(names(headToHead.sharedCategories)),
+    labels.sharedStates(names(headToHead.sharedStates)),
+  ], [254, 242, 242], colors.danger);
+
+  // Every tender both bid on, newest first
+  ctx.checkPageBreak(40);
+  subheading(ctx, labels.matchups);
+  if (headToHead.matchups.length === 0) {
+    note(ctx, labels.noMatchups);
+  } else {
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[t.columns.bidNumber, t.columns.organizationOrDept, labels.item, labels.ourPrice, labels.theirPrice, labels.outcome]],
+      body: headToHead.matchups.map((matchup) => [
+        matchup.bid_number || t.common.notAvailable,
+        matchup.org || matchup.dept || t.common.notAvailable,
+        matchup.item || t.common.notAvailable,
+        matchup.our_price ? formatCurrency(matchup.our_price) : '-',
+        matchup.competitor_price ? formatCurrency(matchup.competitor_price) : '-',
+        outcomeLabel(t, matchup.outcome),
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: colors.danger, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 8 },
+      alternateRowStyles: { fillColor: [245, 247, 250] },
+      margin: { top: 20, left: margin, right: margin },
+      didDrawPage: keepHeaders(ctx),
+      columnStyles: {
+        0: { cellWidth: 38 },
+        1: { cellWidth: 40 },
+        2: { cellWidth: 30 },
+        3: { cellWidth: 25, halign: 'right' },
+        4: { cellWidth: 25, halign: 'right' },
+        5: { cellWidth: 22, halign: 'center' },
+      },
+      didParseCell: (data) => {
+        const outcome = headToHead.matchups[data.row.index]?.outcome;
+        if (data.section === 'body' && data.column.index === 5 && (outcome === 'won' || outcome === 'lost')) {
+          data.cell.styles.textColor = outcome === 'won' ? colors.secondary : colors.danger;
+          data.cell.styles.fontStyle = 'bold';
+        }
+      },
+    });
+    ctx.y = ctx.lastTableY() + 12;
+  }
+
+  // Average prices per item where both sides quoted
+  ctx.checkPageBreak(40);
+  subheading(ctx, labels.priceGaps);
+  if (headToHead.priceGaps.length === 0) {
+    note(ctx, labels.noPriceGaps);
+  } else {
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[labels.item, labels.bids, labels.ourAverage, labels.theirAverage, labels.gap]],
+      body: headToHead.priceGaps.map((gap) => [
+        gap.item,
+        gap.bids.toString(),
+        formatCurrency(Math.round(gap.ourAverage)),
+        formatCurrency(Math.round(gap.theirAverage)),
+        `${gap.gap > 0 ? '+' : ''}${gap.gap.toFixed(1)}%`,
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: colors.danger, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 8 },
+      alternateRowStyles: { fillColor: [245, 247, 250] },
+      margin: { top: 20, left: margin, right: margin },
+      didDrawPage: keepHeaders(ctx),
+      columnStyles: {
+        0: { cellWidth: 60 },
+        1: { cellWidth: 20, halign: 'center' },
+        2: { cellWidth: 35, halign: 'right' },
+        3: { cellWidth: 35, halign: 'right' },
+        4: { cellWidth: 30, halign: 'center' },
+      },
+      didParseCell: (data) => {
+        // We're dearer in red, cheaper in green
+        const gap = headToHead.priceGaps[data.row.index]?.gap;
+        if (data.section === 'body' && data.column.index === 4 && gap) {
+          data.cell.styles.textColor = gap > 0 ? colors.danger : colors.secondary;
+        }
+      },
+    });
+    ctx.y = ctx.lastTableY() + 12;
+  }
+
+  // Departments and states where both sides win business
+  const overlaps = [
+    ...headToHead.sharedDepartments.map((overlap) => [t.columns.department, overlap] as const),
+    ...headToHead.sharedStates.map((overlap) => [t.columns.state, overlap] as const),
+  ];
+  if (overlaps.length > 0) {
+    ctx.checkPageBreak(40);
+    subheading(ctx, labels.overlap);
+    autoTable(doc, {
+      startY: ctx.y,
+      head: [[labels.area, labels.overlapName, labels.ourValue, labels.theirValue]],
+      body: overlaps.map(([area, overlap]) => [area, overlap.name, formatCurrency(overlap.ours), formatCurrency(overlap.theirs)]),
+      theme: 'striped',
+      headStyles: { fillColor: colors.danger, textColor: [255, 255, 255], fontSize: 9, fontStyle: 'bold', halign: 'center' },
+      bodyStyles: { fontSize: 8 },
+      alternateRowStyles: { fillColor: [245, 247, 250] },
+      margin: { top: 20, left: margin, right: margin },
+      didDrawPage: keepHeaders(ctx),
+      columnStyles: {
+        0: { cellWidth: 30 },
+        1: { cellWidth: 80 },
+        2: { cellWidth: 35, halign: 'right' },
+        3: { cellWidth: 35, halign: 'right' },
+      },
+    });
+    ctx.y = ctx.lastTableY() + 12;
+  }
+};
+
+export const rivalryScoreSection: ReportSection = {
+  id: 'rivalryScore',
+  label: 'Rivalry Scorecard',
+  title: (t) => t.rivalryScore.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, colors, t } = ctx;
+    const { winRate, valueShare, benchmarkWinRate } = ctx.metrics;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.rivalryScore.title, colors.danger);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.rivalryScore.intro, margin, ctx.y);
+    ctx.y += 12;
+
+    // Top competitors from market
+    const competitors = scoreCompetitors(reportData, ctx.metrics);
+    if (competitors.length > 0) {
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...colors.danger);
+      doc.text(t.rivalryScore.topCompetitors, margin, ctx.y);
+      ctx.y += 8;
+
+      const rivalData = competitors.slice(0, 10).map((competitor, index) => [
+        (index + 1).toString(),
+        competitor.seller || t.common.unknown,
+        competitor.dept || t.common.notAvailable,
+        formatCurrency(competitor.value),
+        `${threatLabel(t, competitor.level)} (${competitor.score})`,
+      ]);
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[t.columns.rank, t.columns.competitor, t.columns.department, t.columns.value, t.columns.threatLevel]],
+        body: rivalData,
+        theme: 'grid',
+        headStyles: { fillColor: colors.danger, textColor: [255, 255, 255], fontSize: 10, fontStyle: 'bold', halign: 'center' },
+        bodyStyles: { fontSize: 9 },
+        columnStyles: {
+          0: { cellWidth: 15, halign: 'center', fontStyle: 'bold' },
+          1: { cellWidth: 60 },
+          2: { cellWidth: 45 },
+          3: { cellWidth: 35, halign: 'right' },
+          4: { cellWidth: 30, halign: 'center' },
+        },
+        margin: { left: margin, right: margin },
+      });
+
+      ctx.y = ctx.lastTableY() + 15;
+    }
+
+    // Competitive positioning
+    ctx.checkPageBreak(60);
+    const positionLines = [
+      t.rivalryScore.marketShare(valueShare === null ? t.common.notAvailable : `${(valueShare * 100).toFixed(1)}%`),
+    ];
+    if (benchmarkWinRate === null) {
+      positionLines.push(t.rivalryScore.noBenchmark(winRate));
+    } else {
+      positionLines.push(
+        t.rivalryScore.winRateVsMarket(winRate, benchmarkWinRate.toFixed(1)),
+        t.rivalryScore.advantage(
+          parseFloat(winRate) > benchmarkWinRate ? t.rivalryScore.aboveAverage : t.rivalryScore.belowAverage
+        )
+      );
+    }
+    ctx.addCallout(t.rivalryScore.position, positionLines, [254, 242, 242], colors.danger);
+
+    const headToHead = computeHeadToHead(reportData);
+    if (headToHead) {
+      renderHeadToHead(ctx, headToHead);
+    }
+  },
+  table: (reportData) => ({
+    name: 'Rivalry Scorecard',
+    columns: [
+      { header: 'Rank', type: 'integer', width: 8 },
+      { header: 'Competitor', type: 'text', width: 36 },
+      { header: 'Department', type: 'text', width: 36 },
+      { header: 'Value', type: 'currency', width: 16 },
+      { header: 'Threat Score', type: 'integer', width: 12 },
+    ],
+    rows: scoreCompetitors(reportData, computeReportMetrics(reportData))
+      .map((competitor, index) => [index + 1, competitor.seller || null, competitor.dept || null, competitor.value, competitor.score]),
+  }),
+};
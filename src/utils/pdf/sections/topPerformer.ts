@@ -0,0 +1,97 @@
+import autoTable from 'jspdf-autotable';
+import type { ReportSection } from '@/utils/pdf/types';
+
+export const topPerformerSection: ReportSection = {
+  id: 'topPerformer',
+  label: 'Top Performer Department',
+  title: (t) => t.topPerformer.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, pageWidth, colors, t } = ctx;
+    const { totalValue } = ctx.metrics;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.topPerformer.title, colors.accent);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.topPerformer.intro, margin, ctx.y);
+    ctx.y += 10;
+
+    const deptAffinity = reportData.data.missedButWinnable?.ai?.signals?.dept_affinity || [];
+    if (deptAffinity.length > 0) {
+      deptAffinity.slice(0, 5).forEach((dept, index) => {
+        ctx.checkPageBreak(30);
+
+        // Department header with ranking
+        doc.setFillColor(index === 0 ? colors.accent[0] : colors.light[0], 
+                         index === 0 ? colors.accent[1] : colors.light[1], 
+                         index === 0 ? colors.accent[2] : colors.light[2]);
+        doc.roundedRect(margin, ctx.y, pageWidth - 2 * margin, 10, 2, 2, 'F');
+
+        doc.setFontSize(11);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(index === 0 ? 255 : colors.dark[0], index === 0 ? 255 : colors.dark[1], index === 0 ? 255 : colors.dark[2]);
+        doc.text(`#${index + 1}  ${dept.dept}`, margin + 3, ctx.y + 7);
+        ctx.y += 13;
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...colors.dark);
+        const lines = doc.splitTextToSize(dept.signal, pageWidth - 2 * margin - 10);
+        lines.forEach((line: string) => {
+          ctx.checkPageBreak(5);
+          doc.text(line, margin + 5, ctx.y);
+          ctx.y += 5;
+        });
+        ctx.y += 5;
+      });
+
+      // Performance metrics for top departments
+      ctx.checkPageBreak(60);
+      ctx.y += 10;
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.text(t.topPerformer.breakdown, margin, ctx.y);
+      ctx.y += 8;
+
+      const topDeptMetrics = deptAffinity.slice(0, 5).map((dept, index) => [
+        (index + 1).toString(),
+        dept.dept.substring(0, 50),
+        Math.round(totalValue / deptAffinity.length).toString(),
+        `${(100 / deptAffinity.length).toFixed(1)}%`,
+        index === 0 ? t.common.best : t.common.active
+      ]);
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[t.columns.rank, t.columns.department, t.columns.estValueRupees, t.columns.marketShare, t.columns.status]],
+        body: topDeptMetrics,
+        theme: 'striped',
+        headStyles: { fillColor: colors.accent, textColor: [255, 255, 255], fontSize: 10, fontStyle: 'bold', halign: 'center' },
+        bodyStyles: { fontSize: 9 },
+        alternateRowStyles: { fillColor: [245, 247, 250] },
+        columnStyles: {
+          0: { cellWidth: 15, halign: 'center', fontStyle: 'bold' },
+          1: { cellWidth: 80 },
+          2: { cellWidth: 35, halign: 'right' },
+          3: { cellWidth: 25, halign: 'center' },
+          4: { cellWidth: 30, halign: 'center' },
+        },
+        margin: { left: margin, right: margin },
+      });
+
+      ctx.y = ctx.lastTableY() + 10;
+    }
+  },
+  table: (reportData) => ({
+    name: 'Top Departments',
+    columns: [
+      { header: 'Rank', type: 'integer', width: 8 },
+      { header: 'Department', type: 'text', width: 40 },
+      { header: 'Signal', type: 'text', width: 60 },
+    ],
+    rows: (reportData.data.missedButWinnable?.ai?.signals?.dept_affinity || [])
+      .map((dept, index) => [index + 1, dept.dept, dept.signal]),
+  }),
+};
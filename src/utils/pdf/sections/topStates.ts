@@ -0,0 +1,107 @@
+import autoTable from 'jspdf-autotable';
+import { addChart, horizontalBarChart } from '@/utils/pdf/charts';
+import { formatCurrency } from '@/utils/pdf/format';
+import type { ReportSection } from '@/utils/pdf/types';
+
+export const topStatesSection: ReportSection = {
+  id: 'topStates',
+  label: 'Top Performing States/Geographies',
+  title: (t) => t.topStates.title,
+  defaultEnabled: true,
+  render: (ctx) => {
+    const { doc, reportData, margin, colors, t } = ctx;
+
+    ctx.addNewPage();
+    ctx.addSectionHeader(t.topStates.title, colors.primary);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(t.topStates.intro, margin, ctx.y);
+    ctx.y += 12;
+
+    const topStates = reportData.data.topPerformingStates || [];
+    if (topStates.length > 0) {
+      // States performance table
+      const statesData = topStates.slice(0, 15).map((state, index) => [
+        (index + 1).toString(),
+        state.state,
+        state.count.toString(),
+        formatCurrency(state.value || 0),
+        ((state.count / topStates.reduce((sum, s) => sum + s.count, 0)) * 100).toFixed(1) + '%',
+        index < 3 ? t.common.top : t.common.active
+      ]);
+
+      autoTable(doc, {
+        startY: ctx.y,
+        head: [[t.columns.rank, t.columns.state, t.columns.tenderCount, t.columns.totalValue, t.columns.share, t.columns.status]],
+        body: statesData,
+        theme: 'striped',
+        headStyles: { fillColor: colors.primary, textColor: [255, 255, 255], fontSize: 10, fontStyle: 'bold', halign: 'center' },
+        bodyStyles: { fontSize: 9 },
+        alternateRowStyles: { fillColor: [245, 247, 250] },
+        columnStyles: {
+          0: { cellWidth: 15, halign: 'center', fontStyle: 'bold' },
+          1: { cellWidth: 55 },
+          2: { cellWidth: 25, halign: 'center' },
+          3: { cellWidth: 40, halign: 'right' },
+          4: { cellWidth: 25, halign: 'center' },
+          5: { cellWidth: 25, halign: 'center' },
+        },
+        margin: { left: margin, right: margin },
+      });
+
+      ctx.y = ctx.lastTableY() + 15;
+
+      // Regional insights
+      ctx.checkPageBreak(50);
+      const topState = topStates[0];
+      const totalTenders = topStates.reduce((sum, s) => sum + s.count, 0);
+      const topStateShare = ((topState.count / totalTenders) * 100).toFixed(1);
+
+      ctx.addCallout(t.topStates.insights, [
+        `• ${t.topStates.topMarket(topState.state, topStateShare)}`,
+        `• ${t.topStates.spread(topStates.length)}`,
+        `• ${t.topStates.expansion}`,
+        `• ${t.topStates.focus}`,
+      ], [239, 246, 255], colors.primary);
+
+      // Value by state, as in the viewer's state chart
+      const chartStates = topStates.slice(0, 10);
+      addChart(
+        ctx,
+        horizontalBarChart(
+          chartStates.map((state) => ({ label: state.state, value: state.value || 0 })),
+          colors.primary,
+          { axes: { x: t.columns.totalValue }, formatValue: ctx.formatCompactCurrency }
+        ),
+        chartStates.length * 9 + 15,
+        { title: t.topStates.chart }
+      );
+    } else {
+      doc.setFontSize(10);
+      doc.text(t.topStates.none, margin, ctx.y);
+      ctx.y += 10;
+    }
+  },
+  table: (reportData) => {
+    const states = reportData.data.topPerformingStates || [];
+    const totalCount = states.reduce((sum, state) => sum + state.count, 0);
+    return {
+      name: 'Top States',
+      columns: [
+        { header: 'Rank', type: 'integer', width: 8 },
+        { header: 'State / UT', type: 'text', width: 24 },
+        { header: 'Tender Count', type: 'integer', width: 14 },
+        { header: 'Total Value', type: 'currency', width: 18 },
+        { header: 'Share', type: 'percent', width: 10 },
+      ],
+      rows: states.map((state, index) => [
+        index + 1,
+        state.state,
+        state.count,
+        state.value,
+        totalCount > 0 ? state.count / totalCount : null,
+      ]),
+    };
+  },
+};
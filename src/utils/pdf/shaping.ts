@@ -0,0 +1,65 @@
+import type { PdfFontFile, PdfFontStyle } from '@/utils/pdf/fonts';
+
+// Devanagari needs complex shaping: vowel signs are reordered around their
+// consonant, conjuncts become ligatures and marks are positioned. jsPDF draws one
+// glyph per character, so the glyphs are worked out here with HarfBuzz (compiled
+// to WebAssembly and loaded with the PDF fonts) and drawn by glyph id.
+
+export interface ShapedGlyph {
+  /** Glyph id in the font. */
+  glyph: number;
+  /** Index of the first UTF-16 unit of the characters this glyph draws. */
+  cluster: number;
+  /** Advance and offsets in em, offsets pointing right and up. */
+  advance: number;
+  xOffset: number;
+  yOffset: number;
+}
+
+/** Shape one run of text in the given style of the font the shaper was built for. */
+export type TextShaper = (text: string, style: PdfFontStyle) => ShapedGlyph[];
+
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
+/**
+ * Build a shaper for the given styles of one font family. Resolves to null if
+ * HarfBuzz can't be loaded, in which case the text is drawn unshaped.
+ */
+export const createTextShaper = async (files: PdfFontFile[]): Promise<TextShaper | null> => {
+  try {
+    const hb = await import('harfbuzzjs');
+    const fonts = new Map(files.map((file) => {
+      const face = new hb.Face(new hb.Blob(fromBase64(file.data)));
+      return [file.style, { font: new hb.Font(face), upem: face.upem }] as const;
+    }));
+
+    // Sections measure a string before drawing it, so each run is shaped once
+    const shaped = new Map<string, ShapedGlyph[]>();
+
+    return (text, style) => {
+      const key = `${style}:${text}`;
+      const cached = shaped.get(key);
+      if (cached) return cached;
+
+      // The Devanagari faces have no italic; upright is the closest
+      const { font, upem } = fonts.get(style) ?? fonts.get('normal');
+      const buffer = new hb.Buffer();
+      buffer.addText(text);
+      buffer.guessSegmentProperties();
+      hb.shape(font, buffer);
+
+      const glyphs = buffer.getGlyphInfosAndPositions().map((info) => ({
+        glyph: info.codepoint,
+        cluster: info.cluster,
+        advance: (info.xAdvance ?? 0) / upem,
+        xOffset: (info.xOffset ?? 0) / upem,
+        yOffset: (info.yOffset ?? 0) / upem,
+      }));
+      shaped.set(key, glyphs);
+      return glyphs;
+    };
+  } catch (error) {
+    console.warn('Could not load the text shaper, Devanagari will be drawn unshaped:', error);
+    return null;
+  }
+};
@@ -0,0 +1,90 @@
+import type jsPDF from 'jspdf';
+import type { ReportLanguage } from '@/i18n/languages';
+import type { PdfMessages } from '@/i18n/pdf';
+import type { FilterOptions, ReportData } from '@/utils/pdfGenerator';
+import type { ReportMetrics } from '@/utils/reportMetrics';
+import type { ReportTable } from '@/utils/reportTables';
+
+export type PdfColor = [number, number, number];
+
+export interface ReportPalette {
+  primary: PdfColor;
+  secondary: PdfColor;
+  accent: PdfColor;
+  warning: PdfColor;
+  danger: PdfColor;
+  purple: PdfColor;
+  dark: PdfColor;
+  light: PdfColor;
+}
+
+/** An organisation's white-label overrides; anything left unset keeps the default look. */
+export interface ReportBranding {
+  primaryColor?: PdfColor;
+  accentColor?: PdfColor;
+  /** Replaces the cover title and the running page header. */
+  coverTitle?: string;
+  footerDisclaimer?: string;
+  contactLine?: string;
+  /** PNG or JPEG data URL. */
+  logo?: string;
+}
+
+/** A place in the document readers can jump to from the PDF outline. */
+export interface PdfBookmark {
+  title: string;
+  page: number;
+}
+
+/**
+ * Shared layout state handed to every section. `y` is the running cursor on the
+ * current page; sections read and advance it as they draw.
+ */
+export interface PdfLayoutContext {
+  doc: jsPDF;
+  reportData: ReportData;
+  filters: FilterOptions;
+  language: ReportLanguage;
+  /** Fixed strings in the report's language. */
+  t: PdfMessages;
+  branding: ReportBranding;
+  metrics: ReportMetrics;
+  colors: ReportPalette;
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  y: number;
+  /** Bookmarks added so far, in document order; see addBookmark. */
+  bookmarks: PdfBookmark[];
+  addNewPage: () => void;
+  addPageHeader: () => void;
+  addPageFooter: () => void;
+  /** Draw the organisation's logo scaled into the given box, if there is one. */
+  drawLogo: (x: number, y: number, maxWidth: number, maxHeight: number) => void;
+  /** Start a new page if fewer than `requiredSpace` units remain above the footer. */
+  checkPageBreak: (requiredSpace: number) => boolean;
+  addSectionHeader: (title: string, color?: PdfColor) => void;
+  /** Mark the current page in the outline, nested under the section being rendered. */
+  addBookmark: (title: string) => void;
+  /** A tinted box with a heading and wrapped lines of text, sized to fit them. */
+  addCallout: (title: string, lines: string[], fill: PdfColor, titleColor: PdfColor) => void;
+  /** A date in the report's language, e.g. "05 Mar 2024". */
+  formatDate: (date: string) => string;
+  /** A shortened rupee amount in lakh or crore, e.g. "₹12.3 L". */
+  formatCompactCurrency: (amount: number) => string;
+  /** Bottom edge of the last table drawn with autoTable. */
+  lastTableY: () => number;
+}
+
+export interface ReportSection {
+  id: string;
+  label: string;
+  /** The banner the section opens with, as listed on the contents page and in the outline. */
+  title: (t: PdfMessages) => string;
+  defaultEnabled: boolean;
+  /** Always rendered when its data is present; not offered as a section toggle. */
+  required?: boolean;
+  render: (ctx: PdfLayoutContext) => void;
+  /** The section's data as a full table, for spreadsheet and CSV exports. */
+  table?: (reportData: ReportData) => ReportTable;
+}
@@ -0,0 +1,481 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_FIXTURES } from '../../mock-backend/fixtures';
+import type { ReportLanguage } from '@/i18n/languages';
+import { generatePDF } from '@/utils/pdfGenerator';
+import { renderChartImage } from '@/utils/pdf/chartRenderer';
+import { REPORT_SECTIONS } from '@/utils/pdf/registry';
+import type { ReportBranding } from '@/utils/pdf/types';
+import { DEFAULT_SECTIONS, FILTER_SECTIONS } from '@/utils/reportSections';
+import { fixture, FIXTURE_PARAMS } from '@/test/fixtures';
+import {
+  extractHeadings,
+  extractText,
+  getPageCount,
+  recordedTables,
+  resetRecordedTables,
+  textOnPage,
+} from '@/test/pdfInspector';
+
+vi.mock('jspdf-autotable', async (importOriginal) => {
+  const { recordTables } = await import('@/test/pdfInspector');
+  return recordTables(await importOriginal());
+});
+
+// Text drawn with embedded fonts is written as glyph ids the inspector can't read,
+// so these tests render with the built-in Helvetica fallback. See fonts.test.ts.
+vi.mock('@/utils/pdf/fonts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/pdf/fonts')>()),
+  loadPdfFonts: async () => null,
+}));
+
+// Node has no canvas for chart.js to draw on, so every chart comes out as the same
+// placeholder image; the layout around it matches the browser's.
+const CHART_PLACEHOLDER =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGNoYHAAAAHEAMGYZjUWAAAAAElFTkSuQmCC';
+vi.mock('@/utils/pdf/chartRenderer', () => ({
+  renderChartImage: vi.fn(() => CHART_PLACEHOLDER),
+}));
+
+// The banner each section opens with, used to find sections in the output
+const SECTION_HEADINGS: Record<string, string> = {
+  bidsSummary: 'Executive Summary',
+  marketOverview: 'Overall Market Overview',
+  performanceTrend: 'Performance Trend',
+  departmentBreakdown: 'Department Breakdown',
+  topPerformer: 'Top Performer Department',
+  missedTenders: 'Missed-but-Winnable Tenders',
+  aiInsights: 'Comprehensive AI Intelligence & Recommendations',
+  buyerInsights: 'Buyer / Department Insights',
+  rivalryScore: 'Rivalry Scorecard',
+  lowCompetition: 'Single-Bidder / Low-Competition Opportunities',
+  topStates: 'Top Performing States / Geographies',
+  recentBids: 'Recent Successful Bids - Detailed List',
+  metricDefinitions: 'Appendix: Metric Definitions',
+};
+
+const HEADING_SECTIONS = Object.fromEntries(Object.entries(SECTION_HEADINGS).map(([id, heading]) => [heading, id]));
+
+const render = async (fixtureId: string, includeSections: string[], language?: ReportLanguage) => {
+  resetRecordedTables();
+  const doc = await generatePDF(fixture(fixtureId), { includeSections, language });
+  const text = extractText(doc);
+  const headings = extractHeadings(text);
+
+  return {
+    doc,
+    text,
+    pageCount: getPageCount(doc),
+    tables: [...recordedTables],
+    // Section ids in the order their banners appear
+    sections: headings.map((heading) => HEADING_SECTIONS[heading.text]).filter(Boolean),
+    headings,
+  };
+};
+
+const tableWithHeading = (tables: typeof recordedTables, firstColumns: string[]) =>
+  tables.find((table) => firstColumns.every((column, index) => table.head[index] === column));
+
+const ALL_SECTION_IDS = FILTER_SECTIONS.map((section) => section.id);
+
+// None, each one alone, all but each one, and all of them
+const SECTION_COMBINATIONS: string[][] = [
+  [],
+  ...ALL_SECTION_IDS.map((id) => [id]),
+  ...ALL_SECTION_IDS.map((id) => ALL_SECTION_IDS.filter((other) => other !== id)),
+  ALL_SECTION_IDS,
+];
+
+describe('generatePDF', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('knows the heading of every registered section', () => {
+    expect(Object.keys(SECTION_HEADINGS).sort()).toEqual(REPORT_SECTIONS.map((section) => section.id).sort());
+  });
+
+  describe.each(MOCK_FIXTURES.map((candidate) => candidate.id))('with the %s fixture', (fixtureId) => {
+    it('matches the snapshot of its layout with the default sections', async () => {
+      const { pageCount, headings, tables } = await render(fixtureId, DEFAULT_SECTIONS);
+
+      expect({ pageCount, headings, tables }).toMatchSnapshot();
+    });
+
+    it.each(SECTION_COMBINATIONS.map((sections) => [sections.join(', ') || 'no sections', sections]))(
+      'renders exactly the selected sections in registry order (%s)',
+      async (_, includeSections) => {
+        const report = fixture(fixtureId);
+        const { sections } = await render(fixtureId, includeSections as string[]);
+
+        const hasWins = report.data.missedButWinnable.recentWins.length > 0;
+        const expected = REPORT_SECTIONS
+          .filter((section) => section.required || includeSections.includes(section.id))
+          .filter((section) => section.id !== 'recentBids' || hasWins)
+          .map((section) => section.id);
+
+        expect(sections).toEqual(expected);
+      }
+    );
+
+    it('keeps every text run inside the page', async () => {
+      const { doc, text } = await render(fixtureId, DEFAULT_SECTIONS);
+      const pageHeight = doc.internal.pageSize.getHeight();
+
+      const outside = text.filter((item) => item.y < 0 || item.y > pageHeight - 9);
+      expect(outside).toEqual([]);
+    });
+
+    it('starts every section on a new page with the running header and footer', async () => {
+      const { text, headings, pageCount } = await render(fixtureId, DEFAULT_SECTIONS);
+      const sellerName = fixture(fixtureId).meta.params_used.sellerName;
+
+      const sectionPages = headings.filter((heading) => HEADING_SECTIONS[heading.text]).map((heading) => heading.page);
+      expect(new Set(sectionPages).size).toBe(sectionPages.length);
+
+      for (let page = 2; page <= pageCount; page++) {
+        const pageText = textOnPage(text, page);
+        expect(pageText).toContain('Government Tender Performance Analysis');
+        expect(pageText).toContain(`Page ${page}`);
+        // The standard PDF fonts can't encode non-Latin names, so only check plain ones
+        if (/^[\x20-\x7e]*$/.test(sellerName)) {
+          expect(pageText).toContain(sellerName);
+        }
+      }
+    });
+  });
+
+  describe('cover page', () => {
+    it('shows the seller, period and department', async () => {
+      const { text } = await render('typical', []);
+      const cover = textOnPage(text, 1);
+
+      expect(cover).toContain('Mock Typical Seller');
+      expect(cover).toContain('90 days');
+      expect(cover).toContain('Ministry of Defence');
+      expect(cover).toContain('Generated: 15 Jan 2025');
+    });
+
+    it('is the only page when no wins and no optional sections are present', async () => {
+      const report = fixture('no-wins');
+      report.data.missedButWinnable.ai = undefined;
+
+      resetRecordedTables();
+      const doc = await generatePDF(report, { includeSections: [] });
+      expect(getPageCount(doc)).toBe(1);
+    });
+  });
+
+  describe('charts', () => {
+    const renderedCharts = () => vi.mocked(renderChartImage).mock.calls.map(([config]) => config);
+
+    beforeEach(() => {
+      vi.mocked(renderChartImage).mockClear();
+    });
+
+    it('draws a chart for each section that has the data for one', async () => {
+      await render('typical', DEFAULT_SECTIONS);
+
+      expect(renderedCharts().map((config) => config.type)).toEqual(['doughnut', 'bar', 'bar', 'line', 'line', 'bar', 'scatter', 'bar']);
+    });
+
+    it('charts the value won per department, largest first', async () => {
+      const report = fixture('typical');
+      await render('typical', ['bidsSummary']);
+
+      const departments = renderedCharts().find((config) => config.type === 'bar');
+      const values = departments.data.datasets[0].data as number[];
+      expect(values.length).toBeGreaterThan(0);
+      expect(values).toEqual([...values].sort((a, b) => b - a));
+      expect(values.reduce((sum, value) => sum + value, 0)).toBeLessThanOrEqual(
+        report.data.missedButWinnable.recentWins.reduce((sum, win) => sum + (win.total_price || 0), 0)
+      );
+    });
+
+    it('leaves a chart and its heading out when it cannot be rendered', async () => {
+      const rendered = await render('typical', ['topStates']);
+      expect(rendered.text.map((item) => item.text)).toContain('Top 10 States by Tender Value');
+
+      vi.mocked(renderChartImage).mockReturnValue(null);
+      try {
+        const { text } = await render('typical', ['topStates']);
+
+        expect(text.map((item) => item.text)).not.toContain('Top 10 States by Tender Value');
+      } finally {
+        vi.mocked(renderChartImage).mockReturnValue(CHART_PLACEHOLDER);
+      }
+    });
+  });
+
+  describe('performance trend', () => {
+    beforeEach(() => {
+      vi.mocked(renderChartImage).mockClear();
+    });
+
+    it('charts every dated win and loss week by week, with a row per week', async () => {
+      const report = fixture('typical');
+      const { tables } = await render('typical', ['performanceTrend']);
+      const [outcomes] = vi.mocked(renderChartImage).mock.calls.map(([config]) => config);
+      const total = (values: unknown[]) => (values as number[]).reduce((sum, value) => sum + value, 0);
+      const dated = (records: { ended_at?: string | null }[]) => records.filter((record) => record.ended_at).length;
+
+      expect(outcomes.type).toBe('line');
+      expect(total(outcomes.data.datasets[0].data)).toBe(dated(report.data.missedButWinnable.recentWins));
+      expect(total(outcomes.data.datasets[1].data)).toBe(dated(report.data.missedButWinnable.marketWins));
+      // 90 days span 13 to 15 calendar weeks
+      expect(outcomes.data.labels.length).toBeGreaterThanOrEqual(13);
+      expect(outcomes.data.labels.length).toBeLessThanOrEqual(15);
+      expect(tableWithHeading(tables, ['Period', 'Wins', 'Won by others'])?.rows).toBe(outcomes.data.labels.length);
+    });
+  });
+
+  describe('department breakdown', () => {
+    it('compares every selected department in one table', async () => {
+      const departments = ['Ministry of Defence', 'Ministry of Railways', 'Department of Space'];
+      resetRecordedTables();
+      const doc = await generatePDF(
+        fixture('typical', { department: departments.join(', '), departments }),
+        { includeSections: ['departmentBreakdown'] }
+      );
+      const lines = extractText(doc).map((item) => item.text);
+
+      expect(lines).toContain(`Scope: ${departments.join(', ')}`);
+      expect(tableWithHeading([...recordedTables], ['Department', 'Won', 'Won by others', 'Win Rate'])?.rows).toBe(3);
+    });
+
+    it('lists every department with tenders, and the requested one', async () => {
+      const report = fixture('typical');
+      const { tables } = await render('typical', ['departmentBreakdown']);
+      const { recentWins, marketWins } = report.data.missedButWinnable;
+
+      expect(tableWithHeading(tables, ['Department', 'Won', 'Won by others', 'Win Rate'])?.rows)
+        .toBe(new Set([...recentWins, ...marketWins].map((win) => win.dept).concat(FIXTURE_PARAMS.department)).size);
+    });
+  });
+
+  describe('head to head', () => {
+    const compared = () => fixture('typical', { competitorName: 'Sunrise Traders' });
+
+    it('adds the comparison to the rivalry scorecard when a competitor was named', async () => {
+      const report = compared();
+      resetRecordedTables();
+      const lines = extractText(await generatePDF(report, { includeSections: ['rivalryScore'] })).map((item) => item.text);
+      const matchups = tableWithHeading([...recordedTables], ['Bid Number', 'Organization/Dept', 'Item', 'Our Price']);
+
+      expect(lines).toContain('Head to Head: Mock Typical Seller vs Sunrise Traders');
+      expect(lines.some((line) => line.startsWith('Won: '))).toBe(true);
+      expect(matchups?.rows).toBe(report.data.headToHead.sharedBids.length);
+      expect(tableWithHeading([...recordedTables], ['Item', 'Bids', 'Our Avg. Price'])).toBeDefined();
+    });
+
+    it('leaves it out of reports without a competitor', async () => {
+      const { text, tables } = await render('typical', ['rivalryScore']);
+
+      expect(text.some((item) => item.text.startsWith('Head to Head'))).toBe(false);
+      expect(tableWithHeading(tables, ['Bid Number', 'Organization/Dept', 'Item', 'Our Price'])).toBeUndefined();
+    });
+  });
+
+  describe('computed metrics', () => {
+    it('compares the win rate with the fair share instead of a fixed industry average', async () => {
+      const { text } = await render('typical', ['rivalryScore']);
+      const lines = text.map((item) => item.text);
+
+      expect(lines.some((line) => line.startsWith('Win Rate vs Fair Share:'))).toBe(true);
+      expect(lines.some((line) => line.includes('Industry Avg'))).toBe(false);
+    });
+
+    it('scores every listed competitor', async () => {
+      const { tables } = await render('heavy', ['rivalryScore']);
+      const rivals = tableWithHeading(tables, ['Rank', 'Competitor', 'Department', 'Value', 'Threat Level']);
+
+      expect(rivals?.rows).toBe(fixture('heavy').data.topSellersByDept.length);
+    });
+
+    it('documents every metric in the appendix', async () => {
+      const { tables, sections } = await render('typical', ['metricDefinitions']);
+
+      expect(sections).toContain('metricDefinitions');
+      expect(tableWithHeading(tables, ['Metric', 'This Report', 'How It Is Calculated'])?.rows).toBe(9);
+      expect(tableWithHeading(tables, ['Department', 'Won', 'Lost'])?.rows).toBeGreaterThan(0);
+    });
+  });
+
+  describe('contents and outline', () => {
+    interface OutlineNode {
+      title: string;
+      options: { pageNumber: number };
+      children: OutlineNode[];
+    }
+    // jsPDF keeps the outline tree on the document but doesn't type it
+    const outlineOf = (doc: Awaited<ReturnType<typeof generatePDF>>) =>
+      (doc.outline as typeof doc.outline & { root: OutlineNode }).root.children;
+
+    it('lists every rendered section on page 2 with the page its banner is on', async () => {
+      const { text, headings } = await render('typical', DEFAULT_SECTIONS);
+      const contents = textOnPage(text, 2);
+
+      expect(contents).toContain('Contents');
+      const sectionHeadings = headings.filter((heading) => HEADING_SECTIONS[heading.text]);
+      sectionHeadings.forEach((heading) => {
+        const row = contents.indexOf(heading.text);
+        expect(row).toBeGreaterThan(0);
+        expect(contents[row + 1]).toBe(String(heading.page));
+      });
+    });
+
+    it('links each contents row to its page', async () => {
+      const { doc, headings } = await render('typical', DEFAULT_SECTIONS);
+      const sectionCount = headings.filter((heading) => HEADING_SECTIONS[heading.text]).length;
+
+      expect(doc.output().match(/\/Subtype \/Link/g)).toHaveLength(sectionCount);
+    });
+
+    it('bookmarks each section and every likely-win opportunity', async () => {
+      const { doc, headings } = await render('typical', DEFAULT_SECTIONS);
+      const outline = outlineOf(doc);
+      const likelyWins = fixture('typical').data.missedButWinnable.ai.likely_wins.slice(0, 3);
+
+      const sectionBookmarks = outline.slice(1);
+      expect(outline[0]).toMatchObject({ title: 'Contents', options: { pageNumber: 2 } });
+      expect(sectionBookmarks.map((bookmark) => bookmark.title)).toEqual(
+        headings.filter((heading) => HEADING_SECTIONS[heading.text]).map((heading) => heading.text)
+      );
+
+      const aiBookmark = sectionBookmarks.find((bookmark) => bookmark.title === SECTION_HEADINGS.aiInsights);
+      expect(aiBookmark.children.map((child) => child.title)).toEqual(
+        likelyWins.map((_, index) => expect.stringMatching(new RegExp(`^Opportunity #${index + 1}`)))
+      );
+    });
+
+    it('leaves out the contents page when no section has anything to show', async () => {
+      const report = fixture('no-wins');
+      report.data.missedButWinnable.ai = undefined;
+
+      const doc = await generatePDF(report, { includeSections: [] });
+      expect(textOnPage(extractText(doc), 1)).not.toContain('Contents');
+      expect(outlineOf(doc)).toEqual([]);
+    });
+  });
+
+  describe('table row counts', () => {
+    it('lists at most 20 recent wins', async () => {
+      const sparse = await render('sparse', []);
+      expect(tableWithHeading(sparse.tables, ['#', 'Bid Number', 'Organization', 'Department', 'Qty'])?.rows).toBe(2);
+
+      const heavy = await render('heavy', []);
+      expect(tableWithHeading(heavy.tables, ['#', 'Bid Number', 'Organization', 'Department', 'Qty'])?.rows).toBe(20);
+    });
+
+    it('lists at most 10 low-competition tenders and counts all of them', async () => {
+      const { tables, text } = await render('low-competition', ['lowCompetition']);
+
+      expect(tableWithHeading(tables, ['#', 'Bid Number', 'Organization', 'Department', 'Value', 'Competition'])?.rows).toBe(10);
+      expect(text.map((item) => item.text)).toContain('Total Low-Competition Opportunities: 2500');
+    });
+
+    it('lists at most 10 missed tenders', async () => {
+      const { tables } = await render('typical', ['missedTenders']);
+      expect(tableWithHeading(tables, ['#', 'Bid Number', 'Organization', 'Department', 'Value', 'End Date'])?.rows).toBe(10);
+    });
+
+    it('lists at most 15 states', async () => {
+      const heavy = await render('heavy', ['topStates']);
+      expect(tableWithHeading(heavy.tables, ['Rank', 'State / UT'])?.rows).toBe(15);
+
+      const sparse = await render('sparse', ['topStates']);
+      expect(tableWithHeading(sparse.tables, ['Rank', 'State / UT'])?.rows).toBe(1);
+    });
+
+    it('draws no tables for empty data', async () => {
+      const { tables, text } = await render('no-wins', ['missedTenders', 'lowCompetition', 'topStates']);
+
+      expect(tables).toEqual([]);
+      const allText = text.map((item) => item.text);
+      expect(allText).toContain('No missed opportunities identified in the analysis period.');
+      expect(allText).toContain('No low-competition opportunities identified in the current analysis.');
+      expect(allText).toContain('Geographic data not available in the current analysis.');
+    });
+  });
+
+  // Helvetica can't draw Devanagari, so these check the strings handed to the tables
+  describe('language', () => {
+    it('labels tables in Hindi', async () => {
+      const { tables } = await render('typical', ['topStates'], 'hi');
+
+      expect(tableWithHeading(tables, ['#', 'बोली संख्या', 'संगठन', 'विभाग', 'मात्रा'])?.rows).toBeGreaterThan(0);
+      expect(tableWithHeading(tables, ['क्रम', 'राज्य / केंद्र शासित प्रदेश'])).toBeDefined();
+    });
+
+    it('pairs English and Hindi labels in a bilingual report', async () => {
+      const { tables } = await render('typical', [], 'bilingual');
+
+      expect(tableWithHeading(tables, ['#', 'Bid Number / बोली संख्या', 'Organization / संगठन'])).toBeDefined();
+    });
+
+    it('writes Hindi bookmark titles as UTF-16 text strings', async () => {
+      const { doc } = await render('typical', [], 'hi');
+
+      // A byte order mark, then "वि" (U+0935 U+093F) of "विषय सूची"
+      expect(doc.output()).toContain('/Title (\xfe\xff\x09\x35\x09\x3f');
+    });
+  });
+
+  describe('branding', () => {
+    const BRANDING: ReportBranding = {
+      primaryColor: [128, 0, 64],
+      accentColor: [0, 128, 96],
+      coverTitle: 'Acme Tender Intelligence',
+      footerDisclaimer: 'Prepared by Acme Consulting from public procurement records. Figures are indicative.',
+      contactLine: 'Acme Consulting | reports@acme.example',
+      // 1x1 opaque PNG, so no separate transparency mask is embedded
+      logo: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGNoYHAAAAHEAMGYZjUWAAAAAElFTkSuQmCC',
+    };
+
+    const renderBranded = async (branding: ReportBranding) => {
+      resetRecordedTables();
+      const doc = await generatePDF(fixture('typical'), { includeSections: DEFAULT_SECTIONS }, branding);
+      return { doc, text: extractText(doc) };
+    };
+
+    it('replaces the cover title and running header', async () => {
+      const { doc, text } = await renderBranded(BRANDING);
+
+      expect(textOnPage(text, 1)).toContain('Acme Tender Intelligence');
+      expect(textOnPage(text, 1)).not.toContain('Comprehensive Performance Report');
+      for (let page = 2; page <= getPageCount(doc); page++) {
+        expect(textOnPage(text, page)).toContain('Acme Tender Intelligence');
+        expect(textOnPage(text, page)).not.toContain('Government Tender Performance Analysis');
+      }
+    });
+
+    it('prints the contact line and disclaimer on every page', async () => {
+      const { doc, text } = await renderBranded(BRANDING);
+
+      for (let page = 1; page <= getPageCount(doc); page++) {
+        expect(textOnPage(text, page)).toContain('Acme Consulting | reports@acme.example');
+        expect(textOnPage(text, page).some((line) => line.startsWith('Prepared by Acme Consulting'))).toBe(true);
+      }
+    });
+
+    // Charts are images too, so count the images a report has without a logo
+    const imageCount = (doc: Awaited<ReturnType<typeof generatePDF>>) =>
+      doc.output().match(/\/Subtype \/Image/g)?.length ?? 0;
+
+    it('embeds the logo once and keeps the page count', async () => {
+      const { doc } = await renderBranded(BRANDING);
+      const plain = await render('typical', DEFAULT_SECTIONS);
+
+      expect(getPageCount(doc)).toBe(plain.pageCount);
+      expect(imageCount(doc)).toBe(imageCount(plain.doc) + 1);
+    });
+
+    it('leaves out a logo that cannot be decoded', async () => {
+      const { doc, text } = await renderBranded({ ...BRANDING, logo: 'data:image/png;base64,bm90IGFuIGltYWdl' });
+      const plain = await render('typical', DEFAULT_SECTIONS);
+
+      expect(textOnPage(text, 1)).toContain('Acme Tender Intelligence');
+      expect(imageCount(doc)).toBe(imageCount(plain.doc));
+    });
+  });
+});
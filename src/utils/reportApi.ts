@@ -0,0 +1,102 @@
+import type { ReportLanguage } from '@/i18n/languages';
+import { supabase } from '@/integrations/supabase/client';
+import { reportConfig } from '@/utils/reportConfig';
+import type { ReportDataFormat } from '@/utils/reportExport';
+import type { ReportParams } from '@/utils/reportStorage';
+
+export interface ReportRequestPayload extends ReportParams {
+  filters: {
+    includeSections: string[];
+    /** Language of the PDF text; English when omitted. */
+    language?: ReportLanguage;
+  };
+  userId: string;
+  /** Raw-data files to download alongside the PDF when the job finishes. */
+  downloads?: ReportDataFormat[];
+}
+
+/** A failed report request, with a short title suitable for a toast. */
+export class ReportApiError extends Error {
+  constructor(public title: string, message: string, public status?: number) {
+    super(message);
+    this.name = 'ReportApiError';
+  }
+}
+
+/**
+ * Queue a report job with the proxy-pdf edge function and return its id.
+ * This is the only place the app talks to the report service; the endpoint
+ * and named backend come from reportConfig.
+ * The proxy reserves one credit, calls the tender-analytics backend in the
+ * background and refunds the credit if that call fails; progress is tracked
+ * in the report_jobs table (see utils/reportJobs).
+ */
+export const submitReportJob = async (payload: ReportRequestPayload): Promise<string> => {
+  console.log('Queuing report generation request:', payload);
+
+  let response: Response;
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    response = await fetch(reportConfig.proxyUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token}`,
+        'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      },
+      body: JSON.stringify({ ...payload, backend: reportConfig.backend }),
+    });
+  } catch (fetchError) {
+    console.error('Network connection error:', fetchError);
+
+    if (fetchError instanceof TypeError) {
+      throw new ReportApiError(
+        'Connection Failed',
+        'Unable to connect to the report service. Please check your internet connection and try again.'
+      );
+    }
+    const message = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    throw new ReportApiError(
+      'Network Error',
+      `Cannot reach server: ${message}. Please check your internet connection.`
+    );
+  }
+
+  // Handle HTTP error responses
+  if (!response.ok) {
+    let errorMessage = `Server error (Status ${response.status})`;
+
+    try {
+      const errorData = await response.clone().json();
+      errorMessage = errorData.message || errorData.error || errorData.detail || errorMessage;
+      console.error('API error response:', errorData);
+    } catch {
+      // If JSON parsing fails, try text
+      try {
+        const errorText = await response.text();
+        if (errorText) errorMessage = errorText;
+      } catch {
+        // Use default error message
+      }
+    }
+
+    throw new ReportApiError(`API Error (${response.status})`, errorMessage, response.status);
+  }
+
+  let jobId: string | undefined;
+  try {
+    ({ jobId } = await response.json());
+  } catch (parseError) {
+    console.error('Failed to parse server response:', parseError);
+  }
+
+  if (!jobId) {
+    throw new ReportApiError(
+      'Invalid Response Format',
+      'The server did not return a job id. Please contact support.'
+    );
+  }
+
+  return jobId;
+};
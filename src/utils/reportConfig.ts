@@ -0,0 +1,29 @@
+// Client-side report service configuration, read from Vite env at build time.
+//
+//   VITE_REPORT_BACKEND    Named backend the proxy forwards to: production (default),
+//                          staging or local. URLs live in the edge function's secrets,
+//                          which also list the names the deployment accepts.
+//   VITE_REPORT_PROXY_URL  Override for the proxy endpoint, e.g. a locally served
+//                          function. Defaults to the project's proxy-pdf function.
+//   VITE_REPORT_HEAD_TO_HEAD  "true" offers the head-to-head comparison mode. It needs
+//                          the backend to answer competitorName with a data.headToHead
+//                          block, which only the mock backend does so far, so it is off
+//                          by default.
+
+export const REPORT_BACKENDS = ['production', 'staging', 'local'] as const;
+
+export type ReportBackend = typeof REPORT_BACKENDS[number];
+
+const resolveBackend = (value: string | undefined): ReportBackend => {
+  if (!value) return 'production';
+  if ((REPORT_BACKENDS as readonly string[]).includes(value)) return value as ReportBackend;
+
+  console.warn(`Unknown VITE_REPORT_BACKEND "${value}", falling back to production`);
+  return 'production';
+};
+
+export const reportConfig = {
+  backend: resolveBackend(import.meta.env.VITE_REPORT_BACKEND),
+  proxyUrl: import.meta.env.VITE_REPORT_PROXY_URL || `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/proxy-pdf`,
+  headToHead: import.meta.env.VITE_REPORT_HEAD_TO_HEAD === 'true',
+};
@@ -0,0 +1,110 @@
+import JSZip from 'jszip';
+import { describe, expect, it, vi } from 'vitest';
+import { fixture } from '@/test/fixtures';
+import { buildRawDataTables, generateCsvArchive, generateJson, toCsv } from '@/utils/reportExport';
+import type { ReportTable } from '@/utils/reportTables';
+
+// The download helpers share a module with storage; the client needs a browser to load
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('toCsv', () => {
+  it('quotes fields containing commas, quotes or line breaks', () => {
+    const table: ReportTable = {
+      name: 'escaping',
+      columns: [
+        { header: 'Name', type: 'text' },
+        { header: 'Value', type: 'currency' },
+      ],
+      rows: [
+        ['Plain', 1500],
+        ['Chairs, Tables', 2],
+        ['The "Best" Seller', 3.5],
+        ['Line\nbreak', null],
+      ],
+    };
+
+    expect(toCsv(table)).toBe(
+      'Name,Value\r\n' +
+      'Plain,1500\r\n' +
+      '"Chairs, Tables",2\r\n' +
+      '"The ""Best"" Seller",3.5\r\n' +
+      '"Line\nbreak",\r\n'
+    );
+  });
+
+  it('neutralises text that spreadsheets would run as a formula', () => {
+    const table: ReportTable = {
+      name: 'formulas',
+      columns: [
+        { header: 'Seller', type: 'text' },
+        { header: 'Value', type: 'currency' },
+      ],
+      rows: [
+        ['=HYPERLINK("http://example.com","Click")', -250],
+        ['+91 Traders', 1],
+        ['-Rival-', 2],
+        ['@SUM(A1:A2)', 3],
+        ['Plain - Seller', 4],
+      ],
+    };
+
+    expect(toCsv(table)).toBe(
+      'Seller,Value\r\n' +
+      '"\'=HYPERLINK(""http://example.com"",""Click"")",-250\r\n' +
+      "'+91 Traders,1\r\n" +
+      "'-Rival-,2\r\n" +
+      "'@SUM(A1:A2),3\r\n" +
+      'Plain - Seller,4\r\n'
+    );
+  });
+
+  it('writes dates as ISO 8601', () => {
+    const table: ReportTable = {
+      name: 'dates',
+      columns: [{ header: 'End Date', type: 'date' }],
+      rows: [[new Date('2024-03-01T10:30:00Z')]],
+    };
+
+    expect(toCsv(table)).toBe('End Date\r\n2024-03-01T10:30:00.000Z\r\n');
+  });
+});
+
+describe('buildRawDataTables', () => {
+  it('keeps every record from the backend data', () => {
+    const report = fixture('heavy');
+    const tables = Object.fromEntries(buildRawDataTables(report).map((table) => [table.name, table]));
+
+    expect(Object.keys(tables)).toEqual([
+      'wins', 'market_wins', 'low_competition_bids', 'states', 'top_sellers', 'categories',
+    ]);
+    expect(tables.wins.rows).toHaveLength(report.data.missedButWinnable.recentWins.length);
+    expect(tables.market_wins.rows).toHaveLength(report.data.missedButWinnable.marketWins.length);
+    expect(tables.low_competition_bids.rows).toHaveLength(report.data.lowCompetitionBids.results.length);
+    expect(tables.states.rows).toHaveLength(report.data.topPerformingStates.length);
+    expect(tables.top_sellers.rows).toHaveLength(report.data.topSellersByDept.length);
+    expect(tables.categories.rows).toHaveLength(report.data.categoryListing.length);
+  });
+});
+
+describe('generateCsvArchive', () => {
+  it('zips one UTF-8 CSV per table', async () => {
+    const report = fixture('unicode');
+    const zip = await JSZip.loadAsync(await (await generateCsvArchive(report)).arrayBuffer());
+
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'categories.csv', 'low_competition_bids.csv', 'market_wins.csv', 'states.csv', 'top_sellers.csv', 'wins.csv',
+    ]);
+
+    const wins = await zip.file('wins.csv')!.async('string');
+    expect(wins.startsWith('\uFEFFBid Number,Organization,')).toBe(true);
+    expect(wins).toContain(report.data.missedButWinnable.recentWins[0].org);
+  });
+});
+
+describe('generateJson', () => {
+  it('round-trips the report data', async () => {
+    const report = fixture('typical');
+
+    expect(JSON.parse(await generateJson(report).text())).toEqual(report);
+  });
+});
@@ -0,0 +1,130 @@
+import JSZip from 'jszip';
+import type { ReportData } from '@/utils/reportSchema';
+import { buildReportFileName, downloadBlob } from '@/utils/reportStorage';
+import { TENDER_COLUMNS, tenderRow, toNumber, type ReportCell, type ReportTable } from '@/utils/reportTables';
+
+// Raw-data downloads for loading reports into other tools. These mirror the
+// backend data rather than the PDF's sections, so they don't depend on which
+// sections were selected.
+
+export type ReportDataFormat = 'xlsx' | 'csv' | 'json';
+
+export const DATA_FORMATS: { id: ReportDataFormat; label: string; description: string }[] = [
+  { id: 'xlsx', label: 'Excel', description: 'One worksheet per report section' },
+  { id: 'csv', label: 'CSV', description: 'Flat tables of the raw data, zipped' },
+  { id: 'json', label: 'JSON', description: 'The complete normalized report data' },
+];
+
+const FILE_EXTENSIONS: Record<ReportDataFormat, string> = {
+  xlsx: 'xlsx',
+  csv: 'csv.zip',
+  json: 'json',
+};
+
+/** The flat tables written to CSV, named after the file each becomes. */
+export const buildRawDataTables = (reportData: ReportData): ReportTable[] => {
+  const { data } = reportData;
+
+  return [
+    {
+      name: 'wins',
+      columns: TENDER_COLUMNS,
+      rows: (data.missedButWinnable?.recentWins || []).map(tenderRow),
+    },
+    {
+      name: 'market_wins',
+      columns: TENDER_COLUMNS,
+      rows: (data.missedButWinnable?.marketWins || []).map(tenderRow),
+    },
+    {
+      name: 'low_competition_bids',
+      columns: [...TENDER_COLUMNS, { header: 'Bidders', type: 'integer' }],
+      rows: (data.lowCompetitionBids?.results || []).map((bid) => [...tenderRow(bid), toNumber(bid.bidders_count)]),
+    },
+    {
+      name: 'states',
+      columns: [
+        { header: 'State', type: 'text' },
+        { header: 'Tender Count', type: 'integer' },
+        { header: 'Value', type: 'currency' },
+      ],
+      rows: (data.topPerformingStates || []).map((state) => [state.state, state.count, state.value]),
+    },
+    {
+      name: 'top_sellers',
+      columns: [
+        { header: 'Seller', type: 'text' },
+        { header: 'Department', type: 'text' },
+        { header: 'Value', type: 'currency' },
+      ],
+      rows: (data.topSellersByDept || []).map((seller) => [seller.seller, seller.dept, seller.value]),
+    },
+    {
+      name: 'categories',
+      columns: [
+        { header: 'Category', type: 'text' },
+        { header: 'Tender Count', type: 'integer' },
+        { header: 'Value', type: 'currency' },
+      ],
+      rows: (data.categoryListing || []).map((category) => [category.category, category.count, category.value]),
+    },
+  ];
+};
+
+// Text starting with these is run as a formula by Excel and other spreadsheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvField = (cell: ReportCell) => {
+  if (cell === null || cell === undefined) return '';
+  const text = cell instanceof Date ? cell.toISOString() : String(cell);
+  // Names come from tender data, so neutralise anything that would run on opening
+  const value = typeof cell === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/** RFC 4180 CSV: numbers unformatted, dates as ISO 8601, formula-like text prefixed with '. */
+export const toCsv = (table: ReportTable) =>
+  [table.columns.map((column) => column.header), ...table.rows]
+    .map((row) => row.map(toCsvField).join(','))
+    .join('\r\n') + '\r\n';
+
+// Lets Excel detect UTF-8, so non-Latin organisation names survive a double-click
+const UTF8_BOM = '\uFEFF';
+
+export const generateCsvArchive = async (reportData: ReportData): Promise<Blob> => {
+  const zip = new JSZip();
+  buildRawDataTables(reportData).forEach((table) => {
+    zip.file(`${table.name}.csv`, UTF8_BOM + toCsv(table));
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/** The validated report data: amounts are numbers and unknown fields are kept as received. */
+export const generateJson = (reportData: ReportData): Blob =>
+  new Blob([JSON.stringify(reportData, null, 2)], { type: 'application/json' });
+
+interface DownloadOptions {
+  sellerName: string;
+  sections: string[];
+  date?: Date;
+}
+
+/** Build and download a report's data in one of the raw-data formats. */
+export const downloadReportData = async (
+  reportData: ReportData,
+  format: ReportDataFormat,
+  { sellerName, sections, date }: DownloadOptions
+) => {
+  let blob: Blob;
+  if (format === 'xlsx') {
+    // exceljs is large; only load it when someone asks for a spreadsheet
+    const { generateXLSX } = await import('@/utils/xlsxGenerator');
+    blob = await generateXLSX(reportData, { includeSections: sections });
+  } else if (format === 'csv') {
+    blob = await generateCsvArchive(reportData);
+  } else {
+    blob = generateJson(reportData);
+  }
+
+  downloadBlob(blob, buildReportFileName(sellerName, date, FILE_EXTENSIONS[format]));
+};
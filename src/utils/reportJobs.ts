@@ -0,0 +1,121 @@
+import { isReportLanguage, type ReportLanguage } from '@/i18n/languages';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { loadReportBranding } from '@/utils/branding';
+import { generatePDF } from '@/utils/pdfGenerator';
+import type { ReportRequestPayload } from '@/utils/reportApi';
+import type { ReportDataFormat } from '@/utils/reportExport';
+import { buildReportFileName, fetchReportData, uploadReportPdf, type ReportParams } from '@/utils/reportStorage';
+
+export type ReportJobStatus = 'queued' | 'fetching_data' | 'rendering' | 'claimed' | 'done' | 'failed';
+
+export type ReportJob = Omit<Tables<'report_jobs'>, 'status'> & {
+  status: ReportJobStatus;
+};
+
+export const ACTIVE_JOB_STATUSES: ReportJobStatus[] = ['queued', 'fetching_data', 'rendering', 'claimed'];
+
+export const JOB_STATUS_PROGRESS: Record<ReportJobStatus, number> = {
+  queued: 15,
+  fetching_data: 45,
+  rendering: 75,
+  claimed: 90,
+  done: 100,
+  failed: 100,
+};
+
+const JOB_COLUMNS =
+  'id, user_id, status, params, sections, error, report_id, credit_transaction_id, dismissed, created_at, updated_at';
+
+const RECENT_JOBS_DAYS = 7;
+
+export const isActiveJob = (job: ReportJob) => ACTIVE_JOB_STATUSES.includes(job.status);
+
+// A claim older than this was left by a closed tab and may be taken over (see claim_report_job)
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Whether the job's data is waiting for a tab to render it. */
+export const isJobRenderable = (job: ReportJob) =>
+  job.status === 'rendering'
+  || (job.status === 'claimed' && Date.now() - new Date(job.updated_at).getTime() > CLAIM_TIMEOUT_MS);
+
+export const getJobParams = (job: ReportJob): ReportParams => {
+  const { filters, userId, downloads, ...params } = job.params as unknown as ReportRequestPayload;
+  return params;
+};
+
+export const getJobLanguage = (job: ReportJob): ReportLanguage => {
+  const language = (job.params as unknown as ReportRequestPayload).filters?.language;
+  return isReportLanguage(language) ? language : 'en';
+};
+
+export const getJobDownloads = (job: ReportJob): ReportDataFormat[] =>
+  (job.params as unknown as ReportRequestPayload).downloads ?? [];
+
+/** Jobs from the last week the user hasn't dismissed, newest first. */
+export const fetchRecentJobs = async (): Promise<ReportJob[]> => {
+  const since = new Date(Date.now() - RECENT_JOBS_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('report_jobs')
+    .select(JOB_COLUMNS)
+    .eq('dismissed', false)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(20);
+  if (error) throw error;
+
+  return (data || []) as ReportJob[];
+};
+
+export const dismissJob = async (jobId: string) => {
+  const { error } = await supabase.from('report_jobs').update({ dismissed: true }).eq('id', jobId);
+  if (error) throw error;
+};
+
+const failJob = async (jobId: string, message: string) => {
+  const { error } = await supabase.rpc('fail_report_job', { p_job_id: jobId, p_error: message });
+  if (error) console.error(`Failed to mark report job ${jobId} as failed:`, error);
+};
+
+/**
+ * Take a job whose report is waiting for its PDF so this tab, and no other,
+ * renders it. Returns the report id, or null when another tab already has the job.
+ */
+const claimJob = async (jobId: string) => {
+  const { data, error } = await supabase.rpc('claim_report_job', { p_job_id: jobId });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Finish a job whose report proxy-pdf has saved, and charged for: claim it, build
+ * the PDF in the browser, attach it to the report and mark the job done. If that
+ * fails the job fails; the report stays in Report History to re-render for free.
+ * Resolves to null when another tab is rendering the job.
+ */
+export const renderJobReport = async (job: ReportJob, userId: string) => {
+  const reportId = await claimJob(job.id);
+  if (!reportId) return null;
+
+  try {
+    const reportData = await fetchReportData(reportId);
+    const params = getJobParams(job);
+
+    const pdfDoc = await generatePDF(
+      reportData,
+      { includeSections: job.sections, language: getJobLanguage(job) },
+      await loadReportBranding()
+    );
+    await uploadReportPdf(userId, reportId, pdfDoc.output('blob'));
+
+    const { error: completeError } = await supabase.rpc('complete_report_job', { p_job_id: job.id });
+    if (completeError) throw completeError;
+
+    return { pdfDoc, reportData, fileName: buildReportFileName(params.sellerName) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    await failJob(job.id, `PDF rendering failed: ${message}`);
+    throw error;
+  }
+};
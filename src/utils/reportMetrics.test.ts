@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { computeDepartmentWinRates, computeReportMetrics, scoreCompetitors } from '@/utils/reportMetrics';
+import type { ReportData, WinRecord } from '@/utils/reportSchema';
+
+const win = (dept: string, total_price: number): WinRecord => ({ dept, total_price });
+
+const report = (data: Partial<ReportData['data']> & Pick<ReportData['data'], 'missedButWinnable'>): ReportData => ({
+  meta: {
+    report_generated_at: '2025-01-15T10:30:00.000Z',
+    params_used: { sellerName: 'Acme Supplies', department: 'Railways', offeredItem: 'Chairs', days: 30, limit: 100, email: '' },
+  },
+  data,
+});
+
+const missedButWinnable = (recentWins: WinRecord[], marketWins: WinRecord[]) => ({
+  seller: 'Acme Supplies',
+  recentWins,
+  marketWins,
+  ai: {
+    strategy_summary: '',
+    signals: { org_affinity: [], dept_affinity: [], ministry_affinity: [], quantity_ranges: [], price_ranges: [] },
+  },
+});
+
+describe('computeReportMetrics', () => {
+  it('shares value between our wins and every tender in scope', () => {
+    const metrics = computeReportMetrics(report({
+      missedButWinnable: missedButWinnable([win('Railways', 3000)], [win('Railways', 5000), win('Defence', 2000)]),
+    }));
+
+    expect(metrics.valueInScope).toBe(10000);
+    expect(metrics.valueShare).toBeCloseTo(0.3);
+  });
+
+  it('sizes the market from the category listing when there is one', () => {
+    const wins = missedButWinnable([win('Railways', 3000)], [win('Railways', 5000)]);
+
+    expect(computeReportMetrics(report({
+      missedButWinnable: wins,
+      categoryListing: [{ category: 'Chairs', count: 4, value: 90000 }, { category: 'Desks', count: 1, value: 10000 }],
+    }))).toMatchObject({ marketSize: 100000, marketSizeSource: 'categoryListing' });
+    expect(computeReportMetrics(report({ missedButWinnable: wins }))).toMatchObject({
+      marketSize: 8000,
+      marketSizeSource: 'tendersInScope',
+    });
+  });
+
+  it('has no value share or benchmark without the data for them', () => {
+    const metrics = computeReportMetrics(report({ missedButWinnable: missedButWinnable([], []) }));
+
+    expect(metrics.valueShare).toBeNull();
+    expect(metrics.benchmarkWinRate).toBeNull();
+  });
+
+  it('weights the fair-share benchmark by our tenders in each department', () => {
+    const metrics = computeReportMetrics(report({
+      missedButWinnable: missedButWinnable(
+        [win('Railways', 1), win('Railways', 1), win('Defence', 1)],
+        [win('Railways', 1), win('Health', 1)]
+      ),
+      topSellersByDept: [
+        { seller: 'Rival One', dept: 'Railways', value: 100 },
+        { seller: 'Rival Two', dept: 'railways ', value: 100 },
+        { seller: 'Rival One', dept: 'Defence', value: 100 },
+        { seller: 'Acme Supplies', dept: 'Health', value: 100 },
+      ],
+    }));
+
+    // Railways: 3 tenders at 1/3, Defence: 1 tender at 1/2, Health: no competitors listed
+    expect(metrics.benchmarkWinRate).toBeCloseTo((3 * (100 / 3) + 1 * 50) / 4);
+  });
+});
+
+describe('computeDepartmentWinRates', () => {
+  it('counts wins, losses and listed competitors per department, busiest first', () => {
+    const rates = computeDepartmentWinRates(
+      [win('Defence', 1), win('Railways', 1)],
+      [win('Railways', 1), win('Railways', 1)],
+      [{ seller: 'Rival One', dept: 'Railways', value: 1 }, { seller: 'Rival One', dept: 'Railways', value: 2 }]
+    );
+
+    expect(rates).toEqual([
+      { dept: 'Railways', wins: 1, losses: 2, winRate: expect.closeTo(33.33, 2), competitors: 1, fairShare: 50 },
+      { dept: 'Defence', wins: 1, losses: 0, winRate: 100, competitors: 0, fairShare: null },
+    ]);
+  });
+});
+
+describe('scoreCompetitors', () => {
+  it('scores competitors on value and overlap with our departments', () => {
+    const reportData = report({
+      missedButWinnable: missedButWinnable([win('Railways', 1), win('Railways', 1)], [win('Railways', 1), win('Defence', 1)]),
+      topSellersByDept: [
+        { seller: 'Big Elsewhere', dept: 'Space', value: 1000 },
+        { seller: 'Close Rival', dept: 'Railways', value: 500 },
+        { seller: 'Small Rival', dept: 'Defence', value: 100 },
+      ],
+    });
+
+    const threats = scoreCompetitors(reportData, computeReportMetrics(reportData));
+
+    expect(threats.map(({ seller, score, level }) => ({ seller, score, level }))).toEqual([
+      { seller: 'Close Rival', score: 70, level: 'high' },
+      { seller: 'Big Elsewhere', score: 60, level: 'high' },
+      { seller: 'Small Rival', score: 19, level: 'low' },
+    ]);
+  });
+});
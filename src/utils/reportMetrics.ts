@@ -0,0 +1,183 @@
+import type { ReportData, WinRecord } from '@/utils/reportSchema';
+
+// Figures derived from report data. Every one is computed from what the backend
+// returned, never assumed; the PDF's Metric Definitions appendix explains each of
+// them, so keep it in step with the calculations here.
+
+export interface DepartmentWinRate {
+  dept: string;
+  wins: number;
+  losses: number;
+  /** Percentage of the department's tenders in scope we won. */
+  winRate: number;
+  /** Distinct other sellers listed among the department's top sellers. */
+  competitors: number;
+  /** The win rate each seller would have if the department's tenders were shared evenly; null without competitor data. */
+  fairShare: number | null;
+}
+
+export type MarketSizeSource = 'categoryListing' | 'tendersInScope';
+
+/** Figures several sections share, computed once per report. */
+export interface ReportMetrics {
+  wins: WinRecord[];
+  marketWins: WinRecord[];
+  totalBids: number;
+  successCount: number;
+  losses: number;
+  winRate: string;
+  totalValue: number;
+  avgValue: number;
+  avgBidsPerDay: string;
+  /** Value of every tender in scope: ours and those won by other sellers. */
+  valueInScope: number;
+  /** Our share of valueInScope, 0 to 1; null when nothing in scope has a value. */
+  valueShare: number | null;
+  /** Value of the offered categories' market, or of the tenders in scope when there's no category listing. */
+  marketSize: number;
+  marketSizeSource: MarketSizeSource;
+  departmentWinRates: DepartmentWinRate[];
+  /** Fair-share win rate across our departments, weighted by our tenders in each; null without competitor data. */
+  benchmarkWinRate: number | null;
+}
+
+export type ThreatLevel = 'high' | 'medium' | 'low';
+
+export interface CompetitorThreat {
+  seller: string;
+  dept: string;
+  value: number;
+  /** 0 to 100: 60% from value relative to the largest competitor, 40% from overlap with our departments. */
+  score: number;
+  level: ThreatLevel;
+}
+
+// Weights and cut-offs for threat scores; documented in the appendix
+export const THREAT_WEIGHTS = { value: 0.6, overlap: 0.4 };
+export const THREAT_LEVELS = { high: 60, medium: 30 };
+
+const normalize = (name?: string | null) => (name || '').trim().toLowerCase();
+
+const sumValues = (records: WinRecord[]) => records.reduce((sum, record) => sum + (record.total_price || 0), 0);
+
+/** Our tenders in scope (won and lost) per department, keyed by normalised name. */
+const tendersByDepartment = (wins: WinRecord[], marketWins: WinRecord[]) => {
+  const counts = new Map<string, number>();
+  [...wins, ...marketWins].forEach((record) => {
+    const key = normalize(record.dept);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+};
+
+/** Win rate per department we had tenders in, with each department's fair-share rate, busiest first. */
+export const computeDepartmentWinRates = (
+  wins: WinRecord[],
+  marketWins: WinRecord[],
+  topSellers: ReportData['data']['topSellersByDept'] = [],
+  sellerName = ''
+): DepartmentWinRate[] => {
+  const departments = new Map<string, { dept: string; wins: number; losses: number }>();
+  const count = (records: WinRecord[], side: 'wins' | 'losses') =>
+    records.forEach((record) => {
+      const key = normalize(record.dept);
+      const entry = departments.get(key) ?? { dept: record.dept || 'Unknown', wins: 0, losses: 0 };
+      entry[side] += 1;
+      departments.set(key, entry);
+    });
+  count(wins, 'wins');
+  count(marketWins, 'losses');
+
+  const competitors = new Map<string, Set<string>>();
+  topSellers.forEach(({ seller, dept }) => {
+    if (!seller || normalize(seller) === normalize(sellerName)) return;
+    const sellers = competitors.get(normalize(dept)) ?? new Set<string>();
+    sellers.add(normalize(seller));
+    competitors.set(normalize(dept), sellers);
+  });
+
+  return [...departments.entries()]
+    .map(([key, { dept, wins: won, losses }]) => {
+      const rivals = competitors.get(key)?.size ?? 0;
+      return {
+        dept,
+        wins: won,
+        losses,
+        winRate: (won / (won + losses)) * 100,
+        competitors: rivals,
+        fairShare: rivals > 0 ? 100 / (rivals + 1) : null,
+      };
+    })
+    .sort((a, b) => b.wins + b.losses - (a.wins + a.losses) || a.dept.localeCompare(b.dept));
+};
+
+/** Fair-share rates averaged over the departments that have them, weighted by our tenders in each. */
+const weightedFairShare = (departments: DepartmentWinRate[]) => {
+  const rated = departments.filter((department) => department.fairShare !== null);
+  const tenders = rated.reduce((sum, department) => sum + department.wins + department.losses, 0);
+  if (tenders === 0) return null;
+  return rated.reduce((sum, department) => sum + department.fairShare * (department.wins + department.losses), 0) / tenders;
+};
+
+export const computeReportMetrics = (reportData: ReportData): ReportMetrics => {
+  const wins = reportData.data.missedButWinnable?.recentWins || [];
+  const marketWins = reportData.data.missedButWinnable?.marketWins || [];
+  const totalBids = wins.length + marketWins.length;
+  const successCount = wins.length;
+  const losses = marketWins.length;
+  const winRate = totalBids > 0 ? ((successCount / totalBids) * 100).toFixed(1) : '0.0';
+
+  const totalValue = sumValues(wins);
+  const avgValue = successCount > 0 ? Math.round(totalValue / successCount) : 0;
+  const avgBidsPerDay = (totalBids / reportData.meta.params_used.days).toFixed(2);
+
+  const valueInScope = totalValue + sumValues(marketWins);
+  const categoryValue = (reportData.data.categoryListing || []).reduce((sum, category) => sum + (category.value || 0), 0);
+  const departmentWinRates = computeDepartmentWinRates(
+    wins,
+    marketWins,
+    reportData.data.topSellersByDept,
+    reportData.meta.params_used.sellerName
+  );
+
+  return {
+    wins,
+    marketWins,
+    totalBids,
+    successCount,
+    losses,
+    winRate,
+    totalValue,
+    avgValue,
+    avgBidsPerDay,
+    valueInScope,
+    valueShare: valueInScope > 0 ? totalValue / valueInScope : null,
+    marketSize: categoryValue > 0 ? categoryValue : valueInScope,
+    marketSizeSource: categoryValue > 0 ? 'categoryListing' : 'tendersInScope',
+    departmentWinRates,
+    benchmarkWinRate: weightedFairShare(departmentWinRates),
+  };
+};
+
+/**
+ * Score each listed competitor by how much they win and how much of our
+ * business is in their department, most threatening first.
+ */
+export const scoreCompetitors = (reportData: ReportData, metrics: ReportMetrics): CompetitorThreat[] => {
+  const sellers = reportData.data.topSellersByDept || [];
+  const ourTenders = tendersByDepartment(metrics.wins, metrics.marketWins);
+  const overlapOf = (dept: string) => (metrics.totalBids > 0 ? (ourTenders.get(normalize(dept)) ?? 0) / metrics.totalBids : 0);
+
+  const maxValue = Math.max(0, ...sellers.map((seller) => seller.value || 0));
+  const maxOverlap = Math.max(0, ...sellers.map((seller) => overlapOf(seller.dept)));
+
+  return sellers
+    .map((seller) => {
+      const valueScore = maxValue > 0 ? (seller.value || 0) / maxValue : 0;
+      const overlapScore = maxOverlap > 0 ? overlapOf(seller.dept) / maxOverlap : 0;
+      const score = Math.round(100 * (THREAT_WEIGHTS.value * valueScore + THREAT_WEIGHTS.overlap * overlapScore));
+      const level: ThreatLevel = score >= THREAT_LEVELS.high ? 'high' : score >= THREAT_LEVELS.medium ? 'medium' : 'low';
+      return { seller: seller.seller, dept: seller.dept, value: seller.value || 0, score, level };
+    })
+    .sort((a, b) => b.score - a.score || b.value - a.value);
+};
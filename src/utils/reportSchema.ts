@@ -0,0 +1,21 @@
+import { summarizeIssues, validateReportData, type ReportData } from '../../supabase/functions/_shared/reportSchema';
+
+// The schema itself lives with the edge functions so proxy-pdf can validate with it too
+export * from '../../supabase/functions/_shared/reportSchema';
+
+/** Backend data that doesn't match the report contract; issues name each bad field. */
+export class ReportDataValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`The report data is incomplete or malformed: ${summarizeIssues(issues)}`);
+    this.name = 'ReportDataValidationError';
+  }
+}
+
+export const parseReportData = (input: unknown): ReportData => {
+  const result = validateReportData(input);
+  if (result.success === false) {
+    console.error('Report data failed validation:', result.issues);
+    throw new ReportDataValidationError(result.issues);
+  }
+  return result.data;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ALL_DEPARTMENTS,
+  computeDepartmentBreakdown,
+  departmentLabel,
+  describeDepartments,
+  reportDepartments,
+  scopeFields,
+  singleDepartment,
+} from '@/utils/reportScope';
+import type { ReportData, WinRecord } from '@/utils/reportSchema';
+
+const win = (dept: string, total_price: number, org?: string): WinRecord => ({ dept, total_price, org });
+
+const params = (scope: Partial<ReportData['meta']['params_used']>): ReportData['meta']['params_used'] => ({
+  sellerName: 'Acme Supplies',
+  department: 'Railways',
+  offeredItem: 'Chairs',
+  days: 30,
+  limit: 100,
+  email: '',
+  ...scope,
+});
+
+const report = (
+  scope: Partial<ReportData['meta']['params_used']>,
+  recentWins: WinRecord[],
+  marketWins: WinRecord[],
+  topSellersByDept: ReportData['data']['topSellersByDept'] = []
+): ReportData => ({
+  meta: { report_generated_at: '2025-01-15T10:30:00.000Z', params_used: params(scope) },
+  data: {
+    topSellersByDept,
+    missedButWinnable: {
+      seller: 'Acme Supplies',
+      recentWins,
+      marketWins,
+      ai: {
+        strategy_summary: '',
+        signals: { org_affinity: [], dept_affinity: [], ministry_affinity: [], quantity_ranges: [], price_ranges: [] },
+      },
+    },
+  },
+});
+
+describe('report scope', () => {
+  it('labels a selection, or all departments when nothing is selected', () => {
+    expect(describeDepartments(['Railways', 'Defence'])).toBe('Railways, Defence');
+    expect(describeDepartments([])).toBe(ALL_DEPARTMENTS);
+  });
+
+  it('sends each kind of buyer in its own field', () => {
+    expect(scopeFields([
+      { name: 'Railways', kind: 'department' },
+      { name: 'Ministry of Power', kind: 'ministry' },
+      { name: 'NTPC', kind: 'organisation' },
+    ])).toEqual({ departments: ['Railways'], ministries: ['Ministry of Power'], organisations: ['NTPC'] });
+    expect(scopeFields([])).toEqual({ departments: [], ministries: [], organisations: [] });
+  });
+
+  it('sends department only when exactly one is selected', () => {
+    expect(singleDepartment(['Railways'])).toEqual({ department: 'Railways' });
+    expect(singleDepartment(['Railways', 'Defence'])).toEqual({});
+    expect(singleDepartment([])).toEqual({});
+  });
+
+  it('labels requests with or without the single department', () => {
+    expect(departmentLabel({ departments: ['Railways', 'Defence'] })).toBe('Railways, Defence');
+    expect(departmentLabel({ departments: [] })).toBe(ALL_DEPARTMENTS);
+    expect(departmentLabel({ departments: ['Railways'], ministries: ['Ministry of Power'], organisations: [] }))
+      .toBe('Railways, Ministry of Power');
+    expect(departmentLabel({ department: 'Railways' })).toBe('Railways');
+    expect(departmentLabel({ department: null })).toBe(ALL_DEPARTMENTS);
+  });
+
+  it('reads the departments of new and older reports', () => {
+    expect(reportDepartments(params({ department: null, departments: ['Railways', 'Defence'] })))
+      .toEqual(['Railways', 'Defence']);
+    expect(reportDepartments(params({ department: ALL_DEPARTMENTS, departments: [] }))).toEqual([]);
+    expect(reportDepartments(params({ department: 'Railways' }))).toEqual(['Railways']);
+  });
+});
+
+describe('computeDepartmentBreakdown', () => {
+  it('compares results across departments, busiest first', () => {
+    const breakdown = computeDepartmentBreakdown(report(
+      { departments: ['Railways', 'Defence', 'Space'] },
+      [win('Railways', 300, 'Northern Railway'), win('Railways', 500, 'Central Railway'), win('Defence', 200, 'Indian Army')],
+      [win('railways', 1000), win('Health', 400)],
+      [
+        { seller: 'Rival One', dept: 'Railways', value: 700 },
+        { seller: 'Rival Two', dept: 'Railways', value: 900 },
+        { seller: 'Acme Supplies', dept: 'Railways', value: 5000 },
+      ]
+    ));
+
+    expect(breakdown.map(({ dept, wins, losses }) => [dept, wins, losses])).toEqual([
+      ['Railways', 2, 1],
+      ['Defence', 1, 0],
+      ['Health', 0, 1],
+      ['Space', 0, 0],
+    ]);
+    expect(breakdown[0]).toMatchObject({
+      valueWon: 800,
+      valueLost: 1000,
+      shareOfValueWon: 80,
+      topBuyer: 'Central Railway',
+      leadingCompetitor: { seller: 'Rival Two', value: 900 },
+      selected: true,
+    });
+    expect(breakdown[0].winRate).toBeCloseTo(66.67, 1);
+    expect(breakdown[2]).toMatchObject({ selected: false, winRate: 0, topBuyer: null });
+    // Requested but without tenders
+    expect(breakdown[3]).toMatchObject({ selected: true, winRate: null, leadingCompetitor: null });
+  });
+});
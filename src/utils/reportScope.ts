@@ -0,0 +1,119 @@
+import type { ScopePick } from '@/utils/departmentCatalogue';
+import type { ReportData, WinRecord } from '@/utils/reportSchema';
+
+// Which buyers a report covers. The backend filters by `departments`,
+// `ministries` and `organisations`, one field per kind of buyer picked; all empty
+// means every department. `department` is only sent when exactly one department
+// is picked, for backends from before multi-select. Report lists and search show
+// the scope as a label built by describeDepartments.
+
+export const ALL_DEPARTMENTS = 'All Departments';
+
+/** A readable label of the scope: the names joined, or ALL_DEPARTMENTS for none. */
+export const describeDepartments = (departments: string[]) =>
+  departments.length === 0 ? ALL_DEPARTMENTS : departments.join(', ');
+
+/** The scope fields of a request for the buyers picked; none picked covers every department. */
+export const scopeFields = (picks: ScopePick[]) => {
+  const named = (kind: ScopePick['kind']) => picks.filter((pick) => pick.kind === kind).map((pick) => pick.name);
+  return { departments: named('department'), ministries: named('ministry'), organisations: named('organisation') };
+};
+
+/** The single-department field of a request, set only when exactly one department is picked. */
+export const singleDepartment = (departments: string[]) =>
+  departments.length === 1 ? { department: departments[0] } : {};
+
+/** The departments a report was requested for, without ministries or organisations; empty when it covers all of them. */
+export const reportDepartments = (params: ReportData['meta']['params_used']): string[] => {
+  if (params.departments) return params.departments;
+  return params.department && params.department !== ALL_DEPARTMENTS ? [params.department] : [];
+};
+
+/** The scope label of a request or report, including those from before multi-select. */
+export const departmentLabel = (params: {
+  department?: string | null;
+  departments?: string[] | null;
+  ministries?: string[] | null;
+  organisations?: string[] | null;
+}) =>
+  params.departments
+    ? describeDepartments([...params.departments, ...(params.ministries ?? []), ...(params.organisations ?? [])])
+    : params.department || ALL_DEPARTMENTS;
+
+export interface DepartmentBreakdown {
+  dept: string;
+  wins: number;
+  losses: number;
+  /** Percentage of the department's tenders in scope we won; null when it had none. */
+  winRate: number | null;
+  valueWon: number;
+  valueLost: number;
+  /** Percentage of our total value won that came from this department; null when we won nothing. */
+  shareOfValueWon: number | null;
+  /** The organisation we won the most value from here. */
+  topBuyer: string | null;
+  /** The other seller listed with the most value here. */
+  leadingCompetitor: { seller: string; value: number } | null;
+  /** Whether the report was requested for this department by name. */
+  selected: boolean;
+}
+
+const normalize = (name?: string | null) => (name || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const sumValues = (records: WinRecord[]) => records.reduce((sum, record) => sum + (record.total_price || 0), 0);
+
+/** The key with the largest total, or null for an empty map. */
+const largest = (totals: Map<string, number>) =>
+  [...totals.entries()].reduce<[string, number] | null>((best, entry) => (!best || entry[1] > best[1] ? entry : best), null);
+
+/**
+ * Results per department: every department with tenders in the report, plus any
+ * requested department that had none, busiest first.
+ */
+export const computeDepartmentBreakdown = (reportData: ReportData): DepartmentBreakdown[] => {
+  const wins = reportData.data.missedButWinnable?.recentWins || [];
+  const marketWins = reportData.data.missedButWinnable?.marketWins || [];
+  const sellerName = normalize(reportData.meta.params_used.sellerName);
+  const selected = new Set(reportDepartments(reportData.meta.params_used).map(normalize));
+
+  const departments = new Map<string, { dept: string; wins: WinRecord[]; losses: WinRecord[] }>();
+  const entryFor = (dept: string) => {
+    const entry = departments.get(normalize(dept)) ?? { dept, wins: [], losses: [] };
+    departments.set(normalize(dept), entry);
+    return entry;
+  };
+  wins.forEach((win) => entryFor(win.dept || 'Unknown').wins.push(win));
+  marketWins.forEach((win) => entryFor(win.dept || 'Unknown').losses.push(win));
+  reportDepartments(reportData.meta.params_used).forEach(entryFor);
+
+  const totalWon = sumValues(wins);
+
+  return [...departments.entries()]
+    .map(([key, entry]) => {
+      const buyers = new Map<string, number>();
+      entry.wins.forEach((win) => {
+        if (win.org) buyers.set(win.org, (buyers.get(win.org) ?? 0) + (win.total_price || 0));
+      });
+      const rivals = new Map<string, number>();
+      (reportData.data.topSellersByDept || []).forEach(({ seller, dept, value }) => {
+        if (normalize(dept) === key && normalize(seller) !== sellerName) rivals.set(seller, (rivals.get(seller) ?? 0) + value);
+      });
+      const leading = largest(rivals);
+      const tenders = entry.wins.length + entry.losses.length;
+      const valueWon = sumValues(entry.wins);
+
+      return {
+        dept: entry.dept,
+        wins: entry.wins.length,
+        losses: entry.losses.length,
+        winRate: tenders > 0 ? (entry.wins.length / tenders) * 100 : null,
+        valueWon,
+        valueLost: sumValues(entry.losses),
+        shareOfValueWon: totalWon > 0 ? (valueWon / totalWon) * 100 : null,
+        topBuyer: largest(buyers)?.[0] ?? null,
+        leadingCompetitor: leading ? { seller: leading[0], value: leading[1] } : null,
+        selected: selected.has(key),
+      };
+    })
+    .sort((a, b) => b.wins + b.losses - (a.wins + a.losses) || a.dept.localeCompare(b.dept));
+};
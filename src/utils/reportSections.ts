@@ -0,0 +1,9 @@
+import { REPORT_SECTIONS } from '@/utils/pdf/registry';
+
+// Report sections a user can toggle when generating or re-rendering a report.
+// Derived from the PDF section registry; required sections are always rendered.
+export const FILTER_SECTIONS = REPORT_SECTIONS
+  .filter((section) => !section.required)
+  .map(({ id, label, defaultEnabled }) => ({ id, label, default: defaultEnabled }));
+
+export const DEFAULT_SECTIONS = FILTER_SECTIONS.filter(f => f.default).map(f => f.id);
@@ -0,0 +1,323 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { z } from 'zod';
+import type { CompetitorReportSource } from '@/utils/competitors';
+import type { CatalogueReportSource } from '@/utils/departmentCatalogue';
+import type { ItemReportSource } from '@/utils/offeredItems';
+import {
+  categorySchema,
+  departmentTotalSchema,
+  likelyWinSchema,
+  parseReportData,
+  topSellerSchema,
+  winRecordSchema,
+  type ReportData,
+} from '@/utils/reportSchema';
+
+export type StoredReport = Tables<'reports'>;
+
+// Summary columns for list views; report_data can be large and is only loaded on demand
+export type ReportSummary = Omit<StoredReport, 'report_data'>;
+
+export interface ReportParams {
+  sellerName: string;
+  /** The department analysed, sent only when exactly one is; see utils/reportScope. */
+  department?: string;
+  /** The departments analysed. With ministries and organisations empty, the report covers all of them. */
+  departments?: string[];
+  /** Ministries picked, sent apart from departments. */
+  ministries?: string[];
+  /** Buying organisations picked, sent apart from departments. */
+  organisations?: string[];
+  /** A readable label of the items offered; see utils/offeredItems. */
+  offeredItem: string;
+  /** The items offered, normalized, one per entry. */
+  offeredItems?: string[];
+  days: number;
+  limit: number;
+  email: string;
+  /** A second seller to compare with, head to head. */
+  competitorName?: string;
+}
+
+const REPORTS_BUCKET = 'reports';
+
+const SUMMARY_COLUMNS =
+  'id, user_id, seller_name, department, offered_item, params, sections, report_generated_at, pdf_path, created_at';
+
+export const buildReportFileName = (sellerName: string, date: Date = new Date(), extension = 'pdf'): string => {
+  return `${sellerName.replace(/\s+/g, '_')}_Report_${date.toISOString().split('T')[0]}.${extension}`;
+};
+
+/** Save a generated file through the browser's download prompt. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+/**
+ * Upload the PDF rendered for a report. proxy-pdf has already saved the report;
+ * the job attaches this file to it when it completes (complete_report_job).
+ */
+export const uploadReportPdf = async (userId: string, reportId: string, pdf: Blob) => {
+  const { error } = await supabase.storage
+    .from(REPORTS_BUCKET)
+    .upload(`${userId}/${reportId}.pdf`, pdf, { contentType: 'application/pdf' });
+  if (error) throw error;
+};
+
+// Strip characters that carry meaning in PostgREST filter strings
+const sanitizeSearch = (search: string) => search.replace(/[,()%*\\]/g, ' ').trim();
+
+export const fetchReports = async ({
+  page,
+  pageSize,
+  search,
+}: {
+  page: number;
+  pageSize: number;
+  search?: string;
+}) => {
+  const from = (page - 1) * pageSize;
+
+  let query = supabase
+    .from('reports')
+    .select(SUMMARY_COLUMNS, { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  const term = sanitizeSearch(search || '');
+  if (term) {
+    query = query.or(
+      `seller_name.ilike.%${term}%,department.ilike.%${term}%,offered_item.ilike.%${term}%`
+    );
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+
+  return { reports: (data || []) as ReportSummary[], total: count ?? 0 };
+};
+
+export const countReports = async () => {
+  const { count, error } = await supabase
+    .from('reports')
+    .select('id', { count: 'exact', head: true });
+  if (error) throw error;
+
+  return count ?? 0;
+};
+
+/**
+ * Load the backend JSON a report was rendered from, for re-rendering without a new
+ * backend call. Validated again since reports may predate the current schema.
+ */
+export const fetchReportData = async (reportId: string): Promise<ReportData> => {
+  const { data, error } = await supabase
+    .from('reports')
+    .select('report_data')
+    .eq('id', reportId)
+    .single();
+  if (error) throw error;
+
+  return parseReportData(data.report_data);
+};
+
+/** A report's summary and data together, for viewing it in the app. */
+export const fetchStoredReport = async (reportId: string) => {
+  const { data, error } = await supabase
+    .from('reports')
+    .select(`${SUMMARY_COLUMNS}, report_data`)
+    .eq('id', reportId)
+    .single();
+  if (error) throw error;
+
+  const { report_data, ...report } = data;
+  return { report: report as ReportSummary, reportData: parseReportData(report_data) };
+};
+
+// PostgREST caps every response (1000 rows by default), so reads across all of a
+// user's reports go a page at a time. Pages are kept small as each row carries tenders.
+const REPORT_PAGE_SIZE = 200;
+
+/** The given columns of every stored report, in creation order. */
+const fetchAllReportRows = async (columns: string, ascending: boolean): Promise<unknown[]> => {
+  const rows: unknown[] = [];
+  for (let from = 0; ; from += REPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('reports')
+      .select(columns)
+      .order('created_at', { ascending })
+      .order('id', { ascending })
+      .range(from, from + REPORT_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < REPORT_PAGE_SIZE) return rows;
+  }
+};
+
+// Only the parts of report_data competitor profiles use, picked out by the database
+const COMPETITOR_COLUMNS = [
+  'id, seller_name, offered_item, report_generated_at, created_at',
+  'top_sellers:report_data->data->topSellersByDept',
+  'recent_wins:report_data->data->missedButWinnable->recentWins',
+  'market_wins:report_data->data->missedButWinnable->marketWins',
+].join(', ');
+
+const competitorRowSchema = z.object({
+  id: z.string(),
+  seller_name: z.string(),
+  offered_item: z.string(),
+  report_generated_at: z.string().nullable(),
+  created_at: z.string(),
+  top_sellers: z.array(topSellerSchema).nullable(),
+  recent_wins: z.array(winRecordSchema).nullable(),
+  market_wins: z.array(winRecordSchema).nullable(),
+});
+
+/**
+ * Every stored report's top sellers and tenders, for building competitor
+ * profiles. Reports whose data can't be read are left out rather than failing
+ * the whole list.
+ */
+export const fetchCompetitorReports = async (): Promise<CompetitorReportSource[]> => {
+  const rows = await fetchAllReportRows(COMPETITOR_COLUMNS, true);
+
+  return rows.flatMap((row) => {
+    const result = competitorRowSchema.safeParse(row);
+    if (result.success === false) {
+      console.warn('Skipping report with unreadable competitor data:', result.error.issues);
+      return [];
+    }
+    const report = result.data;
+    return [{
+      id: report.id,
+      sellerName: report.seller_name,
+      offeredItem: report.offered_item,
+      date: report.report_generated_at ?? report.created_at,
+      topSellers: report.top_sellers ?? [],
+      recentWins: report.recent_wins ?? [],
+      marketWins: report.market_wins ?? [],
+    }];
+  });
+};
+
+// Only the parts of report_data the department catalogue uses
+const CATALOGUE_COLUMNS = [
+  'report_generated_at, created_at',
+  'all_departments:report_data->data->allDepartments',
+  'recent_wins:report_data->data->missedButWinnable->recentWins',
+  'market_wins:report_data->data->missedButWinnable->marketWins',
+].join(', ');
+
+const catalogueRowSchema = z.object({
+  report_generated_at: z.string().nullable(),
+  created_at: z.string(),
+  all_departments: z.array(departmentTotalSchema).nullable(),
+  recent_wins: z.array(winRecordSchema).nullable(),
+  market_wins: z.array(winRecordSchema).nullable(),
+});
+
+/**
+ * The department listings and tenders of every stored report, for the
+ * department catalogue. Unreadable reports are left out, as for competitors.
+ */
+export const fetchCatalogueReports = async (): Promise<CatalogueReportSource[]> => {
+  const rows = await fetchAllReportRows(CATALOGUE_COLUMNS, false);
+
+  return rows.flatMap((row) => {
+    const result = catalogueRowSchema.safeParse(row);
+    if (result.success === false) {
+      console.warn('Skipping report with unreadable department data:', result.error.issues);
+      return [];
+    }
+    const report = result.data;
+    return [{
+      date: report.report_generated_at ?? report.created_at,
+      allDepartments: report.all_departments ?? [],
+      tenders: [...(report.recent_wins ?? []), ...(report.market_wins ?? [])],
+    }];
+  });
+};
+
+// Only the parts of report_data offered-item suggestions use
+const ITEM_COLUMNS = [
+  'categories:report_data->data->categoryListing',
+  'likely_wins:report_data->data->missedButWinnable->ai->likely_wins',
+].join(', ');
+
+const itemRowSchema = z.object({
+  categories: z.array(categorySchema).nullable(),
+  likely_wins: z.array(likelyWinSchema).nullable(),
+});
+
+/**
+ * The item categories and likely wins of every stored report, for offered-item
+ * suggestions. Unreadable reports are left out, as for competitors.
+ */
+export const fetchItemReports = async (): Promise<ItemReportSource[]> => {
+  const rows = await fetchAllReportRows(ITEM_COLUMNS, false);
+
+  return rows.flatMap((row) => {
+    const result = itemRowSchema.safeParse(row);
+    if (result.success === false) {
+      console.warn('Skipping report with unreadable item data:', result.error.issues);
+      return [];
+    }
+    const report = result.data;
+    return [{
+      categories: report.categories ?? [],
+      likelyWins: (report.likely_wins ?? []).map((win) => ({
+        item: win.offered_item,
+        marketWins: win.matching_market_wins.length,
+      })),
+    }];
+  });
+};
+
+export const downloadReportPdf = async (report: ReportSummary) => {
+  if (!report.pdf_path) {
+    throw new Error('No PDF is stored for this report');
+  }
+
+  const { data, error } = await supabase.storage.from(REPORTS_BUCKET).download(report.pdf_path);
+  if (error) throw error;
+
+  downloadBlob(data, buildReportFileName(report.seller_name, new Date(report.created_at)));
+};
+
+// How long an emailed report link keeps working
+export const REPORT_LINK_DAYS = 7;
+
+/** A time-limited link to a stored report's PDF, for sharing by email. */
+export const createReportPdfLink = async (report: ReportSummary) => {
+  if (!report.pdf_path) {
+    throw new Error('No PDF is stored for this report');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(REPORTS_BUCKET)
+    .createSignedUrl(report.pdf_path, REPORT_LINK_DAYS * 24 * 60 * 60, {
+      download: buildReportFileName(report.seller_name, new Date(report.created_at)),
+    });
+  if (error) throw error;
+
+  return data.signedUrl;
+};
+
+export const downloadReportPdfById = async (reportId: string) => {
+  const { data, error } = await supabase
+    .from('reports')
+    .select(SUMMARY_COLUMNS)
+    .eq('id', reportId)
+    .single();
+  if (error) throw error;
+
+  await downloadReportPdf(data as ReportSummary);
+};
@@ -0,0 +1,75 @@
+import type { ReportData, WinRecord } from '@/utils/reportSchema';
+import { departmentLabel } from '@/utils/reportScope';
+
+// Tabular view of a report for data exports (XLSX, CSV, JSON). Unlike the PDF,
+// tables carry full row sets and raw values: numbers stay numbers and dates are
+// Date objects, so spreadsheet tools can sort, filter and sum them.
+
+export type ReportColumnType = 'text' | 'integer' | 'number' | 'currency' | 'percent' | 'date';
+
+export interface ReportColumn {
+  header: string;
+  type: ReportColumnType;
+  /** Approximate width in characters, for spreadsheet exports. */
+  width?: number;
+}
+
+export type ReportCell = string | number | Date | null;
+
+export interface ReportTable {
+  /** Short name, used as the worksheet name (max 31 characters). */
+  name: string;
+  columns: ReportColumn[];
+  rows: ReportCell[][];
+}
+
+/** Parse a backend date string; missing or unparseable dates become empty cells. */
+export const toDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const toNumber = (value?: number | null): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// Shared by every section that lists individual tenders
+export const TENDER_COLUMNS: ReportColumn[] = [
+  { header: 'Bid Number', type: 'text', width: 26 },
+  { header: 'Organization', type: 'text', width: 36 },
+  { header: 'Department', type: 'text', width: 36 },
+  { header: 'Ministry', type: 'text', width: 36 },
+  { header: 'Quantity', type: 'integer', width: 10 },
+  { header: 'Value', type: 'currency', width: 16 },
+  { header: 'End Date', type: 'date', width: 14 },
+];
+
+export const tenderRow = (win: WinRecord): ReportCell[] => [
+  win.bid_number ?? null,
+  win.org ?? null,
+  win.dept ?? null,
+  win.ministry ?? null,
+  toNumber(win.quantity),
+  toNumber(win.total_price),
+  toDate(win.ended_at),
+];
+
+/** The parameters a report was generated with, as a two-column table. */
+export const reportInfoTable = (reportData: ReportData): ReportTable => {
+  const params = reportData.meta.params_used;
+  return {
+    name: 'Report',
+    columns: [
+      { header: 'Field', type: 'text', width: 24 },
+      { header: 'Value', type: 'text', width: 60 },
+    ],
+    rows: [
+      ['Seller', params.sellerName],
+      ['Department', departmentLabel(params)],
+      ['Offered Items', params.offeredItem],
+      ['Analysis Period (days)', params.days],
+      ...(params.competitorName ? [['Compared With', params.competitorName]] : []),
+      ['Generated', toDate(reportData.meta.report_generated_at)],
+    ],
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { computePerformanceTrend, formatTrendPeriod, trendGranularity } from '@/utils/reportTrend';
+import type { WinRecord } from '@/utils/reportSchema';
+
+const win = (dept: string, ended_at: string | null, total_price = 1000): WinRecord => ({ dept, ended_at, total_price });
+
+describe('trendGranularity', () => {
+  it('uses weeks for short windows and months for long ones', () => {
+    expect(trendGranularity(30)).toBe('week');
+    expect(trendGranularity(90)).toBe('week');
+    expect(trendGranularity(180)).toBe('month');
+  });
+});
+
+describe('computePerformanceTrend', () => {
+  it('buckets wins, losses and value by week, keeping empty weeks', () => {
+    const trend = computePerformanceTrend(
+      [win('Railways', '2025-01-06', 5000), win('Railways', '2025-01-08', 3000), win('Railways', '2025-01-21', 2000)],
+      [win('Railways', '2025-01-12'), win('Railways', '2025-01-22')],
+      { days: 20, endDate: '2025-01-26T10:00:00Z' }
+    );
+
+    expect(trend.granularity).toBe('week');
+    expect(trend.periods.map(({ start, wins, losses, value }) => ({ start, wins, losses, value }))).toEqual([
+      { start: '2025-01-06', wins: 2, losses: 1, value: 8000 },
+      { start: '2025-01-13', wins: 0, losses: 0, value: 0 },
+      { start: '2025-01-20', wins: 1, losses: 1, value: 2000 },
+    ]);
+    expect(trend.periods[0].winRate).toBeCloseTo(66.67, 1);
+    expect(trend.periods[1].winRate).toBeNull();
+  });
+
+  it('reports the change from the previous period', () => {
+    const { periods } = computePerformanceTrend(
+      [win('Railways', '2024-01-10', 4000), win('Railways', '2024-02-10', 1000), win('Railways', '2024-02-12', 1000)],
+      [win('Railways', '2024-01-11'), win('Railways', '2024-01-12'), win('Railways', '2024-02-20')],
+      { days: 120, endDate: '2024-02-28' }
+    );
+    const february = periods.find((period) => period.start === '2024-02-01');
+    const january = periods.find((period) => period.start === '2024-01-01');
+
+    expect(periods[0].change).toBeNull();
+    expect(january.change.winRate).toBeNull();
+    expect(february.change).toMatchObject({ wins: 1, losses: -1, value: -2000 });
+    expect(february.change.winRate).toBeCloseTo(66.67 - 33.33, 1);
+  });
+
+  it('flags departments whose win rate fell in the second half of the window', () => {
+    const trend = computePerformanceTrend(
+      [
+        win('Railways', '2024-01-05'), win('Railways', '2024-01-10'), win('Railways', '2024-02-25'),
+        win('Defence', '2024-01-05'), win('Defence', '2024-02-25'), win('Defence', '2024-02-26'),
+        win('Health', '2024-01-05'), win('Health', '2024-02-25'),
+      ],
+      [win('Railways', '2024-02-20'), win('Railways', '2024-02-22'), win('Defence', '2024-01-06'), win('Health', '2024-02-20')],
+      { days: 60, endDate: '2024-02-29' }
+    );
+
+    // Defence improved and Health has too few tenders to compare
+    expect(trend.declining.map((category) => category.name)).toEqual(['Railways']);
+    expect(trend.declining[0]).toMatchObject({ earlier: { wins: 2, total: 2, winRate: 100 }, later: { wins: 1, total: 3 } });
+    expect(trend.declining[0].change).toBeCloseTo(-66.67, 1);
+  });
+
+  it('leaves out tenders without an end date', () => {
+    expect(computePerformanceTrend([win('Railways', null)], [], { days: 30, endDate: '2024-02-29' }).periods).toEqual([]);
+  });
+});
+
+describe('formatTrendPeriod', () => {
+  it('labels weeks by their first day and months by name', () => {
+    expect(formatTrendPeriod('2025-01-06', 'week')).toBe('06 Jan 2025');
+    expect(formatTrendPeriod('2025-01-01', 'month')).toBe('Jan 2025');
+  });
+});
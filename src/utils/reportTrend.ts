@@ -0,0 +1,175 @@
+import type { WinRecord } from '@/utils/reportSchema';
+
+// Wins and losses over the report window, bucketed by the tenders' end dates.
+// Shared by the PDF's Performance Trend section and the web viewer.
+
+export type TrendGranularity = 'week' | 'month';
+
+export interface TrendPeriod {
+  /** First day of the period, as YYYY-MM-DD (UTC). */
+  start: string;
+  wins: number;
+  /** Tenders in the period won by other sellers. */
+  losses: number;
+  /** Value of the tenders we won. */
+  value: number;
+  /** Percentage of the period's tenders we won; null when there were none. */
+  winRate: number | null;
+  /** Change from the previous period; null for the first. */
+  change: TrendChange | null;
+}
+
+export interface TrendChange {
+  wins: number;
+  losses: number;
+  value: number;
+  /** In percentage points; null unless both periods had tenders. */
+  winRate: number | null;
+}
+
+export interface CategoryTrend {
+  name: string;
+  earlier: { wins: number; total: number; winRate: number };
+  later: { wins: number; total: number; winRate: number };
+  /** Later win rate minus earlier, in percentage points. */
+  change: number;
+}
+
+export interface PerformanceTrend {
+  granularity: TrendGranularity;
+  periods: TrendPeriod[];
+  /** Departments whose win rate fell between the first and second half of the window, steepest first. */
+  declining: CategoryTrend[];
+}
+
+// A department must have this many tenders in each half to be compared at all
+export const MIN_TENDERS_PER_HALF = 2;
+// and lose at least this many points of win rate to count as declining
+export const DECLINE_THRESHOLD = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Weeks for windows up to about three months, months beyond that. */
+export const trendGranularity = (days: number): TrendGranularity => (days <= 90 ? 'week' : 'month');
+
+// Start of the week (Monday) or month containing `time`, in UTC
+const periodStart = (time: number, granularity: TrendGranularity) => {
+  const date = new Date(time);
+  if (granularity === 'month') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+};
+
+const nextPeriod = (start: number, granularity: TrendGranularity) => {
+  if (granularity === 'week') return start + 7 * DAY_MS;
+  const date = new Date(start);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+};
+
+const endTime = (record: WinRecord) => (record.ended_at ? Date.parse(record.ended_at) : NaN);
+
+const winRate = (wins: number, total: number) => (total > 0 ? (wins / total) * 100 : null);
+
+const withChanges = (periods: Omit<TrendPeriod, 'change'>[]): TrendPeriod[] =>
+  periods.map((period, index) => {
+    const previous = periods[index - 1];
+    return {
+      ...period,
+      change: previous
+        ? {
+            wins: period.wins - previous.wins,
+            losses: period.losses - previous.losses,
+            value: period.value - previous.value,
+            winRate: period.winRate !== null && previous.winRate !== null ? period.winRate - previous.winRate : null,
+          }
+        : null,
+    };
+  });
+
+/** Departments whose win rate dropped by DECLINE_THRESHOLD points or more from the first half of the window to the second. */
+const findDeclining = (wins: WinRecord[], marketWins: WinRecord[], midpoint: number): CategoryTrend[] => {
+  const halves = new Map<string, { earlier: { wins: number; total: number }; later: { wins: number; total: number } }>();
+  const count = (records: WinRecord[], won: boolean) =>
+    records.forEach((record) => {
+      const time = endTime(record);
+      if (Number.isNaN(time)) return;
+      const name = record.dept || 'Unknown';
+      const entry = halves.get(name) ?? { earlier: { wins: 0, total: 0 }, later: { wins: 0, total: 0 } };
+      const half = time < midpoint ? entry.earlier : entry.later;
+      half.total += 1;
+      if (won) half.wins += 1;
+      halves.set(name, entry);
+    });
+  count(wins, true);
+  count(marketWins, false);
+
+  return [...halves.entries()]
+    .filter(([, { earlier, later }]) => earlier.total >= MIN_TENDERS_PER_HALF && later.total >= MIN_TENDERS_PER_HALF)
+    .map(([name, { earlier, later }]) => {
+      const before = { ...earlier, winRate: winRate(earlier.wins, earlier.total) };
+      const after = { ...later, winRate: winRate(later.wins, later.total) };
+      return { name, earlier: before, later: after, change: after.winRate - before.winRate };
+    })
+    .filter((category) => category.change <= -DECLINE_THRESHOLD)
+    .sort((a, b) => a.change - b.change || a.name.localeCompare(b.name));
+};
+
+/**
+ * Bucket our wins and other sellers' wins by end date over the `days` before
+ * `endDate`, widened to cover any tender outside it. Periods with no tenders are
+ * kept so gaps show; tenders without an end date are left out.
+ */
+export const computePerformanceTrend = (
+  wins: WinRecord[],
+  marketWins: WinRecord[],
+  { days, endDate }: { days: number; endDate: string }
+): PerformanceTrend => {
+  const granularity = trendGranularity(days);
+  const times = [...wins, ...marketWins].map(endTime).filter((time) => !Number.isNaN(time));
+  if (times.length === 0) return { granularity, periods: [], declining: [] };
+
+  const windowEnd = Date.parse(endDate);
+  const first = periodStart(Math.min(windowEnd - days * DAY_MS, ...times), granularity);
+  const last = periodStart(Math.max(windowEnd, ...times), granularity);
+
+  const buckets = new Map<number, Omit<TrendPeriod, 'change'>>();
+  for (let start = first; start <= last; start = nextPeriod(start, granularity)) {
+    buckets.set(start, { start: new Date(start).toISOString().slice(0, 10), wins: 0, losses: 0, value: 0, winRate: null });
+  }
+
+  wins.forEach((win) => {
+    const time = endTime(win);
+    if (Number.isNaN(time)) return;
+    const bucket = buckets.get(periodStart(time, granularity));
+    bucket.wins += 1;
+    bucket.value += win.total_price || 0;
+  });
+  marketWins.forEach((win) => {
+    const time = endTime(win);
+    if (Number.isNaN(time)) return;
+    buckets.get(periodStart(time, granularity)).losses += 1;
+  });
+
+  const periods = [...buckets.values()].map((period) => ({
+    ...period,
+    winRate: winRate(period.wins, period.wins + period.losses),
+  }));
+
+  return {
+    granularity,
+    periods: withChanges(periods),
+    declining: findDeclining(wins, marketWins, first + (nextPeriod(last, granularity) - first) / 2),
+  };
+};
+
+/** A period's label: the week's first day ("06 Jan 2025") or the month ("Jan 2025"). */
+export const formatTrendPeriod = (start: string, granularity: TrendGranularity, locale = 'en-GB') =>
+  new Date(start).toLocaleDateString(
+    locale,
+    granularity === 'week'
+      ? { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' }
+      : { month: 'short', year: 'numeric', timeZone: 'UTC' }
+  );
+
+/** A change with its sign in front, e.g. "+3" or "-₹1.2 L". */
+export const formatSigned = (value: number, format: (magnitude: number) => string) =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ''}${format(Math.abs(value))}`;
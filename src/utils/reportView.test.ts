@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { LowCompetitionBid } from '@/utils/reportSchema';
+import { compareWins, filterTenders, groupWins, sortTenders } from '@/utils/reportView';
+
+const bids: LowCompetitionBid[] = [
+  { bid_number: 'GEM/2024/B/3', org: 'Indian Army', dept: 'Department Of Defence', total_price: 5000, ended_at: '2024-03-01', bidders_count: 2 },
+  { bid_number: 'GEM/2024/B/1', org: 'Northern Railway', dept: 'Indian Railways', total_price: 12000, ended_at: '2024-01-15', bidders_count: null },
+  { bid_number: 'GEM/2024/B/2', org: 'Indian Navy', dept: 'Department Of Defence', total_price: null, ended_at: '2024-02-10', bidders_count: 1 },
+];
+
+describe('groupWins', () => {
+  it('totals count and value per department, largest value first', () => {
+    expect(groupWins(bids, 'dept')).toEqual([
+      { name: 'Indian Railways', count: 1, value: 12000 },
+      { name: 'Department Of Defence', count: 2, value: 5000 },
+    ]);
+  });
+
+  it('groups missing names together and respects the limit', () => {
+    const wins = [{ total_price: 1 }, { dept: null, total_price: 2 }, { dept: 'A', total_price: 1 }];
+
+    expect(groupWins(wins, 'dept', 1)).toEqual([{ name: 'Unknown', count: 2, value: 3 }]);
+  });
+});
+
+describe('compareWins', () => {
+  it('counts our wins and other sellers\' per department, busiest first', () => {
+    const marketWins = [{ dept: 'Indian Railways' }, { dept: 'Indian Railways' }, { dept: 'Ministry Of Health' }];
+
+    expect(compareWins(bids, marketWins, 'dept')).toEqual([
+      { name: 'Indian Railways', ours: 1, others: 2 },
+      { name: 'Department Of Defence', ours: 2, others: 0 },
+      { name: 'Ministry Of Health', ours: 0, others: 1 },
+    ]);
+  });
+
+  it('respects the limit', () => {
+    expect(compareWins(bids, [], 'dept', 1)).toEqual([{ name: 'Department Of Defence', ours: 2, others: 0 }]);
+  });
+});
+
+describe('sortTenders', () => {
+  const order = (rows: LowCompetitionBid[]) => rows.map((row) => row.bid_number);
+
+  it('sorts numbers, dates and text in either direction', () => {
+    expect(order(sortTenders(bids, { key: 'ended_at', direction: 'asc' }))).toEqual(['GEM/2024/B/1', 'GEM/2024/B/2', 'GEM/2024/B/3']);
+    expect(order(sortTenders(bids, { key: 'org', direction: 'desc' }))).toEqual(['GEM/2024/B/1', 'GEM/2024/B/2', 'GEM/2024/B/3']);
+  });
+
+  it('puts missing values last regardless of direction', () => {
+    expect(order(sortTenders(bids, { key: 'total_price', direction: 'desc' }))).toEqual(['GEM/2024/B/1', 'GEM/2024/B/3', 'GEM/2024/B/2']);
+    expect(order(sortTenders(bids, { key: 'bidders_count', direction: 'asc' }))).toEqual(['GEM/2024/B/2', 'GEM/2024/B/3', 'GEM/2024/B/1']);
+  });
+
+  it('leaves the input untouched', () => {
+    sortTenders(bids, { key: 'bid_number', direction: 'asc' });
+
+    expect(bids[0].bid_number).toBe('GEM/2024/B/3');
+  });
+});
+
+describe('filterTenders', () => {
+  it('matches bid number, organisation or department case-insensitively', () => {
+    expect(filterTenders(bids, 'navy')).toHaveLength(1);
+    expect(filterTenders(bids, 'DEFENCE')).toHaveLength(2);
+    expect(filterTenders(bids, 'B/1')).toHaveLength(1);
+    expect(filterTenders(bids, '  ')).toBe(bids);
+  });
+});
@@ -0,0 +1,94 @@
+import type { PdfColor } from '@/utils/pdf/types';
+import type { LowCompetitionBid, WinRecord } from '@/utils/reportSchema';
+
+// Data shaping for the in-app report viewer. Kept free of React so the
+// aggregation and table behaviour can be tested on their own.
+
+export interface WinGroup {
+  name: string;
+  count: number;
+  value: number;
+}
+
+/** Total wins and value per department (or ministry/organisation), largest value first. */
+export const groupWins = (wins: WinRecord[], key: 'dept' | 'ministry' | 'org', limit = 8): WinGroup[] => {
+  const groups = new Map<string, WinGroup>();
+  wins.forEach((win) => {
+    const name = win[key] || 'Unknown';
+    const group = groups.get(name) ?? { name, count: 0, value: 0 };
+    group.count += 1;
+    group.value += win.total_price || 0;
+    groups.set(name, group);
+  });
+
+  return [...groups.values()]
+    .sort((a, b) => b.value - a.value || b.count - a.count)
+    .slice(0, limit);
+};
+
+export interface WinComparison {
+  name: string;
+  ours: number;
+  others: number;
+}
+
+/** Tenders won by us and by other sellers per department (or ministry/organisation), busiest first. */
+export const compareWins = (
+  wins: WinRecord[],
+  marketWins: WinRecord[],
+  key: 'dept' | 'ministry' | 'org',
+  limit = 6
+): WinComparison[] => {
+  const groups = new Map<string, WinComparison>();
+  const count = (records: WinRecord[], side: 'ours' | 'others') =>
+    records.forEach((win) => {
+      const name = win[key] || 'Unknown';
+      const group = groups.get(name) ?? { name, ours: 0, others: 0 };
+      group[side] += 1;
+      groups.set(name, group);
+    });
+  count(wins, 'ours');
+  count(marketWins, 'others');
+
+  return [...groups.values()]
+    .sort((a, b) => b.ours + b.others - (a.ours + a.others) || b.ours - a.ours)
+    .slice(0, limit);
+};
+
+export type TenderSortKey = 'bid_number' | 'org' | 'dept' | 'quantity' | 'total_price' | 'ended_at' | 'bidders_count';
+
+export interface TenderSort {
+  key: TenderSortKey;
+  direction: 'asc' | 'desc';
+}
+
+const sortValue = (row: LowCompetitionBid, key: TenderSortKey): string | number | null => {
+  const value = row[key];
+  if (value === null || value === undefined || value === '') return null;
+  if (key === 'ended_at') return Date.parse(value as string);
+  return value as string | number;
+};
+
+/** Sort a copy of the rows; missing values always go last. */
+export const sortTenders = <T extends LowCompetitionBid>(rows: T[], { key, direction }: TenderSort): T[] => {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = sortValue(a, key);
+    const right = sortValue(b, key);
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+    if (typeof left === 'number' && typeof right === 'number') return (left - right) * factor;
+    return String(left).localeCompare(String(right)) * factor;
+  });
+};
+
+/** Case-insensitive match on bid number, organisation, department or ministry. */
+export const filterTenders = <T extends WinRecord>(rows: T[], search: string): T[] => {
+  const term = search.trim().toLowerCase();
+  if (!term) return rows;
+  return rows.filter((row) =>
+    [row.bid_number, row.org, row.dept, row.ministry].some((field) => field?.toLowerCase().includes(term))
+  );
+};
+
+/** Use the PDF palette in charts so the viewer and the download look alike. */
+export const toCssColor = ([r, g, b]: PdfColor) => `rgb(${r}, ${g}, ${b})`;
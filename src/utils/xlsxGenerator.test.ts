@@ -0,0 +1,77 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { fixture } from '@/test/fixtures';
+import { generateXLSX } from '@/utils/xlsxGenerator';
+import { DEFAULT_SECTIONS } from '@/utils/reportSections';
+
+const readWorkbook = async (blob: Blob) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await blob.arrayBuffer());
+  return workbook;
+};
+
+describe('generateXLSX', () => {
+  it('writes a report sheet and one worksheet per selected section, in registry order', async () => {
+    const workbook = await readWorkbook(await generateXLSX(fixture('typical'), { includeSections: DEFAULT_SECTIONS }));
+
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual([
+      'Report',
+      'Bids Summary',
+      'Market Overview',
+      'Performance Trend',
+      'Department Breakdown',
+      'Top Departments',
+      'Missed Tenders',
+      'Likely Wins',
+      'Buyer Insights',
+      'Rivalry Scorecard',
+      'Low Competition',
+      'Top States',
+      'Recent Bids',
+      'Metric Definitions',
+    ]);
+  });
+
+  it('only adds the always-included sections when none are selected', async () => {
+    const workbook = await readWorkbook(await generateXLSX(fixture('typical'), { includeSections: [] }));
+
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual(['Report', 'Likely Wins', 'Recent Bids']);
+  });
+
+  it('keeps every row instead of truncating like the PDF', async () => {
+    const report = fixture('heavy');
+    const workbook = await readWorkbook(await generateXLSX(report, { includeSections: ['missedTenders', 'lowCompetition'] }));
+
+    // Plus one header row each
+    expect(workbook.getWorksheet('Recent Bids')?.rowCount).toBe(report.data.missedButWinnable.recentWins.length + 1);
+    expect(workbook.getWorksheet('Missed Tenders')?.rowCount).toBe(report.data.missedButWinnable.marketWins.length + 1);
+    expect(workbook.getWorksheet('Low Competition')?.rowCount).toBe(report.data.lowCompetitionBids.results.length + 1);
+  });
+
+  it('stores values as numbers and dates rather than formatted text', async () => {
+    const report = fixture('typical');
+    const workbook = await readWorkbook(await generateXLSX(report, { includeSections: ['topStates'] }));
+    const firstWin = report.data.missedButWinnable.recentWins[0];
+
+    const bids = workbook.getWorksheet('Recent Bids');
+    expect(bids.getRow(1).values).toEqual([
+      undefined, 'Bid Number', 'Organization', 'Department', 'Ministry', 'Quantity', 'Value', 'End Date',
+    ]);
+    const row = bids.getRow(2);
+    expect(row.getCell(5).value).toBe(firstWin.quantity);
+    expect(row.getCell(6).value).toBe(firstWin.total_price);
+    expect(row.getCell(6).numFmt).toBe('"₹"#,##0');
+    expect(row.getCell(7).value).toEqual(new Date(firstWin.ended_at));
+
+    const states = workbook.getWorksheet('Top States');
+    expect(typeof states.getRow(2).getCell(4).value).toBe('number');
+    expect(states.getRow(2).getCell(5).numFmt).toBe('0.0%');
+  });
+
+  it('leaves empty sections with just a header row', async () => {
+    const workbook = await readWorkbook(await generateXLSX(fixture('no-wins'), { includeSections: ['missedTenders'] }));
+
+    expect(workbook.getWorksheet('Missed Tenders')?.rowCount).toBe(1);
+    expect(workbook.getWorksheet('Recent Bids')?.rowCount).toBe(1);
+  });
+});
@@ -0,0 +1,61 @@
+import ExcelJS from 'exceljs';
+import type { FilterOptions, ReportData } from '@/utils/pdfGenerator';
+import { buildReportTables } from '@/utils/pdf/registry';
+import type { ReportColumnType, ReportTable } from '@/utils/reportTables';
+
+const NUMBER_FORMATS: Record<ReportColumnType, string | undefined> = {
+  text: undefined,
+  integer: '#,##0',
+  number: '#,##0.00',
+  currency: '"₹"#,##0',
+  percent: '0.0%',
+  date: 'dd-mmm-yyyy',
+};
+
+const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF2962FF' } };
+
+// Worksheet names are limited to 31 characters and can't contain []:*?/\
+const toSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+const addTableSheet = (workbook: ExcelJS.Workbook, table: ReportTable) => {
+  const sheet = workbook.addWorksheet(toSheetName(table.name), {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = table.columns.map((column) => ({
+    header: column.header,
+    width: column.width ?? 16,
+    style: NUMBER_FORMATS[column.type] ? { numFmt: NUMBER_FORMATS[column.type] } : {},
+  }));
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = HEADER_FILL;
+
+  table.rows.forEach((row) => {
+    const added = sheet.addRow(row);
+    // Dates can appear in text columns too (e.g. the report info table)
+    row.forEach((cell, index) => {
+      if (cell instanceof Date) added.getCell(index + 1).numFmt = NUMBER_FORMATS.date;
+    });
+  });
+
+  if (table.rows.length > 0) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: table.columns.length } };
+  }
+};
+
+/**
+ * Build an Excel workbook from the same data as the PDF: a sheet of report
+ * parameters, then one worksheet per selected section with its full row set.
+ */
+export const generateXLSX = async (reportData: ReportData, filters: FilterOptions): Promise<Blob> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Government Tender Performance Analysis';
+  workbook.created = new Date(reportData.meta.report_generated_at);
+
+  buildReportTables(reportData, filters.includeSections).forEach((table) => addTableSheet(workbook, table));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY: string;
+  readonly VITE_REPORT_BACKEND?: string;
+  readonly VITE_REPORT_PROXY_URL?: string;
+  readonly VITE_REPORT_HEAD_TO_HEAD?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,64 @@
+// Named tender-analytics backends the proxy can forward to. Each one is enabled by
+// setting its URL as an edge function secret, e.g.
+//
+//   supabase secrets set REPORT_BACKEND_PRODUCTION_URL=https://analytics.example.com/api/pdf
+//
+// Requests may pick a backend by name, but only one the deployment allows in
+// REPORT_BACKEND_ALLOWED (comma-separated); without it, only REPORT_BACKEND_DEFAULT
+// (or "production") is served, whatever the request names. That way a client of
+// one deployment can't spend its credits on another environment's data. Names
+// without a configured URL are rejected.
+
+export const REPORT_BACKEND_NAMES = ['production', 'staging', 'local'] as const;
+
+export type ReportBackendName = typeof REPORT_BACKEND_NAMES[number];
+
+const URL_ENV_KEYS: Record<ReportBackendName, string> = {
+  production: 'REPORT_BACKEND_PRODUCTION_URL',
+  staging: 'REPORT_BACKEND_STAGING_URL',
+  local: 'REPORT_BACKEND_LOCAL_URL',
+};
+
+export class ReportBackendConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportBackendConfigError';
+  }
+}
+
+const isBackendName = (name: string): name is ReportBackendName =>
+  (REPORT_BACKEND_NAMES as readonly string[]).includes(name);
+
+/** The backends this deployment lets requests pick: REPORT_BACKEND_ALLOWED, else only the default. */
+const allowedBackends = (defaultName: string) => {
+  const allowed = (Deno.env.get('REPORT_BACKEND_ALLOWED') ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return allowed.length > 0 ? allowed : [defaultName];
+};
+
+/** Resolve a backend name from a request to its configured URL. */
+export const resolveReportBackend = (requested?: string | null) => {
+  const defaultName = Deno.env.get('REPORT_BACKEND_DEFAULT') || 'production';
+  const name = requested || defaultName;
+
+  if (!isBackendName(name)) {
+    throw new ReportBackendConfigError(
+      `Unknown report backend "${name}". Expected one of: ${REPORT_BACKEND_NAMES.join(', ')}.`
+    );
+  }
+
+  if (!allowedBackends(defaultName).includes(name)) {
+    throw new ReportBackendConfigError(`Report backend "${name}" is not available on this deployment.`);
+  }
+
+  const url = Deno.env.get(URL_ENV_KEYS[name]);
+  if (!url) {
+    throw new ReportBackendConfigError(
+      `Report backend "${name}" is not configured. Set ${URL_ENV_KEYS[name]} for the edge function.`
+    );
+  }
+
+  return { name, url };
+};
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+
+// Shared by the web app (src/utils/reportSchema.ts) and the proxy-pdf edge function,
+// so the backend response is checked against the same contract on both sides.
+// Extra fields are passed through untouched; only what generatePDF reads is checked.
+
+// Amounts sometimes arrive as numeric strings; accept those and hand out numbers
+const amount = z.preprocess(
+  (value) => typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value) ? Number(value) : value,
+  z.number().finite(),
+);
+
+const dateString = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Expected a valid date');
+
+export const winRecordSchema = z.object({
+  bid_number: z.string().nullish(),
+  org: z.string().nullish(),
+  dept: z.string().nullish(),
+  ministry: z.string().nullish(),
+  quantity: amount.nullish(),
+  total_price: amount.nullish(),
+  ended_at: dateString.nullish(),
+  // The winning seller; sent on market wins, which other sellers won
+  seller: z.string().nullish(),
+}).passthrough();
+
+export const topSellerSchema = z.object({ seller: z.string(), dept: z.string(), value: amount });
+
+const stateSchema = z.object({ state: z.string(), value: amount, count: amount });
+
+export const categorySchema = z.object({ category: z.string(), count: amount, value: amount });
+
+// The backend's tender count for one department, market-wide
+export const departmentTotalSchema = z.object({
+  department: z.string(),
+  total_tenders: z.union([z.string(), z.number()]),
+});
+
+// A tender both the seller and the compared competitor bid on
+export const sharedBidSchema = winRecordSchema.extend({
+  state: z.string().nullish(),
+  item: z.string().nullish(),
+  our_price: amount.nullish(),
+  competitor_price: amount.nullish(),
+  // The seller who won it; missing while the tender is still open
+  winner: z.string().nullish(),
+});
+
+export const lowCompetitionBidSchema = winRecordSchema.extend({
+  bidders_count: amount.nullish(),
+});
+
+export const matchingMarketWinSchema = z.object({
+  bid_number: z.string().nullish(),
+  org: z.string().nullish(),
+  dept: z.string().nullish(),
+  quantity: amount.nullish(),
+  price_hint: amount.nullish(),
+  confidence: z.string().nullish(),
+}).passthrough();
+
+const paramsUsedSchema = z.object({
+  sellerName: z.string().min(1, 'Seller name is missing'),
+  // Only sent when exactly one department is analysed; departments is the filter
+  department: z.string().nullish(),
+  offeredItem: z.string(),
+  days: amount.refine((days) => days > 0, 'Expected a positive number of days'),
+  limit: amount,
+  email: z.string(),
+  // Departments analysed; empty for all of them. Older requests only send department.
+  departments: z.array(z.string()).nullish(),
+  // Ministries and buying organisations picked, each kind in its own field
+  ministries: z.array(z.string()).nullish(),
+  organisations: z.array(z.string()).nullish(),
+  // Items offered, one per entry; older requests only send offeredItem
+  offeredItems: z.array(z.string()).nullish(),
+  competitorName: z.string().nullish(),
+}).passthrough();
+
+export const likelyWinSchema = z.object({
+  offered_item: z.string(),
+  reason: z.string(),
+  matching_market_wins: z.array(matchingMarketWinSchema),
+}).passthrough();
+
+const aiSchema = z.object({
+  strategy_summary: z.string(),
+  likely_wins: z.array(likelyWinSchema).optional(),
+  signals: z.object({
+    org_affinity: z.array(z.object({ org: z.string(), signal: z.string() })),
+    dept_affinity: z.array(z.object({ dept: z.string(), signal: z.string() })),
+    ministry_affinity: z.array(z.object({ ministry: z.string(), signal: z.string() })),
+    quantity_ranges: z.array(z.string()),
+    price_ranges: z.array(z.string()),
+  }).passthrough(),
+  guidance: z.object({
+    note: z.string(),
+    next_steps: z.array(z.string()),
+    expansion_areas: z.array(z.string()),
+  }).passthrough().optional(),
+}).passthrough();
+
+export const reportDataSchema = z.object({
+  meta: z.object({
+    report_generated_at: dateString,
+    params_used: paramsUsedSchema,
+  }).passthrough(),
+  data: z.object({
+    sellerBids: z.array(winRecordSchema).optional(),
+    estimatedMissedValue: amount.optional(),
+    priceBand: z.object({ highest: amount, lowest: amount, average: amount }).optional(),
+    topPerformingStates: z.array(stateSchema).optional(),
+    topSellersByDept: z.array(topSellerSchema).optional(),
+    categoryListing: z.array(categorySchema).optional(),
+    allDepartments: z.array(departmentTotalSchema).optional(),
+    lowCompetitionBids: z.object({
+      results: z.array(lowCompetitionBidSchema),
+      count: amount,
+      generated_at: z.string(),
+    }).passthrough().optional(),
+    missedButWinnable: z.object({
+      seller: z.string(),
+      recentWins: z.array(winRecordSchema),
+      marketWins: z.array(winRecordSchema),
+      ai: aiSchema,
+    }).passthrough(),
+    // Sent when the request names a competitorName to compare the seller with. Only
+    // the mock backend sends it so far; the app hides comparison mode until the
+    // production backend does (VITE_REPORT_HEAD_TO_HEAD)
+    headToHead: z.object({
+      competitor: z.string(),
+      competitorWins: z.array(winRecordSchema),
+      competitorStates: z.array(stateSchema).optional(),
+      competitorCategories: z.array(categorySchema).optional(),
+      sharedBids: z.array(sharedBidSchema),
+    }).passthrough().optional(),
+  }).passthrough(),
+}).passthrough();
+
+export type WinRecord = z.infer<typeof winRecordSchema>;
+export type LowCompetitionBid = z.infer<typeof lowCompetitionBidSchema>;
+export type MatchingMarketWin = z.infer<typeof matchingMarketWinSchema>;
+export type TopSeller = z.infer<typeof topSellerSchema>;
+export type SharedBid = z.infer<typeof sharedBidSchema>;
+export type DepartmentTotal = z.infer<typeof departmentTotalSchema>;
+export type ReportData = z.infer<typeof reportDataSchema>;
+
+export type ReportDataValidationResult =
+  | { success: true; data: ReportData }
+  | { success: false; issues: string[] };
+
+// "data.missedButWinnable.recentWins[3].total_price"
+const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (formatted, key) => typeof key === 'number' ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key,
+    ''
+  ) || '(root)';
+
+/** Validate a backend response, listing every missing or malformed field. */
+export const validateReportData = (input: unknown): ReportDataValidationResult => {
+  const result = reportDataSchema.safeParse(input);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`),
+  };
+};
+
+/** Short human-readable summary of validation issues, for error messages. */
+export const summarizeIssues = (issues: string[], max = 8) => {
+  const shown = issues.slice(0, max).join('; ');
+  return issues.length > max ? `${shown}; and ${issues.length - max} more` : shown;
+};
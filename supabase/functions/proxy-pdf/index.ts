@@ -1,26 +1,59 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { summarizeIssues, validateReportData } from "../_shared/reportSchema.ts"
+import { ReportBackendConfigError, resolveReportBackend } from "../_shared/reportBackends.ts"
+
+// Provided by the Supabase edge runtime: keeps the worker alive for background work
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+// Give up on the backend well before the edge runtime's own wall-clock limit
+const BACKEND_TIMEOUT_MS = 120_000;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+
+// Service-role client: the credit functions are not executable by end users
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+);
+
+const updateJob = async (jobId: string, values: Record<string, unknown>) => {
+  const { error } = await supabaseAdmin.from('report_jobs').update(values).eq('id', jobId);
+  if (error) {
+    console.error(`Failed to update report job ${jobId}:`, error);
   }
+};
 
-  try {
-    console.log('Proxy PDF request received');
-    
-    // Get the request body
-    const requestBody = await req.json();
-    console.log('Request payload:', JSON.stringify(requestBody));
+const refundReservation = async (reservationId: string) => {
+  const { error } = await supabaseAdmin.rpc('refund_credit', { p_transaction_id: reservationId });
+  if (error) {
+    console.error(`Failed to refund credit reservation ${reservationId}:`, error);
+  }
+};
+
+// Call the backend for a queued job and save its data as a report, which charges the
+// reserved credit, or fail it and refund the credit
+const processJob = async (jobId: string, reservationId: string, apiUrl: string, requestBody: unknown) => {
+  await updateJob(jobId, { status: 'fetching_data' });
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), BACKEND_TIMEOUT_MS);
 
+  try {
     // Forward the request to the HTTP API
-    const apiUrl = 'http://161.118.181.8/api/pdf';
-    console.log('Forwarding to:', apiUrl);
+    console.log(`Job ${jobId}: forwarding to`, apiUrl);
 
     const response = await fetch(apiUrl, {
       method: 'POST',
@@ -28,15 +61,16 @@ serve(async (req) => {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
+      signal: controller.signal,
     });
 
-    console.log('API response status:', response.status);
+    console.log(`Job ${jobId}: API response status:`, response.status);
 
     // Check if the response is OK
     if (!response.ok) {
       const contentType = response.headers.get('content-type');
       let errorMessage = `Backend API error (${response.status})`;
-      
+
       // Try to get error details based on content type
       if (contentType?.includes('application/json')) {
         try {
@@ -52,55 +86,124 @@ serve(async (req) => {
         errorMessage = `Backend API returned ${response.status}: ${response.statusText}. The backend server may be down or unreachable.`;
       }
 
-      return new Response(
-        JSON.stringify({
-          error: 'Backend API Error',
-          message: errorMessage,
-          status: response.status,
-        }),
-        {
-          status: response.status,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      throw new Error(errorMessage);
     }
 
     // Get the successful response data
     const responseData = await response.json();
-    console.log('API response data received successfully');
-
-    // Return the response with CORS headers
-    return new Response(
-      JSON.stringify(responseData),
-      {
-        status: response.status,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        },
+    console.log(`Job ${jobId}: API response data received successfully`);
+
+    // Refuse to charge for data the PDF generator can't render
+    const validation = validateReportData(responseData);
+    if (validation.success === false) {
+      console.error(`Job ${jobId}: backend data failed validation:`, validation.issues);
+      throw new Error(`The backend returned incomplete or malformed report data: ${summarizeIssues(validation.issues)}.`);
+    }
+
+    // Saves the report and commits the credit together; the browser only adds the PDF
+    const { error: storeError } = await supabaseAdmin.rpc('store_report_job_result', {
+      p_job_id: jobId,
+      p_result: validation.data,
+    });
+    if (storeError) {
+      throw new Error(`Failed to save the report: ${storeError.message}`);
+    }
+  } catch (error) {
+    console.error(`Job ${jobId} failed:`, error);
+    await refundReservation(reservationId);
+
+    const errorMessage = error instanceof Error && error.name === 'AbortError'
+      ? `The report backend did not respond within ${BACKEND_TIMEOUT_MS / 1000} seconds.`
+      : error instanceof Error ? error.message : 'Unknown error occurred';
+
+    await updateJob(jobId, { status: 'failed', error: `${errorMessage} Your credit has been refunded.` });
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Identify the caller from their session token
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: { user } } = token
+    ? await supabaseAdmin.auth.getUser(token)
+    : { data: { user: null } };
+
+  if (!user) {
+    return jsonResponse({ error: 'Unauthorized', message: 'Please sign in to generate reports.' }, 401);
+  }
+
+  try {
+    console.log('Proxy PDF request received');
+
+    // Get the request body; "backend" names the target, one of the deployment's
+    // allowed backends, and "downloads" lists the extra files the browser builds
+    // once the job is done. Neither is forwarded.
+    const { backend: requestedBackend, ...jobParams } = await req.json();
+    const { downloads, ...requestBody } = jobParams;
+    console.log('Request payload:', JSON.stringify(requestBody));
+
+    // Resolve the backend before charging anything
+    let backend;
+    try {
+      backend = resolveReportBackend(requestedBackend);
+    } catch (error) {
+      if (error instanceof ReportBackendConfigError) {
+        return jsonResponse({ error: 'Invalid Backend', message: error.message }, 400);
       }
-    );
+      throw error;
+    }
+    console.log(`Using report backend "${backend.name}"`);
+
+    // Reserve one credit up front; processJob commits it with the saved report or refunds it
+    const { data: reservationId, error: reserveError } = await supabaseAdmin.rpc('reserve_credit', {
+      p_user_id: user.id,
+      p_description: `Report: ${requestBody.sellerName ?? 'unknown seller'}`,
+    });
+
+    if (reserveError) {
+      if (reserveError.message?.includes('insufficient_credits')) {
+        return jsonResponse({
+          error: 'Insufficient Credits',
+          message: 'You need 1 credit to generate a report.',
+        }, 402);
+      }
+      throw new Error(`Credit reservation failed: ${reserveError.message}`);
+    }
+
+    const { data: job, error: jobError } = await supabaseAdmin
+      .from('report_jobs')
+      .insert({
+        user_id: user.id,
+        params: jobParams,
+        sections: requestBody.filters?.includeSections ?? [],
+        credit_transaction_id: reservationId,
+      })
+      .select('id, status')
+      .single();
+
+    if (jobError) {
+      await refundReservation(reservationId);
+      throw new Error(`Failed to queue report job: ${jobError.message}`);
+    }
+
+    EdgeRuntime.waitUntil(processJob(job.id, reservationId, backend.url, requestBody));
+
+    return jsonResponse({ jobId: job.id, status: job.status }, 202);
 
   } catch (error) {
     console.error('Proxy error:', error);
-    
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    
-    return new Response(
-      JSON.stringify({
-        error: 'Proxy request failed',
-        message: errorMessage,
-      }),
-      {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+
+    return jsonResponse({
+      error: 'Proxy request failed',
+      message: errorMessage,
+    }, 500);
   }
 })
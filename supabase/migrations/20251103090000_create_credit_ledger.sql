@@ -0,0 +1,161 @@
+-- Credit ledger. The balance is the sum of a user's transactions and can only be
+-- changed through the security definer functions below, never from the client.
+--
+-- Report generation debits a credit in two steps: reserve_credit() inserts a
+-- pending -1 row before the backend is called, then commit_credit() or
+-- refund_credit() settles it once the outcome is known.
+
+create table public.credit_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount integer not null check (amount <> 0),
+  kind text not null check (kind in ('grant', 'report_debit', 'report_refund')),
+  status text not null default 'committed' check (status in ('pending', 'committed', 'refunded')),
+  reference_id uuid references public.credit_transactions (id),
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create index credit_transactions_user_id_created_at_idx
+  on public.credit_transactions (user_id, created_at desc);
+
+alter table public.credit_transactions enable row level security;
+
+create policy "Users can view their own credit transactions"
+  on public.credit_transactions for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Carry existing balances over, then retire the column
+insert into public.credit_transactions (user_id, amount, kind, description)
+select id, credits, 'grant', 'Opening balance'
+from public.profiles
+where credits > 0;
+
+alter table public.profiles drop column credits;
+
+create or replace function public.credit_balance(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(amount), 0)::integer
+  from public.credit_transactions
+  where user_id = p_user_id;
+$$;
+
+create or replace function public.get_credit_balance()
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.credit_balance(auth.uid());
+$$;
+
+create or replace function public.reserve_credit(p_user_id uuid, p_description text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transaction_id uuid;
+begin
+  -- Lock the profile row so concurrent reservations for one user are serialised
+  perform 1 from public.profiles where id = p_user_id for update;
+  if not found then
+    raise exception 'profile % not found', p_user_id;
+  end if;
+
+  if public.credit_balance(p_user_id) < 1 then
+    raise exception 'insufficient_credits';
+  end if;
+
+  insert into public.credit_transactions (user_id, amount, kind, status, description)
+  values (p_user_id, -1, 'report_debit', 'pending', p_description)
+  returning id into v_transaction_id;
+
+  return v_transaction_id;
+end;
+$$;
+
+create or replace function public.commit_credit(p_transaction_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.credit_transactions
+  set status = 'committed'
+  where id = p_transaction_id
+    and kind = 'report_debit'
+    and status = 'pending';
+
+  if not found then
+    raise exception 'no pending reservation %', p_transaction_id;
+  end if;
+end;
+$$;
+
+create or replace function public.refund_credit(p_transaction_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  update public.credit_transactions
+  set status = 'refunded'
+  where id = p_transaction_id
+    and kind = 'report_debit'
+    and status = 'pending'
+  returning user_id into v_user_id;
+
+  if not found then
+    raise exception 'no pending reservation %', p_transaction_id;
+  end if;
+
+  insert into public.credit_transactions (user_id, amount, kind, reference_id, description)
+  values (v_user_id, 1, 'report_refund', p_transaction_id, 'Report generation failed');
+end;
+$$;
+
+revoke execute on function public.credit_balance(uuid) from public, anon, authenticated;
+revoke execute on function public.reserve_credit(uuid, text) from public, anon, authenticated;
+revoke execute on function public.commit_credit(uuid) from public, anon, authenticated;
+revoke execute on function public.refund_credit(uuid) from public, anon, authenticated;
+grant execute on function public.reserve_credit(uuid, text) to service_role;
+grant execute on function public.commit_credit(uuid) to service_role;
+grant execute on function public.refund_credit(uuid) to service_role;
+grant execute on function public.get_credit_balance() to authenticated;
+
+-- New accounts start with 10 credits, now recorded as a ledger grant
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, full_name, organization_name, phone_number)
+  values (
+    new.id,
+    new.email,
+    coalesce(new.raw_user_meta_data ->> 'full_name', ''),
+    nullif(new.raw_user_meta_data ->> 'organization_name', ''),
+    nullif(new.raw_user_meta_data ->> 'phone_number', '')
+  );
+
+  insert into public.credit_transactions (user_id, amount, kind, description)
+  values (new.id, 10, 'grant', 'Welcome credits');
+
+  return new;
+end;
+$$;
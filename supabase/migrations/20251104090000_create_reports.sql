@@ -0,0 +1,53 @@
+-- Generated reports. Each row keeps the request parameters, the selected sections
+-- and the raw backend JSON so a report can be listed, searched and re-downloaded;
+-- the rendered PDF lives in the private "reports" storage bucket under <user_id>/.
+
+create table public.reports (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  seller_name text not null,
+  department text not null,
+  offered_item text not null default '',
+  params jsonb not null,
+  sections text[] not null default '{}',
+  report_generated_at timestamptz,
+  report_data jsonb not null,
+  pdf_path text,
+  created_at timestamptz not null default now()
+);
+
+create index reports_user_id_created_at_idx on public.reports (user_id, created_at desc);
+
+alter table public.reports enable row level security;
+
+create policy "Users can view their own reports"
+  on public.reports for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- No insert policy: proxy-pdf creates reports when it charges for them (see
+-- store_report_job_result)
+
+create policy "Users can delete their own reports"
+  on public.reports for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+insert into storage.buckets (id, name, public)
+values ('reports', 'reports', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own report PDFs"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'reports' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own report PDFs"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'reports' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own report PDFs"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'reports' and (storage.foldername(name))[1] = auth.uid()::text);
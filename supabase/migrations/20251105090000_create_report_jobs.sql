@@ -0,0 +1,259 @@
+-- Asynchronous report jobs. proxy-pdf inserts a job, reserves a credit and returns
+-- immediately; the backend call then runs in the background and moves the job
+-- through these states:
+--
+--   queued -> fetching_data -> rendering -> claimed -> done
+--                     \-> failed                 \-> failed
+--
+-- Once the backend data is validated, proxy-pdf stores it as a report in the
+-- user's history and commits the credit (store_report_job_result); a failure
+-- before that refunds it. "rendering" means the report waits for a browser tab
+-- to build its PDF. A tab takes the job with claim_report_job(), so only one tab
+-- renders it, and finishes it with complete_report_job() once the PDF is
+-- uploaded or fail_report_job() if it could not be. Nothing the browser does
+-- refunds the credit: a report whose PDF failed is re-rendered from Report
+-- History for free.
+
+create table public.report_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'fetching_data', 'rendering', 'claimed', 'done', 'failed')),
+  params jsonb not null,
+  sections text[] not null default '{}',
+  error text,
+  report_id uuid references public.reports (id) on delete set null,
+  credit_transaction_id uuid references public.credit_transactions (id),
+  dismissed boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index report_jobs_user_id_created_at_idx on public.report_jobs (user_id, created_at desc);
+
+alter table public.report_jobs enable row level security;
+
+create policy "Users can view their own report jobs"
+  on public.report_jobs for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can update their own report jobs"
+  on public.report_jobs for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Users may only hide jobs; status changes through proxy-pdf and the functions
+-- below
+revoke update on public.report_jobs from authenticated;
+grant update (dismissed) on public.report_jobs to authenticated;
+
+create trigger report_jobs_set_updated_at
+  before update on public.report_jobs
+  for each row execute function public.set_updated_at();
+
+-- Give a job's reserved credit back, unless it has already been settled
+create or replace function public.refund_report_job_credit(p_credit_transaction_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_credit_transaction_id is not null
+    and exists (
+      select 1 from public.credit_transactions
+      where id = p_credit_transaction_id and status = 'pending'
+    ) then
+    perform public.refund_credit(p_credit_transaction_id);
+  end if;
+end;
+$$;
+
+-- Store a job's validated backend data as a report in the user's history and
+-- charge the reserved credit, in one transaction. Called by proxy-pdf only, so
+-- the charge never depends on the browser; the PDF is attached afterwards.
+create or replace function public.store_report_job_result(p_job_id uuid, p_result jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.report_jobs;
+  v_params jsonb;
+  v_report_id uuid;
+begin
+  select * into v_job from public.report_jobs where id = p_job_id and status = 'fetching_data' for update;
+  if not found then
+    raise exception 'job_not_fetching';
+  end if;
+
+  -- The report parameters are the request without its delivery options (see getJobParams)
+  v_params := v_job.params - 'filters' - 'userId' - 'downloads';
+
+  insert into public.reports (
+    user_id, seller_name, department, offered_item, params, sections, report_generated_at, report_data
+  )
+  values (
+    v_job.user_id,
+    v_params->>'sellerName',
+    -- Same label as departmentLabel() in the web app
+    case
+      when jsonb_typeof(v_params->'departments') = 'array' then coalesce(nullif(array_to_string(array(
+        select jsonb_array_elements_text(
+          v_params->'departments'
+            || coalesce(nullif(v_params->'ministries', 'null'), '[]')
+            || coalesce(nullif(v_params->'organisations', 'null'), '[]')
+        )
+      ), ', '), ''), 'All Departments')
+      else coalesce(nullif(v_params->>'department', ''), 'All Departments')
+    end,
+    coalesce(v_params->>'offeredItem', ''),
+    v_params,
+    v_job.sections,
+    (p_result->'meta'->>'report_generated_at')::timestamptz,
+    p_result
+  )
+  returning id into v_report_id;
+
+  update public.report_jobs
+  set status = 'rendering', report_id = v_report_id
+  where id = p_job_id;
+
+  if v_job.credit_transaction_id is not null
+    and exists (
+      select 1 from public.credit_transactions
+      where id = v_job.credit_transaction_id and status = 'pending'
+    ) then
+    perform public.commit_credit(v_job.credit_transaction_id);
+  end if;
+
+  return v_report_id;
+end;
+$$;
+
+-- Take a job whose report is waiting for its PDF and return the report id. Only
+-- one caller gets it; a claim left behind by a closed tab can be taken over after
+-- five minutes. Returns null when the job is not the caller's or not ready.
+create or replace function public.claim_report_job(p_job_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report_id uuid;
+begin
+  update public.report_jobs
+  set status = 'claimed'
+  where id = p_job_id
+    and user_id = auth.uid()
+    and (status = 'rendering' or (status = 'claimed' and updated_at < now() - interval '5 minutes'))
+  returning report_id into v_report_id;
+
+  return v_report_id;
+end;
+$$;
+
+-- Attach the PDF a claimed job's tab uploaded to <user_id>/<report_id>.pdf and
+-- mark the job done
+create or replace function public.complete_report_job(p_job_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_report_id uuid;
+begin
+  update public.report_jobs
+  set status = 'done', error = null
+  where id = p_job_id and user_id = auth.uid() and status = 'claimed'
+  returning report_id into v_report_id;
+
+  if not found then
+    raise exception 'job_not_claimed';
+  end if;
+
+  update public.reports
+  set pdf_path = auth.uid()::text || '/' || v_report_id::text || '.pdf'
+  where id = v_report_id;
+end;
+$$;
+
+-- Fail a claimed job whose PDF could not be built or saved. The report and its
+-- data are already in Report History, where Re-render builds the PDF for free.
+create or replace function public.fail_report_job(p_job_id uuid, p_error text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.report_jobs
+  set status = 'failed',
+    error = left(p_error, 500) || ' The report data is saved in Report History; use Re-render there to build the PDF at no charge.'
+  where id = p_job_id and user_id = auth.uid() and status = 'claimed';
+end;
+$$;
+
+-- Fail jobs that stalled. A background fetch that never finished (e.g. the edge
+-- function was terminated) gets its reserved credit back; a report no tab built
+-- a PDF for within an hour (e.g. every tab was closed) is already paid for and
+-- stays in Report History.
+create or replace function public.expire_stale_report_jobs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_count integer := 0;
+begin
+  for v_job in
+    select id, status, credit_transaction_id
+    from public.report_jobs
+    where (status in ('queued', 'fetching_data') and updated_at < now() - interval '10 minutes')
+      or (status in ('rendering', 'claimed') and updated_at < now() - interval '1 hour')
+    for update skip locked
+  loop
+    if v_job.status in ('queued', 'fetching_data') then
+      update public.report_jobs
+      set status = 'failed', error = 'The report backend did not respond in time. Your credit has been refunded.'
+      where id = v_job.id;
+
+      perform public.refund_report_job_credit(v_job.credit_transaction_id);
+    else
+      update public.report_jobs
+      set status = 'failed',
+        error = 'The PDF was not built in time. The report data is saved in Report History; use Re-render there to build the PDF at no charge.'
+      where id = v_job.id;
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.expire_stale_report_jobs() from public, anon, authenticated;
+revoke execute on function public.refund_report_job_credit(uuid) from public, anon, authenticated;
+revoke execute on function public.store_report_job_result(uuid, jsonb) from public, anon, authenticated;
+revoke execute on function public.claim_report_job(uuid) from public, anon;
+revoke execute on function public.complete_report_job(uuid) from public, anon;
+revoke execute on function public.fail_report_job(uuid, text) from public, anon;
+grant execute on function public.claim_report_job(uuid) to authenticated;
+grant execute on function public.complete_report_job(uuid) to authenticated;
+grant execute on function public.fail_report_job(uuid, text) to authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'expire-stale-report-jobs',
+  '*/5 * * * *',
+  $$select public.expire_stale_report_jobs()$$
+);
@@ -0,0 +1,139 @@
+-- Organisations and white-label themes. Membership is recorded in
+-- organization_members, which only the service role writes (an admin adds members
+-- from the dashboard), so nobody can join an organisation by editing their own
+-- profile; profiles.organization_name is only the name given at sign-up.
+--
+-- One theme row per organisation holds the colours, texts and logo applied to
+-- its PDFs and app. Every member can read the theme; only its admins can change it.
+-- Logos live in the private "branding" storage bucket under <theme id>/.
+
+create table public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now()
+);
+
+-- A user belongs to at most one organisation
+create table public.organization_members (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  role text not null default 'member' check (role in ('member', 'admin')),
+  created_at timestamptz not null default now()
+);
+
+create index organization_members_organization_id_idx on public.organization_members (organization_id);
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+
+create policy "Users can view their own membership"
+  on public.organization_members for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+revoke insert, update, delete on public.organizations from authenticated;
+revoke insert, update, delete on public.organization_members from authenticated;
+
+create table public.organization_themes (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null unique references public.organizations (id) on delete cascade,
+  primary_color text check (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  accent_color text check (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  cover_title text,
+  footer_disclaimer text,
+  contact_line text,
+  logo_path text,
+  updated_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.organization_themes enable row level security;
+
+create or replace function public.current_organization_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select organization_id from public.organization_members where user_id = auth.uid();
+$$;
+
+create or replace function public.is_organization_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select role = 'admin' from public.organization_members where user_id = auth.uid()),
+    false
+  );
+$$;
+
+create policy "Members can view their organisation"
+  on public.organizations for select
+  to authenticated
+  using (id = public.current_organization_id());
+
+create policy "Members can view their organisation's theme"
+  on public.organization_themes for select
+  to authenticated
+  using (organization_id = public.current_organization_id());
+
+create policy "Admins can create their organisation's theme"
+  on public.organization_themes for insert
+  to authenticated
+  with check (organization_id = public.current_organization_id() and public.is_organization_admin());
+
+create policy "Admins can update their organisation's theme"
+  on public.organization_themes for update
+  to authenticated
+  using (organization_id = public.current_organization_id() and public.is_organization_admin())
+  with check (organization_id = public.current_organization_id() and public.is_organization_admin());
+
+create trigger organization_themes_set_updated_at
+  before update on public.organization_themes
+  for each row execute function public.set_updated_at();
+
+insert into storage.buckets (id, name, public)
+values ('branding', 'branding', false)
+on conflict (id) do nothing;
+
+-- The theme table's own policies limit these subqueries to the caller's organisation
+create policy "Members can read their organisation's logo"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'branding'
+    and (storage.foldername(name))[1] in (select id::text from public.organization_themes)
+  );
+
+create policy "Admins can upload their organisation's logo"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'branding'
+    and public.is_organization_admin()
+    and (storage.foldername(name))[1] in (select id::text from public.organization_themes)
+  );
+
+create policy "Admins can replace their organisation's logo"
+  on storage.objects for update
+  to authenticated
+  using (
+    bucket_id = 'branding'
+    and public.is_organization_admin()
+    and (storage.foldername(name))[1] in (select id::text from public.organization_themes)
+  );
+
+create policy "Admins can delete their organisation's logo"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'branding'
+    and public.is_organization_admin()
+    and (storage.foldername(name))[1] in (select id::text from public.organization_themes)
+  );
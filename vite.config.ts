@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -15,4 +16,16 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // harfbuzzjs (PDF text shaping) loads its WebAssembly with top-level await and
+  // finds the .wasm next to its module, so it can't be pre-bundled
+  build: {
+    target: "es2022",
+  },
+  optimizeDeps: {
+    exclude: ["harfbuzzjs"],
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
 }));